@@ -0,0 +1,140 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  updateReadmeSection,
+  renderComicMarkdown,
+  readActionInputs,
+  runAction,
+  README_MARKERS,
+} from '../src/index.js';
+import type { Response } from 'node-fetch';
+
+vi.mock('node-fetch', () => ({
+  default: vi.fn(),
+}));
+
+const { default: fetch } = await import('node-fetch');
+
+const { start, end } = README_MARKERS;
+
+describe('updateReadmeSection', () => {
+  it('replaces the content between the markers', () => {
+    const readme = `# Hello\n\n${start}\nold\n${end}\n\nFooter\n`;
+
+    expect(updateReadmeSection(readme, '![new](comic.png)')).toBe(`# Hello\n\n${start}\n![new](comic.png)\n${end}\n\nFooter\n`);
+  });
+
+  it('is idempotent', () => {
+    const once = updateReadmeSection(`${start}${end}`, 'comic');
+
+    expect(updateReadmeSection(once, 'comic')).toBe(once);
+  });
+
+  it('appends a section when there are no markers', () => {
+    expect(updateReadmeSection('# Hello\n\n', 'comic')).toBe(`# Hello\n\n${start}\ncomic\n${end}\n`);
+    expect(updateReadmeSection('', 'comic')).toBe(`${start}\ncomic\n${end}\n`);
+  });
+
+  it('rejects unbalanced or repeated markers', () => {
+    expect(() => updateReadmeSection(`${start}\n`, 'x')).toThrow(`README must contain ${start} followed by ${end}`);
+    expect(() => updateReadmeSection(`${end}\n${start}`, 'x')).toThrow('followed by');
+    expect(() => updateReadmeSection(`${start}${end}${start}${end}`, 'x')).toThrow('more than one');
+  });
+});
+
+describe('renderComicMarkdown', () => {
+  it('escapes alt text and encodes the path', () => {
+    expect(renderComicMarkdown('images/my comic.png', 'The [best]\ncomic')).toBe('![The \\[best\\] comic](images/my%20comic.png)');
+  });
+});
+
+describe('readActionInputs', () => {
+  it('applies defaults', () => {
+    expect(readActionInputs({ INPUT_SUBJECT: 'octocat' })).toMatchObject({
+      subject: 'octocat',
+      provider: 'gemini',
+      repoCount: 3,
+      imagePath: 'comic.png',
+      imageFormat: 'png',
+      readmePath: 'README.md',
+      altText: 'Comic strip about octocat',
+      commit: true,
+    });
+    expect(readActionInputs({ GITHUB_REPOSITORY_OWNER: 'github', INPUT_README_PATH: '' })).toMatchObject({
+      subject: 'github',
+      readmePath: undefined,
+    });
+  });
+
+  it('validates inputs', () => {
+    expect(() => readActionInputs({})).toThrow('Input subject is required');
+    expect(() => readActionInputs({ INPUT_SUBJECT: 'octocat', INPUT_COMMIT: 'maybe' })).toThrow('Input commit must be true or false, got "maybe"');
+    expect(() => readActionInputs({ INPUT_SUBJECT: 'octocat', INPUT_PANELS: 'four' })).toThrow('Input panels must be an integer');
+    expect(() => readActionInputs({ INPUT_SUBJECT: 'octocat', INPUT_IMAGE_PATH: 'comic.gif' })).toThrow('Input image_path must end in .png, .webp, .jpeg, .svg');
+    expect(readActionInputs({ INPUT_SUBJECT: 'octocat', INPUT_IMAGE_PATH: 'a/comic.JPG' }).imageFormat).toBe('jpeg');
+  });
+});
+
+describe('runAction', () => {
+  let workspace: string;
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    vi.mocked(fetch).mockResolvedValue({
+      ok: true,
+      json: async () => [{ name: 'rocket', description: 'Goes up', stargazers_count: 5, language: 'TypeScript' }],
+    } as unknown as Response);
+    workspace = await fs.mkdtemp(path.join(os.tmpdir(), 'comics-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(workspace, { recursive: true, force: true });
+  });
+
+  function env(inputs: Record<string, string>) {
+    return {
+      GITHUB_WORKSPACE: workspace,
+      GITHUB_OUTPUT: path.join(workspace, 'outputs.txt'),
+      INPUT_SUBJECT: 'octocat',
+      INPUT_PROVIDER: 'placeholder',
+      ...inputs,
+    };
+  }
+
+  it('writes the comic, updates the README, commits and reports outputs', async () => {
+    await fs.writeFile(path.join(workspace, 'README.md'), `# Profile\n\n${start}\n${end}\n`);
+    const git = vi.fn(async (args: string[]) => (args[0] === 'status' ? ' M README.md\n' : ''));
+
+    const outputs = await runAction(env({ INPUT_IMAGE_PATH: 'assets/comic.png', INPUT_ALT_TEXT: 'My comic' }), { git });
+
+    expect(outputs).toEqual({
+      subject: 'octocat',
+      image_path: 'assets/comic.png',
+      alt_text: 'My comic',
+      readme_updated: true,
+      committed: true,
+    });
+    const image = await fs.readFile(path.join(workspace, 'assets', 'comic.png'));
+    expect(image.subarray(1, 4).toString('ascii')).toBe('PNG');
+    expect(await fs.readFile(path.join(workspace, 'README.md'), 'utf8')).toContain(`${start}\n![My comic](assets/comic.png)\n${end}`);
+    const commands = git.mock.calls.map(([args]) => args);
+    expect(commands[1]).toEqual(['add', '--', 'assets/comic.png', 'README.md']);
+    expect(commands[2].slice(-3)).toEqual(['commit', '-m', 'Update GitHub comic for octocat']);
+    expect(commands[3]).toEqual(['push']);
+    expect(await fs.readFile(path.join(workspace, 'outputs.txt'), 'utf8')).toMatch(/^committed<<(ghadelimiter_\w+)\ntrue\n\1$/m);
+  });
+
+  it('skips the commit when nothing changed or committing is disabled', async () => {
+    const git = vi.fn(async () => '');
+
+    const unchanged = await runAction(env({ INPUT_README_PATH: '' }), { git });
+    const disabled = await runAction(env({ INPUT_README_PATH: '', INPUT_COMMIT: 'false' }), { git });
+
+    expect(unchanged).toMatchObject({ readme_updated: false, committed: false });
+    expect(disabled.committed).toBe(false);
+    expect(git).toHaveBeenCalledTimes(1);
+    await expect(fs.access(path.join(workspace, 'README.md'))).rejects.toThrow();
+  });
+});
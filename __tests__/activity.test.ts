@@ -0,0 +1,104 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  parseActivityWindow,
+  fetchUserEvents,
+  aggregateActivity,
+  createActivityPrompt,
+  previewComic,
+  type ActivityEvent,
+  type RepoInfo,
+} from '../src/index.js';
+import { jsonResponse } from './helpers.js';
+
+vi.mock('node-fetch', () => ({
+  default: vi.fn(),
+}));
+
+const { default: fetch } = await import('node-fetch');
+
+const window = parseActivityWindow('2026-01-01', '2026-12-31');
+
+const repos: RepoInfo[] = [
+  { name: 'rocket', description: 'Goes up', stargazers_count: 50, language: 'TypeScript', created_at: '2024-05-01T00:00:00Z', pushed_at: '2026-09-01T00:00:00Z' },
+  { name: 'anvil', description: 'Falls down', stargazers_count: 3, language: 'Go', created_at: '2025-01-01T00:00:00Z', pushed_at: '2025-06-01T00:00:00Z' },
+  { name: 'crab', description: 'Scuttles', stargazers_count: 1, language: 'Rust', created_at: '2026-03-04T00:00:00Z', pushed_at: '2026-03-20T00:00:00Z' },
+];
+
+const events: ActivityEvent[] = [
+  { type: 'PushEvent', repo: 'octocat/rocket', createdAt: '2026-09-01T00:00:00Z', commits: 3 },
+  { type: 'PushEvent', repo: 'octocat/rocket', createdAt: '2026-09-02T00:00:00Z', commits: 2 },
+  { type: 'IssuesEvent', repo: 'friend/lib', createdAt: '2026-09-03T00:00:00Z', commits: 0 },
+  { type: 'PushEvent', repo: 'octocat/anvil', createdAt: '2025-12-31T00:00:00Z', commits: 9 },
+];
+
+describe('parseActivityWindow', () => {
+  it('covers whole days and defaults to the last year', () => {
+    expect(window.since.toISOString()).toBe('2026-01-01T00:00:00.000Z');
+    expect(window.until.toISOString()).toBe('2026-12-31T23:59:59.999Z');
+
+    const now = new Date('2026-10-19T00:00:00Z');
+    expect(parseActivityWindow(undefined, undefined, now).since.toISOString()).toBe('2025-10-19T00:00:00.000Z');
+  });
+
+  it('rejects invalid dates and reversed windows', () => {
+    expect(() => parseActivityWindow('last year')).toThrow('Invalid since date: last year (expected YYYY-MM-DD)');
+    expect(() => parseActivityWindow('2026-12-31', '2026-01-01')).toThrow('ends before it starts');
+  });
+});
+
+describe('aggregateActivity', () => {
+  it('ranks active repositories and finds new projects, languages and busy months', () => {
+    const summary = aggregateActivity('octocat', repos, events, window);
+
+    expect(summary).toMatchObject({ since: '2026-01-01', until: '2026-12-31', events: 3, commits: 5 });
+    expect(summary.activeRepos.map((repo) => [repo.name, repo.events, repo.commits])).toEqual([
+      ['rocket', 2, 5],
+      ['friend/lib', 1, 0],
+      ['crab', 0, 0],
+    ]);
+    expect(summary.newRepos.map((repo) => repo.name)).toEqual(['crab']);
+    expect(summary.languages).toEqual(['Rust']);
+    expect(summary.busiestMonths).toEqual([{ month: '2026-09', activity: 4 }, { month: '2026-03', activity: 2 }]);
+  });
+
+  it('writes a year-in-review prompt', () => {
+    const prompt = createActivityPrompt(aggregateActivity('octocat', repos, events, window), 2);
+
+    expect(prompt).toContain('activity from 2026-01-01 to 2026-12-31');
+    expect(prompt).toContain('1. rocket [TypeScript] (⭐ 50): 2 events, 5 commits');
+    expect(prompt).toContain('2. friend/lib: 1 event');
+    expect(prompt).toContain('- crab [Rust], started 2026-03-04: Scuttles');
+    expect(prompt).toContain('Languages picked up: Rust');
+    expect(prompt).toContain('Busiest months: September 2026, March 2026');
+  });
+});
+
+describe('fetchUserEvents', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('stops paging once events are older than the window', async () => {
+    vi.mocked(fetch).mockResolvedValueOnce(jsonResponse(
+      [{ type: 'PushEvent', repo: { name: 'octocat/rocket' }, created_at: '2025-12-01T00:00:00Z', payload: { size: 4, distinct_size: 2 } }],
+      { headers: { Link: '<https://api.github.com/users/octocat/events/public?page=2>; rel="next"' } }
+    ));
+
+    const fetched = await fetchUserEvents('octocat', undefined, { since: window.since });
+
+    expect(fetched).toEqual([{ type: 'PushEvent', repo: 'octocat/rocket', createdAt: '2025-12-01T00:00:00Z', commits: 2 }]);
+    expect(vi.mocked(fetch)).toHaveBeenCalledTimes(1);
+  });
+
+  it('builds an activity comic prompt from fetched data', async () => {
+    vi.mocked(fetch).mockImplementation(async (url) => String(url).includes('/events')
+      ? jsonResponse([{ type: 'PushEvent', repo: { name: 'octocat/rocket' }, created_at: '2026-09-01T00:00:00Z', payload: { size: 1 } }])
+      : jsonResponse(repos));
+
+    const preview = await previewComic('octocat', {}, { activity: window });
+
+    expect(preview.repos).toEqual(['rocket', 'crab']);
+    expect(preview.prompt).toContain('1 public event, 1 commit pushed');
+    await expect(previewComic('org:github', {}, { activity: window })).rejects.toThrow('only available for users');
+  });
+});
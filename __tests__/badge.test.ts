@@ -0,0 +1,90 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  createProfileComics,
+  generateComicImage,
+  createPlaceholderProvider,
+  readPngSize,
+  renderComicBadge,
+} from '../src/index.js';
+
+describe('profile comics', () => {
+  let tmpDir: string;
+
+  beforeEach(async () => {
+    tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'comics-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(tmpDir, { recursive: true, force: true });
+  });
+
+  function generator() {
+    return vi.fn((login: string, outputDir: string) =>
+      generateComicImage(`A comic about ${login}`, createPlaceholderProvider(), outputDir, {
+        output: { filenameTemplate: `${login}-{timestamp}-${Math.random().toString(36).slice(2)}` },
+      }));
+  }
+
+  it('generates once for concurrent requests and reuses fresh comics', async () => {
+    const generate = generator();
+    const comics = createProfileComics({ dir: tmpDir, generate });
+
+    const [first, second] = await Promise.all([comics.latest('octocat'), comics.latest('octocat')]);
+    const again = await createProfileComics({ dir: tmpDir, generate }).latest('OctoCat');
+
+    expect(generate).toHaveBeenCalledTimes(1);
+    expect(second).toEqual(first);
+    expect(again).toEqual(first);
+    expect(first).toMatchObject({ login: 'octocat', mediaType: 'image/png' });
+    expect(readPngSize(await fs.readFile(first.thumbnailPath!))).toEqual({ width: 320, height: 320 });
+    expect(comics.nextRefresh(first).getTime()).toBe(Date.parse(first.generatedAt) + 24 * 60 * 60 * 1000);
+  });
+
+  it('serves stale comics while refreshing them in the background', async () => {
+    const generate = generator();
+    const comics = createProfileComics({ dir: tmpDir, interval: 60 * 60 * 1000, generate });
+    const first = await comics.latest('octocat');
+    const pointer = path.join(tmpDir, 'octocat', 'latest.json');
+    const stored = JSON.parse(await fs.readFile(pointer, 'utf8'));
+    await fs.writeFile(pointer, JSON.stringify({ ...stored, generatedAt: '2026-01-01T00:00:00.000Z' }));
+
+    expect((await comics.latest('octocat')).filePath).toBe(first.filePath);
+    await vi.waitFor(async () => expect((await comics.latest('octocat')).filePath).not.toBe(first.filePath));
+    await vi.waitFor(() => expect(fs.access(first.filePath)).rejects.toThrow());
+
+    // Only the newest comic, its thumbnail and the pointer remain
+    expect(await fs.readdir(path.join(tmpDir, 'octocat'))).toHaveLength(3);
+    expect(generate).toHaveBeenCalledTimes(2);
+  });
+
+  it('reports failed background refreshes and keeps the previous comic', async () => {
+    const generate = generator();
+    const onError = vi.fn();
+    const comics = createProfileComics({ dir: tmpDir, interval: 0, generate, onError });
+    const first = await comics.latest('octocat');
+    generate.mockRejectedValueOnce(new Error('provider down'));
+
+    expect(await comics.latest('octocat')).toEqual(first);
+    await vi.waitFor(() => expect(onError).toHaveBeenCalledWith('octocat', new Error('provider down')));
+    await expect(fs.access(first.filePath)).resolves.toBeUndefined();
+  });
+
+  it('rejects negative intervals', () => {
+    expect(() => createProfileComics({ dir: tmpDir, interval: -1, generate: generator() }))
+      .toThrow('Profile comic interval must be zero or more milliseconds');
+  });
+});
+
+describe('renderComicBadge', () => {
+  it('shows the login and generation date', () => {
+    const badge = renderComicBadge('octocat', new Date('2026-10-19T12:00:00Z'));
+    const svg = new TextDecoder().decode(badge.data);
+
+    expect(badge.mediaType).toBe('image/svg+xml');
+    expect(svg).toContain('aria-label="latest comic: @octocat · 2026-10-19"');
+    expect(svg).toMatch(/^<\?xml[\s\S]*<\/svg>\n$/);
+  });
+});
@@ -0,0 +1,151 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  parseBatchSubjects,
+  loadBatchFile,
+  batchDirectoryName,
+  runBatch,
+  createPlaceholderProvider,
+  BATCH_REPORT_FILE,
+  type BatchReport,
+} from '../src/index.js';
+import type { Response } from 'node-fetch';
+
+vi.mock('node-fetch', () => ({
+  default: vi.fn(),
+}));
+
+const { default: fetch } = await import('node-fetch');
+
+function mockGithub() {
+  vi.mocked(fetch).mockImplementation((async (url: string) => {
+    if (url.includes('/users/ghost/')) {
+      return { ok: false, status: 500, statusText: 'Server Error' } as unknown as Response;
+    }
+    return {
+      ok: true,
+      json: async () => [{ name: 'rocket', description: 'Goes up', stargazers_count: 5, language: 'TypeScript' }],
+    } as unknown as Response;
+  }) as any);
+}
+
+describe('batch', () => {
+  let tmpDir: string | undefined;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  afterEach(async () => {
+    if (tmpDir) {
+      await fs.rm(tmpDir, { recursive: true, force: true });
+      tmpDir = undefined;
+    }
+  });
+
+  describe('parseBatchSubjects', () => {
+    it('reads one subject per line, skipping comments and duplicates', () => {
+      const content = '# team\noctocat\n\norg:acme  # the org\nacme/rocket\noctocat\n';
+
+      expect(parseBatchSubjects(content, 'text')).toEqual(['octocat', 'org:acme', 'acme/rocket']);
+    });
+
+    it('uses the username column of a CSV file', () => {
+      const content = 'name,username\n"Octo, Cat",octocat\nHubot,hubot\n';
+
+      expect(parseBatchSubjects(content, 'csv')).toEqual(['octocat', 'hubot']);
+    });
+
+    it('falls back to the first CSV column without a header', () => {
+      expect(parseBatchSubjects('octocat,x\nhubot,y\n', 'csv')).toEqual(['octocat', 'hubot']);
+    });
+
+    it('accepts JSON strings and objects', () => {
+      const content = JSON.stringify(['octocat', { subject: 'org:acme' }, { username: 'hubot' }]);
+
+      expect(parseBatchSubjects(content, 'json')).toEqual(['octocat', 'org:acme', 'hubot']);
+    });
+
+    it('rejects malformed input and invalid subjects', () => {
+      expect(() => parseBatchSubjects('{', 'json')).toThrow('Batch file is not valid JSON');
+      expect(() => parseBatchSubjects('{}', 'json')).toThrow('Batch JSON must be an array of subjects');
+      expect(() => parseBatchSubjects('[{"name":"x"}]', 'json')).toThrow('Batch JSON entry 1 has no subject');
+      expect(() => parseBatchSubjects('octocat\nnot a user\n', 'text')).toThrow();
+    });
+  });
+
+  describe('loadBatchFile', () => {
+    it('picks the format from the extension', async () => {
+      tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'comics-'));
+      const csv = path.join(tmpDir, 'users.csv');
+      await fs.writeFile(csv, 'login\noctocat\n');
+
+      expect(await loadBatchFile(csv)).toEqual(['octocat']);
+    });
+
+    it('rejects files without subjects', async () => {
+      tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'comics-'));
+      const file = path.join(tmpDir, 'users.txt');
+      await fs.writeFile(file, '# nobody yet\n');
+
+      await expect(loadBatchFile(file)).rejects.toThrow('Batch file lists no subjects');
+    });
+  });
+
+  it('names subject directories safely', () => {
+    expect(batchDirectoryName('org:acme')).toBe('org_3aacme');
+    expect(batchDirectoryName('org-acme')).toBe('org-acme');
+    expect(batchDirectoryName('acme/rocket')).toBe('acme_2frocket');
+    expect(batchDirectoryName('acme/rocket_v2')).toBe('acme_2frocket_5fv2');
+  });
+
+  describe('runBatch', () => {
+    it('generates each subject into its own directory and records failures', async () => {
+      tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'comics-'));
+      mockGithub();
+      const progress: string[] = [];
+
+      const report = await runBatch(['octocat', 'ghost', 'hubot'], {}, {
+        outputDir: tmpDir,
+        provider: createPlaceholderProvider(),
+        // Fail ghost's 500 straight away instead of backing off for real
+        github: { retries: 0 },
+        concurrency: 2,
+        onResult: (result, completed, total) => progress.push(`${completed}/${total} ${result.subject} ${result.status}`),
+      });
+
+      expect(report).toMatchObject({ total: 3, succeeded: 2, failed: 1, skipped: 0 });
+      expect(report.results.map((result) => [result.subject, result.status])).toEqual([
+        ['octocat', 'success'],
+        ['ghost', 'failed'],
+        ['hubot', 'success'],
+      ]);
+      expect(report.results[1].error).toContain('500');
+      expect(path.dirname(report.results[0].filePath!)).toBe(path.join(tmpDir, 'octocat'));
+      expect(progress.map((line) => line.split(' ')[0]).sort()).toEqual(['1/3', '2/3', '3/3']);
+
+      const written: BatchReport = JSON.parse(await fs.readFile(path.join(tmpDir, BATCH_REPORT_FILE), 'utf8'));
+      expect(written).toEqual(report);
+    });
+
+    it('skips subjects that already succeeded when resuming', async () => {
+      tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'comics-'));
+      mockGithub();
+      const provider = createPlaceholderProvider();
+      const github = { retries: 0 };
+      await runBatch(['octocat', 'ghost'], {}, { outputDir: tmpDir, provider, github });
+      vi.mocked(fetch).mockClear();
+
+      const report = await runBatch(['octocat', 'ghost'], {}, { outputDir: tmpDir, provider, github, resume: true });
+
+      expect(report.results.map((result) => result.status)).toEqual(['skipped', 'failed']);
+      expect(vi.mocked(fetch).mock.calls.every(([url]) => String(url).includes('/users/ghost/'))).toBe(true);
+    });
+
+    it('validates concurrency', async () => {
+      await expect(runBatch(['octocat'], {}, { concurrency: 0 })).rejects.toThrow('concurrency must be a positive integer');
+    });
+  });
+});
@@ -0,0 +1,176 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  createComicCache,
+  cacheImageProvider,
+  generateGithubComic,
+  createPlaceholderProvider,
+  type ImageProvider,
+} from '../src/index.js';
+import type { Response } from 'node-fetch';
+
+vi.mock('node-fetch', () => ({
+  default: vi.fn(),
+}));
+
+const { default: fetch } = await import('node-fetch');
+
+function countingProvider(): ImageProvider & { calls: number } {
+  const placeholder = createPlaceholderProvider();
+  const provider = {
+    name: 'counting',
+    model: 'counting-1',
+    calls: 0,
+    generate: async (prompt: string, options?: { seed?: number }) => {
+      provider.calls++;
+      return placeholder.generate(prompt, options);
+    },
+  };
+  return provider;
+}
+
+describe('cache', () => {
+  let tmpDir: string;
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'comics-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(tmpDir, { recursive: true, force: true });
+  });
+
+  describe('github', () => {
+    it('reuses fresh values and reloads expired ones', async () => {
+      const cache = createComicCache({ dir: tmpDir });
+      const load = vi.fn(async () => [{ name: 'rocket' }]);
+
+      expect(await cache.github(['user', 'octocat'], 'repos for octocat', load)).toEqual([{ name: 'rocket' }]);
+      expect(await cache.github(['user', 'octocat'], 'repos for octocat', load)).toEqual([{ name: 'rocket' }]);
+      expect(load).toHaveBeenCalledTimes(1);
+      expect(cache.stats).toEqual({ hits: 1, misses: 1 });
+
+      await createComicCache({ dir: tmpDir, ttl: 0 }).github(['user', 'octocat'], 'repos for octocat', load);
+      expect(load).toHaveBeenCalledTimes(2);
+    });
+
+    it('ignores existing entries when refreshing', async () => {
+      await createComicCache({ dir: tmpDir }).github(['k'], 'k', async () => 'old');
+
+      expect(await createComicCache({ dir: tmpDir, refresh: true }).github(['k'], 'k', async () => 'new')).toBe('new');
+      expect(await createComicCache({ dir: tmpDir }).github(['k'], 'k', async () => 'unused')).toBe('new');
+    });
+
+    it('rejects negative TTLs', () => {
+      expect(() => createComicCache({ dir: tmpDir, ttl: -1 })).toThrow('Cache TTL must be zero or more milliseconds');
+    });
+  });
+
+  describe('images', () => {
+    it('stores identical images once, by content hash', async () => {
+      const cache = createComicCache({ dir: tmpDir });
+      const provider = countingProvider();
+      const cached = cacheImageProvider(provider, cache, { subject: 'octocat', dataHash: 'abc' });
+
+      const first = await cached.generate('prompt', { seed: 1 });
+      const second = await cached.generate('prompt', { seed: 1 });
+      await cacheImageProvider(provider, cache, { subject: 'hubot', dataHash: 'abc' }).generate('prompt', { seed: 1 });
+
+      expect(provider.calls).toBe(2);
+      expect(Buffer.from(second.data).equals(Buffer.from(first.data))).toBe(true);
+      expect(cached).toMatchObject({ name: 'counting', model: 'counting-1' });
+      expect(await fs.readdir(path.join(tmpDir, 'images'))).toHaveLength(1);
+      expect((await cache.list()).map((entry) => entry.label)).toEqual([
+        'counting-1 image for octocat',
+        'counting-1 image for hubot',
+      ]);
+    });
+
+    it('regenerates when the image file is missing', async () => {
+      const cache = createComicCache({ dir: tmpDir });
+      const provider = countingProvider();
+      const cached = cacheImageProvider(provider, cache);
+
+      await cached.generate('prompt');
+      await fs.rm(path.join(tmpDir, 'images'), { recursive: true });
+      await cached.generate('prompt');
+
+      expect(provider.calls).toBe(2);
+    });
+  });
+
+  describe('maintenance', () => {
+    it('prunes expired entries and unreferenced images', async () => {
+      const cache = createComicCache({ dir: tmpDir, ttl: 1000 });
+      await cache.github(['a'], 'a', async () => 1);
+      await cacheImageProvider(countingProvider(), cache).generate('prompt');
+      await fs.writeFile(path.join(tmpDir, 'images', 'orphan.png'), 'x');
+
+      expect(await cache.prune(new Date(Date.now() + 5000))).toEqual({ entries: 1, images: 1 });
+      expect((await cache.list()).map((entry) => entry.kind)).toEqual(['image']);
+    });
+
+    it('clears everything', async () => {
+      const cache = createComicCache({ dir: tmpDir });
+      await cache.github(['a'], 'a', async () => 1);
+      await cacheImageProvider(countingProvider(), cache).generate('prompt');
+
+      expect(await cache.clear()).toBe(2);
+      expect(await cache.list()).toEqual([]);
+      expect(await createComicCache({ dir: path.join(tmpDir, 'missing') }).clear()).toBe(0);
+    });
+  });
+
+  describe('generateGithubComic', () => {
+    it('skips GitHub and the image provider for identical inputs', async () => {
+      vi.mocked(fetch).mockResolvedValue({
+        ok: true,
+        json: async () => [{ name: 'rocket', description: 'Goes up', stargazers_count: 5, language: 'TypeScript' }],
+      } as unknown as Response);
+      const provider = countingProvider();
+      const outputDir = path.join(tmpDir, 'out');
+
+      await generateGithubComic('octocat', {}, { outputDir, provider, cache: createComicCache({ dir: tmpDir }) });
+      const cache = createComicCache({ dir: tmpDir });
+      const result = await generateGithubComic('octocat', {}, { outputDir, provider, cache });
+
+      expect(vi.mocked(fetch)).toHaveBeenCalledTimes(1);
+      expect(provider.calls).toBe(1);
+      expect(cache.stats).toEqual({ hits: 2, misses: 0 });
+      expect(result.metadata?.provider).toBe('counting');
+    });
+
+    it('generates again when the fetched data changes', async () => {
+      const provider = countingProvider();
+      const outputDir = path.join(tmpDir, 'out');
+      for (const name of ['rocket', 'anvil']) {
+        vi.mocked(fetch).mockResolvedValueOnce({
+          ok: true,
+          json: async () => [{ name, description: 'Goes up', stargazers_count: 5, language: 'TypeScript' }],
+        } as unknown as Response);
+        // A zero TTL always refetches GitHub data, but images stay keyed on it
+        await generateGithubComic('octocat', {}, { outputDir, provider, cache: createComicCache({ dir: tmpDir, ttl: 0 }) });
+      }
+
+      expect(provider.calls).toBe(2);
+    });
+
+    it('never shares GitHub data fetched with one token with another token', async () => {
+      vi.mocked(fetch).mockResolvedValue({
+        ok: true,
+        json: async () => [{ name: 'rocket', description: 'Goes up', stargazers_count: 5, language: 'TypeScript' }],
+      } as unknown as Response);
+      const provider = countingProvider();
+      const outputDir = path.join(tmpDir, 'out');
+
+      for (const GITHUB_TOKEN of ['ghp_private', undefined, 'ghp_other', 'ghp_private']) {
+        await generateGithubComic('octocat', { GITHUB_TOKEN }, { outputDir, provider, cache: createComicCache({ dir: tmpDir }) });
+      }
+
+      expect(vi.mocked(fetch)).toHaveBeenCalledTimes(3);
+    });
+  });
+});
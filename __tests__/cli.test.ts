@@ -0,0 +1,83 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { execFile } from 'child_process';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { EXIT_CODES } from '../src/index.js';
+
+const root = path.resolve(__dirname, '..');
+
+/**
+ * Runs the CLI from source and returns its exit code and JSON output
+ */
+function runCli(args: string[], cwd: string): Promise<{ exitCode: number; output: any }> {
+  // Keys from the developer's shell must not change what is validated
+  const { GITHUB_TOKEN, AI_GATEWAY_API_KEY, ...env } = process.env;
+  return new Promise((resolve, reject) => {
+    execFile(
+      process.execPath,
+      [path.join(root, 'node_modules/vite-node/vite-node.mjs'), '--root', root, path.join(root, 'src/cli.ts'), '--', ...args],
+      { cwd, timeout: 30_000, env },
+      (error, stdout, stderr) => {
+        try {
+          resolve({ exitCode: error ? Number(error.code) : 0, output: JSON.parse(stdout) });
+        } catch (parseError) {
+          reject(new Error(`The CLI printed no JSON: ${stderr || stdout}`));
+        }
+      }
+    );
+  });
+}
+
+describe('cli option validation', () => {
+  let tmpDir: string;
+
+  beforeAll(async () => {
+    tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'comics-'));
+    await fs.writeFile(path.join(tmpDir, 'empty.txt'), '\n');
+  });
+
+  afterAll(async () => {
+    await fs.rm(tmpDir, { recursive: true, force: true });
+  });
+
+  it.each([
+    [['--format', 'gif'], 'Unknown output format: gif'],
+    [['--theme', 'bogus'], 'Unknown theme: bogus'],
+    [['--panels', '12'], 'panels must be an integer between 1 and 8'],
+    [['--filename', '{foo}'], 'Unknown filename placeholder: {foo}'],
+    [['--enrich', 'bogus'], 'Unknown profile field group: bogus'],
+    [['--template', 'empty.txt'], 'Template file is empty'],
+  ])('exits with the configuration code for generate %j', async (options, message) => {
+    const { exitCode, output } = await runCli(['generate', 'octocat', '-p', 'placeholder', '--json', ...options], tmpDir);
+
+    expect(exitCode).toBe(EXIT_CODES.config);
+    expect(output).toEqual({
+      ok: false,
+      error: { code: 'CONFIG', message: expect.stringContaining(message), exitCode: EXIT_CODES.config },
+    });
+  });
+});
+
+describe('cli configuration file', () => {
+  let tmpDir: string;
+
+  beforeAll(async () => {
+    tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'comics-'));
+  });
+
+  afterAll(async () => {
+    await fs.rm(tmpDir, { recursive: true, force: true });
+  });
+
+  it('resolves paths from a file in a parent directory against that directory', async () => {
+    const nested = path.join(tmpDir, 'packages', 'site');
+    await fs.mkdir(nested, { recursive: true });
+    await fs.writeFile(path.join(tmpDir, 'github-comics.config.json'), JSON.stringify({ output: 'comics', cacheDir: '.cache' }));
+
+    const { exitCode, output } = await runCli(['config', '--json'], nested);
+
+    expect(exitCode).toBe(0);
+    expect(output.settings).toMatchObject({ output: path.join(tmpDir, 'comics'), cacheDir: path.join(tmpDir, '.cache') });
+  });
+});
@@ -0,0 +1,172 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  computeGrid,
+  compositeComic,
+  createThumbnail,
+  createBitmap,
+  encodePng,
+  decodePng,
+  readPngSize,
+  generateComicFromScript,
+  createPlaceholderProvider,
+  panelToImagePrompt,
+  type ComicScript,
+  type CompositePanel,
+} from '../src/index.js';
+
+const script: ComicScript = {
+  title: 'Merge Conflict',
+  panels: [
+    { scene: 'A developer stares at a red CI badge.', caption: 'Monday.', dialogue: [{ speaker: 'Dev', line: 'Not again.' }] },
+    { scene: 'The badge turns green.', dialogue: [] },
+    { scene: 'Celebration.', dialogue: [{ speaker: 'Dev', line: 'Ship it!' }] },
+  ],
+};
+
+function solidPanel(rgba: [number, number, number, number], size = 64): CompositePanel {
+  return { image: { data: encodePng(createBitmap(size, size, rgba)), mediaType: 'image/png' } };
+}
+
+describe('compositor', () => {
+  let tmpDir: string | undefined;
+
+  afterEach(async () => {
+    if (tmpDir) {
+      await fs.rm(tmpDir, { recursive: true, force: true });
+      tmpDir = undefined;
+    }
+  });
+
+  describe('computeGrid', () => {
+    it('lays out a square-ish grid by default', () => {
+      expect(computeGrid(4)).toEqual({ columns: 2, rows: 2 });
+      expect(computeGrid(3)).toEqual({ columns: 2, rows: 2 });
+      expect(computeGrid(1)).toEqual({ columns: 1, rows: 1 });
+    });
+
+    it('supports strip layouts and column overrides', () => {
+      expect(computeGrid(3, 'horizontal')).toEqual({ columns: 3, rows: 1 });
+      expect(computeGrid(3, 'vertical')).toEqual({ columns: 1, rows: 3 });
+      expect(computeGrid(6, 'grid', 3)).toEqual({ columns: 3, rows: 2 });
+      expect(computeGrid(2, 'grid', 5)).toEqual({ columns: 2, rows: 1 });
+    });
+
+    it('rejects unknown layouts', () => {
+      expect(() => computeGrid(2, 'diagonal' as never)).toThrow('Unknown layout: diagonal');
+    });
+  });
+
+  describe('PNG', () => {
+    it('round-trips a bitmap through encode and decode', () => {
+      const bitmap = createBitmap(3, 2, [10, 20, 30, 255]);
+      bitmap.data.set([200, 100, 50, 128], 4);
+
+      const decoded = decodePng(encodePng(bitmap));
+
+      expect(decoded.width).toBe(3);
+      expect(decoded.height).toBe(2);
+      expect(Array.from(decoded.data)).toEqual(Array.from(bitmap.data));
+    });
+
+    it('rejects non-PNG bytes', () => {
+      expect(() => decodePng(new TextEncoder().encode('<svg/>'))).toThrow('Not a PNG file');
+      expect(readPngSize(new Uint8Array(4))).toBeNull();
+    });
+  });
+
+  describe('compositeComic', () => {
+    it('produces a PNG strip with a title bar', () => {
+      const panels = [solidPanel([255, 0, 0, 255]), solidPanel([0, 0, 255, 255])];
+
+      const result = compositeComic(panels, { layout: 'horizontal', panelWidth: 100, gutter: 10, title: 'Hello' });
+      const bitmap = decodePng(result.data);
+
+      expect(result.mediaType).toBe('image/png');
+      expect(bitmap.width).toBe(10 + 2 * 110);
+      expect(bitmap.height).toBe(72 + 10 + 110);
+      // Title bar is black, panel centers keep their colors
+      expect(Array.from(bitmap.data.slice(0, 3))).toEqual([0, 0, 0]);
+      const center = ((72 + 10 + 50) * bitmap.width + 10 + 50) * 4;
+      expect(Array.from(bitmap.data.slice(center, center + 3))).toEqual([255, 0, 0]);
+    });
+
+    it('letters captions and dialogue onto PNG panels', () => {
+      const plain = compositeComic([solidPanel([0, 128, 0, 255])], { panelWidth: 200 });
+      const lettered = compositeComic(
+        [{ ...solidPanel([0, 128, 0, 255]), caption: 'Monday.', dialogue: [{ speaker: 'Dev', line: 'Hi' }] }],
+        { panelWidth: 200 }
+      );
+
+      expect(Buffer.from(lettered.data).equals(Buffer.from(plain.data))).toBe(false);
+    });
+
+    it('embeds panels and escapes text in SVG output', () => {
+      const result = compositeComic(
+        [{ ...solidPanel([0, 0, 0, 255]), caption: 'Tom & Jerry <3' }],
+        { format: 'svg', title: 'A "quoted" title' }
+      );
+      const svg = new TextDecoder().decode(result.data);
+
+      expect(result.mediaType).toBe('image/svg+xml');
+      expect(svg).toContain('href="data:image/png;base64,');
+      expect(svg).toContain('Tom &amp; Jerry &lt;3');
+      expect(svg).toContain('A &quot;quoted&quot; title');
+    });
+
+    it('requires PNG panels for PNG output', () => {
+      const svgPanel: CompositePanel = { image: { data: new TextEncoder().encode('<svg/>'), mediaType: 'image/svg+xml' } };
+
+      expect(() => compositeComic([svgPanel])).toThrow('PNG compositing requires PNG panels');
+      expect(() => compositeComic([svgPanel], { format: 'svg' })).not.toThrow();
+      expect(() => compositeComic([])).toThrow('At least one panel is required');
+    });
+  });
+
+  describe('createThumbnail', () => {
+    it('scales wide images down and keeps small ones', () => {
+      const wide = { data: encodePng(createBitmap(640, 480, [0, 0, 255, 255])), mediaType: 'image/png' };
+      const small = solidPanel([0, 0, 0, 255]).image;
+
+      expect(readPngSize(createThumbnail(wide).data)).toEqual({ width: 320, height: 240 });
+      expect(createThumbnail(small)).toBe(small);
+      expect(() => createThumbnail({ data: new Uint8Array([1]), mediaType: 'image/jpeg' }))
+        .toThrow('Thumbnails require a PNG image, got image/jpeg');
+    });
+  });
+
+  describe('generateComicFromScript', () => {
+    it('composites per-panel images into a strip', async () => {
+      tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'comics-'));
+
+      const result = await generateComicFromScript(script, createPlaceholderProvider(), tmpDir, {
+        perPanel: true,
+        composite: { layout: 'horizontal', panelWidth: 128 },
+      });
+
+      expect(result.fileName).toMatch(/^github-comic-\d+\.png$/);
+      expect(result.panels).toHaveLength(3);
+      expect(await fs.readdir(tmpDir)).toHaveLength(4);
+      expect(readPngSize(await fs.readFile(result.filePath))).toEqual({ width: 16 + 3 * 144, height: 72 + 16 + 144 });
+    });
+
+    it('falls back to SVG for non-PNG panels', async () => {
+      tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'comics-'));
+
+      const result = await generateComicFromScript(script, createPlaceholderProvider({ format: 'svg' }), tmpDir, {
+        perPanel: true,
+      });
+
+      expect(result.fileName).toMatch(/\.svg$/);
+      expect(await fs.readFile(result.filePath, 'utf8')).toContain('Merge Conflict');
+    });
+
+    it('keeps text out of panel prompts when lettering locally', () => {
+      expect(panelToImagePrompt(script, 0)).toContain('Dev: "Not again."');
+      expect(panelToImagePrompt(script, 0, { includeText: false })).not.toContain('Not again.');
+      expect(panelToImagePrompt(script, 0, { includeText: false })).toContain('Do not draw any text');
+    });
+  });
+});
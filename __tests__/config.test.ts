@@ -0,0 +1,130 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  configSchema,
+  findConfigFile,
+  loadConfigFile,
+  resolveSettings,
+  redactSettings,
+  parseSettingValue,
+  ConfigError,
+  type ConfigFile,
+} from '../src/index.js';
+
+describe('configuration files', () => {
+  let tmpDir: string;
+
+  beforeEach(async () => {
+    tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'comics-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(tmpDir, { recursive: true, force: true });
+  });
+
+  it('loads YAML settings and profiles', async () => {
+    const file = path.join(tmpDir, 'github-comics.config.yaml');
+    await fs.writeFile(file, [
+      'theme: noir',
+      'count: 5',
+      'profiles:',
+      '  team-roast:',
+      '    theme: roast',
+      '    format: [png, markdown]',
+      '    filename: "{subject}-{theme}"',
+    ].join('\n'));
+
+    expect(await loadConfigFile(file)).toEqual({
+      path: file,
+      settings: { theme: 'noir', count: 5 },
+      profiles: { 'team-roast': { theme: 'roast', format: ['png', 'markdown'], filename: '{subject}-{theme}' } },
+    });
+  });
+
+  it('treats an empty file as no settings', async () => {
+    const file = path.join(tmpDir, '.github-comicsrc');
+    await fs.writeFile(file, '');
+
+    expect(await loadConfigFile(file)).toMatchObject({ settings: {}, profiles: {} });
+  });
+
+  it('rejects unparseable files and unknown or invalid settings', async () => {
+    const json = path.join(tmpDir, 'github-comics.config.json');
+    await fs.writeFile(json, '{');
+    await expect(loadConfigFile(json)).rejects.toThrow(`Configuration file is not valid JSON: ${json}`);
+
+    await fs.writeFile(json, JSON.stringify({ them: 'noir' }));
+    await expect(loadConfigFile(json)).rejects.toThrow("(root): Unrecognized key(s) in object: 'them'");
+
+    await fs.writeFile(json, JSON.stringify({ profiles: { big: { count: 50 } } }));
+    const error = await loadConfigFile(json).catch((e) => e);
+    expect(error).toBeInstanceOf(ConfigError);
+    expect(error.message).toContain('profiles.big.count: Number must be less than or equal to 10');
+  });
+
+  it('finds the nearest file in a parent directory', async () => {
+    const nested = path.join(tmpDir, 'a', 'b');
+    await fs.mkdir(nested, { recursive: true });
+    await fs.writeFile(path.join(tmpDir, '.github-comicsrc.yml'), 'theme: noir\n');
+    await fs.writeFile(path.join(tmpDir, 'a', 'github-comics.config.json'), '{}');
+
+    expect(await findConfigFile(nested)).toBe(path.join(tmpDir, 'a', 'github-comics.config.json'));
+  });
+
+  it('resolves relative paths against the file, not the working directory', async () => {
+    const nested = path.join(tmpDir, 'packages', 'site');
+    await fs.mkdir(nested, { recursive: true });
+    await fs.writeFile(path.join(tmpDir, '.github-comicsrc.yml'), [
+      'output: comics',
+      'template: prompts/roast.txt',
+      'cacheDir: /var/cache/comics',
+      'profiles:',
+      '  ci:',
+      '    historyDir: ../history',
+    ].join('\n'));
+
+    const file = await loadConfigFile((await findConfigFile(nested))!);
+
+    expect(file.settings).toEqual({
+      output: path.join(tmpDir, 'comics'),
+      template: path.join(tmpDir, 'prompts', 'roast.txt'),
+      cacheDir: '/var/cache/comics',
+    });
+    expect(file.profiles.ci.historyDir).toBe(path.join(path.dirname(tmpDir), 'history'));
+  });
+});
+
+describe('resolveSettings', () => {
+  const file: ConfigFile = {
+    path: '/project/github-comics.config.yaml',
+    settings: { theme: 'noir', count: 5, token: 'from-file' },
+    profiles: { 'team-roast': { theme: 'roast', provider: 'placeholder' } },
+  };
+
+  it('layers the file, the profile and the environment', () => {
+    const resolved = resolveSettings(file, { profile: 'team-roast', env: { GITHUB_TOKEN: 'from-env' } });
+
+    expect(resolved.settings).toEqual({ theme: 'roast', count: 5, token: 'from-env', provider: 'placeholder' });
+    expect(resolved.sources).toEqual({ theme: 'profile', count: 'file', token: 'env', provider: 'profile' });
+    expect(resolved).toMatchObject({ profile: 'team-roast', file: file.path });
+  });
+
+  it('rejects unknown profiles', () => {
+    expect(() => resolveSettings(file, { profile: 'nope' })).toThrow('Unknown profile "nope" in /project/github-comics.config.yaml (available: team-roast)');
+    expect(() => resolveSettings(undefined, { profile: 'team-roast' })).toThrow('needs a configuration file');
+  });
+
+  it('redacts credentials and converts option values', () => {
+    expect(redactSettings({ token: 'ghp_abcdefgh1234', apiKey: 'short', theme: 'noir' }))
+      .toEqual({ token: '****1234', apiKey: '****', theme: 'noir' });
+    expect(parseSettingValue('count', '3')).toBe(3);
+    expect(parseSettingValue('theme', 'noir')).toBe('noir');
+  });
+
+  it('extends configSchema with every setting', () => {
+    expect(configSchema.safeParse({ AI_GATEWAY_API_KEY: 'key', theme: 'noir', count: 4 }).success).toBe(true);
+    expect(configSchema.safeParse({ AI_GATEWAY_API_KEY: 'key', count: 40 }).success).toBe(false);
+  });
+});
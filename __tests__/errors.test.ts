@@ -0,0 +1,142 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  fetchRepositories,
+  generateComicImage,
+  parseSubject,
+  describeError,
+  parseOutputFormats,
+  renderFilename,
+  resolveComicStyle,
+  renderTemplate,
+  loadTemplateFile,
+  parseFieldGroups,
+  ComicError,
+  ConfigError,
+  NotFoundError,
+  GenerationError,
+  GenerationRefusedError,
+  FileSystemError,
+  EXIT_CODES,
+  type ThemeName,
+  type ImageProvider,
+} from '../src/index.js';
+import type { Response } from 'node-fetch';
+
+vi.mock('node-fetch', () => ({
+  default: vi.fn(),
+}));
+
+const { default: fetch } = await import('node-fetch');
+
+function catchError(fn: () => unknown): unknown {
+  try {
+    fn();
+  } catch (error) {
+    return error;
+  }
+  throw new Error('Expected an error');
+}
+
+function failingProvider(error: unknown): ImageProvider {
+  return {
+    name: 'broken',
+    generate: async () => {
+      throw error;
+    },
+  };
+}
+
+describe('typed errors', () => {
+  let tmpDir: string;
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'comics-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(tmpDir, { recursive: true, force: true });
+  });
+
+  it('reports invalid subjects as ConfigError', () => {
+    expect(() => parseSubject('not a user!')).toThrow(ConfigError);
+  });
+
+  it('reports invalid options as ConfigError', async () => {
+    const info = { prompt: 'prompt', user: 'octocat', subject: 'octocat', theme: 'classic', startedAt: new Date(), provider: { name: 'placeholder' } };
+    const template = path.join(tmpDir, 'empty.txt');
+    await fs.writeFile(template, '\n');
+
+    for (const invalid of [
+      () => parseOutputFormats('gif'),
+      () => parseOutputFormats(','),
+      () => renderFilename('{foo}', info),
+      () => renderFilename('out/{user}', info),
+      () => resolveComicStyle({ theme: 'bogus' as ThemeName }),
+      () => resolveComicStyle({ panels: 12 }),
+      () => renderTemplate('{{nope}}', {}),
+      () => parseFieldGroups('bogus'),
+    ]) {
+      expect(describeError(catchError(invalid))).toMatchObject({ code: 'CONFIG', exitCode: EXIT_CODES.config });
+    }
+    expect(describeError(await loadTemplateFile(template).catch((e) => e))).toMatchObject({ code: 'CONFIG' });
+  });
+
+  it('reports a missing user as NotFoundError', async () => {
+    vi.mocked(fetch).mockResolvedValue({ ok: false, status: 404, statusText: 'Not Found' } as unknown as Response);
+
+    const error = await fetchRepositories('ghost').catch((e) => e);
+
+    expect(error).toBeInstanceOf(NotFoundError);
+    expect(error).toMatchObject({ code: 'NOT_FOUND', exitCode: EXIT_CODES.notFound, subject: 'ghost' });
+    expect(error.message).toBe('Failed to fetch repos for ghost: 404 User not found');
+  });
+
+  it('wraps provider failures in GenerationError and keeps the cause', async () => {
+    const cause = new Error('socket hang up');
+
+    const error = await generateComicImage('prompt', failingProvider(cause), tmpDir).catch((e) => e);
+
+    expect(error).toBeInstanceOf(GenerationError);
+    expect(error.message).toBe('Failed to generate comic: socket hang up');
+    expect(error.cause).toBe(cause);
+  });
+
+  it('passes typed errors through unchanged', async () => {
+    const refused = new GenerationRefusedError('No images were generated (finish reason: content-filter)', 'content-filter');
+
+    await expect(generateComicImage('prompt', failingProvider(refused), tmpDir)).rejects.toBe(refused);
+    expect(describeError(refused)).toEqual({
+      code: 'GENERATION_REFUSED',
+      message: refused.message,
+      exitCode: EXIT_CODES.generationRefused,
+    });
+  });
+
+  it('reports file system failures as FileSystemError', async () => {
+    const file = path.join(tmpDir, 'file');
+    await fs.writeFile(file, '');
+    const provider: ImageProvider = {
+      name: 'ok',
+      generate: async () => ({ data: Buffer.from('image'), mediaType: 'image/png' }),
+    };
+
+    // The output directory is a file, so creating it fails
+    const error = await generateComicImage('prompt', provider, path.join(file, 'out')).catch((e) => e);
+
+    expect(error).toBeInstanceOf(FileSystemError);
+    expect(error).toBeInstanceOf(ComicError);
+    expect(error.exitCode).toBe(EXIT_CODES.filesystem);
+  });
+
+  it('describes untyped errors', async () => {
+    const enoent = await fs.readFile(path.join(tmpDir, 'missing')).catch((e) => e);
+
+    expect(describeError(enoent)).toMatchObject({ code: 'FILESYSTEM', exitCode: EXIT_CODES.filesystem });
+    expect(describeError(new Error('boom'))).toEqual({ code: 'ERROR', message: 'boom', exitCode: 1 });
+    expect(describeError('boom')).toEqual({ code: 'ERROR', message: 'boom', exitCode: 1 });
+  });
+});
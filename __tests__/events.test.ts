@@ -0,0 +1,165 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  generateGithubComic,
+  retryImageProvider,
+  runBatch,
+  createPlaceholderProvider,
+  createPlaceholderScriptWriter,
+  delay,
+  AbortedError,
+  GenerationRefusedError,
+  EXIT_CODES,
+  type ComicEvent,
+  type ImageProvider,
+} from '../src/index.js';
+import { jsonResponse } from './helpers.js';
+
+vi.mock('node-fetch', () => ({
+  default: vi.fn(),
+}));
+
+const { default: fetch } = await import('node-fetch');
+
+const repos = [
+  { name: 'rocket', description: 'Goes up', stargazers_count: 50, language: 'TypeScript' },
+  { name: 'crab', description: 'Scuttles', stargazers_count: 10, language: 'Rust' },
+];
+
+describe('progress events', () => {
+  let tmpDir: string;
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    vi.mocked(fetch).mockResolvedValue(jsonResponse(repos));
+    tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'comics-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(tmpDir, { recursive: true, force: true });
+  });
+
+  it('reports each step of a run with timings', async () => {
+    const events: ComicEvent[] = [];
+
+    const result = await generateGithubComic('octocat', {}, {
+      outputDir: tmpDir,
+      provider: createPlaceholderProvider(),
+      scriptWriter: createPlaceholderScriptWriter(),
+      perPanel: true,
+      style: { panels: 2 },
+      onEvent: (event) => events.push(event),
+    });
+
+    expect(events.map((event) => (event.type === 'generation-start' || event.type === 'image-saved'
+      ? `${event.type}:${event.stage}${event.index ? ` ${event.index}` : ''}`
+      : event.type))).toEqual([
+      'fetch-start',
+      'repos-fetched',
+      'prompt-built',
+      'generation-start:script',
+      'generation-start:panel 1',
+      'image-saved:panel 1',
+      'generation-start:panel 2',
+      'image-saved:panel 2',
+      'image-saved:comic',
+    ]);
+    expect(events[0]).toMatchObject({ subject: 'octocat', forge: 'github' });
+    expect(events[1]).toMatchObject({ count: 2 });
+    expect(events[2]).toMatchObject({ repos: ['rocket', 'crab'] });
+    expect(events.at(-1)).toMatchObject({ filePath: result.filePath });
+    expect(events.every((event, idx) => idx === 0 || event.elapsedMs >= events[idx - 1].elapsedMs)).toBe(true);
+  });
+
+  it('reports image retries and the error that ends a run', async () => {
+    const events: ComicEvent[] = [];
+    const refusing: ImageProvider = {
+      name: 'refusing',
+      generate: async () => {
+        throw new GenerationRefusedError('No images were generated');
+      },
+    };
+
+    await expect(generateGithubComic('octocat', {}, {
+      outputDir: tmpDir,
+      provider: refusing,
+      retry: { retries: 1, sleep: async () => {} },
+      onEvent: (event) => events.push(event),
+    })).rejects.toThrow(GenerationRefusedError);
+
+    expect(events.slice(-2)).toMatchObject([
+      { type: 'retry', source: 'image', attempt: 1, reason: 'No images were generated' },
+      { type: 'error', error: expect.any(GenerationRefusedError) },
+    ]);
+  });
+});
+
+describe('cancellation', () => {
+  let tmpDir: string;
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    vi.mocked(fetch).mockResolvedValue(jsonResponse(repos));
+    tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'comics-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(tmpDir, { recursive: true, force: true });
+  });
+
+  it('stops before the next image once the signal is aborted', async () => {
+    const controller = new AbortController();
+    const generate = vi.fn(async (prompt: string) => {
+      controller.abort();
+      return createPlaceholderProvider().generate(prompt);
+    });
+
+    const run = generateGithubComic('octocat', {}, {
+      outputDir: tmpDir,
+      provider: { name: 'fake', generate },
+      scriptWriter: createPlaceholderScriptWriter(),
+      perPanel: true,
+      signal: controller.signal,
+    });
+
+    await expect(run).rejects.toThrow(AbortedError);
+    await expect(run).rejects.toMatchObject({ code: 'ABORTED', exitCode: EXIT_CODES.aborted });
+    expect(generate).toHaveBeenCalledTimes(1);
+  });
+
+  it('cuts retry waits short and never calls GitHub after an abort', async () => {
+    const controller = new AbortController();
+    const refusing = retryImageProvider({
+      name: 'refusing',
+      generate: async () => {
+        throw new GenerationRefusedError('No images were generated');
+      },
+    }, { retryDelay: 60_000 });
+    setTimeout(() => controller.abort(), 10);
+
+    await expect(refusing.generate('prompt', { signal: controller.signal })).rejects.toThrow(AbortedError);
+    await expect(delay(10, controller.signal)).rejects.toThrow('Comic generation was cancelled');
+    await expect(generateGithubComic('octocat', {}, {
+      provider: createPlaceholderProvider(),
+      signal: controller.signal,
+    })).rejects.toThrow(AbortedError);
+    expect(fetch).not.toHaveBeenCalled();
+  });
+
+  it('stops a batch from starting further subjects', async () => {
+    const controller = new AbortController();
+
+    await expect(runBatch(['alice', 'bob'], {}, {
+      outputDir: tmpDir,
+      provider: createPlaceholderProvider(),
+      concurrency: 1,
+      signal: controller.signal,
+      onResult: () => controller.abort(),
+    })).rejects.toThrow(AbortedError);
+
+    const report = JSON.parse(await fs.readFile(path.join(tmpDir, 'batch-report.json'), 'utf8'));
+    expect(report.results.map((result: { subject: string }) => result.subject)).toEqual(['alice']);
+  });
+});
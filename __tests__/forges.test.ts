@@ -0,0 +1,106 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import type * as http from 'http';
+import { createForge, previewComic, ConfigError, NotFoundError } from '../src/index.js';
+import { startMockApi, byPath } from './helpers.js';
+
+const readme = { content: Buffer.from('# Widget\n\nWidget renders dashboards.\n').toString('base64'), encoding: 'base64' };
+
+describe('forges', () => {
+  let server: http.Server | undefined;
+
+  afterEach(async () => {
+    if (server) {
+      await new Promise((resolve) => server!.close(resolve));
+      server = undefined;
+    }
+  });
+
+  it('lists GitLab projects across pages and reads project stories', async () => {
+    const mock = await startMockApi(byPath((baseUrl) => ({
+      '/api/users/ada/projects?per_page=100&order_by=last_activity_at': {
+        headers: { Link: `<${baseUrl}/users/ada/projects?page=2>; rel="next"` },
+        body: [{ path: 'widget', description: 'Dashboards', star_count: 12, forks_count: 2, visibility: 'public', topics: ['charts'] }],
+      },
+      '/api/users/ada/projects?page=2': {
+        body: [{ path: 'fork', star_count: 0, forked_from_project: { id: 1 }, visibility: 'private' }],
+      },
+      '/api/projects/ada%2Fwidget': {
+        body: { path: 'widget', star_count: 12, readme_url: 'https://gitlab.example.com/ada/widget/-/blob/main/README.md' },
+      },
+      '/api/projects/ada%2Fwidget/repository/files/README.md?ref=main': { body: readme },
+      '/api/projects/ada%2Fwidget/languages': { body: { Go: 20, TypeScript: 80 } },
+      '/api/projects/ada%2Fwidget/releases?per_page=5': { body: [{ tag_name: 'v1.0.0', name: 'First', released_at: '2026-01-01T00:00:00Z' }] },
+      '/api/projects/ada%2Fwidget/repository/contributors?order_by=commits&sort=desc&per_page=5': { body: [{ name: 'Ada', commits: 40 }] },
+    })), '/api');
+    server = mock.server;
+    const forge = createForge('gitlab', { baseUrl: `${mock.baseUrl}/`, token: 'glpat' });
+
+    const repos = await forge.fetchUserRepositories('ada');
+    const story = await forge.fetchRepositoryStory('ada', 'widget');
+
+    expect(forge.baseUrl).toBe(mock.baseUrl);
+    expect(repos).toMatchObject([
+      { name: 'widget', description: 'Dashboards', stargazers_count: 12, fork: false, private: false, topics: ['charts'] },
+      { name: 'fork', fork: true, private: true },
+    ]);
+    expect(story).toMatchObject({
+      owner: 'ada',
+      repo: { name: 'widget', language: 'TypeScript' },
+      readmeSummary: 'Widget renders dashboards.',
+      releases: [{ tag: 'v1.0.0', name: 'First', publishedAt: '2026-01-01T00:00:00Z' }],
+      contributors: [{ login: 'Ada', contributions: 40 }],
+    });
+    expect(mock.requests[0].headers.authorization).toBe('Bearer glpat');
+    await expect(forge.fetchOrganizationRepositories('nobody')).rejects.toThrow(NotFoundError);
+  });
+
+  it('reads Gitea and Forgejo repositories and counts commit authors', async () => {
+    const mock = await startMockApi(byPath(() => ({
+      '/api/orgs/guild/repos?limit=50': {
+        body: [{ name: 'anvil', description: 'Falls down', stars_count: 3, language: 'Rust', fork: false, updated_at: '2026-05-01T00:00:00Z' }],
+      },
+      '/api/repos/guild/anvil': { body: { name: 'anvil', stars_count: 3, language: 'Rust' } },
+      '/api/repos/guild/anvil/contents/README.md': { body: readme },
+      '/api/repos/guild/anvil/releases?limit=5': { body: [] },
+      '/api/repos/guild/anvil/commits?limit=50&stat=false': {
+        body: [{ author: { login: 'grace' } }, { commit: { author: { name: 'Ada' } } }, { author: { login: 'grace' } }],
+      },
+    })), '/api');
+    server = mock.server;
+    const forge = createForge('forgejo', { baseUrl: mock.baseUrl });
+
+    const repos = await forge.fetchOrganizationRepositories('guild');
+    const story = await forge.fetchRepositoryStory('guild', 'anvil');
+
+    expect(repos).toMatchObject([{ name: 'anvil', stargazers_count: 3, language: 'Rust', pushed_at: '2026-05-01T00:00:00Z' }]);
+    expect(story.contributors).toEqual([{ login: 'grace', contributions: 2 }, { login: 'Ada', contributions: 1 }]);
+    await expect(forge.fetchRepositoryStory('guild', 'missing')).rejects.toThrow(NotFoundError);
+  });
+
+  it('requires an http(s) API URL for GitHub Enterprise', () => {
+    expect(() => createForge('github-enterprise')).toThrow(ConfigError);
+    expect(() => createForge('gitlab', { baseUrl: 'file:///etc' })).toThrow('Invalid API URL for gitlab');
+    expect(() => createForge('sourcehut' as any)).toThrow('Unknown forge: sourcehut');
+    expect(createForge('github-enterprise', { baseUrl: 'https://github.example.com/api/v3' }).baseUrl)
+      .toBe('https://github.example.com/api/v3');
+  });
+
+  it('builds comics from another forge with its own token', async () => {
+    const mock = await startMockApi(byPath(() => ({
+      '/api/groups/guild/projects?per_page=100&order_by=last_activity_at': {
+        body: [{ path: 'widget', description: 'Dashboards', star_count: 12, visibility: 'public' }],
+      },
+    })), '/api');
+    server = mock.server;
+
+    const preview = await previewComic('org:guild', { GITHUB_TOKEN: 'ghp', GITLAB_TOKEN: 'glpat' }, {
+      forge: 'gitlab',
+      github: { baseUrl: mock.baseUrl },
+    });
+
+    expect(preview.repos).toEqual(['widget']);
+    expect(mock.requests[0].headers.authorization).toBe('Bearer glpat');
+    await expect(previewComic('ada', {}, { forge: 'gitlab', github: { baseUrl: mock.baseUrl }, enrich: ['stats'] }))
+      .rejects.toThrow('only available on GitHub');
+  });
+});
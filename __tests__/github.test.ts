@@ -0,0 +1,200 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import type * as http from 'http';
+import {
+  createGithubClient,
+  fetchRepositories,
+  parseRateLimit,
+  MAX_SHARED_IDENTITIES,
+  type CachedGithubResponse,
+  type GithubClientOptions,
+} from '../src/index.js';
+import { startMockApi } from './helpers.js';
+
+function resetIn(seconds: number): string {
+  return String(Math.floor(Date.now() / 1000) + seconds);
+}
+
+describe('GitHub client', () => {
+  let server: http.Server | undefined;
+  const sleeps: number[] = [];
+
+  afterEach(async () => {
+    sleeps.length = 0;
+    if (server) {
+      await new Promise((resolve) => server!.close(resolve));
+      server = undefined;
+    }
+  });
+
+  function client(baseUrl: string, options: GithubClientOptions = {}) {
+    return createGithubClient({
+      baseUrl,
+      retryDelay: 10,
+      etags: new Map(),
+      sleep: async (ms) => {
+        sleeps.push(ms);
+      },
+      ...options,
+    });
+  }
+
+  it('reads rate limit headers', () => {
+    const headers = new Map([['x-ratelimit-limit', '60'], ['x-ratelimit-remaining', '59'], ['x-ratelimit-reset', '1700000000']]);
+
+    expect(parseRateLimit({ get: (name) => headers.get(name) ?? null })).toEqual({
+      limit: 60,
+      remaining: 59,
+      resetAt: new Date(1_700_000_000_000),
+    });
+    expect(parseRateLimit({ get: () => null })).toBeNull();
+  });
+
+  it('sends the token and tracks the remaining rate limit', async () => {
+    const mock = await startMockApi(() => ({
+      headers: { 'X-RateLimit-Limit': '5000', 'X-RateLimit-Remaining': '4999', 'X-RateLimit-Reset': resetIn(3600) },
+      body: { login: 'octocat' },
+    }));
+    server = mock.server;
+    const github = client(mock.baseUrl, { token: 'secret' });
+
+    const res = await github.request<{ login: string }>('/users/octocat', 'profile for octocat');
+
+    expect(res?.data).toEqual({ login: 'octocat' });
+    expect(mock.requests[0].headers.authorization).toBe('Bearer secret');
+    expect(github.rateLimit).toMatchObject({ limit: 5000, remaining: 4999 });
+  });
+
+  it('returns null for 404 and throws for other errors', async () => {
+    const mock = await startMockApi((req) => (req.url === '/missing' ? { status: 404 } : { status: 401 }));
+    server = mock.server;
+    const github = client(mock.baseUrl);
+
+    expect(await github.request('/missing', 'missing thing')).toBeNull();
+    await expect(github.request('/private', 'private thing')).rejects.toThrow('Failed to fetch private thing: 401 Unauthorized');
+  });
+
+  it('retries server errors with exponential backoff', async () => {
+    const mock = await startMockApi((_req, count) => (count < 3 ? { status: 502 } : { body: [] }));
+    server = mock.server;
+
+    const res = await client(mock.baseUrl).request('/users/octocat/repos', 'repos for octocat');
+
+    expect(res?.data).toEqual([]);
+    expect(mock.requests).toHaveLength(3);
+    expect(sleeps).toEqual([10, 20]);
+  });
+
+  it('gives up after the configured retries', async () => {
+    const mock = await startMockApi(() => ({ status: 503 }));
+    server = mock.server;
+
+    await expect(client(mock.baseUrl, { retries: 1 }).request('/x', 'x')).rejects.toThrow('Failed to fetch x: 503 Service Unavailable');
+    expect(mock.requests).toHaveLength(2);
+  });
+
+  it('retries network errors', async () => {
+    const mock = await startMockApi(() => ({ body: {} }));
+    const { baseUrl } = mock;
+    await new Promise((resolve) => mock.server.close(resolve));
+
+    await expect(client(baseUrl, { retries: 2 }).request('/x', 'x')).rejects.toThrow('Failed to fetch x:');
+    expect(sleeps).toEqual([10, 20]);
+  });
+
+  it('revalidates earlier responses with If-None-Match', async () => {
+    const mock = await startMockApi((req) => (req.headers['if-none-match'] === '"v1"'
+      ? { status: 304, headers: { ETag: '"v1"' } }
+      : { headers: { ETag: '"v1"', Link: '</next>; rel="next"' }, body: [{ name: 'rocket' }] }));
+    server = mock.server;
+    const etags = new Map<string, CachedGithubResponse>();
+
+    const first = await client(mock.baseUrl, { etags }).request('/repos', 'repos');
+    const second = await client(mock.baseUrl, { etags }).request('/repos', 'repos');
+
+    expect(first).toMatchObject({ status: 200, notModified: false });
+    expect(second).toMatchObject({ status: 304, notModified: true, data: [{ name: 'rocket' }], links: { next: '/next' } });
+    expect(mock.requests[1].headers['if-none-match']).toBe('"v1"');
+  });
+
+  it('keeps ETag stores for a bounded number of tokens', async () => {
+    const mock = await startMockApi((req) => (req.headers['if-none-match'] === '"v1"'
+      ? { status: 304, headers: { ETag: '"v1"' } }
+      : { headers: { ETag: '"v1"' }, body: [{ name: 'rocket' }] }));
+    server = mock.server;
+    const shared = (token: string) => client(mock.baseUrl, { token, etags: undefined });
+
+    await shared('token-0').request('/repos', 'repos');
+    await shared('token-0').request('/repos', 'repos');
+    for (let i = 1; i <= MAX_SHARED_IDENTITIES; i++) {
+      shared(`token-${i}`);
+    }
+    await shared('token-0').request('/repos', 'repos');
+
+    expect(mock.requests.map((req) => req.headers['if-none-match'])).toEqual([undefined, '"v1"', undefined]);
+  });
+
+  it('fails fast on an exhausted rate limit with the fail policy', async () => {
+    const mock = await startMockApi(() => ({
+      status: 403,
+      headers: { 'X-RateLimit-Remaining': '0', 'X-RateLimit-Reset': resetIn(1800) },
+      body: { message: 'API rate limit exceeded for 127.0.0.1.' },
+    }));
+    server = mock.server;
+    const github = client(mock.baseUrl, { rateLimit: 'fail' });
+
+    await expect(github.request('/a', 'a')).rejects.toThrow(/Failed to fetch a: 403 API rate limit exceeded \(resets at .+\)/);
+    // The known-exhausted limit stops the next call before it reaches GitHub
+    await expect(github.request('/b', 'b')).rejects.toThrow('Failed to fetch b: 403 API rate limit exceeded');
+    expect(mock.requests).toHaveLength(1);
+  });
+
+  it('waits for the reset with the wait policy', async () => {
+    const mock = await startMockApi((_req, count) => (count === 1
+      ? { status: 403, headers: { 'X-RateLimit-Remaining': '0', 'X-RateLimit-Reset': resetIn(5) } }
+      : { headers: { 'X-RateLimit-Remaining': '59', 'X-RateLimit-Reset': resetIn(3600) }, body: { ok: true } }));
+    server = mock.server;
+
+    const res = await client(mock.baseUrl).request('/a', 'a');
+
+    expect(res?.data).toEqual({ ok: true });
+    expect(sleeps).toHaveLength(1);
+    expect(sleeps[0]).toBeGreaterThan(3000);
+    expect(sleeps[0]).toBeLessThanOrEqual(6000);
+  });
+
+  it('does not wait longer than maxWait', async () => {
+    const mock = await startMockApi(() => ({ status: 429, headers: { 'X-RateLimit-Remaining': '0', 'X-RateLimit-Reset': resetIn(3600) } }));
+    server = mock.server;
+
+    await expect(client(mock.baseUrl, { maxWait: 1000 }).request('/a', 'a')).rejects.toThrow('429 API rate limit exceeded');
+    expect(sleeps).toEqual([]);
+  });
+
+  it('distinguishes secondary rate limits', async () => {
+    const secondary = { status: 403, headers: { 'Retry-After': '2' }, body: { message: 'You have exceeded a secondary rate limit.' } };
+    const mock = await startMockApi((req) => (req.url === '/ok' && sleeps.length > 0 ? { body: {} } : secondary));
+    server = mock.server;
+
+    await expect(client(mock.baseUrl, { rateLimit: 'fail' }).request('/fail', 'fail'))
+      .rejects.toThrow('Failed to fetch fail: 403 Secondary rate limit exceeded; retry after 2s.');
+    expect(await client(mock.baseUrl).request('/ok', 'ok')).toMatchObject({ status: 200 });
+    expect(sleeps).toEqual([2000]);
+  });
+
+  it('refuses URLs outside the API root', async () => {
+    await expect(client('http://127.0.0.1:1').request('https://evil.example.com/x', 'x')).rejects.toThrow('Refusing to request a URL outside');
+  });
+
+  it('follows repository pages through the client', async () => {
+    const mock = await startMockApi((req) => (req.url?.includes('page=2')
+      ? { body: [{ name: 'two' }] }
+      : { headers: { Link: `<${mockBase}/users/octocat/repos?page=2>; rel="next"` }, body: [{ name: 'one' }] }));
+    server = mock.server;
+    const mockBase = mock.baseUrl;
+
+    const repos = await fetchRepositories('octocat', client(mock.baseUrl));
+
+    expect(repos.map((repo) => repo.name)).toEqual(['one', 'two']);
+    expect(mock.requests[0].url).toBe('/users/octocat/repos?sort=updated&per_page=100');
+  });
+});
@@ -0,0 +1,64 @@
+import * as http from 'http';
+import type { AddressInfo } from 'net';
+import type { Response } from 'node-fetch';
+
+/**
+ * A node-fetch response carrying a JSON body, for tests that mock node-fetch
+ *
+ * @param body - Parsed JSON body
+ * @param options - Status (default: 200) and headers, e.g. a `Link` header
+ */
+export function jsonResponse(body: unknown, options: { status?: number; headers?: Record<string, string> } = {}): Response {
+  const { status = 200, headers = {} } = options;
+  const lowerCased = new Map(Object.entries(headers).map(([name, value]) => [name.toLowerCase(), value]));
+  return {
+    ok: status >= 200 && status < 300,
+    status,
+    statusText: status === 404 ? 'Not Found' : 'OK',
+    headers: { get: (name: string) => lowerCased.get(name.toLowerCase()) ?? null },
+    json: async () => body,
+  } as unknown as Response;
+}
+
+export interface MockResponse {
+  status?: number;
+  headers?: Record<string, string>;
+  body?: unknown;
+}
+
+export type MockRoutes = Record<string, MockResponse>;
+
+/**
+ * Local stand-in for the GitHub or another forge API. Each request is
+ * answered by `handler`, which gets the request, how many have arrived and
+ * the server's base URL.
+ *
+ * @param handler - Returns the response for a request
+ * @param basePath - Path the API is served under, e.g. `/api` (default: the root)
+ */
+export async function startMockApi(
+  handler: (req: http.IncomingMessage, count: number, baseUrl: string) => MockResponse,
+  basePath = ''
+) {
+  const requests: http.IncomingMessage[] = [];
+  let baseUrl = '';
+  const server = http.createServer((req, res) => {
+    requests.push(req);
+    const { status = 200, headers = {}, body } = handler(req, requests.length, baseUrl);
+    res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+    res.end(body === undefined ? '' : JSON.stringify(body));
+  });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}${basePath}`;
+  return { server, baseUrl, requests };
+}
+
+/**
+ * Answers requests for a mock API by path, with 404 for anything else
+ *
+ * @param routes - Builds the routes from the base URL, e.g. for `Link` headers
+ */
+export function byPath(routes: (baseUrl: string) => MockRoutes) {
+  return (req: http.IncomingMessage, _count: number, baseUrl: string): MockResponse =>
+    routes(baseUrl)[req.url!] ?? { status: 404, body: { message: '404 Not Found' } };
+}
@@ -0,0 +1,163 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  createComicHistory,
+  createRecap,
+  diffSnapshots,
+  snapshotRepositories,
+  generateGithubComic,
+  previewComic,
+  createPlaceholderProvider,
+  ConfigError,
+  type ComicEpisode,
+  type RepoInfo,
+} from '../src/index.js';
+import type { Response } from 'node-fetch';
+
+vi.mock('node-fetch', () => ({
+  default: vi.fn(),
+}));
+
+const { default: fetch } = await import('node-fetch');
+
+function mockRepos(repos: RepoInfo[]): void {
+  vi.mocked(fetch).mockResolvedValue({
+    ok: true,
+    json: async () => repos,
+  } as unknown as Response);
+}
+
+const episode: ComicEpisode = {
+  episode: 2,
+  subject: 'octocat',
+  createdAt: '2026-01-02T03:04:05.000Z',
+  theme: 'classic',
+  panels: 4,
+  prompt: 'prompt',
+  repos: ['rocket'],
+  snapshot: [],
+  files: [],
+};
+
+describe('diffSnapshots', () => {
+  it('finds new and removed repositories, star growth and new languages', () => {
+    const previous = snapshotRepositories([
+      { name: 'rocket', description: null, stargazers_count: 5, language: 'TypeScript' },
+      { name: 'anvil', description: null, stargazers_count: 9, language: 'Go' },
+      { name: 'gone', description: null, stargazers_count: 1 },
+    ]);
+    const current = snapshotRepositories([
+      { name: 'rocket', description: null, stargazers_count: 50, language: 'TypeScript' },
+      { name: 'anvil', description: null, stargazers_count: 12, language: 'Go' },
+      { name: 'crab', description: null, stargazers_count: 0, language: 'Rust' },
+      { name: 'gopher', description: null, stargazers_count: 0, language: 'go' },
+    ]);
+
+    expect(diffSnapshots(previous, current)).toEqual({
+      newRepos: [
+        { name: 'crab', stars: 0, forks: undefined, language: 'Rust' },
+        { name: 'gopher', stars: 0, forks: undefined, language: 'go' },
+      ],
+      removedRepos: ['gone'],
+      starGrowth: [{ name: 'rocket', from: 5, to: 50 }, { name: 'anvil', from: 9, to: 12 }],
+      newLanguages: ['Rust'],
+    });
+  });
+});
+
+describe('createRecap', () => {
+  it('calls back to the previous episode and lists the changes', () => {
+    const recap = createRecap(episode, {
+      newRepos: [{ name: 'crab', stars: 0, language: 'Rust' }],
+      removedRepos: [],
+      starGrowth: [{ name: 'rocket', from: 5, to: 50 }],
+      newLanguages: ['Rust'],
+    });
+
+    expect(recap).toContain('This is episode 3 of an ongoing comic series.');
+    expect(recap).toContain('Previously, in episode 2 (2026-01-02): the strip featured rocket.');
+    expect(recap).toContain('- New repositories: crab [Rust]');
+    expect(recap).toContain('- Star growth: rocket ⭐ 5 → 50');
+    expect(recap).toContain('- New languages: Rust');
+  });
+
+  it('makes a joke of nothing changing', () => {
+    const recap = createRecap(episode, { newRepos: [], removedRepos: [], starGrowth: [], newLanguages: [] });
+
+    expect(recap).toContain('Nothing has changed since then');
+  });
+});
+
+describe('comic history', () => {
+  let tmpDir: string;
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'comics-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(tmpDir, { recursive: true, force: true });
+  });
+
+  it('numbers episodes per subject and skips corrupt files', async () => {
+    const history = createComicHistory({ dir: tmpDir });
+    const { episode: _, createdAt: __, ...entry } = episode;
+
+    expect(await history.latest('octocat')).toBeUndefined();
+    expect((await history.record(entry)).episode).toBe(1);
+    expect((await history.record(entry)).episode).toBe(2);
+    expect((await history.record({ ...entry, subject: 'org:GitHub' })).episode).toBe(1);
+    await fs.writeFile(path.join(tmpDir, 'octocat', 'episode-0003.json'), '{');
+
+    expect((await history.list('octocat')).map((stored) => stored.episode)).toEqual([1, 2]);
+    expect((await history.latest('org:github'))?.subject).toBe('org:GitHub');
+  });
+
+  it('keeps subjects whose names differ only in special characters apart', async () => {
+    const history = createComicHistory({ dir: tmpDir });
+    const { episode: _, createdAt: __, ...entry } = episode;
+
+    expect((await history.record({ ...entry, subject: 'org-acme' })).episode).toBe(1);
+    expect((await history.record({ ...entry, subject: 'org:acme' })).episode).toBe(1);
+    expect((await history.record({ ...entry, subject: 'org:acme' })).episode).toBe(2);
+
+    expect((await history.list('org-acme')).map((stored) => stored.subject)).toEqual(['org-acme']);
+    expect((await history.list('org:acme')).map((stored) => stored.episode)).toEqual([1, 2]);
+    expect((await fs.readdir(tmpDir)).sort()).toEqual(['org-acme', 'org_3aacme']);
+    // An episode copied into the wrong directory is not part of the series
+    await fs.copyFile(path.join(tmpDir, 'org_3aacme', 'episode-0002.json'), path.join(tmpDir, 'org-acme', 'episode-0002.json'));
+    expect((await history.list('org-acme')).map((stored) => stored.episode)).toEqual([1]);
+  });
+
+  it('records generated comics and recaps them in the sequel', async () => {
+    const history = createComicHistory({ dir: tmpDir });
+    const options = { outputDir: path.join(tmpDir, 'out'), provider: createPlaceholderProvider(), history };
+    mockRepos([{ name: 'rocket', description: 'Goes up', stargazers_count: 5, language: 'TypeScript' }]);
+
+    const first = await generateGithubComic('octocat', {}, options);
+
+    expect(first.episode).toBe(1);
+    const [stored] = await history.list('octocat');
+    expect(stored).toMatchObject({ repos: ['rocket'], files: [first.filePath], snapshot: [{ name: 'rocket', stars: 5 }] });
+
+    mockRepos([
+      { name: 'rocket', description: 'Goes up', stargazers_count: 40, language: 'TypeScript' },
+      { name: 'crab', description: 'Scuttles', stargazers_count: 1, language: 'Rust' },
+    ]);
+    const preview = await previewComic('octocat', {}, { history, sequel: true });
+
+    expect(preview.episode).toBe(2);
+    expect(preview.changes?.newLanguages).toEqual(['Rust']);
+    expect(preview.prompt).toContain('Previously, in episode 1');
+    expect(preview.prompt).toContain('rocket ⭐ 5 → 40');
+  });
+
+  it('requires a history store for sequels', async () => {
+    mockRepos([]);
+
+    await expect(previewComic('octocat', {}, { sequel: true })).rejects.toThrow(ConfigError);
+  });
+});
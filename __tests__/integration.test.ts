@@ -1,5 +1,5 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
-import { fetchRepositories, configSchema } from '../src/index.js';
+import { fetchRepositories, configSchema, parseLinkHeader } from '../src/index.js';
 import type { Response } from 'node-fetch';
 
 // Mock node-fetch module
@@ -49,6 +49,21 @@ describe('Integration: GitHub Comics CLI', () => {
     });
   });
 
+  describe('parseLinkHeader', () => {
+    it('parses relations from a Link header', () => {
+      const links = parseLinkHeader('<https://api.github.com/a?page=2>; rel="next", <https://api.github.com/a?page=5>; rel="last"');
+
+      expect(links).toEqual({
+        next: 'https://api.github.com/a?page=2',
+        last: 'https://api.github.com/a?page=5',
+      });
+    });
+
+    it('returns an empty map for a missing header', () => {
+      expect(parseLinkHeader(null)).toEqual({});
+    });
+  });
+
   describe('fetchRepositories', () => {
     it('fetches repositories successfully', async () => {
       const mockRepos = [
@@ -88,6 +103,53 @@ describe('Integration: GitHub Comics CLI', () => {
       );
     });
 
+    it('follows Link header pagination', async () => {
+      vi.mocked(fetch)
+        .mockResolvedValueOnce({
+          ok: true,
+          headers: { get: () => '<https://api.github.com/user/1/repos?page=2>; rel="next", <https://api.github.com/user/1/repos?page=2>; rel="last"' },
+          json: async () => [{ name: 'page1', description: null }],
+        } as unknown as Response)
+        .mockResolvedValueOnce({
+          ok: true,
+          headers: { get: () => null },
+          json: async () => [{ name: 'page2', description: null }],
+        } as unknown as Response);
+
+      const result = await fetchRepositories('octocat');
+
+      expect(result.map((r) => r.name)).toEqual(['page1', 'page2']);
+      expect(vi.mocked(fetch)).toHaveBeenLastCalledWith(
+        'https://api.github.com/user/1/repos?page=2',
+        expect.anything()
+      );
+    });
+
+    it('stops following pagination at maxPages', async () => {
+      vi.mocked(fetch).mockResolvedValue({
+        ok: true,
+        headers: { get: () => '<https://api.github.com/user/1/repos?page=2>; rel="next"' },
+        json: async () => [{ name: 'repo', description: null }],
+      } as unknown as Response);
+
+      const result = await fetchRepositories('octocat', undefined, { maxPages: 2 });
+
+      expect(result).toHaveLength(2);
+      expect(vi.mocked(fetch)).toHaveBeenCalledTimes(2);
+    });
+
+    it('ignores next links pointing away from the GitHub API', async () => {
+      vi.mocked(fetch).mockResolvedValueOnce({
+        ok: true,
+        headers: { get: () => '<https://evil.example.com/repos>; rel="next"' },
+        json: async () => [{ name: 'repo', description: null }],
+      } as unknown as Response);
+
+      await fetchRepositories('octocat');
+
+      expect(vi.mocked(fetch)).toHaveBeenCalledTimes(1);
+    });
+
     it('throws error for invalid username', async () => {
       await expect(fetchRepositories('invalid@username'))
         .rejects.toThrow('Invalid GitHub username: invalid@username');
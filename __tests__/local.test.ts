@@ -0,0 +1,110 @@
+import { describe, it, expect, vi, beforeAll, afterAll } from 'vitest';
+import { execFileSync } from 'child_process';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  detectLanguages,
+  readLocalRepository,
+  buildComicPrompt,
+  generateGithubComic,
+  createPlaceholderProvider,
+  ConfigError,
+  NotFoundError,
+} from '../src/index.js';
+
+vi.mock('node-fetch', () => ({
+  default: vi.fn(),
+}));
+
+const { default: fetch } = await import('node-fetch');
+
+describe('detectLanguages', () => {
+  it('counts files per language by extension', () => {
+    expect(detectLanguages(['src/a.ts', 'src/b.tsx', 'lib/c.js', 'README.md', 'Makefile'])).toEqual([
+      { language: 'TypeScript', files: 2 },
+      { language: 'JavaScript', files: 1 },
+    ]);
+  });
+});
+
+describe('local repositories', () => {
+  let tmpDir: string;
+  let repoDir: string;
+
+  const git = (args: string[], author = 'Ada') => execFileSync('git', args, {
+    cwd: repoDir,
+    env: {
+      ...process.env,
+      GIT_AUTHOR_NAME: author,
+      GIT_AUTHOR_EMAIL: `${author.toLowerCase()}@example.com`,
+      GIT_COMMITTER_NAME: author,
+      GIT_COMMITTER_EMAIL: `${author.toLowerCase()}@example.com`,
+    },
+  });
+
+  beforeAll(async () => {
+    tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'comics-'));
+    repoDir = path.join(tmpDir, 'widget');
+    await fs.mkdir(path.join(repoDir, 'src'), { recursive: true });
+    git(['init', '-q']);
+    git(['remote', 'add', 'origin', 'git@git.internal:platform/widget.git']);
+    await fs.writeFile(path.join(repoDir, 'README.md'), '# Widget\n\nWidget renders dashboards for the platform team.\n');
+    await fs.writeFile(path.join(repoDir, 'src', 'index.ts'), 'export {};\n');
+    git(['add', '.']);
+    git(['commit', '-qm', 'Initial commit']);
+    git(['tag', 'v1.0.0']);
+    await fs.writeFile(path.join(repoDir, 'src', 'chart.py'), 'pass\n');
+    git(['add', '.']);
+    git(['commit', '-qm', 'Add charts\n\nWith a body'], 'Grace');
+    await fs.writeFile(path.join(repoDir, 'src', 'util.ts'), 'export {};\n');
+    git(['add', '.']);
+    git(['commit', '-qm', 'Add utilities']);
+  });
+
+  afterAll(async () => {
+    await fs.rm(tmpDir, { recursive: true, force: true });
+  });
+
+  it('reads commits, authors, languages, tags and the README', async () => {
+    const story = await readLocalRepository(path.join(repoDir, 'src'));
+
+    expect(story).toMatchObject({
+      owner: 'platform',
+      repo: { name: 'widget', description: null, language: 'TypeScript' },
+      readmeSummary: 'Widget renders dashboards for the platform team.',
+      contributors: [{ login: 'Ada', contributions: 2 }, { login: 'Grace', contributions: 1 }],
+      recentCommits: ['Add utilities', 'Add charts', 'Initial commit'],
+      commitCount: 3,
+      languages: [{ language: 'TypeScript', files: 2 }, { language: 'Python', files: 1 }],
+      local: true,
+    });
+    expect(story.releases.map((release) => release.tag)).toEqual(['v1.0.0']);
+    expect(story.repo.created_at).toMatch(/^\d{4}-\d{2}-\d{2}T/);
+  });
+
+  it('rejects missing directories and directories outside git', async () => {
+    await expect(readLocalRepository(path.join(tmpDir, 'missing'))).rejects.toThrow(NotFoundError);
+    const plain = path.join(tmpDir, 'plain');
+    await fs.mkdir(plain);
+    await expect(readLocalRepository(plain, {}, async () => {
+      throw new Error('fatal: not a git repository');
+    })).rejects.toThrow(ConfigError);
+  });
+
+  it('runs the whole pipeline without calling GitHub', async () => {
+    const subject = { type: 'local' as const, path: repoDir };
+
+    const prompt = await buildComicPrompt(subject, {});
+    const result = await generateGithubComic(subject, {}, {
+      outputDir: path.join(tmpDir, 'out'),
+      provider: createPlaceholderProvider(),
+    });
+
+    expect(prompt).toContain('telling the story of the project "platform/widget"');
+    expect(prompt).toContain('Languages: TypeScript (2 files), Python (1 file)');
+    expect(prompt).toContain('Recent commits: "Add utilities"; "Add charts"; "Initial commit"');
+    expect(result.metadata).toMatchObject({ subject: `local:${repoDir}`, repos: ['widget'] });
+    expect(vi.mocked(fetch)).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,233 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  parseOutputFormats,
+  renderFilename,
+  convertImage,
+  wrapInSvg,
+  writeComicOutputs,
+  generateComicImage,
+  createBitmap,
+  encodePng,
+  encodeJpeg,
+  encodeWebp,
+  type ComicOutputInfo,
+  type GeneratedImage,
+  type ImageProvider,
+} from '../src/index.js';
+
+const info: ComicOutputInfo = {
+  prompt: 'Draw a comic',
+  provider: { name: 'placeholder', model: 'placeholder' },
+  seed: 42,
+  startedAt: new Date('2025-03-04T05:06:07Z'),
+  subject: 'org:acme',
+  user: 'acme',
+  theme: 'noir',
+  panels: 4,
+  repos: ['rocket', 'anvil'],
+};
+
+function pngImage(width = 20, height = 10): GeneratedImage {
+  return { data: encodePng(createBitmap(width, height, [200, 40, 40, 255])), mediaType: 'image/png' };
+}
+
+describe('output', () => {
+  let tmpDir: string | undefined;
+
+  afterEach(async () => {
+    if (tmpDir) {
+      await fs.rm(tmpDir, { recursive: true, force: true });
+      tmpDir = undefined;
+    }
+  });
+
+  describe('parseOutputFormats', () => {
+    it('parses and de-duplicates a comma-separated list', () => {
+      expect(parseOutputFormats('png, WebP,markdown,png')).toEqual(['png', 'webp', 'markdown']);
+    });
+
+    it('rejects unknown formats', () => {
+      expect(() => parseOutputFormats('png,gif')).toThrow('Unknown output format: gif');
+      expect(() => parseOutputFormats(' , ')).toThrow('At least one output format is required');
+    });
+  });
+
+  describe('renderFilename', () => {
+    it('fills placeholders with filesystem-safe values', () => {
+      expect(renderFilename('{user}-{theme}-{date}', info)).toBe('acme-noir-2025-03-04');
+      expect(renderFilename('{subject}_{seed}_{timestamp}', info)).toBe(`org-acme_42_${info.startedAt.getTime()}`);
+    });
+
+    it('uses "unknown" for missing values', () => {
+      expect(renderFilename('{user}-{seed}', { ...info, user: undefined, seed: undefined })).toBe('unknown-unknown');
+    });
+
+    it('rejects unknown placeholders and path separators', () => {
+      expect(() => renderFilename('{owner}', info)).toThrow('Unknown filename placeholder: {owner}');
+      expect(() => renderFilename('../{user}', info)).toThrow('must not contain path separators');
+    });
+  });
+
+  describe('encoders', () => {
+    it('writes a baseline JPEG with the bitmap dimensions', () => {
+      const jpeg = encodeJpeg(createBitmap(33, 17, [10, 200, 30, 255]), 80);
+
+      expect(Array.from(jpeg.subarray(0, 2))).toEqual([0xff, 0xd8]);
+      expect(Array.from(jpeg.subarray(-2))).toEqual([0xff, 0xd9]);
+      const sof = jpeg.indexOf(Buffer.from([0xff, 0xc0]));
+      expect(jpeg.readUInt16BE(sof + 5)).toBe(17);
+      expect(jpeg.readUInt16BE(sof + 7)).toBe(33);
+    });
+
+    it('validates JPEG quality', () => {
+      expect(() => encodeJpeg(createBitmap(1, 1), 0)).toThrow('JPEG quality must be an integer between 1 and 100');
+    });
+
+    it('writes a lossless WebP container with the bitmap dimensions', () => {
+      const webp = encodeWebp(createBitmap(300, 7, [0, 0, 0, 128]));
+
+      expect(webp.toString('ascii', 0, 4)).toBe('RIFF');
+      expect(webp.readUInt32LE(4)).toBe(webp.length - 8);
+      expect(webp.toString('ascii', 8, 16)).toBe('WEBPVP8L');
+      expect(webp[20]).toBe(0x2f);
+      const bits = webp.readUInt32LE(21);
+      expect((bits & 0x3fff) + 1).toBe(300);
+      expect(((bits >>> 14) & 0x3fff) + 1).toBe(7);
+      expect((bits >>> 28) & 1).toBe(1);
+    });
+  });
+
+  describe('convertImage', () => {
+    it('converts PNG images to other raster formats', () => {
+      const png = pngImage();
+
+      expect(convertImage(png, 'png')).toBe(png);
+      expect(convertImage(png, 'jpeg').mediaType).toBe('image/jpeg');
+      expect(convertImage(png, 'webp').mediaType).toBe('image/webp');
+    });
+
+    it('refuses to convert non-PNG sources', () => {
+      const svg: GeneratedImage = { data: new TextEncoder().encode('<svg/>'), mediaType: 'image/svg+xml' };
+
+      expect(() => convertImage(svg, 'jpeg')).toThrow('Cannot convert image/svg+xml to jpeg');
+      expect(wrapInSvg(svg)).toBe(svg);
+    });
+
+    it('wraps raster images in SVG at their size', () => {
+      const svg = new TextDecoder().decode(wrapInSvg(pngImage(20, 10)).data);
+
+      expect(svg).toContain('width="20" height="10"');
+      expect(svg).toContain('href="data:image/png;base64,');
+    });
+  });
+
+  describe('writeComicOutputs', () => {
+    it('writes every requested format with the first as primary', async () => {
+      tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'comics-'));
+
+      const { artifacts } = await writeComicOutputs(pngImage(), tmpDir, info, {
+        formats: ['webp', 'png', 'jpeg', 'svg', 'html', 'markdown'],
+        filenameTemplate: '{user}-{theme}',
+      });
+
+      expect(artifacts.map((artifact) => artifact.fileName)).toEqual([
+        'acme-noir.webp',
+        'acme-noir.png',
+        'acme-noir.jpeg',
+        'acme-noir.svg',
+        'acme-noir.html',
+        'acme-noir.md',
+      ]);
+      expect((await fs.readdir(tmpDir)).sort()).toEqual(artifacts.map((artifact) => artifact.fileName).sort());
+
+      const html = await fs.readFile(path.join(tmpDir, 'acme-noir.html'), 'utf8');
+      expect(html).toContain('<title>GitHub comic: org:acme</title>');
+      expect(html).toContain('src="data:image/png;base64,');
+      expect(html).toContain('Featuring rocket, anvil');
+
+      expect(await fs.readFile(path.join(tmpDir, 'acme-noir.md'), 'utf8'))
+        .toBe('![Comic strip about org:acme](./acme-noir.webp)\n');
+    });
+
+    it('keeps the original image for Markdown when no image format is requested', async () => {
+      tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'comics-'));
+
+      const { artifacts } = await writeComicOutputs(pngImage(), tmpDir, info, { formats: ['markdown'], filenameTemplate: 'strip' });
+
+      expect(artifacts.map((artifact) => [artifact.format, artifact.fileName])).toEqual([
+        ['original', 'strip.png'],
+        ['markdown', 'strip.md'],
+      ]);
+      expect(await fs.readFile(artifacts[1].filePath, 'utf8')).toContain('(./strip.png)');
+    });
+
+    it('keeps an image as the primary file when Markdown is listed first', async () => {
+      tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'comics-'));
+
+      const { artifacts } = await writeComicOutputs(pngImage(), tmpDir, info, { formats: ['markdown', 'png'], filenameTemplate: 'strip' });
+
+      expect(artifacts.map((artifact) => [artifact.format, artifact.mediaType])).toEqual([
+        ['png', 'image/png'],
+        ['markdown', 'text/markdown'],
+      ]);
+      expect(await fs.readFile(artifacts[1].filePath, 'utf8')).toContain('(./strip.png)');
+    });
+
+    it('records generation details in the sidecar', async () => {
+      tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'comics-'));
+
+      const { artifacts, metadata } = await writeComicOutputs(pngImage(), tmpDir, info, { sidecar: true });
+      const sidecar = artifacts.find((artifact) => artifact.format === 'sidecar');
+
+      expect(artifacts[0].format).toBe('original');
+      expect(sidecar?.fileName).toBe(`github-comic-${info.startedAt.getTime()}.json`);
+      const written = JSON.parse(await fs.readFile(sidecar!.filePath, 'utf8'));
+      expect(written).toEqual(metadata);
+      expect(written).toMatchObject({
+        prompt: 'Draw a comic',
+        provider: 'placeholder',
+        seed: 42,
+        repos: ['rocket', 'anvil'],
+        startedAt: '2025-03-04T05:06:07.000Z',
+        files: [artifacts[0].fileName],
+      });
+    });
+
+    it('writes nothing when a conversion fails', async () => {
+      tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'comics-'));
+      const svg: GeneratedImage = { data: new TextEncoder().encode('<svg/>'), mediaType: 'image/svg+xml' };
+
+      await expect(writeComicOutputs(svg, tmpDir, info, { formats: ['svg', 'png'] })).rejects.toThrow('Cannot convert');
+      expect(await fs.readdir(tmpDir)).toEqual([]);
+    });
+  });
+
+  describe('generateComicImage', () => {
+    it('passes the seed to the provider and returns all artifacts', async () => {
+      tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'comics-'));
+      const seeds: Array<number | undefined> = [];
+      const provider: ImageProvider = {
+        name: 'fake',
+        model: 'fake-1',
+        generate: async (_prompt, options) => {
+          seeds.push(options?.seed);
+          return pngImage();
+        },
+      };
+
+      const result = await generateComicImage('prompt', provider, tmpDir, {
+        seed: 7,
+        output: { formats: ['jpeg', 'png'], sidecar: true },
+        details: { subject: 'octocat', theme: 'classic' },
+      });
+
+      expect(seeds).toEqual([7]);
+      expect(result.fileName).toMatch(/^github-comic-\d+\.jpeg$/);
+      expect(result.artifacts?.map((artifact) => artifact.format)).toEqual(['jpeg', 'png', 'sidecar']);
+      expect(result.metadata).toMatchObject({ prompt: 'prompt', provider: 'fake', model: 'fake-1', seed: 7, subject: 'octocat' });
+    });
+  });
+});
@@ -0,0 +1,109 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  previewComic,
+  previewComicFromRepos,
+  loadRepoFile,
+  createPlaceholderScriptWriter,
+  type RepoInfo,
+} from '../src/index.js';
+import type { Response } from 'node-fetch';
+
+vi.mock('node-fetch', () => ({
+  default: vi.fn(),
+}));
+
+const { default: fetch } = await import('node-fetch');
+
+const repos: RepoInfo[] = [
+  { name: 'rocket', description: 'Goes up', stargazers_count: 50, language: 'TypeScript' },
+  { name: 'anvil', description: 'Falls down', stargazers_count: 3, fork: true },
+];
+
+describe('previewComic', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(fetch).mockResolvedValue({
+      ok: true,
+      json: async () => repos,
+    } as unknown as Response);
+  });
+
+  it('builds the prompt and counts GitHub requests without an API key', async () => {
+    const preview = await previewComic('octocat', {}, { style: { theme: 'noir', panels: 3 } });
+
+    expect(preview).toMatchObject({
+      subject: 'octocat',
+      theme: 'noir',
+      panels: 3,
+      repos: ['rocket', 'anvil'],
+      apiCalls: { github: 1, textModel: 0, imageModel: 1 },
+    });
+    expect(preview.prompt).toContain('1. rocket [TypeScript] (⭐ 50): Goes up');
+    expect(preview.scriptPrompt).toBeUndefined();
+  });
+
+  it('includes the script writer instructions and per-panel image calls', async () => {
+    const scriptWriter = { ...createPlaceholderScriptWriter(), write: vi.fn() };
+
+    const preview = await previewComic('org:github', {}, { scriptWriter, perPanel: true, style: { panels: 5 } });
+
+    expect(preview.apiCalls).toEqual({ github: 1, textModel: 1, imageModel: 5 });
+    expect(preview.scriptPrompt).toContain('exactly 5 panels');
+    expect(preview.scriptPrompt).toContain(preview.prompt);
+    expect(scriptWriter.write).not.toHaveBeenCalled();
+  });
+});
+
+describe('previewComicFromRepos', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('applies selection and style options offline', () => {
+    const preview = previewComicFromRepos('octocat', repos, { selection: { excludeForks: true }, repoCount: 5 });
+
+    expect(preview.repos).toEqual(['rocket']);
+    expect(preview.apiCalls).toEqual({ github: 0, textModel: 0, imageModel: 1 });
+    expect(vi.mocked(fetch)).not.toHaveBeenCalled();
+  });
+
+  it('rejects repository subjects and empty selections', () => {
+    expect(() => previewComicFromRepos('octocat/rocket', repos)).toThrow('Offline previews support users and organizations');
+    expect(() => previewComicFromRepos('octocat', repos, { selection: { language: 'Rust' } }))
+      .toThrow('No repositories for octocat match the selection filters');
+  });
+});
+
+describe('loadRepoFile', () => {
+  let tmpDir: string;
+
+  beforeEach(async () => {
+    tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'comics-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(tmpDir, { recursive: true, force: true });
+  });
+
+  it('reads repositories and ignores extra API fields', async () => {
+    const file = path.join(tmpDir, 'repos.json');
+    await fs.writeFile(file, JSON.stringify([{ name: 'rocket', html_url: 'https://github.com/octocat/rocket', stargazers_count: 5 }]));
+
+    expect(await loadRepoFile(file)).toEqual([{ name: 'rocket', description: null, stargazers_count: 5 }]);
+  });
+
+  it('rejects invalid files', async () => {
+    const file = path.join(tmpDir, 'repos.json');
+    await fs.writeFile(file, '{');
+    await expect(loadRepoFile(file)).rejects.toThrow(`Repository file is not valid JSON: ${file}`);
+
+    await fs.writeFile(file, JSON.stringify([{ description: 'no name' }]));
+    await expect(loadRepoFile(file)).rejects.toThrow('Invalid repository file: 0.name: Required');
+
+    await fs.writeFile(file, '[]');
+    await expect(loadRepoFile(file)).rejects.toThrow('At least one repository is required');
+  });
+});
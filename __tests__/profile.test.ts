@@ -0,0 +1,124 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  parseFieldGroups,
+  formatRelativeDate,
+  enrichProfile,
+  createComicPrompt,
+  type RepoInfo,
+} from '../src/index.js';
+import { jsonResponse } from './helpers.js';
+
+vi.mock('node-fetch', () => ({
+  default: vi.fn(),
+}));
+
+const { default: fetch } = await import('node-fetch');
+
+const NOW = new Date('2026-10-19T00:00:00Z');
+
+describe('profile enrichment', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('parseFieldGroups', () => {
+    it('parses comma-separated groups and "all"', () => {
+      expect(parseFieldGroups('stats, commits')).toEqual(['stats', 'commits']);
+      expect(parseFieldGroups('all')).toEqual(['stats', 'commits', 'releases', 'profile']);
+    });
+
+    it('rejects unknown groups', () => {
+      expect(() => parseFieldGroups('stats,gossip')).toThrow('Unknown profile field group: gossip');
+    });
+  });
+
+  describe('formatRelativeDate', () => {
+    it('describes past dates relative to now', () => {
+      expect(formatRelativeDate('2026-10-19T00:00:00Z', NOW)).toBe('today');
+      expect(formatRelativeDate('2026-10-18T00:00:00Z', NOW)).toBe('yesterday');
+      expect(formatRelativeDate('2026-10-10T00:00:00Z', NOW)).toBe('last week');
+      expect(formatRelativeDate('2026-06-19T00:00:00Z', NOW)).toBe('4 months ago');
+      expect(formatRelativeDate('2022-10-19T00:00:00Z', NOW)).toBe('4 years ago');
+      expect(formatRelativeDate(null, NOW)).toBeNull();
+    });
+  });
+
+  describe('enrichProfile', () => {
+    it('only calls the API for requested groups', async () => {
+      const repos: RepoInfo[] = [{ name: 'repo1', description: null }];
+
+      const profile = await enrichProfile('octocat', repos, { include: ['stats'] });
+
+      expect(vi.mocked(fetch)).not.toHaveBeenCalled();
+      expect(profile.repos[0].recentCommits).toBeUndefined();
+    });
+
+    it('fetches commits, releases and profile for featured repos', async () => {
+      vi.mocked(fetch).mockImplementation(async (url) => {
+        const target = String(url);
+        if (target.includes('/commits')) {
+          return jsonResponse([{ commit: { message: 'Fix the thing\n\nLong body' } }]);
+        }
+        if (target.includes('/releases')) {
+          return jsonResponse([{ tag_name: 'v2.0', published_at: '2026-10-10T00:00:00Z' }]);
+        }
+        return jsonResponse({ login: 'octocat', bio: 'Cat who codes', followers: 1200 });
+      });
+
+      const repos: RepoInfo[] = [
+        { name: 'repo1', description: null },
+        { name: 'repo2', description: null },
+      ];
+
+      const profile = await enrichProfile('octocat', repos, { include: ['commits', 'releases', 'profile'], repoCount: 1 });
+
+      expect(profile.repos).toHaveLength(1);
+      expect(profile.repos[0].recentCommits).toEqual(['Fix the thing']);
+      expect(profile.repos[0].releases?.[0].tag).toBe('v2.0');
+      expect(profile.user?.bio).toBe('Cat who codes');
+      // 1 profile + 1 commits + 1 releases
+      expect(vi.mocked(fetch)).toHaveBeenCalledTimes(3);
+    });
+
+    it('sends the GitHub token', async () => {
+      vi.mocked(fetch).mockResolvedValue(jsonResponse({ login: 'octocat' }));
+
+      await enrichProfile('octocat', [], { include: ['profile'], token: 'secret' });
+
+      expect(vi.mocked(fetch)).toHaveBeenCalledWith(
+        expect.stringContaining('/users/octocat'),
+        expect.objectContaining({
+          headers: expect.objectContaining({ Authorization: 'Bearer secret' }),
+        })
+      );
+    });
+  });
+
+  describe('createComicPrompt with a profile', () => {
+    it('includes enriched details for featured repos', () => {
+      const repos: RepoInfo[] = [
+        { name: 'repo1', description: 'desc', open_issues_count: 300, license: 'MIT', topics: ['cli'] },
+      ];
+
+      const prompt = createComicPrompt(repos, 'octocat', 1, {
+        now: NOW,
+        profile: {
+          groups: ['stats', 'releases', 'profile'],
+          repos: [{ ...repos[0], releases: [{ tag: 'v2.0', name: null, publishedAt: '2026-10-10T00:00:00Z' }] }],
+          user: { login: 'octocat', name: null, bio: 'Cat who codes', location: 'SF', followers: 12, public_repos: 8, created_at: null },
+        },
+      });
+
+      expect(prompt).toContain('Open issues: 300');
+      expect(prompt).toContain('License: MIT');
+      expect(prompt).toContain('Releases: v2.0 (last week)');
+      expect(prompt).toContain('About them: Bio: Cat who codes | Location: SF | Followers: 12');
+    });
+
+    it('leaves the prompt unchanged without a profile', () => {
+      const repos: RepoInfo[] = [{ name: 'repo1', description: 'desc', open_issues_count: 300 }];
+
+      expect(createComicPrompt(repos, 'octocat', 1)).not.toContain('Open issues');
+    });
+  });
+});
@@ -0,0 +1,88 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  createPlaceholderProvider,
+  createImageProvider,
+  generateComicImage,
+  type ImageProvider,
+} from '../src/index.js';
+
+describe('image providers', () => {
+  let tmpDir: string | undefined;
+
+  afterEach(async () => {
+    if (tmpDir) {
+      await fs.rm(tmpDir, { recursive: true, force: true });
+      tmpDir = undefined;
+    }
+  });
+
+  describe('placeholder provider', () => {
+    it('renders a PNG by default', async () => {
+      const image = await createPlaceholderProvider().generate('hello');
+
+      expect(image.mediaType).toBe('image/png');
+      expect(Array.from(image.data.slice(0, 4))).toEqual([0x89, 0x50, 0x4e, 0x47]);
+    });
+
+    it('is deterministic for the same prompt', async () => {
+      const provider = createPlaceholderProvider();
+      const a = await provider.generate('same prompt', { width: 64, height: 64 });
+      const b = await provider.generate('same prompt', { width: 64, height: 64 });
+      const c = await provider.generate('other prompt', { width: 64, height: 64 });
+
+      expect(Buffer.from(a.data).equals(Buffer.from(b.data))).toBe(true);
+      expect(Buffer.from(a.data).equals(Buffer.from(c.data))).toBe(false);
+    });
+
+    it('renders escaped prompt text into SVG', async () => {
+      const image = await createPlaceholderProvider({ format: 'svg' }).generate('<script> & friends');
+      const svg = new TextDecoder().decode(image.data);
+
+      expect(image.mediaType).toBe('image/svg+xml');
+      expect(svg).toContain('&lt;script&gt; &amp; friends');
+      expect(svg).not.toContain('<script>');
+    });
+  });
+
+  describe('createImageProvider', () => {
+    it('requires an API key for gemini', () => {
+      expect(() => createImageProvider('gemini'))
+        .toThrow('AI_GATEWAY_API_KEY is required for the gemini provider');
+    });
+
+    it('rejects unknown providers', () => {
+      expect(() => createImageProvider('dalle'))
+        .toThrow('Unknown image provider: dalle');
+    });
+  });
+
+  describe('generateComicImage', () => {
+    it('saves output from a custom provider', async () => {
+      tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'comics-'));
+      const provider: ImageProvider = {
+        name: 'fake',
+        generate: async () => ({ data: new Uint8Array([1, 2, 3]), mediaType: 'image/svg+xml' }),
+      };
+
+      const result = await generateComicImage('prompt', provider, tmpDir);
+
+      expect(result.fileName).toMatch(/^github-comic-\d+\.svg$/);
+      expect(Array.from(await fs.readFile(result.filePath))).toEqual([1, 2, 3]);
+    });
+
+    it('wraps provider errors', async () => {
+      const provider: ImageProvider = {
+        name: 'broken',
+        generate: async () => {
+          throw new Error('boom');
+        },
+      };
+
+      await expect(generateComicImage('prompt', provider, os.tmpdir()))
+        .rejects.toThrow('Failed to generate comic: boom');
+    });
+  });
+});
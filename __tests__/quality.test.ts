@@ -0,0 +1,190 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  checkImage,
+  readImageSize,
+  retryImageProvider,
+  generateComicImage,
+  createBitmap,
+  createPlaceholderProvider,
+  encodePng,
+  encodeJpeg,
+  ConfigError,
+  GenerationRefusedError,
+  type GeneratedImage,
+  type ImageProvider,
+} from '../src/index.js';
+
+/**
+ * A square PNG split into two halves of the given colors
+ */
+function twoTone(size: number, left: number, right: number): GeneratedImage {
+  const bitmap = createBitmap(size, size, [left, left, left, 255]);
+  for (let y = 0; y < size; y++) {
+    for (let x = size / 2; x < size; x++) {
+      bitmap.data.fill(right, (y * size + x) * 4, (y * size + x) * 4 + 3);
+    }
+  }
+  return { data: encodePng(bitmap), mediaType: 'image/png' };
+}
+
+describe('checkImage', () => {
+  it('accepts detailed images and scores them by contrast', async () => {
+    const placeholder = await createPlaceholderProvider().generate('A comic about octocat');
+    const soft = checkImage(twoTone(300, 100, 140));
+    const sharp = checkImage(twoTone(300, 0, 255));
+
+    expect(checkImage(placeholder)).toMatchObject({ valid: true, width: 512, height: 512, problems: [] });
+    expect(soft.valid && sharp.valid).toBe(true);
+    expect(sharp.score).toBeGreaterThan(soft.score);
+    expect(sharp.score).toBeGreaterThan(0.9);
+  });
+
+  it('rejects blank, undersized and undecodable images', () => {
+    const solid = { data: encodePng(createBitmap(300, 300, [12, 34, 56, 255])), mediaType: 'image/png' };
+
+    expect(checkImage(solid)).toMatchObject({ valid: false, score: 0, problems: ['blank or a single solid color'] });
+    expect(checkImage(twoTone(100, 0, 255)).problems).toEqual(['too small (100x100, need at least 256x256)']);
+    expect(checkImage(twoTone(100, 0, 255), { minWidth: 64, minHeight: 64 }).valid).toBe(true);
+    expect(checkImage({ data: new Uint8Array([1, 2, 3]), mediaType: 'image/jpeg' }).problems).toEqual(['cannot be decoded as image/jpeg']);
+    expect(checkImage({ data: twoTone(300, 0, 255).data.subarray(0, 16), mediaType: 'image/png' }).problems)
+      .toEqual(['cannot be decoded as image/png']);
+    expect(checkImage({ data: new Uint8Array([1]), mediaType: 'text/html' }).problems).toEqual(['not an image (text/html)']);
+  });
+
+  it('reads the size of JPEG and SVG images', () => {
+    const jpeg = { data: encodeJpeg(createBitmap(300, 280, [10, 200, 30, 255])), mediaType: 'image/jpeg' };
+    const svg = { data: new TextEncoder().encode('<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 640 480"/>'), mediaType: 'image/svg+xml' };
+
+    expect(readImageSize(jpeg)).toEqual({ width: 300, height: 280 });
+    expect(readImageSize(svg)).toEqual({ width: 640, height: 480 });
+    expect(checkImage(jpeg)).toMatchObject({ valid: true, score: 0.5 });
+  });
+
+  it('checks only the size of PNGs it cannot decode', () => {
+    const interlaced = twoTone(300, 0, 255);
+    // The interlace method is the last byte of the IHDR chunk
+    interlaced.data[28] = 1;
+
+    expect(checkImage(interlaced)).toMatchObject({ valid: true, score: 0.5, width: 300, height: 300 });
+  });
+});
+
+describe('retryImageProvider', () => {
+  it('retries refusals and unusable images with exponential backoff', async () => {
+    const results: Array<() => GeneratedImage> = [
+      () => {
+        throw new GenerationRefusedError('No images were generated', 'content-filter');
+      },
+      () => ({ data: encodePng(createBitmap(300, 300)), mediaType: 'image/png' }),
+      () => twoTone(300, 0, 255),
+    ];
+    let calls = 0;
+    const sleeps: number[] = [];
+    const retries: string[] = [];
+    const provider = retryImageProvider({ name: 'flaky', generate: async () => results[calls++]() }, {
+      retryDelay: 10,
+      sleep: async (ms) => {
+        sleeps.push(ms);
+      },
+      onRetry: (attempt, error) => retries.push(`${attempt}: ${(error as Error).message}`),
+    });
+
+    const image = await provider.generate('prompt');
+
+    expect(checkImage(image).valid).toBe(true);
+    expect(sleeps).toEqual([10, 20]);
+    expect(retries).toEqual([
+      '1: No images were generated',
+      '2: Generated image is unusable: blank or a single solid color',
+    ]);
+  });
+
+  it('moves the seed on for every retry', async () => {
+    const seeds: Array<number | undefined> = [];
+    const blank: ImageProvider = {
+      name: 'blank',
+      generate: async (_prompt, options) => {
+        seeds.push(options?.seed);
+        return { data: encodePng(createBitmap(300, 300)), mediaType: 'image/png' };
+      },
+    };
+    const sleep = async () => {};
+
+    await expect(retryImageProvider(blank, { retries: 2, sleep }).generate('prompt', { seed: 42, variant: 2 })).rejects.toThrow('unusable');
+    await expect(retryImageProvider(blank, { retries: 1, sleep }).generate('prompt')).rejects.toThrow('unusable');
+
+    expect(seeds).toEqual([42, 50, 58, undefined, 8]);
+  });
+
+  it('gives up after the last retry and never retries configuration errors', async () => {
+    let calls = 0;
+    const failing: ImageProvider = {
+      name: 'failing',
+      generate: async () => {
+        calls++;
+        throw new ConfigError('Bad key');
+      },
+    };
+    const refusing: ImageProvider = {
+      name: 'refusing',
+      generate: async () => {
+        throw new GenerationRefusedError('No images were generated');
+      },
+    };
+    const sleep = async () => {};
+
+    await expect(retryImageProvider(failing, { sleep }).generate('prompt')).rejects.toThrow('Bad key');
+    await expect(retryImageProvider(refusing, { retries: 1, sleep }).generate('prompt')).rejects.toThrow(GenerationRefusedError);
+    expect(calls).toBe(1);
+    expect(() => retryImageProvider(refusing, { retries: -1 })).toThrow(ConfigError);
+  });
+});
+
+describe('best-of-N generation', () => {
+  let tmpDir: string | undefined;
+
+  afterEach(async () => {
+    if (tmpDir) {
+      await fs.rm(tmpDir, { recursive: true, force: true });
+      tmpDir = undefined;
+    }
+  });
+
+  it('keeps the best candidate as the comic and saves the others next to it', async () => {
+    tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'comics-'));
+    const provider: ImageProvider = {
+      name: 'fake',
+      generate: async (_prompt, options) => {
+        if (options?.variant === 3) {
+          throw new Error('Gateway timeout');
+        }
+        return options?.variant === 2 ? twoTone(300, 0, 255) : twoTone(300, 100, 140);
+      },
+    };
+
+    const result = await generateComicImage('prompt', provider, tmpDir, {
+      variants: 3,
+      seed: 7,
+      output: { filenameTemplate: 'comic', sidecar: true },
+    });
+
+    expect(result.fileName).toBe('comic.png');
+    expect(result.variants?.map((variant) => [variant.fileName, variant.primary])).toEqual([
+      ['comic-variant-1.png', false],
+      ['comic.png', true],
+    ]);
+    expect(checkImage({ data: await fs.readFile(result.filePath), mediaType: 'image/png' }).score).toBeGreaterThan(0.9);
+    await expect(fs.stat(path.join(tmpDir, 'comic-variant-1.png'))).resolves.toBeTruthy();
+    const sidecar = JSON.parse(await fs.readFile(path.join(tmpDir, 'comic.json'), 'utf8'));
+    expect(sidecar.variants).toEqual([
+      { variant: 1, seed: 7, score: expect.any(Number), primary: false },
+      { variant: 2, seed: 8, score: expect.closeTo(1, 1), primary: true },
+      { variant: 3, seed: 9, error: 'Gateway timeout', primary: false },
+    ]);
+    expect(sidecar.variants[0].score).toBeLessThan(sidecar.variants[1].score);
+    await expect(generateComicImage('prompt', provider, tmpDir, { variants: 9 })).rejects.toThrow('from 1 to 8');
+  });
+});
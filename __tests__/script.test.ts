@@ -0,0 +1,128 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  parseComicScript,
+  loadComicScript,
+  createPlaceholderScriptWriter,
+  createScriptWriter,
+  createComicPrompt,
+  scriptToImagePrompt,
+  panelToImagePrompt,
+  generateComicFromScript,
+  createPlaceholderProvider,
+  type ComicScript,
+} from '../src/index.js';
+
+const script: ComicScript = {
+  title: 'Merge Conflict',
+  style: 'Pixel art.',
+  panels: [
+    { scene: 'A developer stares at a red CI badge.', caption: 'Monday.', dialogue: [{ speaker: 'Dev', line: 'Not again.' }] },
+    { scene: 'The badge turns green.', dialogue: [] },
+  ],
+};
+
+describe('comic scripts', () => {
+  let tmpDir: string | undefined;
+
+  afterEach(async () => {
+    if (tmpDir) {
+      await fs.rm(tmpDir, { recursive: true, force: true });
+      tmpDir = undefined;
+    }
+  });
+
+  describe('parseComicScript', () => {
+    it('accepts a valid script and defaults dialogue', () => {
+      const parsed = parseComicScript({ title: 'T', panels: [{ scene: 'S' }] });
+
+      expect(parsed.panels[0].dialogue).toEqual([]);
+    });
+
+    it('reports validation problems with their path', () => {
+      expect(() => parseComicScript({ title: 'T', panels: [{ scene: '' }] }))
+        .toThrow(/Invalid comic script: panels\.0\.scene/);
+      expect(() => parseComicScript({ title: 'T', panels: [] }))
+        .toThrow('Invalid comic script: panels');
+      expect(() => parseComicScript({ title: 'T', panels: Array(9).fill({ scene: 'S' }) }))
+        .toThrow('Invalid comic script: panels');
+    });
+
+    it('loads scripts from disk', async () => {
+      tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'comics-'));
+      const good = path.join(tmpDir, 'good.json');
+      const bad = path.join(tmpDir, 'bad.json');
+      await fs.writeFile(good, JSON.stringify(script));
+      await fs.writeFile(bad, '{ not json');
+
+      expect(await loadComicScript(good)).toEqual(script);
+      await expect(loadComicScript(bad)).rejects.toThrow('Script file is not valid JSON');
+    });
+  });
+
+  describe('script writers', () => {
+    it('writes a deterministic placeholder script from the brief', async () => {
+      const brief = createComicPrompt([
+        { name: 'repo1', description: 'first', language: 'Go' },
+        { name: 'repo2', description: 'second' },
+      ], 'octocat', 2);
+
+      const result = await createPlaceholderScriptWriter().write(brief, { panels: 3 });
+
+      expect(result.title).toBe('The Adventures of octocat');
+      expect(result.panels).toHaveLength(3);
+      expect(result.panels[0].scene).toContain('repo1');
+      expect(result.panels[1].scene).toContain('repo2');
+      expect(() => parseComicScript(result)).not.toThrow();
+    });
+
+    it('requires an API key for the gemini writer', () => {
+      expect(() => createScriptWriter('gemini')).toThrow('AI_GATEWAY_API_KEY is required');
+      expect(() => createScriptWriter('gpt')).toThrow('Unknown script writer: gpt');
+    });
+  });
+
+  describe('image prompts', () => {
+    it('describes every panel for a whole strip', () => {
+      const prompt = scriptToImagePrompt(script);
+
+      expect(prompt).toContain('2-panel comic strip titled "Merge Conflict"');
+      expect(prompt).toContain('Panel 1: A developer stares at a red CI badge.');
+      expect(prompt).toContain('Caption: "Monday."');
+      expect(prompt).toContain('Dev: "Not again."');
+      expect(prompt).toContain('Style: Pixel art.');
+    });
+
+    it('describes a single panel', () => {
+      expect(panelToImagePrompt(script, 1)).toContain('Draw panel 2 of 2');
+      expect(() => panelToImagePrompt(script, 2)).toThrow('Panel 3 does not exist in a 2-panel script');
+    });
+  });
+
+  describe('generateComicFromScript', () => {
+    it('generates one image per panel', async () => {
+      tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'comics-'));
+
+      const result = await generateComicFromScript(script, createPlaceholderProvider(), tmpDir, {
+        perPanel: true,
+        composite: false,
+      });
+
+      expect(result.panels).toHaveLength(2);
+      expect(result.panels?.[1].fileName).toMatch(/-panel-2\.png$/);
+      expect(result.script).toEqual(script);
+      expect((await fs.readdir(tmpDir)).sort()).toEqual(result.panels?.map((p) => p.fileName).sort());
+    });
+
+    it('generates a single strip by default', async () => {
+      tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'comics-'));
+
+      const result = await generateComicFromScript(script, createPlaceholderProvider(), tmpDir);
+
+      expect(result.panels).toBeUndefined();
+      expect(await fs.readdir(tmpDir)).toEqual([result.fileName]);
+    });
+  });
+});
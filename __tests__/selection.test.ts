@@ -0,0 +1,46 @@
+import { describe, it, expect } from 'vitest';
+import { selectRepositories, type RepoInfo } from '../src/index.js';
+
+const repos: RepoInfo[] = [
+  { name: 'old-star', description: null, stargazers_count: 500, forks_count: 5, language: 'Go', pushed_at: '2020-01-01T00:00:00Z', topics: ['cli'] },
+  { name: 'fresh', description: null, stargazers_count: 10, forks_count: 50, language: 'TypeScript', pushed_at: '2025-06-01T00:00:00Z', topics: ['web'] },
+  { name: 'forked', description: null, stargazers_count: 1000, forks_count: 0, language: 'TypeScript', fork: true, pushed_at: '2024-01-01T00:00:00Z' },
+  { name: 'archived', description: null, stargazers_count: 200, forks_count: 1, language: 'Go', archived: true, pushed_at: '2019-01-01T00:00:00Z' },
+];
+
+describe('selectRepositories', () => {
+  it('ranks by stars by default', () => {
+    expect(selectRepositories(repos).map((r) => r.name))
+      .toEqual(['forked', 'old-star', 'archived', 'fresh']);
+  });
+
+  it('ranks by forks and by recent activity', () => {
+    expect(selectRepositories(repos, { sort: 'forks' })[0].name).toBe('fresh');
+    expect(selectRepositories(repos, { sort: 'activity' })[0].name).toBe('fresh');
+  });
+
+  it('excludes forks and archived repositories', () => {
+    const names = selectRepositories(repos, { excludeForks: true, excludeArchived: true }).map((r) => r.name);
+
+    expect(names).toEqual(['old-star', 'fresh']);
+  });
+
+  it('filters by language and topic case-insensitively', () => {
+    expect(selectRepositories(repos, { language: 'typescript' }).map((r) => r.name))
+      .toEqual(['forked', 'fresh']);
+    expect(selectRepositories(repos, { topic: 'CLI' }).map((r) => r.name))
+      .toEqual(['old-star']);
+  });
+
+  it('does not mutate the input array', () => {
+    const copy = [...repos];
+    selectRepositories(repos, { sort: 'activity' });
+
+    expect(repos).toEqual(copy);
+  });
+
+  it('rejects unknown strategies', () => {
+    expect(() => selectRepositories(repos, { sort: 'random' as any }))
+      .toThrow('Unknown sort strategy: random');
+  });
+});
@@ -0,0 +1,244 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import type * as http from 'http';
+import type { AddressInfo } from 'net';
+import { createComicServer, createComicCache, createPlaceholderProvider, type ComicServerOptions } from '../src/index.js';
+import type { Response } from 'node-fetch';
+
+// GitHub calls go through node-fetch; requests to the server use the global fetch
+vi.mock('node-fetch', () => ({
+  default: vi.fn(),
+}));
+
+const { default: githubFetch } = await import('node-fetch');
+
+async function json(res: globalThis.Response): Promise<any> {
+  return res.json();
+}
+
+describe('comic server', () => {
+  let tmpDir: string;
+  let server: http.Server | undefined;
+  let baseUrl: string;
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    vi.mocked(githubFetch).mockResolvedValue({
+      ok: true,
+      json: async () => [{ name: 'rocket', description: 'Goes up', stargazers_count: 5, language: 'TypeScript' }],
+    } as unknown as Response);
+    tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'comics-'));
+  });
+
+  afterEach(async () => {
+    if (server) {
+      await new Promise((resolve) => server!.close(resolve));
+      server = undefined;
+    }
+    await fs.rm(tmpDir, { recursive: true, force: true });
+  });
+
+  async function start(options: ComicServerOptions = {}) {
+    server = createComicServer({ outputDir: tmpDir, provider: createPlaceholderProvider(), ...options });
+    await new Promise<void>((resolve) => server!.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  }
+
+  function post(body: unknown, headers: Record<string, string> = {}) {
+    return fetch(`${baseUrl}/comics`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...headers },
+      body: typeof body === 'string' ? body : JSON.stringify(body),
+    });
+  }
+
+  async function waitForJob(id: string, headers: Record<string, string> = {}) {
+    for (let i = 0; i < 100; i++) {
+      const job = await json(await fetch(`${baseUrl}/comics/${id}`, { headers }));
+      if (job.status === 'succeeded' || job.status === 'failed') {
+        return job;
+      }
+      await new Promise((resolve) => setTimeout(resolve, 20));
+    }
+    throw new Error(`Job ${id} did not finish`);
+  }
+
+  it('reports health', async () => {
+    await start();
+
+    const res = await fetch(`${baseUrl}/health`);
+
+    expect(res.status).toBe(200);
+    expect(await json(res)).toEqual({ status: 'ok', queued: 0, running: 0 });
+  });
+
+  it('queues a comic and serves the image when it is done', async () => {
+    await start();
+
+    const res = await post({ subject: 'octocat', theme: 'noir', repoCount: 2 });
+    const created = await json(res);
+
+    expect(res.status).toBe(202);
+    expect(res.headers.get('location')).toBe(`/comics/${created.id}`);
+    expect(created).toMatchObject({ subject: 'octocat' });
+
+    const job = await waitForJob(created.id);
+    expect(job).toMatchObject({ status: 'succeeded', imageUrl: `/comics/${created.id}/image` });
+
+    const image = await fetch(`${baseUrl}${job.imageUrl}`);
+    expect(image.status).toBe(200);
+    expect(image.headers.get('content-type')).toBe('image/png');
+    const bytes = Buffer.from(await image.arrayBuffer());
+    expect(bytes.subarray(1, 4).toString('ascii')).toBe('PNG');
+    expect(path.dirname(path.join(tmpDir, created.id, job.fileName))).toBe(path.join(tmpDir, created.id));
+  });
+
+  it('records failed jobs', async () => {
+    vi.mocked(githubFetch).mockResolvedValue({ ok: false, status: 404, statusText: 'Not Found' } as unknown as Response);
+    await start();
+
+    const { id } = await json(await post({ subject: 'ghost' }));
+    const job = await waitForJob(id);
+
+    expect(job).toMatchObject({ status: 'failed', error: 'Failed to fetch repos for ghost: 404 User not found' });
+    expect((await fetch(`${baseUrl}/comics/${id}/image`)).status).toBe(409);
+  });
+
+  it('validates requests', async () => {
+    await start();
+
+    const invalid = await post({ subject: 'octocat', theme: 'opera', panels: 12 });
+    expect(invalid.status).toBe(400);
+    expect(await json(invalid)).toEqual({
+      error: {
+        message: 'Invalid request',
+        details: [expect.stringMatching(/^theme: /), expect.stringMatching(/^panels: /)],
+      },
+    });
+
+    expect((await json(await post({ subject: 'not a user' }))).error.message).toBe('Invalid GitHub username: not a user');
+    expect((await post('{')).status).toBe(400);
+    expect((await fetch(`${baseUrl}/comics/unknown`)).status).toBe(404);
+    expect((await fetch(`${baseUrl}/comics`)).status).toBe(405);
+  });
+
+  it('passes client API keys through unless disabled', async () => {
+    await start({ provider: undefined, defaultProvider: 'gemini' });
+
+    const missingKey = await post({ subject: 'octocat' });
+    expect(missingKey.status).toBe(400);
+    expect((await json(missingKey)).error.message).toBe('AI_GATEWAY_API_KEY is required for the gemini provider');
+
+    const { id } = await json(await post({ subject: 'octocat', provider: 'placeholder' }, { 'X-GitHub-Token': 'client-token' }));
+    await waitForJob(id);
+    expect(vi.mocked(githubFetch)).toHaveBeenCalledWith(
+      expect.stringContaining('/users/octocat/repos'),
+      expect.objectContaining({ headers: expect.objectContaining({ Authorization: 'Bearer client-token' }) })
+    );
+
+    await new Promise((resolve) => server!.close(resolve));
+    await start({ allowKeyPassthrough: false });
+    const refused = await post({ subject: 'octocat' }, { 'X-AI-Gateway-Api-Key': 'key' });
+    expect((await json(refused)).error.message).toBe('API key passthrough is disabled on this server');
+  });
+
+  it('keeps cached GitHub data apart per client token', async () => {
+    await start({ generateOptions: { cache: createComicCache({ dir: path.join(tmpDir, 'cache') }) } });
+
+    for (const token of ['first-token', 'second-token', 'first-token']) {
+      const { id } = await json(await post({ subject: 'octocat' }, { 'X-GitHub-Token': token }));
+      expect(await waitForJob(id)).toMatchObject({ status: 'succeeded' });
+    }
+
+    expect(vi.mocked(githubFetch)).toHaveBeenCalledTimes(2);
+  });
+
+  it('refuses new comics while the queue is full', async () => {
+    let release!: () => void;
+    const released = new Promise<void>((resolve) => (release = resolve));
+    const placeholder = createPlaceholderProvider();
+    await start({
+      maxQueuedJobs: 1,
+      provider: { name: 'slow', generate: async (prompt) => (await released, placeholder.generate(prompt)) },
+    });
+
+    const running = await json(await post({ subject: 'octocat' }));
+    const queued = await json(await post({ subject: 'hubot' }));
+    const refused = await post({ subject: 'monalisa' });
+
+    expect(refused.status).toBe(503);
+    expect((await json(refused)).error.message).toBe('The job queue is full; try again later');
+    release();
+    expect(await waitForJob(running.id)).toMatchObject({ status: 'succeeded' });
+    expect(await waitForJob(queued.id)).toMatchObject({ status: 'succeeded' });
+    expect((await post({ subject: 'monalisa' })).status).toBe(202);
+  });
+
+  it('requires the bearer token when configured', async () => {
+    await start({ authToken: 'sesame' });
+
+    expect((await fetch(`${baseUrl}/health`)).status).toBe(200);
+    expect((await post({ subject: 'octocat' })).status).toBe(401);
+    const accepted = await post({ subject: 'octocat' }, { Authorization: 'Bearer sesame' });
+    expect(accepted.status).toBe(202);
+    expect(await waitForJob((await json(accepted)).id, { Authorization: 'Bearer sesame' })).toMatchObject({ status: 'succeeded' });
+  });
+
+  it('serves cacheable profile comics without the bearer token', async () => {
+    await start({ authToken: 'sesame', profileComics: { interval: 60 * 60 * 1000, allow: '*' } });
+
+    const comic = await fetch(`${baseUrl}/u/octocat/comic.png`);
+    expect(comic.status).toBe(200);
+    expect(comic.headers.get('content-type')).toBe('image/png');
+    expect(comic.headers.get('cache-control')).toMatch(/^public, max-age=3[56]\d\d$/);
+    expect(comic.headers.get('last-modified')).toBeTruthy();
+    const etag = comic.headers.get('etag')!;
+
+    const revalidated = await fetch(`${baseUrl}/u/octocat/comic.png`, { headers: { 'If-None-Match': etag } });
+    expect(revalidated.status).toBe(304);
+
+    const thumbnail = Buffer.from(await (await fetch(`${baseUrl}/u/octocat/thumbnail.png`)).arrayBuffer());
+    expect(thumbnail.subarray(1, 4).toString('ascii')).toBe('PNG');
+    expect(await (await fetch(`${baseUrl}/u/octocat/comic.svg`)).text()).toContain('href="data:image/png;base64,');
+    expect(await (await fetch(`${baseUrl}/u/octocat/badge.svg`)).text()).toContain('@octocat');
+    // Every variant came from the single generation
+    expect(vi.mocked(githubFetch)).toHaveBeenCalledTimes(1);
+  });
+
+  it('limits profile comics to allowed users', async () => {
+    await start({ profileComics: { allow: ['OctoCat'] } });
+
+    expect((await fetch(`${baseUrl}/u/octocat/badge.svg`)).status).toBe(200);
+    expect((await json(await fetch(`${baseUrl}/u/hubot/comic.png`))).error.message).toBe('Profile comics are not enabled for hubot');
+    expect((await fetch(`${baseUrl}/u/org:github/comic.png`)).status).toBe(400);
+    const malformed = await fetch(`${baseUrl}/u/octo%E0%A4%A/comic.png`);
+    expect(malformed.status).toBe(400);
+    expect((await json(malformed)).error.message).toBe('Malformed login in URL: octo%E0%A4%A');
+    expect((await fetch(`${baseUrl}/u/octocat/poster.png`)).status).toBe(404);
+
+    await new Promise((resolve) => server!.close(resolve));
+    await start();
+    expect((await fetch(`${baseUrl}/u/octocat/comic.png`)).status).toBe(404);
+    expect(() => createComicServer({ profileComics: {} as ComicServerOptions['profileComics'] }))
+      .toThrow("profileComics.allow must list the logins to serve, or be '*' for any user");
+  });
+
+  it('refuses new profile comics while the queue is full', async () => {
+    let release!: () => void;
+    const released = new Promise<void>((resolve) => (release = resolve));
+    const placeholder = createPlaceholderProvider();
+    await start({
+      maxQueuedJobs: 0,
+      provider: { name: 'slow', generate: async (prompt) => (await released, placeholder.generate(prompt)) },
+      profileComics: { allow: '*' },
+    });
+
+    const { id } = await json(await post({ subject: 'hubot' }));
+    expect((await fetch(`${baseUrl}/u/octocat/comic.png`)).status).toBe(503);
+    release();
+    await waitForJob(id);
+    expect((await fetch(`${baseUrl}/u/octocat/comic.png`)).status).toBe(200);
+  });
+});
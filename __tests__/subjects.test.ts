@@ -0,0 +1,168 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  parseSubject,
+  formatSubject,
+  summarizeReadme,
+  fetchOrganizationRepositories,
+  fetchRepositoryStory,
+  createOrganizationPrompt,
+  createRepositoryStoryPrompt,
+  type RepositoryStory,
+} from '../src/index.js';
+import { jsonResponse } from './helpers.js';
+
+vi.mock('node-fetch', () => ({
+  default: vi.fn(),
+}));
+
+const { default: fetch } = await import('node-fetch');
+
+describe('comic subjects', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('parseSubject', () => {
+    it('parses users, orgs and repositories', () => {
+      expect(parseSubject('octocat')).toEqual({ type: 'user', login: 'octocat' });
+      expect(parseSubject('user:octocat')).toEqual({ type: 'user', login: 'octocat' });
+      expect(parseSubject('org:vercel')).toEqual({ type: 'org', login: 'vercel' });
+      expect(parseSubject('vercel/next.js')).toEqual({ type: 'repo', owner: 'vercel', repo: 'next.js' });
+    });
+
+    it('round-trips through formatSubject', () => {
+      for (const input of ['octocat', 'org:vercel', 'vercel/next.js']) {
+        expect(formatSubject(parseSubject(input))).toBe(input);
+      }
+    });
+
+    it('rejects malformed subjects', () => {
+      expect(() => parseSubject('bad@name')).toThrow('Invalid GitHub username: bad@name');
+      expect(() => parseSubject('org:-bad')).toThrow('Invalid GitHub organization: -bad');
+      expect(() => parseSubject('owner/..')).toThrow('Invalid GitHub repository: owner/..');
+      expect(() => parseSubject('a/b/c')).toThrow('Invalid GitHub username: a/b/c');
+    });
+  });
+
+  describe('summarizeReadme', () => {
+    it('skips headings and badges and returns the first paragraph', () => {
+      const readme = [
+        '# My Project',
+        '',
+        '[![build](https://img.shields.io/x.svg)](https://ci)',
+        '',
+        'A **fast** tool for [turning](https://x.y) repositories into comics.',
+        '',
+        '## Install',
+      ].join('\n');
+
+      expect(summarizeReadme(readme)).toBe('A fast tool for turning repositories into comics.');
+    });
+
+    it('truncates long summaries', () => {
+      const summary = summarizeReadme('word '.repeat(200), 50);
+
+      expect(summary).toHaveLength(50);
+      expect(summary?.endsWith('…')).toBe(true);
+    });
+
+    it('returns null when there is no prose', () => {
+      expect(summarizeReadme('# Title\n\n```\ncode\n```')).toBeNull();
+    });
+  });
+
+  describe('fetchOrganizationRepositories', () => {
+    it('fetches from the orgs endpoint', async () => {
+      vi.mocked(fetch).mockResolvedValueOnce(jsonResponse([{ name: 'next.js', description: 'React framework' }]));
+
+      const repos = await fetchOrganizationRepositories('vercel');
+
+      expect(repos[0].name).toBe('next.js');
+      expect(vi.mocked(fetch)).toHaveBeenCalledWith(
+        expect.stringContaining('/orgs/vercel/repos'),
+        expect.anything()
+      );
+    });
+
+    it('reports missing organizations', async () => {
+      vi.mocked(fetch).mockResolvedValueOnce(jsonResponse({}, { status: 404 }));
+
+      await expect(fetchOrganizationRepositories('ghost-org'))
+        .rejects.toThrow('Failed to fetch repos for org ghost-org: 404 Organization not found');
+    });
+  });
+
+  describe('fetchRepositoryStory', () => {
+    it('combines repository, README, releases and contributors', async () => {
+      vi.mocked(fetch).mockImplementation(async (url) => {
+        const target = String(url);
+        if (target.endsWith('/readme')) {
+          return jsonResponse({
+            content: Buffer.from('# Title\n\nThe framework everyone keeps rewriting.').toString('base64'),
+            encoding: 'base64',
+          });
+        }
+        if (target.includes('/releases')) {
+          return jsonResponse([{ tag_name: 'v2.0.0', name: 'Big one', published_at: '2026-10-01T00:00:00Z' }]);
+        }
+        if (target.includes('/contributors')) {
+          return jsonResponse([{ login: 'alice', contributions: 42 }]);
+        }
+        return jsonResponse({ name: 'next.js', description: 'React framework', stargazers_count: 10 });
+      });
+
+      const story = await fetchRepositoryStory('vercel', 'next.js');
+
+      expect(story.repo.name).toBe('next.js');
+      expect(story.readmeSummary).toBe('The framework everyone keeps rewriting.');
+      expect(story.releases).toEqual([{ tag: 'v2.0.0', name: 'Big one', publishedAt: '2026-10-01T00:00:00Z' }]);
+      expect(story.contributors).toEqual([{ login: 'alice', contributions: 42 }]);
+    });
+
+    it('throws when the repository does not exist', async () => {
+      vi.mocked(fetch).mockResolvedValue(jsonResponse({}, { status: 404 }));
+
+      await expect(fetchRepositoryStory('octocat', 'missing'))
+        .rejects.toThrow('Failed to fetch repository octocat/missing: 404 Repository not found');
+    });
+  });
+
+  describe('prompt builders', () => {
+    it('creates an organization prompt', () => {
+      const prompt = createOrganizationPrompt([{ name: 'next.js', description: 'React framework' }], 'vercel');
+
+      expect(prompt).toContain('GitHub organization "vercel"');
+      expect(prompt).toContain('next.js');
+    });
+
+    it('creates a repository story prompt', () => {
+      const story: RepositoryStory = {
+        owner: 'vercel',
+        repo: { name: 'next.js', description: 'React framework', language: 'TypeScript' },
+        readmeSummary: 'The React framework.',
+        releases: [{ tag: 'v15.0.0', name: null, publishedAt: '2026-10-01T00:00:00Z' }],
+        contributors: [{ login: 'alice', contributions: 42 }],
+      };
+
+      const prompt = createRepositoryStoryPrompt(story);
+
+      expect(prompt).toContain('"vercel/next.js"');
+      expect(prompt).toContain('From the README: The React framework.');
+      expect(prompt).toContain('v15.0.0 (2026-10-01)');
+      expect(prompt).toContain('alice (42 contributions)');
+    });
+
+    it('notes when a repository has no releases', () => {
+      const prompt = createRepositoryStoryPrompt({
+        owner: 'o',
+        repo: { name: 'r', description: null },
+        readmeSummary: null,
+        releases: [],
+        contributors: [],
+      });
+
+      expect(prompt).toContain('No releases yet');
+      expect(prompt).not.toContain('From the README');
+    });
+  });
+});
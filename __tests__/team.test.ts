@@ -0,0 +1,81 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  aggregateTeam,
+  createTeamPrompt,
+  parseSubject,
+  formatSubject,
+  previewComic,
+  type RepoInfo,
+} from '../src/index.js';
+import { jsonResponse } from './helpers.js';
+
+vi.mock('node-fetch', () => ({
+  default: vi.fn(),
+}));
+
+const { default: fetch } = await import('node-fetch');
+
+const alice: RepoInfo[] = [
+  { name: 'rocket', description: 'Goes up', stargazers_count: 50, language: 'TypeScript' },
+  { name: 'crab', description: 'Scuttles', stargazers_count: 10, language: 'Rust' },
+];
+
+const bob: RepoInfo[] = [
+  { name: 'anvil', description: 'Falls down', stargazers_count: 30, language: 'TypeScript' },
+  { name: 'hammer', description: 'Hits things', stargazers_count: 30, language: 'TypeScript' },
+  { name: 'nail', description: null, stargazers_count: 0, language: null },
+];
+
+describe('team subjects', () => {
+  it('parses team and versus subjects and drops repeated users', () => {
+    expect(parseSubject('versus:alice, bob,Alice')).toEqual({ type: 'team', mode: 'versus', logins: ['alice', 'bob'] });
+    expect(formatSubject(parseSubject('team:alice,bob,carol'))).toBe('team:alice,bob,carol');
+    expect(() => parseSubject('team:alice')).toThrow('needs 2 to 6 different users, got 1');
+    expect(() => parseSubject('versus:alice,org:vercel')).toThrow('Invalid GitHub username: org:vercel');
+  });
+});
+
+describe('aggregateTeam', () => {
+  it('totals each member and finds leaders and shared languages', () => {
+    const summary = aggregateTeam('versus', [{ login: 'alice', repos: alice }, { login: 'bob', repos: bob }], 1);
+
+    expect(summary.members).toEqual([
+      { login: 'alice', repoCount: 2, stars: 60, languages: [{ language: 'Rust', repos: 1 }, { language: 'TypeScript', repos: 1 }], topRepos: [alice[0]] },
+      { login: 'bob', repoCount: 3, stars: 60, languages: [{ language: 'TypeScript', repos: 2 }], topRepos: [bob[0]] },
+    ]);
+    expect(summary.sharedLanguages).toEqual(['TypeScript']);
+    expect(summary.leaders).toEqual({ stars: null, repos: 'bob', languages: 'alice' });
+  });
+
+  it('writes versus and team prompts', () => {
+    const members = [{ login: 'alice', repos: alice }, { login: 'bob', repos: bob }];
+
+    const versus = createTeamPrompt(aggregateTeam('versus', members), 2);
+    const team = createTeamPrompt(aggregateTeam('team', [...members, { login: 'carol', repos: [] }]), 2);
+
+    expect(versus).toContain('head-to-head between GitHub users alice vs bob');
+    expect(versus).toContain('Stars: alice ⭐ 60 vs bob ⭐ 60 (tied)');
+    expect(versus).toContain('Projects: alice 2 vs bob 3 (bob leads)');
+    expect(versus).toContain('bob: 3 repositories, ⭐ 60, mostly TypeScript\n1. anvil [TypeScript] (⭐ 30): Falls down');
+    expect(team).toContain('about the team of GitHub users alice, bob and carol');
+    expect(team).toContain('carol: 0 repositories, ⭐ 0\n- No public repositories');
+    expect(team).not.toContain('scoreboard');
+  });
+});
+
+describe('team comics', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('fetches every member and features their top repositories', async () => {
+    vi.mocked(fetch).mockImplementation(async (url) => jsonResponse(String(url).includes('/users/alice/') ? alice : bob));
+
+    const preview = await previewComic('versus:alice,bob', {}, { repoCount: 1 });
+
+    expect(preview.subject).toBe('versus:alice,bob');
+    expect(preview.repos).toEqual(['alice/rocket', 'bob/anvil']);
+    expect(preview.apiCalls.github).toBe(2);
+    await expect(previewComic('team:alice,bob', {}, { enrich: ['stats'] })).rejects.toThrow('not available for team comics');
+  });
+});
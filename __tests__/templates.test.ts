@@ -0,0 +1,93 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  createComicPrompt,
+  createOrganizationPrompt,
+  renderTemplate,
+  resolveComicStyle,
+  loadTemplateFile,
+  THEME_NAMES,
+  type RepoInfo,
+} from '../src/index.js';
+
+const repos: RepoInfo[] = [
+  { name: 'repo1', description: 'first repo', stargazers_count: 100, language: 'TypeScript' },
+  { name: 'repo2', description: 'second repo', stargazers_count: 50, language: 'Go' },
+];
+
+describe('prompt templates', () => {
+  let tmpDir: string | undefined;
+
+  afterEach(async () => {
+    if (tmpDir) {
+      await fs.rm(tmpDir, { recursive: true, force: true });
+      tmpDir = undefined;
+    }
+  });
+
+  it('keeps the classic prompt by default', () => {
+    const prompt = createComicPrompt(repos, 'octocat');
+
+    expect(prompt).toContain('Create a humorous 4-panel comic strip about GitHub user "octocat"');
+    expect(prompt).toContain('Style: Comic book style, colorful, fun and playful.');
+    expect(prompt).toContain('Make it lighthearted and encouraging.');
+  });
+
+  it('applies every built-in theme', () => {
+    for (const theme of THEME_NAMES) {
+      const prompt = createComicPrompt(repos, 'octocat', 2, { style: { theme } });
+
+      expect(prompt).toContain('octocat');
+      expect(prompt).toContain('repo2');
+    }
+
+    expect(createComicPrompt(repos, 'octocat', 2, { style: { theme: 'noir' } })).toContain('film-noir');
+  });
+
+  it('configures panels, tone, art style and language', () => {
+    const prompt = createComicPrompt(repos, 'octocat', 2, {
+      style: { panels: 6, tone: 'Keep it deadpan.', artStyle: 'Pixel art.', language: 'Spanish' },
+    });
+
+    expect(prompt).toContain('6-panel comic strip');
+    expect(prompt).toContain('Style: Pixel art.');
+    expect(prompt).toContain('Keep it deadpan.');
+    expect(prompt).toContain('Write all captions and dialogue in Spanish.');
+  });
+
+  it('uses "single-panel" wording for one panel', () => {
+    expect(createComicPrompt(repos, 'octocat', 1, { style: { panels: 1 } })).toContain('single-panel comic');
+  });
+
+  it('validates theme and panel count', () => {
+    expect(() => resolveComicStyle({ panels: 9 })).toThrow('panels must be an integer between 1 and 8');
+    expect(() => resolveComicStyle({ panels: 2.5 })).toThrow('panels must be an integer between 1 and 8');
+    expect(() => resolveComicStyle({ theme: 'vaporwave' as any })).toThrow('Unknown theme: vaporwave');
+  });
+
+  it('renders user templates with user and repo placeholders', () => {
+    const prompt = createOrganizationPrompt(repos, 'vercel', 2, {
+      style: { template: 'Draw {{panels}} panels about {{user}}. Star: {{repos.1.name}} ({{ repos.1.stars }}). Missing: [{{repos.5.name}}]' },
+    });
+
+    expect(prompt).toBe('Draw 4 panels about vercel. Star: repo1 (100). Missing: []');
+  });
+
+  it('rejects unknown placeholders', () => {
+    expect(() => renderTemplate('Hello {{nope}}', {})).toThrow('Unknown template placeholder: {{nope}}');
+    expect(() => renderTemplate('Hello {{constructor}}', {})).toThrow('Unknown template placeholder');
+  });
+
+  it('loads template files and rejects empty ones', async () => {
+    tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'comics-'));
+    const file = path.join(tmpDir, 'prompt.txt');
+    const empty = path.join(tmpDir, 'empty.txt');
+    await fs.writeFile(file, 'About {{user}}');
+    await fs.writeFile(empty, '  \n');
+
+    expect(await loadTemplateFile(file)).toBe('About {{user}}');
+    await expect(loadTemplateFile(empty)).rejects.toThrow('Template file is empty');
+  });
+});
@@ -0,0 +1,16 @@
+#!/usr/bin/env node
+
+import { runAction } from './action.js';
+
+/**
+ * GitHub Action entry point; see action.yml for the inputs
+ */
+runAction(process.env, { log: (message) => console.log(message) })
+  .then((outputs) => {
+    console.log(`🎉 Comic for ${outputs.subject} written to ${outputs.image_path}`);
+  })
+  .catch((error) => {
+    // Workflow command that annotates the run with the failure
+    console.log(`::error::${(error instanceof Error ? error.message : String(error)).replace(/\r?\n/g, '%0A')}`);
+    process.exitCode = 1;
+  });
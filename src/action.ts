@@ -0,0 +1,282 @@
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { execFile } from 'child_process';
+import { randomBytes } from 'crypto';
+import { promisify } from 'util';
+import { generateGithubComic, parseSubject, formatSubject } from './index.js';
+import { createImageProvider, PROVIDER_NAMES } from './providers.js';
+import type { OutputFormat } from './output.js';
+import { THEME_NAMES, type ThemeName } from './templates.js';
+
+/** Markers delimiting the README section the action rewrites */
+export const README_MARKERS = {
+  start: '<!-- github-comic:start -->',
+  end: '<!-- github-comic:end -->',
+} as const;
+
+/** Image formats the action can write to `image_path` */
+const ACTION_IMAGE_FORMATS: OutputFormat[] = ['png', 'webp', 'jpeg', 'svg'];
+
+/**
+ * Inputs of the GitHub Action, read from `INPUT_*` environment variables
+ */
+export interface ActionInputs {
+  subject: string;
+  githubToken?: string;
+  apiKey?: string;
+  provider: (typeof PROVIDER_NAMES)[number];
+  theme?: ThemeName;
+  panels?: number;
+  repoCount: number;
+  seed?: number;
+  /** Where the comic is written, relative to the workspace */
+  imagePath: string;
+  /** Format of the comic, from the image path's extension */
+  imageFormat: OutputFormat;
+  /** README to update, relative to the workspace; empty to skip */
+  readmePath?: string;
+  altText: string;
+  commit: boolean;
+  commitMessage: string;
+}
+
+/**
+ * Outputs reported to later workflow steps
+ */
+export interface ActionOutputs {
+  subject: string;
+  image_path: string;
+  alt_text: string;
+  readme_updated: boolean;
+  committed: boolean;
+}
+
+/**
+ * Runs git in the workspace and returns its standard output
+ */
+export type GitRunner = (args: string[], cwd: string) => Promise<string>;
+
+/**
+ * Options for runAction
+ */
+export interface RunActionOptions {
+  /** Runs git commands (default: the git executable) */
+  git?: GitRunner;
+  /** Called with progress messages (default: none) */
+  log?: (message: string) => void;
+}
+
+/**
+ * Replaces the content between the github-comic markers. When the markdown
+ * has no markers yet, the section is appended at the end.
+ *
+ * @param markdown - README contents
+ * @param content - Markdown to place between the markers
+ * @returns Updated README contents
+ * @throws Error if a marker is missing its counterpart or appears more than once
+ */
+export function updateReadmeSection(markdown: string, content: string): string {
+  const { start, end } = README_MARKERS;
+  const startIndex = markdown.indexOf(start);
+  const endIndex = markdown.indexOf(end);
+
+  if (startIndex !== -1 && markdown.indexOf(start, startIndex + 1) !== -1) {
+    throw new Error(`README contains more than one ${start} marker`);
+  }
+  if (startIndex === -1 && endIndex === -1) {
+    const body = markdown.replace(/\s*$/, '');
+    return `${body}${body ? '\n\n' : ''}${start}\n${content}\n${end}\n`;
+  }
+  if (startIndex === -1 || endIndex === -1 || endIndex < startIndex) {
+    throw new Error(`README must contain ${start} followed by ${end}`);
+  }
+
+  return `${markdown.slice(0, startIndex + start.length)}\n${content}\n${markdown.slice(endIndex)}`;
+}
+
+/**
+ * Renders the Markdown image shown between the README markers
+ *
+ * @param imageUrl - Image path relative to the README, or a URL
+ * @param altText - Alternative text for the image
+ * @returns Markdown image
+ */
+export function renderComicMarkdown(imageUrl: string, altText: string): string {
+  const alt = altText.replace(/[\\[\]]/g, '\\$&').replace(/\s+/g, ' ').trim();
+  return `![${alt}](${encodeURI(imageUrl)})`;
+}
+
+function imageFormatFor(imagePath: string): OutputFormat {
+  const extension = path.extname(imagePath).slice(1).toLowerCase();
+  const format = (extension === 'jpg' ? 'jpeg' : extension) as OutputFormat;
+  if (!ACTION_IMAGE_FORMATS.includes(format)) {
+    throw new Error(`Input image_path must end in .${ACTION_IMAGE_FORMATS.join(', .')}, got "${imagePath}"`);
+  }
+  return format;
+}
+
+function parseBooleanInput(name: string, value: string): boolean {
+  if (/^(true|yes|1)$/i.test(value)) {
+    return true;
+  }
+  if (/^(false|no|0)$/i.test(value)) {
+    return false;
+  }
+  throw new Error(`Input ${name} must be true or false, got "${value}"`);
+}
+
+function parseIntegerInput(name: string, value: string): number {
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed)) {
+    throw new Error(`Input ${name} must be an integer, got "${value}"`);
+  }
+  return parsed;
+}
+
+/**
+ * Reads the action inputs. Input `foo_bar` arrives as `INPUT_FOO_BAR`.
+ *
+ * @param env - Environment variables (default: process.env)
+ * @returns Validated inputs with defaults applied
+ * @throws Error if an input is missing or invalid
+ */
+export function readActionInputs(env: NodeJS.ProcessEnv = process.env): ActionInputs {
+  const input = (name: string) => env[`INPUT_${name.toUpperCase()}`]?.trim() || undefined;
+
+  const subjectInput = input('subject') ?? env.GITHUB_REPOSITORY_OWNER;
+  if (!subjectInput) {
+    throw new Error('Input subject is required');
+  }
+  const subject = formatSubject(parseSubject(subjectInput));
+
+  const provider = input('provider') ?? 'gemini';
+  if (!(PROVIDER_NAMES as readonly string[]).includes(provider)) {
+    throw new Error(`Input provider must be one of: ${PROVIDER_NAMES.join(', ')}`);
+  }
+  const theme = input('theme');
+  if (theme && !(THEME_NAMES as readonly string[]).includes(theme)) {
+    throw new Error(`Input theme must be one of: ${THEME_NAMES.join(', ')}`);
+  }
+
+  const imagePath = input('image_path') ?? 'comic.png';
+
+  return {
+    subject,
+    githubToken: input('github_token') ?? env.GITHUB_TOKEN,
+    apiKey: input('api_key') ?? env.AI_GATEWAY_API_KEY,
+    provider: provider as ActionInputs['provider'],
+    theme: theme as ThemeName | undefined,
+    panels: input('panels') ? parseIntegerInput('panels', input('panels')!) : undefined,
+    repoCount: input('repo_count') ? parseIntegerInput('repo_count', input('repo_count')!) : 3,
+    seed: input('seed') ? parseIntegerInput('seed', input('seed')!) : undefined,
+    imagePath,
+    imageFormat: imageFormatFor(imagePath),
+    // An explicitly empty input disables the README update
+    readmePath: env.INPUT_README_PATH === undefined ? 'README.md' : input('readme_path'),
+    altText: input('alt_text') ?? `Comic strip about ${subject}`,
+    commit: input('commit') ? parseBooleanInput('commit', input('commit')!) : true,
+    commitMessage: input('commit_message') ?? `Update GitHub comic for ${subject}`,
+  };
+}
+
+const runGit: GitRunner = async (args, cwd) => {
+  const { stdout } = await promisify(execFile)('git', args, { cwd });
+  return stdout;
+};
+
+/**
+ * Appends outputs to the `$GITHUB_OUTPUT` file using the multi-line syntax
+ */
+async function writeActionOutputs(outputFile: string, outputs: ActionOutputs): Promise<void> {
+  const lines = Object.entries(outputs).map(([name, value]) => {
+    const delimiter = `ghadelimiter_${randomBytes(8).toString('hex')}`;
+    return `${name}<<${delimiter}\n${value}\n${delimiter}\n`;
+  });
+  await fs.appendFile(outputFile, lines.join(''));
+}
+
+/**
+ * Generates a comic, writes it to `image_path`, rewrites the README section
+ * and commits and pushes the changed files
+ *
+ * @param env - Environment variables with the `INPUT_*` values (default: process.env)
+ * @param options - Git runner and logger, for tests
+ * @returns Outputs, also written to `$GITHUB_OUTPUT` when set
+ * @throws Error if an input is invalid or any step fails
+ */
+export async function runAction(env: NodeJS.ProcessEnv = process.env, options: RunActionOptions = {}): Promise<ActionOutputs> {
+  const { git = runGit, log = () => {} } = options;
+  const inputs = readActionInputs(env);
+  const workspace = env.GITHUB_WORKSPACE || process.cwd();
+  const imagePath = path.resolve(workspace, inputs.imagePath);
+
+  log(`Generating a comic about ${inputs.subject}`);
+  const provider = createImageProvider(inputs.provider, { apiKey: inputs.apiKey });
+  const tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'github-comic-'));
+  try {
+    const result = await generateGithubComic(inputs.subject, { GITHUB_TOKEN: inputs.githubToken }, {
+      provider,
+      repoCount: inputs.repoCount,
+      style: { theme: inputs.theme, panels: inputs.panels },
+      seed: inputs.seed,
+      output: { formats: [inputs.imageFormat] },
+      outputDir: tempDir,
+    });
+    await fs.mkdir(path.dirname(imagePath), { recursive: true });
+    await fs.copyFile(result.filePath, imagePath);
+  } finally {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  }
+  log(`Wrote ${path.relative(workspace, imagePath)}`);
+
+  const changed = [imagePath];
+  let readmeUpdated = false;
+  if (inputs.readmePath) {
+    const readmePath = path.resolve(workspace, inputs.readmePath);
+    const current = await fs.readFile(readmePath, 'utf8').catch((error) => {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return '';
+      }
+      throw error;
+    });
+    const imageUrl = path.relative(path.dirname(readmePath), imagePath).split(path.sep).join('/');
+    const updated = updateReadmeSection(current, renderComicMarkdown(imageUrl, inputs.altText));
+    if (updated !== current) {
+      await fs.writeFile(readmePath, updated);
+      readmeUpdated = true;
+      changed.push(readmePath);
+      log(`Updated ${path.relative(workspace, readmePath)}`);
+    }
+  }
+
+  let committed = false;
+  if (inputs.commit) {
+    const files = changed.map((file) => path.relative(workspace, file));
+    if ((await git(['status', '--porcelain', '--', ...files], workspace)).trim()) {
+      await git(['add', '--', ...files], workspace);
+      await git([
+        '-c', 'user.name=github-actions[bot]',
+        '-c', 'user.email=41898282+github-actions[bot]@users.noreply.github.com',
+        'commit', '-m', inputs.commitMessage,
+      ], workspace);
+      await git(['push'], workspace);
+      committed = true;
+      log(`Committed and pushed: ${inputs.commitMessage}`);
+    } else {
+      log('Nothing changed; skipping the commit');
+    }
+  }
+
+  const outputs: ActionOutputs = {
+    subject: inputs.subject,
+    image_path: path.relative(workspace, imagePath).split(path.sep).join('/'),
+    alt_text: inputs.altText,
+    readme_updated: readmeUpdated,
+    committed,
+  };
+  if (env.GITHUB_OUTPUT) {
+    await writeActionOutputs(env.GITHUB_OUTPUT, outputs);
+  }
+  return outputs;
+}
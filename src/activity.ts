@@ -0,0 +1,260 @@
+import { ConfigError } from './errors.js';
+import { resolveGithubClient, type GithubClient } from './github.js';
+import type { RepoInfo } from './index.js';
+
+/**
+ * Date range a year-in-review comic covers, both ends inclusive
+ */
+export interface ActivityWindow {
+  since: Date;
+  until: Date;
+}
+
+/**
+ * One entry from the GitHub events API, reduced to what the summary needs
+ */
+export interface ActivityEvent {
+  /** Event type, e.g. "PushEvent" or "CreateEvent" */
+  type: string;
+  /** Full name of the repository, e.g. "octocat/rocket" */
+  repo: string;
+  createdAt: string;
+  /** Commits pushed, for push events */
+  commits: number;
+}
+
+/**
+ * A repository ranked by how much happened in it during the window
+ */
+export interface ActiveRepo {
+  /** Repository name, or `owner/name` for repositories of other accounts */
+  name: string;
+  /** Events in the window */
+  events: number;
+  /** Commits pushed in the window */
+  commits: number;
+  language?: string | null;
+  stars?: number;
+  lastPush?: string | null;
+}
+
+/**
+ * What a user did in a time window, derived from events and repository dates
+ */
+export interface ActivitySummary {
+  login: string;
+  /** First day of the window, YYYY-MM-DD */
+  since: string;
+  /** Last day of the window, YYYY-MM-DD */
+  until: string;
+  /** Events in the window */
+  events: number;
+  /** Commits pushed in the window */
+  commits: number;
+  /** Most active repositories first */
+  activeRepos: ActiveRepo[];
+  /** Repositories created in the window, oldest first */
+  newRepos: RepoInfo[];
+  /** Languages of new repositories that none of the older ones use */
+  languages: string[];
+  /** Months with the most activity first, as YYYY-MM */
+  busiestMonths: { month: string; activity: number }[];
+  /** Oldest event GitHub returned; the events API only reaches back about 90 days */
+  eventsSince?: string;
+}
+
+/**
+ * Options for fetchUserEvents
+ */
+export interface FetchEventsOptions {
+  /** Stop paging once events are older than this */
+  since?: Date;
+  /** Maximum number of pages; GitHub serves at most 300 events (default: 3) */
+  maxPages?: number;
+}
+
+const DATE_REGEX = /^\d{4}-\d{2}-\d{2}$/;
+
+const DAY = 86_400_000;
+
+/**
+ * Parses one end of a window. Dates without a time cover the whole day.
+ */
+function parseWindowDate(value: string, name: string, endOfDay: boolean): Date {
+  const time = Date.parse(DATE_REGEX.test(value) ? `${value}T00:00:00Z` : value);
+  if (isNaN(time)) {
+    throw new ConfigError(`Invalid ${name} date: ${value} (expected YYYY-MM-DD)`);
+  }
+  return new Date(endOfDay && DATE_REGEX.test(value) ? time + DAY - 1 : time);
+}
+
+/**
+ * Builds an activity window from `--since` and `--until` style dates
+ *
+ * @param since - First day, YYYY-MM-DD or ISO 8601 (default: one year before `until`)
+ * @param until - Last day, YYYY-MM-DD or ISO 8601 (default: now)
+ * @param now - Reference time (default: now)
+ * @returns Window with both ends inclusive
+ * @throws ConfigError if a date is invalid or the window ends before it starts
+ */
+export function parseActivityWindow(since?: string, until?: string, now: Date = new Date()): ActivityWindow {
+  const end = until ? parseWindowDate(until, 'until', true) : now;
+  const start = since ? parseWindowDate(since, 'since', false) : new Date(end.getTime() - 365 * DAY);
+  if (start > end) {
+    throw new ConfigError(`The activity window ends before it starts: ${since} to ${until}`);
+  }
+  return { since: start, until: end };
+}
+
+/**
+ * Fetches a user's public events, newest first, following pagination
+ *
+ * @param login - GitHub username
+ * @param tokenOrClient - Optional GitHub personal access token, or a GitHub client
+ * @param options - How far back to page
+ * @returns Events, or none if the user does not exist
+ */
+export async function fetchUserEvents(
+  login: string,
+  tokenOrClient?: string | GithubClient,
+  options: FetchEventsOptions = {}
+): Promise<ActivityEvent[]> {
+  const { since, maxPages = 3 } = options;
+  const client = resolveGithubClient(tokenOrClient);
+  const events: ActivityEvent[] = [];
+  let nextUrl: string | undefined = `/users/${encodeURIComponent(login)}/events/public?per_page=100`;
+
+  for (let page = 0; nextUrl && page < maxPages; page++) {
+    const res = await client.request<any[]>(nextUrl, `events for ${login}`);
+    if (!res || !Array.isArray(res.data)) {
+      break;
+    }
+
+    events.push(...res.data.map((event): ActivityEvent => ({
+      type: String(event.type),
+      repo: String(event.repo?.name ?? ''),
+      createdAt: String(event.created_at),
+      commits: event.type === 'PushEvent'
+        ? Number(event.payload?.distinct_size ?? event.payload?.size ?? event.payload?.commits?.length ?? 0)
+        : 0,
+    })));
+
+    // Events come newest first, so older pages cannot fall inside the window
+    const oldest = events.at(-1);
+    if (since && oldest && Date.parse(oldest.createdAt) < since.getTime()) {
+      break;
+    }
+    const next = res.links.next;
+    nextUrl = next?.startsWith(`${client.baseUrl}/`) ? next : undefined;
+  }
+
+  return events;
+}
+
+function inWindow(iso: string | null | undefined, window: ActivityWindow): boolean {
+  const time = iso ? Date.parse(iso) : NaN;
+  return time >= window.since.getTime() && time <= window.until.getTime();
+}
+
+/**
+ * Summarizes a user's activity in a window: events rank the repositories
+ * they worked on, and repository dates cover what the events API no longer
+ * returns (new projects, last pushes)
+ *
+ * @param login - GitHub username
+ * @param repos - The user's repositories
+ * @param events - Public events, e.g. from fetchUserEvents
+ * @param window - Date range to summarize
+ * @returns Activity summary for createActivityPrompt
+ */
+export function aggregateActivity(
+  login: string,
+  repos: RepoInfo[],
+  events: ActivityEvent[],
+  window: ActivityWindow
+): ActivitySummary {
+  const owned = new Map(repos.map((repo) => [repo.name.toLowerCase(), repo]));
+  const active = new Map<string, ActiveRepo>();
+  const months = new Map<string, number>();
+  const count = (iso: string) => months.set(iso.slice(0, 7), (months.get(iso.slice(0, 7)) ?? 0) + 1);
+  const ownPrefix = `${login.toLowerCase()}/`;
+
+  const windowEvents = events.filter((event) => event.repo && inWindow(event.createdAt, window));
+  for (const event of windowEvents) {
+    const own = event.repo.toLowerCase().startsWith(ownPrefix);
+    const repo = own ? owned.get(event.repo.slice(ownPrefix.length).toLowerCase()) : undefined;
+    const name = repo?.name ?? (own ? event.repo.slice(ownPrefix.length) : event.repo);
+    const entry = active.get(name) ?? {
+      name,
+      events: 0,
+      commits: 0,
+      language: repo?.language,
+      stars: repo?.stargazers_count,
+      lastPush: repo?.pushed_at,
+    };
+    entry.events++;
+    entry.commits += event.commits;
+    active.set(name, entry);
+    count(event.createdAt);
+  }
+
+  // Repositories pushed to in the window count even when their events are too old to fetch
+  for (const repo of repos) {
+    if (inWindow(repo.pushed_at, window)) {
+      if (!active.has(repo.name)) {
+        active.set(repo.name, {
+          name: repo.name,
+          events: 0,
+          commits: 0,
+          language: repo.language,
+          stars: repo.stargazers_count,
+          lastPush: repo.pushed_at,
+        });
+      }
+      count(repo.pushed_at!);
+    }
+  }
+
+  const newRepos = repos
+    .filter((repo) => inWindow(repo.created_at, window))
+    .sort((a, b) => Date.parse(a.created_at!) - Date.parse(b.created_at!));
+  newRepos.forEach((repo) => count(repo.created_at!));
+
+  const olderLanguages = new Set(repos
+    .filter((repo) => repo.created_at && Date.parse(repo.created_at) < window.since.getTime())
+    .map((repo) => repo.language?.toLowerCase())
+    .filter(Boolean));
+  const languages: string[] = [];
+  for (const { language } of newRepos) {
+    if (language && !olderLanguages.has(language.toLowerCase())) {
+      olderLanguages.add(language.toLowerCase());
+      languages.push(language);
+    }
+  }
+
+  return {
+    login,
+    since: window.since.toISOString().slice(0, 10),
+    until: window.until.toISOString().slice(0, 10),
+    events: windowEvents.length,
+    commits: windowEvents.reduce((sum, event) => sum + event.commits, 0),
+    activeRepos: [...active.values()].sort((a, b) =>
+      b.events - a.events
+      || b.commits - a.commits
+      || (Date.parse(b.lastPush ?? '') || 0) - (Date.parse(a.lastPush ?? '') || 0)
+      || a.name.localeCompare(b.name)),
+    newRepos,
+    languages,
+    busiestMonths: [...months.entries()]
+      .map(([month, activity]) => ({ month, activity }))
+      .sort((a, b) => b.activity - a.activity || a.month.localeCompare(b.month)),
+    eventsSince: events.at(-1)?.createdAt,
+  };
+}
+
+/**
+ * Formats a YYYY-MM month for prompts, e.g. "March 2026"
+ */
+export function formatMonth(month: string): string {
+  return new Date(`${month}-01T00:00:00Z`).toLocaleString('en-US', { month: 'long', year: 'numeric', timeZone: 'UTC' });
+}
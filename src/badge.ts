@@ -0,0 +1,192 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { randomBytes } from 'crypto';
+import { createThumbnail } from './compositor.js';
+import { escapeXml } from './text.js';
+import type { GeneratedImage } from './providers.js';
+import type { ImageResult } from './index.js';
+
+/** Profile comics are regenerated at most once a day by default */
+export const DEFAULT_PROFILE_COMIC_INTERVAL = 24 * 60 * 60 * 1000;
+
+/** Width of profile comic thumbnails in pixels */
+export const PROFILE_THUMBNAIL_WIDTH = 320;
+
+/**
+ * The comic currently served for a user
+ */
+export interface ProfileComic {
+  login: string;
+  generatedAt: string;
+  filePath: string;
+  mediaType: string;
+  /** PNG thumbnail, when the comic itself is a PNG */
+  thumbnailPath?: string;
+}
+
+/**
+ * Options for createProfileComics
+ */
+export interface ProfileComicsOptions {
+  /** Directory holding one subdirectory per user */
+  dir: string;
+  /** Minimum time between generations for the same user, in milliseconds (default: 24 hours) */
+  interval?: number;
+  /** Generates a comic for `login` into `outputDir` */
+  generate: (login: string, outputDir: string) => Promise<ImageResult>;
+  /** Called when a background refresh fails; the previous comic keeps being served */
+  onError?: (login: string, error: unknown) => void;
+}
+
+/**
+ * Latest comic per user, regenerated at most once per interval
+ */
+export interface ProfileComics {
+  readonly interval: number;
+  /**
+   * Returns the user's latest comic. A missing comic is generated and awaited;
+   * a stale one is returned immediately while a new one is generated in the background.
+   */
+  latest(login: string): Promise<ProfileComic>;
+  /** When the comic becomes stale and the next request triggers a refresh */
+  nextRefresh(comic: ProfileComic): Date;
+}
+
+/** Contents of `latest.json`; paths are relative to the user's directory */
+interface StoredProfileComic {
+  login: string;
+  generatedAt: string;
+  fileName: string;
+  mediaType: string;
+  thumbnailName?: string;
+  /** Every file written for the comic, removed when it is replaced */
+  files: string[];
+}
+
+/**
+ * Creates the store behind the `/u/:login/...` server routes. Each user's
+ * directory holds the current comic, its thumbnail and a `latest.json`
+ * pointer; files of replaced comics are removed. Concurrent requests for the
+ * same user share one generation.
+ *
+ * @param options - Directory, interval and generator
+ * @returns Profile comic store
+ */
+export function createProfileComics(options: ProfileComicsOptions): ProfileComics {
+  const { dir, interval = DEFAULT_PROFILE_COMIC_INTERVAL, generate, onError } = options;
+  if (!(interval >= 0)) {
+    throw new Error('Profile comic interval must be zero or more milliseconds');
+  }
+
+  const inFlight = new Map<string, Promise<ProfileComic>>();
+  const userDir = (login: string) => path.join(dir, login.toLowerCase());
+
+  const resolve = (stored: StoredProfileComic): ProfileComic => ({
+    login: stored.login,
+    generatedAt: stored.generatedAt,
+    filePath: path.join(userDir(stored.login), stored.fileName),
+    mediaType: stored.mediaType,
+    thumbnailPath: stored.thumbnailName ? path.join(userDir(stored.login), stored.thumbnailName) : undefined,
+  });
+
+  const read = async (login: string): Promise<StoredProfileComic | undefined> => {
+    try {
+      return JSON.parse(await fs.readFile(path.join(userDir(login), 'latest.json'), 'utf8'));
+    } catch (error) {
+      return undefined;
+    }
+  };
+
+  const refresh = async (login: string, previous?: StoredProfileComic): Promise<ProfileComic> => {
+    const outputDir = userDir(login);
+    const result = await generate(login, outputDir);
+    const artifacts = result.artifacts ?? [];
+    const mediaType = artifacts[0]?.mediaType ?? 'image/png';
+    const stored: StoredProfileComic = {
+      login,
+      generatedAt: new Date().toISOString(),
+      fileName: path.relative(outputDir, result.filePath),
+      mediaType,
+      files: artifacts.length > 0
+        ? artifacts.map((artifact) => path.relative(outputDir, artifact.filePath))
+        : [path.relative(outputDir, result.filePath)],
+    };
+
+    if (mediaType === 'image/png') {
+      const image = { data: new Uint8Array(await fs.readFile(result.filePath)), mediaType };
+      stored.thumbnailName = `${path.parse(stored.fileName).name}-thumbnail.png`;
+      await fs.writeFile(path.join(outputDir, stored.thumbnailName), createThumbnail(image, PROFILE_THUMBNAIL_WIDTH).data);
+      stored.files.push(stored.thumbnailName);
+    }
+
+    const pointer = path.join(outputDir, 'latest.json');
+    const temp = `${pointer}.${randomBytes(6).toString('hex')}.tmp`;
+    await fs.writeFile(temp, JSON.stringify(stored, null, 2));
+    await fs.rename(temp, pointer);
+
+    for (const file of previous?.files ?? []) {
+      if (!stored.files.includes(file)) {
+        await fs.rm(path.join(outputDir, file), { force: true });
+      }
+    }
+    return resolve(stored);
+  };
+
+  const start = (login: string, previous?: StoredProfileComic): Promise<ProfileComic> => {
+    const key = login.toLowerCase();
+    let pending = inFlight.get(key);
+    if (!pending) {
+      pending = refresh(login, previous).finally(() => inFlight.delete(key));
+      inFlight.set(key, pending);
+    }
+    return pending;
+  };
+
+  return {
+    interval,
+
+    async latest(login: string): Promise<ProfileComic> {
+      const stored = await read(login);
+      if (!stored) {
+        return start(login);
+      }
+      const comic = resolve(stored);
+      if (Date.parse(stored.generatedAt) + interval <= Date.now()) {
+        start(login, stored).catch((error) => onError?.(login, error));
+      }
+      return comic;
+    },
+
+    nextRefresh(comic: ProfileComic): Date {
+      return new Date(Date.parse(comic.generatedAt) + interval);
+    },
+  };
+}
+
+/**
+ * Renders a small shields-style badge linking readers to a user's latest comic
+ *
+ * @param login - GitHub username shown on the badge
+ * @param generatedAt - When the comic was generated; its date is shown
+ * @returns SVG badge
+ */
+export function renderComicBadge(login: string, generatedAt: Date): GeneratedImage {
+  const label = 'latest comic';
+  const message = `@${login} · ${generatedAt.toISOString().slice(0, 10)}`;
+  // Verdana at 11px averages about 7px per character
+  const labelWidth = label.length * 7 + 10;
+  const messageWidth = message.length * 7 + 10;
+  const width = labelWidth + messageWidth;
+  const text = (x: number, value: string) =>
+    `<text x="${x}" y="15" fill="#010101" fill-opacity=".3">${escapeXml(value)}</text><text x="${x}" y="14">${escapeXml(value)}</text>`;
+
+  const svg = `<?xml version="1.0" encoding="UTF-8"?>
+<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="20" role="img" aria-label="${escapeXml(`${label}: ${message}`)}">
+  <title>${escapeXml(`${label}: ${message}`)}</title>
+  <clipPath id="r"><rect width="${width}" height="20" rx="3" fill="#fff"/></clipPath>
+  <g clip-path="url(#r)"><rect width="${labelWidth}" height="20" fill="#555"/><rect x="${labelWidth}" width="${messageWidth}" height="20" fill="#e05d44"/></g>
+  <g fill="#fff" text-anchor="middle" font-family="Verdana,Geneva,DejaVu Sans,sans-serif" font-size="11">${text(labelWidth / 2, label)}${text(labelWidth + messageWidth / 2, message)}</g>
+</svg>
+`;
+  return { data: new TextEncoder().encode(svg), mediaType: 'image/svg+xml' };
+}
@@ -0,0 +1,294 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import {
+  generateGithubComic,
+  parseSubject,
+  formatSubject,
+  throwIfAborted,
+  type Config,
+  type GenerateComicOptions,
+  type ImageResult,
+} from './index.js';
+import { encodeFileName } from './text.js';
+
+/** File name of the report written to the batch output directory */
+export const BATCH_REPORT_FILE = 'batch-report.json';
+
+export type BatchStatus = 'success' | 'failed' | 'skipped';
+
+/**
+ * Outcome for one subject in a batch
+ */
+export interface BatchResult {
+  subject: string;
+  status: BatchStatus;
+  /** Directory the subject's files were written to */
+  outputDir: string;
+  /** Primary file, for successful (and skipped) subjects */
+  filePath?: string;
+  /** Every file written for the subject */
+  files?: string[];
+  error?: string;
+  startedAt?: string;
+  finishedAt?: string;
+}
+
+/**
+ * Summary written to `batch-report.json`
+ */
+export interface BatchReport {
+  startedAt: string;
+  finishedAt?: string;
+  total: number;
+  succeeded: number;
+  failed: number;
+  skipped: number;
+  results: BatchResult[];
+}
+
+/**
+ * Options for runBatch
+ */
+export interface BatchOptions extends GenerateComicOptions {
+  /** Subjects generated at the same time (default: 2) */
+  concurrency?: number;
+  /** Skip subjects that succeeded in a previous run into the same output directory */
+  resume?: boolean;
+  /** Called after each subject finishes or is skipped */
+  onResult?: (result: BatchResult, completed: number, total: number) => void;
+}
+
+/**
+ * Parses a list of subjects from text, CSV or JSON.
+ *
+ * - Text: one subject per line; blank lines and `#` comments are ignored
+ * - CSV: the `subject`, `username`, `user` or `login` column, or the first column
+ * - JSON: an array of strings or of objects with a `subject` or `username` field
+ *
+ * @param content - File contents
+ * @param format - Input format
+ * @returns Subjects in file order, without duplicates
+ * @throws Error if the content is malformed or a subject is invalid
+ */
+export function parseBatchSubjects(content: string, format: 'text' | 'csv' | 'json'): string[] {
+  let subjects: string[];
+
+  switch (format) {
+    case 'json': {
+      let value: unknown;
+      try {
+        value = JSON.parse(content);
+      } catch (error) {
+        throw new Error('Batch file is not valid JSON');
+      }
+      if (!Array.isArray(value)) {
+        throw new Error('Batch JSON must be an array of subjects');
+      }
+      subjects = value.map((item, idx) => {
+        const subject = typeof item === 'string' ? item : item?.subject ?? item?.username;
+        if (typeof subject !== 'string') {
+          throw new Error(`Batch JSON entry ${idx + 1} has no subject`);
+        }
+        return subject;
+      });
+      break;
+    }
+    case 'csv': {
+      const rows = content.split(/\r?\n/).filter((line) => line.trim().length > 0).map(splitCsvLine);
+      const header = (rows[0] ?? []).map((cell) => cell.trim().toLowerCase());
+      const column = header.findIndex((cell) => ['subject', 'username', 'user', 'login'].includes(cell));
+      subjects = (column >= 0 ? rows.slice(1) : rows).map((row) => row[Math.max(column, 0)] ?? '');
+      break;
+    }
+    default:
+      subjects = content.split(/\r?\n/).map((line) => line.replace(/#.*$/, ''));
+  }
+
+  const unique = [...new Set(subjects.map((subject) => subject.trim()).filter(Boolean))];
+  // Validate everything up front so a typo does not surface halfway through a run
+  for (const subject of unique) {
+    parseSubject(subject);
+  }
+  return unique;
+}
+
+/**
+ * Splits one CSV line, honouring double-quoted cells
+ */
+function splitCsvLine(line: string): string[] {
+  const cells: string[] = [];
+  let cell = '';
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      cells.push(cell);
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  cells.push(cell);
+  return cells;
+}
+
+/**
+ * Reads subjects from a batch file; the format follows the extension
+ * (`.json`, `.csv`, anything else is plain text)
+ *
+ * @param filePath - Path to the batch file
+ * @returns Subjects in file order
+ * @throws Error if the file cannot be read, is malformed or lists no subjects
+ */
+export async function loadBatchFile(filePath: string): Promise<string[]> {
+  const content = await fs.readFile(filePath, 'utf8');
+  const extension = path.extname(filePath).toLowerCase();
+  const subjects = parseBatchSubjects(content, extension === '.json' ? 'json' : extension === '.csv' ? 'csv' : 'text');
+  if (subjects.length === 0) {
+    throw new Error(`Batch file lists no subjects: ${filePath}`);
+  }
+  return subjects;
+}
+
+/**
+ * Directory name used for a subject inside the batch output directory.
+ * Characters such as `:` and `/` are hex-encoded, so `org:acme` and the user
+ * `org-acme` get different directories.
+ */
+export function batchDirectoryName(subject: string): string {
+  return encodeFileName(formatSubject(parseSubject(subject)));
+}
+
+/**
+ * Reads the report of a previous run, if there is one
+ */
+async function readPreviousReport(outputDir: string): Promise<BatchReport | undefined> {
+  try {
+    return JSON.parse(await fs.readFile(path.join(outputDir, BATCH_REPORT_FILE), 'utf8'));
+  } catch (error) {
+    return undefined;
+  }
+}
+
+async function fileExists(filePath: string): Promise<boolean> {
+  try {
+    await fs.access(filePath);
+    return true;
+  } catch (error) {
+    return false;
+  }
+}
+
+/**
+ * Generates comics for many subjects with bounded concurrency. Each subject
+ * is written to its own directory under `outputDir`, and `batch-report.json`
+ * is rewritten after every subject so an interrupted run can be resumed.
+ * Failures are recorded in the report instead of stopping the batch. When
+ * `options.signal` is aborted, no further subjects are started, the
+ * cancelled ones are recorded as failed so `resume` picks them up again, and
+ * the batch throws AbortedError once the report is written.
+ *
+ * @param subjects - Usernames, `org:<name>` or `<owner>/<repo>` subjects
+ * @param config - Configuration with API keys
+ * @param options - Generation options plus concurrency and resume settings
+ * @returns Final report
+ */
+export async function runBatch(
+  subjects: string[],
+  config: Partial<Config>,
+  options: BatchOptions = {}
+): Promise<BatchReport> {
+  const { outputDir = './output', concurrency = 2, resume = false, onResult, ...generateOptions } = options;
+  if (!Number.isInteger(concurrency) || concurrency < 1) {
+    throw new Error('concurrency must be a positive integer');
+  }
+
+  await fs.mkdir(outputDir, { recursive: true });
+
+  const previous = resume ? await readPreviousReport(outputDir) : undefined;
+  const report: BatchReport = {
+    startedAt: new Date().toISOString(),
+    total: subjects.length,
+    succeeded: 0,
+    failed: 0,
+    skipped: 0,
+    results: [],
+  };
+  const results: BatchResult[] = new Array(subjects.length);
+
+  // Serialize report writes; workers finish in any order
+  let pendingWrite = Promise.resolve();
+  const saveReport = () => {
+    report.results = results.filter(Boolean);
+    const json = `${JSON.stringify(report, null, 2)}\n`;
+    pendingWrite = pendingWrite.then(() => fs.writeFile(path.join(outputDir, BATCH_REPORT_FILE), json));
+    return pendingWrite;
+  };
+
+  let completed = 0;
+  const finish = async (index: number, result: BatchResult) => {
+    results[index] = result;
+    report[result.status === 'success' ? 'succeeded' : result.status]++;
+    const position = ++completed;
+    await saveReport();
+    onResult?.(result, position, subjects.length);
+  };
+
+  const runSubject = async (index: number) => {
+    const subject = subjects[index];
+    const subjectDir = path.join(outputDir, batchDirectoryName(subject));
+
+    const done = previous?.results.find((result) => result.subject === subject && result.status !== 'failed' && result.filePath);
+    if (done && await fileExists(done.filePath!)) {
+      await finish(index, { ...done, status: 'skipped' });
+      return;
+    }
+
+    const startedAt = new Date().toISOString();
+    try {
+      const result: ImageResult = await generateGithubComic(subject, config, { ...generateOptions, outputDir: subjectDir });
+      await finish(index, {
+        subject,
+        status: 'success',
+        outputDir: subjectDir,
+        filePath: result.filePath,
+        files: result.artifacts?.map((artifact) => artifact.filePath) ?? [result.filePath],
+        startedAt,
+        finishedAt: new Date().toISOString(),
+      });
+    } catch (error) {
+      await finish(index, {
+        subject,
+        status: 'failed',
+        outputDir: subjectDir,
+        error: error instanceof Error ? error.message : String(error),
+        startedAt,
+        finishedAt: new Date().toISOString(),
+      });
+    }
+  };
+
+  let next = 0;
+  const workers = Array.from({ length: Math.min(concurrency, subjects.length) }, async () => {
+    while (next < subjects.length && !generateOptions.signal?.aborted) {
+      await runSubject(next++);
+    }
+  });
+  await Promise.all(workers);
+
+  report.finishedAt = new Date().toISOString();
+  await saveReport();
+  throwIfAborted(generateOptions.signal);
+  return report;
+}
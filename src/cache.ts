@@ -0,0 +1,288 @@
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { createHash, randomBytes } from 'crypto';
+import { extensionForMediaType, type GeneratedImage, type ImageGenerationOptions, type ImageProvider } from './providers.js';
+
+/** GitHub responses are reused for an hour by default */
+export const DEFAULT_CACHE_TTL = 60 * 60 * 1000;
+
+export type CacheEntryKind = 'github' | 'image';
+
+/**
+ * One cached GitHub response or generated image, as listed by `cache list`
+ */
+export interface CacheEntry {
+  key: string;
+  kind: CacheEntryKind;
+  /** Human-readable description, e.g. "repos for octocat" */
+  label: string;
+  createdAt: string;
+  /** When a GitHub entry goes stale under the cache's TTL; images never expire */
+  expiresAt?: string;
+  /** Bytes on disk: the JSON value, or the image file */
+  size: number;
+  /** Content hash naming the image file */
+  hash?: string;
+  mediaType?: string;
+}
+
+/**
+ * Options for createComicCache
+ */
+export interface ComicCacheOptions {
+  /** Cache directory (default: see defaultCacheDir) */
+  dir?: string;
+  /** How long GitHub responses stay fresh, in milliseconds, applied when reading (default: 1 hour) */
+  ttl?: number;
+  /** Ignore existing entries and overwrite them with fresh results */
+  refresh?: boolean;
+}
+
+export interface CacheStats {
+  hits: number;
+  misses: number;
+}
+
+/**
+ * On-disk cache for GitHub data and generated images
+ */
+export interface ComicCache {
+  readonly dir: string;
+  /** Hits and misses since the cache was created */
+  readonly stats: CacheStats;
+  /**
+   * Returns a fresh cached GitHub value, or loads and stores it
+   *
+   * @param key - Parts identifying the request, e.g. `['repos', 'octocat']`
+   * @param label - Description shown by `cache list`
+   * @param load - Fetches the value on a miss
+   */
+  github<T>(key: unknown[], label: string, load: () => Promise<T>): Promise<T>;
+  /**
+   * Returns a cached image, or generates and stores it content-addressed
+   *
+   * @param key - Parts identifying the generation, e.g. subject, data hash, prompt and model
+   * @param label - Description shown by `cache list`
+   * @param generate - Generates the image on a miss
+   */
+  image(key: unknown[], label: string, generate: () => Promise<GeneratedImage>): Promise<GeneratedImage>;
+  /** Lists entries, oldest first */
+  list(): Promise<CacheEntry[]>;
+  /** Removes expired GitHub entries and images no entry refers to */
+  prune(now?: Date): Promise<{ entries: number; images: number }>;
+  /** Removes everything; returns the number of entries removed */
+  clear(): Promise<number>;
+}
+
+type StoredEntry = Omit<CacheEntry, 'expiresAt'> & { value?: unknown };
+
+/**
+ * Default cache directory: `$GITHUB_COMICS_CACHE_DIR`, or `github-comics`
+ * under `$XDG_CACHE_HOME` (default: `~/.cache`)
+ */
+export function defaultCacheDir(): string {
+  return process.env.GITHUB_COMICS_CACHE_DIR
+    ?? path.join(process.env.XDG_CACHE_HOME || path.join(os.homedir(), '.cache'), 'github-comics');
+}
+
+/**
+ * Hashes any JSON-serializable value; used for cache keys and fetched data
+ *
+ * @param value - Value to hash
+ * @returns Hex SHA-256 digest
+ */
+export function hashValue(value: unknown): string {
+  return createHash('sha256').update(JSON.stringify(value) ?? 'undefined').digest('hex');
+}
+
+/** Writes via a temporary file so concurrent runs never read half a file */
+async function writeAtomic(filePath: string, data: string | Uint8Array): Promise<void> {
+  const temp = `${filePath}.${randomBytes(6).toString('hex')}.tmp`;
+  await fs.writeFile(temp, data);
+  await fs.rename(temp, filePath);
+}
+
+async function readEntry(filePath: string): Promise<StoredEntry | undefined> {
+  try {
+    return JSON.parse(await fs.readFile(filePath, 'utf8'));
+  } catch (error) {
+    return undefined;
+  }
+}
+
+async function listFiles(dir: string): Promise<string[]> {
+  try {
+    return await fs.readdir(dir);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return [];
+    }
+    throw error;
+  }
+}
+
+/**
+ * Creates an on-disk cache. GitHub responses are stored as JSON with a TTL;
+ * images are stored once per content hash and referenced from their entries.
+ *
+ * @param options - Directory, TTL and refresh mode
+ * @returns Cache
+ */
+export function createComicCache(options: ComicCacheOptions = {}): ComicCache {
+  const { dir = defaultCacheDir(), ttl = DEFAULT_CACHE_TTL, refresh = false } = options;
+  if (!(ttl >= 0)) {
+    throw new Error('Cache TTL must be zero or more milliseconds');
+  }
+
+  const entriesDir = path.join(dir, 'entries');
+  const imagesDir = path.join(dir, 'images');
+  const stats: CacheStats = { hits: 0, misses: 0 };
+
+  const entryPath = (key: string) => path.join(entriesDir, `${key}.json`);
+  const expiresAt = (entry: StoredEntry) => (entry.kind === 'github' ? Date.parse(entry.createdAt) + ttl : undefined);
+
+  return {
+    dir,
+    stats,
+
+    async github<T>(keyParts: unknown[], label: string, load: () => Promise<T>): Promise<T> {
+      const key = hashValue(['github', ...keyParts]);
+      if (!refresh) {
+        const entry = await readEntry(entryPath(key));
+        if (entry?.kind === 'github' && expiresAt(entry)! > Date.now()) {
+          stats.hits++;
+          return entry.value as T;
+        }
+      }
+
+      stats.misses++;
+      const value = await load();
+      const json = JSON.stringify(value);
+      const entry: StoredEntry = {
+        key,
+        kind: 'github',
+        label,
+        createdAt: new Date().toISOString(),
+        size: Buffer.byteLength(json),
+        value,
+      };
+      await fs.mkdir(entriesDir, { recursive: true });
+      await writeAtomic(entryPath(key), JSON.stringify(entry));
+      return value;
+    },
+
+    async image(keyParts: unknown[], label: string, generate: () => Promise<GeneratedImage>): Promise<GeneratedImage> {
+      const key = hashValue(['image', ...keyParts]);
+      if (!refresh) {
+        const entry = await readEntry(entryPath(key));
+        if (entry?.kind === 'image' && entry.hash && entry.mediaType) {
+          try {
+            const data = await fs.readFile(path.join(imagesDir, `${entry.hash}.${extensionForMediaType(entry.mediaType)}`));
+            stats.hits++;
+            return { data: new Uint8Array(data), mediaType: entry.mediaType };
+          } catch (error) {
+            // The image was removed; generate it again
+          }
+        }
+      }
+
+      stats.misses++;
+      const image = await generate();
+      const hash = createHash('sha256').update(image.data).digest('hex');
+      const entry: StoredEntry = {
+        key,
+        kind: 'image',
+        label,
+        createdAt: new Date().toISOString(),
+        size: image.data.length,
+        hash,
+        mediaType: image.mediaType,
+      };
+      await fs.mkdir(entriesDir, { recursive: true });
+      await fs.mkdir(imagesDir, { recursive: true });
+      await writeAtomic(path.join(imagesDir, `${hash}.${extensionForMediaType(image.mediaType)}`), image.data);
+      await writeAtomic(entryPath(key), JSON.stringify(entry));
+      return image;
+    },
+
+    async list(): Promise<CacheEntry[]> {
+      const entries: CacheEntry[] = [];
+      for (const file of await listFiles(entriesDir)) {
+        if (!file.endsWith('.json')) {
+          continue;
+        }
+        const entry = await readEntry(path.join(entriesDir, file));
+        if (entry) {
+          const { value, ...rest } = entry;
+          const expires = expiresAt(entry);
+          entries.push(expires === undefined ? rest : { ...rest, expiresAt: new Date(expires).toISOString() });
+        }
+      }
+      return entries.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+    },
+
+    async prune(now: Date = new Date()): Promise<{ entries: number; images: number }> {
+      const referenced = new Set<string>();
+      let removedEntries = 0;
+      for (const file of await listFiles(entriesDir)) {
+        const filePath = path.join(entriesDir, file);
+        const entry = file.endsWith('.json') ? await readEntry(filePath) : undefined;
+        const expires = entry ? expiresAt(entry) : undefined;
+        const expired = !entry || (expires !== undefined && expires <= now.getTime());
+        if (expired) {
+          await fs.rm(filePath, { force: true });
+          removedEntries++;
+        } else if (entry.hash && entry.mediaType) {
+          referenced.add(`${entry.hash}.${extensionForMediaType(entry.mediaType)}`);
+        }
+      }
+
+      let removedImages = 0;
+      for (const file of await listFiles(imagesDir)) {
+        if (!referenced.has(file)) {
+          await fs.rm(path.join(imagesDir, file), { force: true });
+          removedImages++;
+        }
+      }
+      return { entries: removedEntries, images: removedImages };
+    },
+
+    async clear(): Promise<number> {
+      const count = (await listFiles(entriesDir)).filter((file) => file.endsWith('.json')).length;
+      await fs.rm(entriesDir, { recursive: true, force: true });
+      await fs.rm(imagesDir, { recursive: true, force: true });
+      return count;
+    },
+  };
+}
+
+/**
+ * Wraps an image provider so identical generations are served from the cache.
+ * The key covers the provider, model, generation options, prompt and the
+ * given context (typically the subject and a hash of the fetched data).
+ *
+ * @param provider - Provider to wrap
+ * @param cache - Cache to read and write
+ * @param context - Extra key parts and the label shown by `cache list`
+ * @returns Provider with the same name and model
+ */
+export function cacheImageProvider(
+  provider: ImageProvider,
+  cache: ComicCache,
+  context: { subject?: string; dataHash?: string } = {}
+): ImageProvider {
+  return {
+    name: provider.name,
+    model: provider.model,
+    generate(prompt: string, options: ImageGenerationOptions = {}): Promise<GeneratedImage> {
+      // Cancelling a run does not change which image it asks for
+      const { signal, ...keyOptions } = options;
+      return cache.image(
+        [context.subject, context.dataHash, prompt, provider.name, provider.model, keyOptions],
+        `${provider.model ?? provider.name} image${context.subject ? ` for ${context.subject}` : ''}`,
+        () => provider.generate(prompt, options)
+      );
+    },
+  };
+}
@@ -2,7 +2,81 @@
 
 import { Command } from 'commander';
 import { config as loadEnv } from 'dotenv';
-import { generateGithubComic, configSchema } from './index.js';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import {
+  generateGithubComic,
+  generateComicFromScript,
+  buildComicPrompt,
+  previewComic,
+  previewComicFromRepos,
+  loadRepoFile,
+  configSchema,
+  parseSubject,
+  formatSubject,
+  createImageProvider,
+  createScriptWriter,
+  loadComicScript,
+  compositeComic,
+  extensionForMediaType,
+  loadTemplateFile,
+  parseFieldGroups,
+  RATE_LIMIT_POLICIES,
+  FORGE_NAMES,
+  FORGE_TOKEN_VARIABLES,
+  TEAM_MODES,
+  MAX_VARIANTS,
+  type RetryImageOptions,
+  MIN_TEAM_SIZE,
+  formatTeamNames,
+  createComicCache,
+  createComicServer,
+  cacheImageProvider,
+  retryImageProvider,
+  parseOutputFormats,
+  loadBatchFile,
+  runBatch,
+  BATCH_REPORT_FILE,
+  resolveComicStyle,
+  PROVIDER_NAMES,
+  SCRIPT_WRITER_NAMES,
+  SORT_STRATEGIES,
+  PROFILE_FIELD_GROUPS,
+  THEME_NAMES,
+  MIN_PANELS,
+  MAX_PANELS,
+  LAYOUTS,
+  COMPOSITE_FORMATS,
+  OUTPUT_FORMATS,
+  FILENAME_PLACEHOLDERS,
+  type Config,
+  type CompositeOptions,
+  type ComicCache,
+  type OutputOptions,
+  type GenerateComicOptions,
+  type ImageResult,
+  type ResolvedComicStyle,
+  type ComicPreview,
+  type ScriptWriter,
+  ConfigError,
+  describeError,
+  CONFIG_FILE_NAMES,
+  SETTING_NAMES,
+  findConfigFile,
+  loadConfigFile,
+  resolveSettings,
+  redactSettings,
+  parseSettingValue,
+  summarizeRedactions,
+  createComicHistory,
+  parseActivityWindow,
+  type ComicHistory,
+  type ComicSubject,
+  type ResolvedSettings,
+  type SettingName,
+  type Redaction,
+  type ComicEvent,
+} from './index.js';
 
 // Load environment variables with error handling
 const envResult = loadEnv();
@@ -24,80 +98,1243 @@ const program = new Command();
 program
   .name('github-comics')
   .description('Generate comic strips from GitHub repositories using Gemini Flash 2.5 via Vercel AI Gateway')
-  .version('2.0.2');
+  .version('2.0.2')
+  .option('--config <file>', `Configuration file (default: the first ${CONFIG_FILE_NAMES.join(', ')} found here or in a parent directory)`)
+  .option('--profile <name>', 'Named profile from the configuration file to apply');
+
+/** Settings from the configuration file, profile and environment, loaded before each command runs */
+let activeSettings: ResolvedSettings | undefined;
+
+/**
+ * Loads the configuration file given by --config, or the nearest one, and
+ * merges it with the --profile and the environment
+ */
+async function loadSettings(): Promise<ResolvedSettings> {
+  const { config: configPath, profile } = program.opts();
+  const filePath = configPath ?? await findConfigFile();
+  const file = filePath ? await loadConfigFile(filePath) : undefined;
+  return resolveSettings(file, { profile, env: process.env });
+}
+
+/**
+ * Uses the loaded settings for every option of the command that was not
+ * given on the command line, so flags always win
+ */
+function applySettings(command: Command, { settings }: ResolvedSettings): void {
+  for (const option of command.options) {
+    const name = option.attributeName() as SettingName;
+    const value = settings[name];
+    if (value === undefined || command.getOptionValueSource(name) === 'cli') {
+      continue;
+    }
+    // Options hold what Commander would have parsed from the command line
+    const optionValue = Array.isArray(value) ? value.join(',') : typeof value === 'number' ? String(value) : value;
+    command.setOptionValueWithSource(name, optionValue, 'config');
+  }
+}
+
+program.hook('preAction', async (_program, actionCommand) => {
+  try {
+    activeSettings = await loadSettings();
+    applySettings(actionCommand, activeSettings);
+  } catch (error) {
+    exitWithError(error, actionCommand.opts().json);
+  }
+});
+
+/**
+ * Stops the command with a configuration error; detail lines are indented
+ * below the message. The command's error handler prints it and exits.
+ */
+function fail(message: string, details: string[] = []): never {
+  throw new ConfigError([message, ...details.map((line) => `   ${line}`)].join('\n'));
+}
+
+/**
+ * Prints an error, as JSON on stdout or for people on stderr, and exits with
+ * the code for its kind (see EXIT_CODES)
+ */
+function exitWithError(error: unknown, json = false): never {
+  const { code, message, exitCode } = describeError(error);
+  if (json) {
+    console.log(JSON.stringify({ ok: false, error: { code, message, exitCode } }, null, 2));
+  } else {
+    console.error('');
+    console.error('❌ Error:', message);
+    console.error('');
+  }
+  process.exit(exitCode);
+}
+
+/**
+ * Adds the options shared by every command that builds a comic prompt
+ */
+function addComicOptions(command: Command): Command {
+  return addCacheOptions(addPromptOptions(command
+    .option('-t, --token <token>', 'Access token for the forge (or set GITHUB_TOKEN, GITLAB_TOKEN, ... env var)')
+    .option('-a, --api-key <key>', 'Vercel AI Gateway API token (or set AI_GATEWAY_API_KEY env var)'))
+    .option('--forge <name>', `Code host to read: ${FORGE_NAMES.join(', ')} (default: github)`, 'github')
+    .option('--api-url <url>', 'API root of the forge, e.g. https://github.example.com/api/v3 (required for github-enterprise)')
+    .option('-e, --enrich <groups>', `Extra profile data to include: ${PROFILE_FIELD_GROUPS.join(', ')} or all (comma-separated)`)
+    .option('--since <date>', 'Make a year-in-review comic about activity from this date (YYYY-MM-DD; users only)')
+    .option('--until <date>', 'End of the year-in-review window (YYYY-MM-DD, default: today)')
+    .option('--rate-limit <policy>', `When the GitHub rate limit runs out: ${RATE_LIMIT_POLICIES.join(', ')} (default: wait)`, 'wait'));
+}
+
+/**
+ * Adds the repository selection and style options, which need no network access
+ */
+function addPromptOptions(command: Command): Command {
+  return command
+    .option('-c, --count <number>', 'Number of top repositories to include (default: 3)', '3')
+    .option('-s, --sort <strategy>', `Repository ranking: ${SORT_STRATEGIES.join(', ')} (default: stars)`, 'stars')
+    .option('--exclude-forks', 'Skip forked repositories')
+    .option('--exclude-archived', 'Skip archived repositories')
+    .option('-l, --language <language>', 'Only feature repositories in this language')
+    .option('--topic <topic>', 'Only feature repositories tagged with this topic')
+    .option('--theme <theme>', `Comic theme: ${THEME_NAMES.join(', ')} (default: classic)`, 'classic')
+    .option('--panels <number>', `Number of panels, ${MIN_PANELS}-${MAX_PANELS} (default: 4)`, '4')
+    .option('--style <style>', 'Art style description, overrides the theme\'s default')
+    .option('--tone <tone>', 'Tone description, overrides the theme\'s default')
+    .option('--caption-language <language>', 'Language for captions and dialogue (default: English)')
+    .option('--template <file>', 'Prompt template file with {{placeholders}}')
+    .option('--include-private', 'Feature private repositories visible to the token (excluded by default)')
+    .option('--denylist <terms>', 'Comma-separated words or phrases to mask in repository data')
+    .option('--max-field-length <chars>', 'Longest description, topic, commit message or bio kept in the prompt (default: 200)');
+}
+
+/**
+ * Adds the on-disk cache options
+ */
+function addCacheOptions(command: Command): Command {
+  return command
+    .option('--no-cache', 'Do not read or write the on-disk cache')
+    .option('--refresh', 'Ignore cached GitHub data and images, and overwrite them')
+    .option('--cache-dir <dir>', 'Cache directory (default: ~/.cache/github-comics)')
+    .option('--cache-ttl <minutes>', 'How long cached GitHub data stays fresh (default: 60)', '60');
+}
+
+/**
+ * Creates the on-disk cache from the cache flags, or undefined with --no-cache
+ */
+function parseCacheOptions(options: any): ComicCache | undefined {
+  if (options.cache === false) {
+    return undefined;
+  }
+  const ttl = Number(options.cacheTtl);
+  if (!Number.isFinite(ttl) || ttl < 0) {
+    fail('Cache TTL must be zero or more minutes', [`Received: "${options.cacheTtl}"`]);
+  }
+  return createComicCache({ dir: options.cacheDir, ttl: ttl * 60_000, refresh: options.refresh });
+}
+
+/**
+ * Adds the flags shared by commands that record comics in the history
+ */
+function addHistoryOptions(command: Command): Command {
+  return command
+    .option('--no-history', 'Do not record the comic in the history')
+    .option('--history-dir <dir>', 'History directory (default: ~/.local/share/github-comics/history)');
+}
+
+/**
+ * Creates the history store from the history flags, or undefined with --no-history
+ */
+function parseHistoryOptions(options: any): ComicHistory | undefined {
+  return options.history === false ? undefined : createComicHistory({ dir: options.historyDir });
+}
+
+/**
+ * Prints cache hits and misses, if the cache was used
+ */
+function printCacheStats(cache: ComicCache | undefined): void {
+  if (cache && cache.stats.hits + cache.stats.misses > 0) {
+    console.log(`♻️  Cache: ${cache.stats.hits} hit${cache.stats.hits === 1 ? '' : 's'}, ${cache.stats.misses} miss${cache.stats.misses === 1 ? '' : 'es'}`);
+  }
+}
+
+/**
+ * Validates the shared comic options and converts them to library options
+ */
+async function parseComicOptions(options: any): Promise<GenerateComicOptions & { style: ResolvedComicStyle; repoCount: number }> {
+  const enrich = options.enrich ? parseFieldGroups(options.enrich) : [];
+
+  if (!RATE_LIMIT_POLICIES.includes(options.rateLimit)) {
+    fail(`Unknown rate limit policy "${options.rateLimit}"`, [`Expected one of: ${RATE_LIMIT_POLICIES.join(', ')}`]);
+  }
+  if (!FORGE_NAMES.includes(options.forge)) {
+    fail(`Unknown forge "${options.forge}"`, [`Expected one of: ${FORGE_NAMES.join(', ')}`]);
+  }
+  if (options.forge === 'github-enterprise' && !options.apiUrl) {
+    fail('The github-enterprise forge needs --api-url', ['For example: --api-url https://github.example.com/api/v3']);
+  }
+
+  return {
+    ...await parsePromptOptions(options),
+    enrich,
+    activity: options.since || options.until ? parseActivityWindow(options.since, options.until) : undefined,
+    cache: parseCacheOptions(options),
+    forge: options.forge,
+    github: {
+      baseUrl: options.apiUrl,
+      rateLimit: options.rateLimit,
+      onWait: (ms, reason) => console.log(`⏳ Waiting ${Math.ceil(ms / 1000)}s for GitHub (${reason})...`),
+    },
+  };
+}
+
+/**
+ * Validates the selection and style options
+ */
+async function parsePromptOptions(options: any): Promise<GenerateComicOptions & { style: ResolvedComicStyle; repoCount: number }> {
+  if (!SORT_STRATEGIES.includes(options.sort)) {
+    fail(`Unknown sort strategy "${options.sort}"`, [`Expected one of: ${SORT_STRATEGIES.join(', ')}`]);
+  }
+
+  // Validate and parse repository count
+  const repoCount = parseInt(options.count, 10);
+  // Check for NaN immediately after parsing to catch invalid inputs
+  if (isNaN(repoCount)) {
+    fail('Repository count must be a valid number', [`Received: "${options.count}"`]);
+  }
+  if (repoCount < 1 || repoCount > 10) {
+    fail('Repository count must be between 1 and 10', [`Received: ${repoCount}`]);
+  }
+
+  const style = resolveComicStyle({
+    theme: options.theme,
+    panels: Number(options.panels),
+    artStyle: options.style,
+    tone: options.tone,
+    language: options.captionLanguage,
+    template: options.template ? await loadTemplateFile(options.template) : undefined,
+  });
+
+  const maxFieldLength = options.maxFieldLength === undefined ? undefined : Number(options.maxFieldLength);
+  if (maxFieldLength !== undefined && (!Number.isInteger(maxFieldLength) || maxFieldLength < 1)) {
+    fail('Maximum field length must be a positive integer', [`Received: "${options.maxFieldLength}"`]);
+  }
+
+  return {
+    repoCount,
+    safety: {
+      includePrivate: options.includePrivate,
+      denylist: options.denylist ? options.denylist.split(',') : undefined,
+      maxFieldLength,
+    },
+    selection: {
+      sort: options.sort,
+      excludeForks: options.excludeForks,
+      excludeArchived: options.excludeArchived,
+      language: options.language,
+      topic: options.topic,
+    },
+    style,
+  };
+}
+
+/**
+ * Validates the compositing flags and converts them to compositor options
+ */
+function parseCompositeOptions(options: any): CompositeOptions {
+  if (options.layout && !LAYOUTS.includes(options.layout)) {
+    fail(`Unknown layout "${options.layout}"`, [`Expected one of: ${LAYOUTS.join(', ')}`]);
+  }
+  if (options.compositeFormat && !COMPOSITE_FORMATS.includes(options.compositeFormat)) {
+    fail(`Unknown composite format "${options.compositeFormat}"`, [`Expected one of: ${COMPOSITE_FORMATS.join(', ')}`]);
+  }
+  return { layout: options.layout, format: options.compositeFormat };
+}
+
+/**
+ * Validates the output flags and converts them to output options
+ */
+function parseOutputOptions(options: any): OutputOptions {
+  return {
+    formats: options.format ? parseOutputFormats(options.format) : undefined,
+    filenameTemplate: options.filename,
+    sidecar: options.sidecar,
+  };
+}
+
+/**
+ * Parses the --seed flag
+ */
+function parseSeed(value: string | undefined): number | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  const seed = Number(value);
+  if (!Number.isInteger(seed) || seed < 0) {
+    fail('Seed must be a non-negative integer', [`Received: "${value}"`]);
+  }
+  return seed;
+}
+
+/**
+ * Reads credentials from flags or environment and validates them
+ *
+ * @param needsApiKey - Whether the AI Gateway key is required
+ */
+function resolveConfig(options: any, needsApiKey: boolean): Partial<Config> {
+  // Get API key from option or environment
+  const apiKey = options.apiKey || process.env.AI_GATEWAY_API_KEY;
+  const githubToken = options.token || process.env.GITHUB_TOKEN;
+  // --token belongs to the chosen forge, but a GITHUB_TOKEN from the environment is never sent elsewhere
+  const forge = options.forge && options.forge !== 'github' ? options.forge as keyof typeof FORGE_TOKEN_VARIABLES : undefined;
+  const forgeToken = forge && (
+    (options.token !== process.env.GITHUB_TOKEN ? options.token : undefined)
+    || process.env[FORGE_TOKEN_VARIABLES[forge]]
+  );
+
+  if (needsApiKey && !apiKey) {
+    fail('Vercel AI Gateway API token is required', [
+      'Provide it via --api-key flag or AI_GATEWAY_API_KEY environment variable',
+      'Get your API key at: https://vercel.com/dashboard',
+    ]);
+  }
+
+  // Validate config
+  const schema = needsApiKey ? configSchema : configSchema.partial({ AI_GATEWAY_API_KEY: true });
+  return schema.parse({
+    AI_GATEWAY_API_KEY: apiKey,
+    GITHUB_TOKEN: githubToken,
+    ...(forge ? { [FORGE_TOKEN_VARIABLES[forge]]: forgeToken } : {}),
+  });
+}
+
+/**
+ * Adds the image, script and output options shared by `generate` and `batch`
+ */
+function addGenerationOptions(command: Command): Command {
+  return command
+    .option('-o, --output <dir>', 'Output directory for generated images (default: ./output)', './output')
+    .option('-p, --provider <name>', `Image provider: ${PROVIDER_NAMES.join(', ')} (default: gemini)`, 'gemini')
+    .option('-w, --writer <name>', `Write a script first with this text model: ${SCRIPT_WRITER_NAMES.join(', ')}`)
+    .option('--per-panel', 'Generate one image per script panel (requires --writer or --from-script)')
+    .option('--layout <layout>', `Panel layout when compositing per-panel images: ${LAYOUTS.join(', ')} (default: grid)`)
+    .option('--composite-format <format>', `Composited strip format: ${COMPOSITE_FORMATS.join(', ')} (default: png when panels are PNG)`)
+    .option('--no-composite', 'Keep per-panel images separate instead of compositing them into a strip')
+    .option('-f, --format <formats>', `Output formats, comma-separated: ${OUTPUT_FORMATS.join(', ')} (default: the provider's format)`)
+    .option('--filename <template>', `Filename template without extension, using ${FILENAME_PLACEHOLDERS.map((p) => `{${p}}`).join(', ')} (default: github-comic-{timestamp})`)
+    .option('--sidecar', 'Write a JSON file with the prompt, model, repositories, seed and timestamps')
+    .option('--seed <number>', 'Seed for providers that support deterministic output')
+    .option('--variants <number>', `Generate this many candidates and keep the best one as the comic, 1-${MAX_VARIANTS} (default: 1)`, '1')
+    .option('--retries <number>', 'Retries after a refusal, a failed request or a blank or undersized image (default: 2)', '2');
+}
+
+/**
+ * Validates the provider, writer and per-panel flags
+ */
+function validateGenerationOptions(options: any): void {
+  if (options.perPanel && !options.writer && !options.fromScript) {
+    fail('--per-panel requires --writer or --from-script');
+  }
+  if (options.provider && !PROVIDER_NAMES.includes(options.provider)) {
+    fail(`Unknown provider "${options.provider}"`, [`Expected one of: ${PROVIDER_NAMES.join(', ')}`]);
+  }
+  if (options.writer && !SCRIPT_WRITER_NAMES.includes(options.writer)) {
+    fail(`Unknown script writer "${options.writer}"`, [`Expected one of: ${SCRIPT_WRITER_NAMES.join(', ')}`]);
+  }
+  const variants = Number(options.variants ?? 1);
+  if (!Number.isInteger(variants) || variants < 1 || variants > MAX_VARIANTS) {
+    fail(`Variants must be a whole number from 1 to ${MAX_VARIANTS}`, [`Received: "${options.variants}"`]);
+  }
+  if (variants > 1 && options.perPanel) {
+    fail('--variants cannot be combined with --per-panel');
+  }
+  const retries = Number(options.retries ?? 2);
+  if (!Number.isInteger(retries) || retries < 0) {
+    fail('Retries must be a whole number of zero or more', [`Received: "${options.retries}"`]);
+  }
+}
+
+/**
+ * Converts the validated --retries flag to a retry policy, reporting each retry through `log` when given
+ */
+function parseRetryOptions(options: any, log?: (line: string) => void): RetryImageOptions {
+  const retries = Number(options.retries ?? 2);
+  return {
+    retries,
+    onRetry: log && ((attempt, error, ms) => log(
+      formatImageRetry(attempt, retries, ms, error instanceof Error ? error.message : String(error))
+    )),
+  };
+}
+
+/**
+ * Describes an image retry, for --retries and progress events alike
+ */
+function formatImageRetry(attempt: number, retries: number, ms: number, reason: string): string {
+  return `🔁 Retrying image generation in ${Math.ceil(ms / 1000)}s (retry ${attempt} of ${retries}): ${reason}`;
+}
+
+/**
+ * Formats a step's duration for progress lines
+ */
+function formatDuration(ms: number): string {
+  return `${(ms / 1000).toFixed(1)}s`;
+}
+
+/** Frames of the spinner shown next to the step in progress */
+const SPINNER_FRAMES = ['⠋', '⠙', '⠹', '⠸', '⠼', '⠴', '⠦', '⠧', '⠇', '⠏'];
+
+/**
+ * Renders progress events from the library. On a terminal the step in
+ * progress spins on the last line while finished steps scroll above it;
+ * elsewhere, e.g. in CI logs, every step is a plain line.
+ */
+function createProgressRenderer(options: { enabled: boolean; retries: number }) {
+  const { enabled, retries } = options;
+  const spinning = enabled && Boolean(process.stdout.isTTY);
+  let status: string | undefined;
+  let since = 0;
+  let frame = 0;
+  let timer: NodeJS.Timeout | undefined;
+
+  const draw = () => {
+    if (status) {
+      const line = `${SPINNER_FRAMES[frame++ % SPINNER_FRAMES.length]} ${status} ${formatDuration(Date.now() - since)}`;
+      process.stdout.write(`\r\x1b[K${line.slice(0, (process.stdout.columns || 80) - 1)}`);
+    }
+  };
+  const clear = () => {
+    if (spinning && status) {
+      process.stdout.write('\r\x1b[K');
+    }
+  };
+  /** Prints a finished step above the spinner */
+  const log = (line: string) => {
+    if (enabled) {
+      clear();
+      console.log(line);
+      draw();
+    }
+  };
+  /** Shows the step now in progress */
+  const start = (line: string) => {
+    if (!spinning) {
+      log(line);
+      return;
+    }
+    clear();
+    status = line;
+    since = Date.now();
+    timer ??= setInterval(draw, 100).unref();
+    draw();
+  };
+  /** Ends the step in progress with a line saying how it went */
+  const finish = (line: string) => {
+    clear();
+    status = undefined;
+    log(line);
+  };
+
+  return {
+    log,
+    onEvent(event: ComicEvent): void {
+      switch (event.type) {
+        case 'fetch-start':
+          start(event.subject.startsWith('local:')
+            ? `🔍 Reading git history in ${event.subject.slice('local:'.length)}...`
+            : `🔍 Fetching ${event.forge.startsWith('github') ? 'GitHub' : event.forge} data for ${event.subject}...`);
+          break;
+        case 'repos-fetched':
+          log(`📦 Fetched ${event.count} repositor${event.count === 1 ? 'y' : 'ies'} (${formatDuration(event.durationMs)})`);
+          break;
+        case 'prompt-built':
+          finish(`📝 Prompt ready${event.repos.length > 0 ? `, featuring ${event.repos.join(', ')}` : ''}`);
+          break;
+        case 'generation-start':
+          start(event.stage === 'script' ? `✍️  Writing the script with ${event.provider}...`
+            : event.stage === 'panel' ? `🖼️  Drawing panel ${event.index} of ${event.total}...`
+            : event.stage === 'variant' ? `🎲 Drawing candidate ${event.index} of ${event.total}...`
+            : `🖌️  Drawing the comic with ${event.provider}...`);
+          break;
+        case 'image-saved':
+          finish(`💾 Saved ${event.stage === 'comic' ? 'the comic' : `${event.stage} ${event.index}`} (${formatDuration(event.durationMs)})`);
+          break;
+        case 'retry':
+          log(event.source === 'github'
+            ? `⏳ Waiting ${Math.ceil(event.delayMs / 1000)}s for GitHub (${event.reason})...`
+            : formatImageRetry(event.attempt!, retries, event.delayMs, event.reason));
+          break;
+        case 'error':
+          clear();
+          status = undefined;
+          break;
+      }
+    },
+    /** Stops the spinner and clears its line */
+    stop(): void {
+      clearInterval(timer);
+      timer = undefined;
+      clear();
+      status = undefined;
+    },
+  };
+}
+
+/**
+ * Script writer stand-in for previews: it is only consulted for its name and never called
+ */
+function previewScriptWriter(name: string): ScriptWriter {
+  return {
+    name,
+    write: () => Promise.reject(new Error('Previews never call the script writer')),
+  };
+}
+
+/**
+ * Prints a prompt preview, as JSON or for people
+ */
+function printPreview(preview: ComicPreview, json: boolean): void {
+  if (json) {
+    console.log(JSON.stringify(preview, null, 2));
+    return;
+  }
+  const { apiCalls } = preview;
+  console.log('');
+  console.log('🔍 Prompt preview (no model was called)');
+  console.log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
+  console.log(`👤 Subject: ${preview.subject}`);
+  console.log(`🎭 Theme: ${preview.theme}, ${preview.panels} panel${preview.panels === 1 ? '' : 's'}`);
+  console.log(`📊 Repositories: ${preview.repos.join(', ')}`);
+  if (preview.episode) {
+    console.log(`📺 Episode: ${preview.episode}`);
+  }
+  printRedactions(preview.redactions);
+  console.log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
+  console.log(preview.scriptPrompt ?? preview.prompt);
+  console.log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
+  console.log('📞 API calls for a real run:');
+  console.log(`   GitHub: ${apiCalls.github} request${apiCalls.github === 1 ? '' : 's'} made for this preview`);
+  if (apiCalls.textModel > 0) {
+    console.log(`   Script writer: ${apiCalls.textModel}`);
+  }
+  console.log(`   Image model: ${apiCalls.imageModel}${apiCalls.textModel > 0 ? ' (after the script is written)' : ''}`);
+  console.log('');
+}
+
+/**
+ * Prints a one-line summary of what the safety filter left out, if anything
+ */
+function printRedactions(redactions: Redaction[] | undefined): void {
+  const counts = summarizeRedactions(redactions ?? []);
+  const parts = [
+    counts.private ? `${counts.private} private repositor${counts.private === 1 ? 'y' : 'ies'} excluded` : null,
+    counts.denylist ? `${counts.denylist} denylist match${counts.denylist === 1 ? '' : 'es'}` : null,
+    counts.instruction ? `instruction-like text removed from ${counts.instruction} field${counts.instruction === 1 ? '' : 's'}` : null,
+    counts.truncated ? `${counts.truncated} field${counts.truncated === 1 ? '' : 's'} truncated` : null,
+  ].filter(Boolean);
+  if (parts.length > 0) {
+    console.log(`🛡️  Redacted: ${parts.join(', ')}`);
+  }
+}
+
+/**
+ * Validates the generation options and creates the provider and script writer
+ */
+function prepareGeneration(options: any) {
+  validateGenerationOptions(options);
+
+  const composite: CompositeOptions | false = options.composite === false ? false : parseCompositeOptions(options);
+  const output = parseOutputOptions(options);
+  const seed = parseSeed(options.seed);
+  const variants = Number(options.variants ?? 1);
+
+  // Only the Gemini provider and writer need the AI Gateway key
+  const needsApiKey = options.provider === 'gemini' || (options.writer === 'gemini' && !options.fromScript);
+  const config = resolveConfig(options, needsApiKey);
+  const provider = createImageProvider(options.provider, { apiKey: config.AI_GATEWAY_API_KEY });
+  const scriptWriter = options.writer && !options.fromScript
+    ? createScriptWriter(options.writer, { apiKey: config.AI_GATEWAY_API_KEY })
+    : undefined;
+
+  return { config, provider, scriptWriter, composite, output, seed, variants };
+}
+
+/**
+ * Parses the subject argument, or the git working copy given with --local
+ */
+function parseSubjectOption(subjectArg: string | undefined, options: any): ComicSubject | undefined {
+  if (options.local) {
+    if (subjectArg) {
+      fail('Pass either a subject or --local, not both');
+    }
+    return { type: 'local', path: path.resolve(options.local) };
+  }
+  return subjectArg ? parseSubject(subjectArg) : undefined;
+}
+
+/**
+ * Joins several usernames into a `team:` or `versus:` subject for --mode;
+ * a single subject passes through unchanged
+ */
+function joinSubjects(subjects: string[], mode: string | undefined): string | undefined {
+  if (mode !== undefined && !TEAM_MODES.includes(mode as any)) {
+    fail(`Unknown mode "${mode}"`, [`Expected one of: ${TEAM_MODES.join(', ')}`]);
+  }
+  if (subjects.length < 2) {
+    if (mode) {
+      fail(`A ${mode} comic needs at least ${MIN_TEAM_SIZE} users`, [`For example: generate alice bob --mode ${mode}`]);
+    }
+    return subjects[0];
+  }
+  return `${mode ?? 'team'}:${subjects.join(',')}`;
+}
+
+/**
+ * Runs `generate`, or `sequel` when `options.sequel` is set
+ */
+async function runGenerate(subjectArgs: string | string[] | undefined, options: any): Promise<void> {
+  // Banners and progress would corrupt JSON output, and --quiet asks for none
+  const progress = createProgressRenderer({ enabled: !options.json && !options.quiet, retries: Number(options.retries ?? 2) });
+  // The first Ctrl+C cancels the run cleanly; a second one ends the process straight away
+  const controller = new AbortController();
+  const cancel = () => {
+    progress.log('🛑 Cancelling...');
+    controller.abort();
+  };
+  process.once('SIGINT', cancel);
+  try {
+    const subjectArg = Array.isArray(subjectArgs) ? joinSubjects(subjectArgs, options.mode) : subjectArgs;
+    if (!subjectArg && !options.local && !options.fromScript) {
+      fail('A subject is required unless --local or --from-script is given');
+    }
+    if (options.local && options.fromScript) {
+      fail('--local cannot be combined with --from-script');
+    }
+    if (options.dryRun && options.fromScript) {
+      fail('--dry-run cannot be combined with --from-script');
+    }
+    if (options.sequel && options.history === false) {
+      fail('A sequel needs the history of previous episodes', ['Remove --no-history']);
+    }
+
+    const silent = Boolean(options.json || options.quiet);
+    const log = silent ? () => {} : (...args: unknown[]) => console.log(...args);
+    const subject = parseSubjectOption(subjectArg, options);
+    const comicOptions = await parseComicOptions(options);
+    comicOptions.github = { ...comicOptions.github, onWait: silent ? undefined : comicOptions.github.onWait };
+    const { style, repoCount, enrich } = comicOptions;
+    const history = parseHistoryOptions(options);
+    comicOptions.history = history;
+    comicOptions.sequel = options.sequel;
+
+    if (options.dryRun) {
+      validateGenerationOptions(options);
+      // No model is called, so no AI Gateway key is needed
+      const preview = await previewComic(subject, resolveConfig(options, false), {
+        ...comicOptions,
+        scriptWriter: options.writer ? previewScriptWriter(options.writer) : undefined,
+        perPanel: options.perPanel,
+        variants: Number(options.variants),
+        signal: controller.signal,
+      });
+      if (options.quiet && !options.json) {
+        console.log(preview.scriptPrompt ?? preview.prompt);
+        return;
+      }
+      printPreview(preview, options.json);
+      printCacheStats(silent ? undefined : comicOptions.cache);
+      return;
+    }
+    const { config, provider, scriptWriter, composite, output, seed, variants } = prepareGeneration(options);
+
+    log('');
+    log('🎨 GitHub Comics Generator');
+    log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
+    if (options.fromScript) {
+      log(`📜 Script: ${options.fromScript}`);
+    } else {
+      log(subject.type === 'team'
+        ? `${subject.mode === 'versus' ? '🥊 Versus' : '👥 Team'}: ${subject.mode === 'versus' ? subject.logins.join(' vs ') : formatTeamNames(subject.logins)}`
+        : `👤 Subject: ${formatSubject(subject)}`);
+      if (options.sequel) {
+        const previous = await history.latest(formatSubject(subject));
+        log(previous
+          ? `📺 Sequel to episode ${previous.episode} (${previous.createdAt.slice(0, 10)})`
+          : '📺 No previous episode; this will be episode 1');
+      }
+      if (comicOptions.activity) {
+        log(`📅 Activity: ${comicOptions.activity.since.toISOString().slice(0, 10)} to ${comicOptions.activity.until.toISOString().slice(0, 10)}`);
+      } else if (subject.type === 'user' || subject.type === 'org') {
+        log(`📊 Repositories: Top ${repoCount} by ${options.sort}`);
+      } else if (subject.type === 'team') {
+        log(`📊 Repositories: Top ${repoCount} per member by ${options.sort}`);
+      }
+      if (enrich.length > 0) {
+        log(`🧩 Enrich: ${enrich.join(', ')}`);
+      }
+      log(`🎭 Theme: ${style.theme}, ${style.panels} panel${style.panels === 1 ? '' : 's'}${options.template ? ` (template: ${options.template})` : ''}`);
+      if (scriptWriter) {
+        log(`✍️  Writer: ${scriptWriter.name}${scriptWriter.model ? ` (${scriptWriter.model})` : ''}`);
+      }
+    }
+    log(`📁 Output: ${options.output}`);
+    log(`🖌️  Provider: ${provider.name}${provider.model ? ` (${provider.model})` : ''}`);
+    if (variants > 1) {
+      log(`🎲 Variants: ${variants}, keeping the best one`);
+    }
+    log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
+    log('');
+
+    const startedAt = new Date();
+    let result: ImageResult;
+    if (options.fromScript) {
+      const script = await loadComicScript(options.fromScript);
+      // Retry inside the cache, as generateGithubComic does, so unusable images are never stored
+      const retrying = retryImageProvider(provider, parseRetryOptions(options, progress.log));
+      const imageProvider = comicOptions.cache ? cacheImageProvider(retrying, comicOptions.cache, { subject: script.title }) : retrying;
+      result = await generateComicFromScript(script, imageProvider, options.output, {
+        perPanel: options.perPanel,
+        composite,
+        seed,
+        output,
+        variants,
+        onEvent: progress.onEvent,
+        signal: controller.signal,
+      });
+    } else {
+      result = await generateGithubComic(subject, config, {
+        ...comicOptions,
+        // Waits for GitHub are rendered from the progress events
+        github: { ...comicOptions.github, onWait: undefined },
+        outputDir: options.output,
+        provider,
+        scriptWriter,
+        perPanel: options.perPanel,
+        composite,
+        seed,
+        output,
+        variants,
+        retry: parseRetryOptions(options),
+        onEvent: progress.onEvent,
+        signal: controller.signal,
+      });
+    }
+    progress.stop();
+    const finishedAt = new Date();
+
+    if (options.json) {
+      console.log(JSON.stringify({
+        ok: true,
+        subject: subject ? formatSubject(subject) : undefined,
+        script: options.fromScript,
+        file: result.filePath,
+        files: (result.artifacts ?? [{ format: 'original', filePath: result.filePath }]).map((artifact) => ({
+          format: artifact.format,
+          path: artifact.filePath,
+        })),
+        panels: result.panels?.map((panel) => panel.filePath),
+        variants: result.variants?.map((variant) => ({ path: variant.filePath, score: variant.score, primary: variant.primary })),
+        repos: result.metadata?.repos ?? [],
+        redactions: result.metadata?.redactions ?? [],
+        episode: result.episode,
+        model: { provider: provider.name, model: provider.model, writer: scriptWriter?.model ?? scriptWriter?.name },
+        seed,
+        timings: {
+          startedAt: startedAt.toISOString(),
+          finishedAt: finishedAt.toISOString(),
+          durationMs: finishedAt.getTime() - startedAt.getTime(),
+        },
+        cache: comicOptions.cache?.stats,
+      }, null, 2));
+      return;
+    }
+    if (options.quiet) {
+      console.log(result.filePath);
+      return;
+    }
+
+    console.log('');
+    console.log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
+    console.log('🎉 Success!');
+    console.log(`📄 File: ${result.fileName}`);
+    console.log(`📂 Path: ${result.filePath}`);
+    for (const artifact of result.artifacts?.slice(1) ?? []) {
+      console.log(`   📎 ${artifact.filePath}`);
+    }
+    for (const panel of result.panels ?? []) {
+      console.log(`   🖼️  ${panel.filePath}`);
+    }
+    for (const variant of result.variants?.filter((candidate) => !candidate.primary) ?? []) {
+      console.log(`   🎲 ${variant.filePath} (score ${variant.score.toFixed(2)})`);
+    }
+    if (result.episode) {
+      console.log(`📺 Episode: ${result.episode} (see: github-comics history ${options.local ? `--local ${options.local}` : subjectArg})`);
+    }
+    printRedactions(result.metadata?.redactions);
+    printCacheStats(comicOptions.cache);
+    console.log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
+    console.log('');
+  } catch (error) {
+    progress.stop();
+    exitWithError(error, options.json);
+  } finally {
+    process.off('SIGINT', cancel);
+  }
+}
+
+addHistoryOptions(addGenerationOptions(addComicOptions(
+  program
+    .command('generate')
+    .description('Generate a comic about a GitHub user, organization or repository, or several users in one strip')
+    .argument('[subjects...]', 'GitHub username, org:<organization> or <owner>/<repo>; several usernames make a team comic')
+)))
+  .option('--mode <mode>', `How several users share the strip: ${TEAM_MODES.join(', ')} (default: team)`)
+  .option('--local <path>', 'Make the comic about a git working copy on disk instead of a GitHub subject')
+  .option('--from-script <file>', 'Draw from an existing script JSON file instead of fetching GitHub data')
+  .option('--dry-run', 'Fetch data and print the prompt and expected API calls without calling any model')
+  .option('--json', 'Print the result (or the --dry-run preview) as JSON on stdout, and errors as JSON too')
+  .option('-q, --quiet', 'Print only the path of the comic (with --dry-run, only the prompt)')
+  .action(runGenerate);
+
+addHistoryOptions(addGenerationOptions(addComicOptions(
+  program
+    .command('sequel')
+    .description('Generate the next episode about a subject, calling back to the last comic and what changed since')
+    .argument('[subject]', 'GitHub username, org:<organization> or <owner>/<repo>')
+)))
+  .option('--local <path>', 'Continue the series about a git working copy on disk')
+  .option('--dry-run', 'Fetch data and print the sequel prompt and expected API calls without calling any model')
+  .option('--json', 'Print the result (or the --dry-run preview) as JSON on stdout, and errors as JSON too')
+  .option('-q, --quiet', 'Print only the path of the comic (with --dry-run, only the prompt)')
+  .action((subjectArg: string | undefined, options: any) => runGenerate(subjectArg, { ...options, sequel: true }));
 
 program
-  .command('generate')
-  .description('Generate a comic from a GitHub user\'s repositories')
-  .argument('<username>', 'GitHub username')
-  .option('-t, --token <token>', 'GitHub personal access token (or set GITHUB_TOKEN env var)')
-  .option('-a, --api-key <key>', 'Vercel AI Gateway API token (or set AI_GATEWAY_API_KEY env var)')
-  .option('-c, --count <number>', 'Number of top repositories to include (default: 3)', '3')
-  .option('-o, --output <dir>', 'Output directory for generated images (default: ./output)', './output')
-  .action(async (username: string, options: any) => {
+  .command('history')
+  .description('List the comics generated for a subject, oldest first')
+  .argument('[subject]', 'GitHub username, org:<organization> or <owner>/<repo>')
+  .option('--local <path>', 'List the comics about a git working copy on disk')
+  .option('--history-dir <dir>', 'History directory (default: ~/.local/share/github-comics/history)')
+  .option('--json', 'Print the episodes as JSON')
+  .action(async (subjectArg: string | undefined, options: any) => {
     try {
-      // Get API key from option or environment
-      const apiKey = options.apiKey || process.env.AI_GATEWAY_API_KEY;
-      const githubToken = options.token || process.env.GITHUB_TOKEN;
-
-      if (!apiKey) {
-        console.error('❌ Error: Vercel AI Gateway API token is required');
-        console.error('   Provide it via --api-key flag or AI_GATEWAY_API_KEY environment variable');
-        console.error('');
-        console.error('   Get your API key at: https://vercel.com/dashboard');
-        process.exit(1);
+      const parsed = parseSubjectOption(subjectArg, options);
+      if (!parsed) {
+        fail('A subject or --local is required');
       }
+      const subject = formatSubject(parsed);
+      const history = createComicHistory({ dir: options.historyDir });
+      const episodes = await history.list(subject);
 
-      // Validate config
-      const config = configSchema.parse({
-        AI_GATEWAY_API_KEY: apiKey,
-        GITHUB_TOKEN: githubToken,
-      });
+      if (options.json) {
+        console.log(JSON.stringify(episodes, null, 2));
+        return;
+      }
+      console.log('');
+      console.log(`📚 History for ${subject}: ${episodes.length} episode${episodes.length === 1 ? '' : 's'}`);
+      console.log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
+      if (episodes.length === 0) {
+        console.log(`   No comics yet. Run: github-comics generate ${options.local ? `--local ${options.local}` : subjectArg}`);
+      }
+      for (const episode of episodes) {
+        console.log(`#${episode.episode}  ${episode.createdAt.slice(0, 16).replace('T', ' ')}  ${episode.theme}, ${episode.panels} panel${episode.panels === 1 ? '' : 's'}  ${episode.repos.join(', ')}`);
+        if (episode.files[0]) {
+          console.log(`    ${episode.files[0]}`);
+        }
+      }
+      console.log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
+      console.log('');
+    } catch (error) {
+      exitWithError(error, options.json);
+    }
+  });
 
-      // Validate and parse repository count
-      const repoCount = parseInt(options.count, 10);
-      // Check for NaN immediately after parsing to catch invalid inputs
-      if (isNaN(repoCount)) {
-        console.error('❌ Error: Repository count must be a valid number');
-        console.error(`   Received: "${options.count}"`);
-        process.exit(1);
+addComicOptions(
+  program
+    .command('script')
+    .description('Write a structured comic script (JSON) without generating images')
+    .argument('<subject>', 'GitHub username, org:<organization> or <owner>/<repo>')
+)
+  .option('-w, --writer <name>', `Script writer: ${SCRIPT_WRITER_NAMES.join(', ')} (default: gemini)`, 'gemini')
+  .option('-o, --out <file>', 'Write the script to a file instead of stdout')
+  .action(async (subjectArg: string, options: any) => {
+    try {
+      if (!SCRIPT_WRITER_NAMES.includes(options.writer)) {
+        fail(`Unknown script writer "${options.writer}"`, [`Expected one of: ${SCRIPT_WRITER_NAMES.join(', ')}`]);
       }
-      if (repoCount < 1 || repoCount > 10) {
-        console.error('❌ Error: Repository count must be between 1 and 10');
-        console.error(`   Received: ${repoCount}`);
-        process.exit(1);
+
+      const subject = parseSubject(subjectArg);
+      const comicOptions = await parseComicOptions(options);
+      const config = resolveConfig(options, options.writer === 'gemini');
+      const writer = createScriptWriter(options.writer, { apiKey: config.AI_GATEWAY_API_KEY });
+
+      const prompt = await buildComicPrompt(subject, config, comicOptions);
+      const script = await writer.write(prompt, { panels: comicOptions.style.panels });
+      const json = JSON.stringify(script, null, 2);
+
+      if (options.out) {
+        await fs.writeFile(options.out, `${json}\n`);
+        console.error(`📜 Script written to ${options.out}`);
+      } else {
+        console.log(json);
       }
+    } catch (error) {
+      exitWithError(error);
+    }
+  });
+
+addPromptOptions(
+  program
+    .command('preview')
+    .description('Print the prompt for repositories in a local JSON file, fully offline')
+    .argument('<subject>', 'GitHub username or org:<organization> the repositories belong to')
+    .argument('<file>', 'JSON array of repositories, e.g. saved from the GitHub API')
+)
+  .option('-w, --writer <name>', `Show the script writer's instructions for this text model: ${SCRIPT_WRITER_NAMES.join(', ')}`)
+  .option('--per-panel', 'Count one image call per panel (requires --writer)')
+  .option('--json', 'Print the preview as JSON')
+  .action(async (subjectArg: string, file: string, options: any) => {
+    try {
+      validateGenerationOptions(options);
+      const subject = parseSubject(subjectArg);
+      const repos = await loadRepoFile(file);
+      const preview = previewComicFromRepos(subject, repos, {
+        ...await parsePromptOptions(options),
+        scriptWriter: options.writer ? previewScriptWriter(options.writer) : undefined,
+        perPanel: options.perPanel,
+      });
+      printPreview(preview, options.json);
+    } catch (error) {
+      exitWithError(error);
+    }
+  });
+
+addGenerationOptions(addComicOptions(
+  program
+    .command('batch')
+    .description('Generate comics for every subject listed in a text, CSV or JSON file')
+    .argument('<file>', 'File with one subject per line, a CSV with a "subject" or "username" column, or a JSON array')
+))
+  .option('--concurrency <number>', 'Subjects to generate at the same time (default: 2)', '2')
+  .option('--resume', 'Skip subjects that already succeeded in the output directory')
+  .action(async (file: string, options: any) => {
+    try {
+      const concurrency = Number(options.concurrency);
+      if (!Number.isInteger(concurrency) || concurrency < 1) {
+        fail('Concurrency must be a positive integer', [`Received: "${options.concurrency}"`]);
+      }
+
+      const subjects = await loadBatchFile(file);
+      const comicOptions = await parseComicOptions(options);
+      const { config, provider, scriptWriter, composite, output, seed, variants } = prepareGeneration(options);
 
       console.log('');
-      console.log('🎨 GitHub Comics Generator');
+      console.log('🎨 GitHub Comics Batch');
       console.log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
-      console.log(`👤 User: ${username}`);
-      console.log(`📊 Repositories: Top ${repoCount}`);
+      console.log(`📋 Subjects: ${subjects.length} from ${file}`);
+      console.log(`⚙️  Concurrency: ${concurrency}${options.resume ? ' (resuming)' : ''}`);
       console.log(`📁 Output: ${options.output}`);
+      console.log(`🖌️  Provider: ${provider.name}${provider.model ? ` (${provider.model})` : ''}`);
       console.log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
       console.log('');
 
-      console.log(`🔍 Fetching repositories for ${username}...`);
-      const result = await generateGithubComic(username, config, {
-        repoCount,
+      // Ctrl+C stops starting new subjects; --resume picks up the rest later
+      const controller = new AbortController();
+      process.once('SIGINT', () => {
+        console.log('🛑 Cancelling; run again with --resume to finish the batch');
+        controller.abort();
+      });
+      const report = await runBatch(subjects, config, {
+        ...comicOptions,
+        outputDir: options.output,
+        provider,
+        scriptWriter,
+        perPanel: options.perPanel,
+        composite,
+        seed,
+        output,
+        variants,
+        retry: parseRetryOptions(options, console.log),
+        concurrency,
+        resume: options.resume,
+        signal: controller.signal,
+        onResult: (result, completed, total) => {
+          const icon = result.status === 'success' ? '✅' : result.status === 'skipped' ? '⏭️ ' : '❌';
+          const detail = result.status === 'failed' ? result.error : result.filePath;
+          console.log(`${icon} [${completed}/${total}] ${result.subject}: ${detail}`);
+        },
+      });
+
+      console.log('');
+      console.log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
+      console.log(`🎉 Done: ${report.succeeded} succeeded, ${report.failed} failed, ${report.skipped} skipped`);
+      console.log(`📄 Report: ${path.join(options.output, BATCH_REPORT_FILE)}`);
+      printCacheStats(comicOptions.cache);
+      console.log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
+      console.log('');
+
+      if (report.failed > 0) {
+        process.exit(1);
+      }
+    } catch (error) {
+      exitWithError(error);
+    }
+  });
+
+program
+  .command('compose')
+  .description('Composite existing panel images into a single strip')
+  .argument('<images...>', 'Panel image files, in reading order')
+  .option('--script <file>', 'Script JSON whose title, captions and dialogue are lettered onto the panels')
+  .option('--layout <layout>', `Panel layout: ${LAYOUTS.join(', ')} (default: grid)`, 'grid')
+  .option('-f, --format <format>', `Output format: ${COMPOSITE_FORMATS.join(', ')} (default: png)`, 'png')
+  .option('--title <title>', 'Title bar heading (default: the script title)')
+  .option('--subtitle <text>', 'Title bar sub-heading, e.g. a username and date')
+  .option('-o, --out <file>', 'Output file (default: ./output/github-comic-<timestamp>.<format>)')
+  .action(async (images: string[], options: any) => {
+    try {
+      const { layout, format } = parseCompositeOptions({ layout: options.layout, compositeFormat: options.format });
+      const script = options.script ? await loadComicScript(options.script) : undefined;
+      if (script && script.panels.length !== images.length) {
+        fail(`Script has ${script.panels.length} panels but ${images.length} images were given`);
+      }
+
+      const panels = await Promise.all(images.map(async (file, idx) => {
+        const data = new Uint8Array(await fs.readFile(file));
+        const mediaType = file.toLowerCase().endsWith('.svg') ? 'image/svg+xml' : 'image/png';
+        const panel = script?.panels[idx];
+        return { image: { data, mediaType }, caption: panel?.caption, dialogue: panel?.dialogue };
+      }));
+
+      const strip = compositeComic(panels, {
+        layout,
+        format,
+        title: options.title ?? script?.title,
+        subtitle: options.subtitle,
+      });
+
+      const outFile = options.out ?? `./output/github-comic-${Date.now()}.${extensionForMediaType(strip.mediaType)}`;
+      await fs.mkdir(path.dirname(outFile), { recursive: true });
+      await fs.writeFile(outFile, strip.data);
+      console.log(`🖼️  Composited ${panels.length} panel${panels.length === 1 ? '' : 's'} into ${outFile}`);
+    } catch (error) {
+      exitWithError(error);
+    }
+  });
+
+addCacheOptions(
+  program
+    .command('serve')
+    .description('Start an HTTP server that generates comics through a REST API')
+)
+  .option('--port <number>', 'Port to listen on (default: 3000)', '3000')
+  .option('--host <host>', 'Interface to listen on (default: 127.0.0.1)', '127.0.0.1')
+  .option('-t, --token <token>', 'GitHub personal access token (or set GITHUB_TOKEN env var)')
+  .option('-a, --api-key <key>', 'Vercel AI Gateway API token (or set AI_GATEWAY_API_KEY env var)')
+  .option('-o, --output <dir>', 'Output directory for generated comics (default: ./output/server)', './output/server')
+  .option('-p, --provider <name>', `Provider for requests that name none: ${PROVIDER_NAMES.join(', ')} (default: gemini)`, 'gemini')
+  .option('--concurrency <number>', 'Comics to generate at the same time (default: 1)', '1')
+  .option('--max-queued <number>', 'Comics waiting to be generated before new requests get 503 (default: 100)', '100')
+  .option('--auth-token <token>', 'Require this bearer token on every route except /health (or set GITHUB_COMICS_SERVER_TOKEN)')
+  .option('--no-key-passthrough', 'Ignore API keys sent by clients and use only the server configuration')
+  .option('--profile-comics', 'Serve /u/:login/comic.png and badge routes for profile READMEs (public, server keys only)')
+  .option('--profile-interval <hours>', 'Regenerate each profile comic at most this often (default: 24)', '24')
+  .option('--profile-users <logins>', 'Comma-separated logins allowed on the profile routes, or "*" for any user (required with --profile-comics)')
+  .action(async (options: any) => {
+    try {
+      const port = Number(options.port);
+      if (!Number.isInteger(port) || port < 0 || port > 65535) {
+        fail('Port must be an integer between 0 and 65535', [`Received: "${options.port}"`]);
+      }
+      const concurrency = Number(options.concurrency);
+      if (!Number.isInteger(concurrency) || concurrency < 1) {
+        fail('Concurrency must be a positive integer', [`Received: "${options.concurrency}"`]);
+      }
+      const maxQueuedJobs = Number(options.maxQueued);
+      if (!Number.isInteger(maxQueuedJobs) || maxQueuedJobs < 0) {
+        fail('Max queued comics must be a whole number of zero or more', [`Received: "${options.maxQueued}"`]);
+      }
+      if (!PROVIDER_NAMES.includes(options.provider)) {
+        fail(`Unknown provider "${options.provider}"`, [`Expected one of: ${PROVIDER_NAMES.join(', ')}`]);
+      }
+
+      const profileInterval = Number(options.profileInterval);
+      if (!(profileInterval > 0)) {
+        fail('Profile interval must be a positive number of hours', [`Received: "${options.profileInterval}"`]);
+      }
+      const profileUsers: string[] | undefined = options.profileUsers
+        ?.split(',').map((login: string) => login.trim()).filter(Boolean);
+      if (options.profileComics && !profileUsers?.length) {
+        fail('--profile-comics needs --profile-users', [
+          'Profile routes are public and generate comics with the server\'s keys',
+          'List the allowed logins, or pass --profile-users "*" to serve any user',
+        ]);
+      }
+
+      // Clients may send their own key, so the server does not need one
+      const config = resolveConfig(options, false);
+      const authToken = options.authToken ?? process.env.GITHUB_COMICS_SERVER_TOKEN;
+      const server = createComicServer({
+        config,
         outputDir: options.output,
+        concurrency,
+        maxQueuedJobs,
+        defaultProvider: options.provider,
+        allowKeyPassthrough: options.keyPassthrough,
+        authToken,
+        generateOptions: { cache: parseCacheOptions(options) },
+        profileComics: options.profileComics
+          ? {
+            interval: profileInterval * 60 * 60 * 1000,
+            allow: profileUsers.includes('*') ? '*' : profileUsers,
+            onError: (login, error) => {
+              console.error(`⚠️  Refreshing the profile comic for ${login} failed: ${error instanceof Error ? error.message : String(error)}`);
+            },
+          }
+          : undefined,
       });
 
+      await new Promise<void>((resolve, reject) => {
+        server.once('error', reject);
+        server.listen(port, options.host, resolve);
+      });
+      const address = server.address();
+      const url = typeof address === 'object' && address ? `http://${options.host}:${address.port}` : String(address);
+
       console.log('');
+      console.log('🎨 GitHub Comics Server');
       console.log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
-      console.log('🎉 Success!');
-      console.log(`📄 File: ${result.fileName}`);
-      console.log(`📂 Path: ${result.filePath}`);
+      console.log(`🌐 Listening on ${url}`);
+      console.log(`📁 Output: ${options.output}`);
+      console.log(`🖌️  Default provider: ${options.provider}`);
+      console.log(`🔐 Auth: ${authToken ? 'bearer token required' : 'none'}${options.keyPassthrough ? ', client API keys accepted' : ''}`);
       console.log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
+      console.log('   POST /comics            {"subject": "octocat", "theme": "noir"}');
+      console.log('   GET  /comics/:id        Job status');
+      console.log('   GET  /comics/:id/image  Finished comic');
+      console.log('   GET  /health');
+      if (options.profileComics) {
+        console.log(`   GET  /u/:login/{comic.png,comic.svg,thumbnail.png,badge.svg}  Every ${profileInterval}h for ${profileUsers.includes('*') ? 'any user' : profileUsers.join(', ')}`);
+      }
       console.log('');
+
+      const shutdown = () => {
+        console.log('👋 Shutting down');
+        server.close(() => process.exit(0));
+        server.closeAllConnections();
+      };
+      process.once('SIGINT', shutdown);
+      process.once('SIGTERM', shutdown);
     } catch (error) {
-      console.error('');
-      console.error('❌ Error:', error instanceof Error ? error.message : String(error));
-      console.error('');
-      process.exit(1);
+      exitWithError(error);
     }
   });
 
+/**
+ * Formats a byte count for `cache list`
+ */
+function formatBytes(bytes: number): string {
+  if (bytes < 1024) {
+    return `${bytes} B`;
+  }
+  return bytes < 1024 * 1024 ? `${(bytes / 1024).toFixed(1)} KB` : `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+}
+
+const cacheCommand = program
+  .command('cache')
+  .description('Inspect or clean the on-disk cache of GitHub data and generated images');
+
+cacheCommand
+  .command('list')
+  .description('List cached GitHub responses and images')
+  .option('--cache-dir <dir>', 'Cache directory (default: ~/.cache/github-comics)')
+  .option('--cache-ttl <minutes>', 'How long cached GitHub data stays fresh (default: 60)', '60')
+  .action(async (options: any) => {
+    try {
+      const cache = parseCacheOptions(options)!;
+      const entries = await cache.list();
+      console.log('');
+      console.log(`🗂️  Cache: ${cache.dir}`);
+      console.log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
+      if (entries.length === 0) {
+        console.log('   (empty)');
+      }
+      const now = Date.now();
+      for (const entry of entries) {
+        const expired = entry.expiresAt && Date.parse(entry.expiresAt) <= now ? ' (expired)' : '';
+        const icon = entry.kind === 'image' ? '🖼️ ' : '📦';
+        console.log(`${icon} ${entry.createdAt.slice(0, 16).replace('T', ' ')}  ${formatBytes(entry.size).padStart(8)}  ${entry.label}${expired}`);
+      }
+      console.log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
+      console.log(`${entries.length} entr${entries.length === 1 ? 'y' : 'ies'}, ${formatBytes(entries.reduce((total, entry) => total + entry.size, 0))}`);
+      console.log('');
+    } catch (error) {
+      exitWithError(error);
+    }
+  });
+
+cacheCommand
+  .command('prune')
+  .description('Remove expired GitHub data and unreferenced images')
+  .option('--cache-dir <dir>', 'Cache directory (default: ~/.cache/github-comics)')
+  .option('--cache-ttl <minutes>', 'How long cached GitHub data stays fresh (default: 60)', '60')
+  .action(async (options: any) => {
+    try {
+      const removed = await parseCacheOptions(options)!.prune();
+      console.log(`🧹 Removed ${removed.entries} expired entr${removed.entries === 1 ? 'y' : 'ies'} and ${removed.images} unreferenced image${removed.images === 1 ? '' : 's'}`);
+    } catch (error) {
+      exitWithError(error);
+    }
+  });
+
+cacheCommand
+  .command('clear')
+  .description('Remove everything from the cache')
+  .option('--cache-dir <dir>', 'Cache directory (default: ~/.cache/github-comics)')
+  .action(async (options: any) => {
+    try {
+      const removed = await createComicCache({ dir: options.cacheDir }).clear();
+      console.log(`🧹 Removed ${removed} cache entr${removed === 1 ? 'y' : 'ies'}`);
+    } catch (error) {
+      exitWithError(error);
+    }
+  });
+
+program
+  .command('config')
+  .description('Print the effective configuration (defaults, configuration file, profile and environment) with secrets redacted')
+  .option('--json', 'Print the configuration as JSON')
+  .action((options: any) => {
+    const { settings, sources, file, profile } = activeSettings!;
+
+    // Defaults are those of `generate`, which has not parsed any arguments in this run
+    const generate = program.commands.find((command) => command.name() === 'generate')!;
+
+    const effective: Partial<Record<SettingName, unknown>> = {};
+    const effectiveSources: Partial<Record<SettingName, string>> = {};
+    for (const name of SETTING_NAMES) {
+      const value = settings[name] ?? parseSettingValue(name, generate.getOptionValue(name));
+      if (value !== undefined) {
+        effective[name] = value;
+        effectiveSources[name] = sources[name] ?? 'default';
+      }
+    }
+    const redacted = redactSettings(effective);
+
+    if (options.json) {
+      console.log(JSON.stringify({ file, profile, settings: redacted, sources: effectiveSources }, null, 2));
+      return;
+    }
+
+    const width = Math.max(...Object.keys(redacted).map((name) => name.length));
+    console.log('');
+    console.log('⚙️  Configuration');
+    console.log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
+    console.log(`📄 File: ${file ?? 'none found'}`);
+    console.log(`🎭 Profile: ${profile ?? 'none'}`);
+    console.log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
+    for (const [name, value] of Object.entries(redacted)) {
+      const shown = Array.isArray(value) ? value.join(',') : String(value);
+      console.log(`   ${name.padEnd(width)}  ${shown}  (${effectiveSources[name as SettingName]})`);
+    }
+    console.log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
+    console.log('');
+  });
+
 program
   .command('setup')
   .description('Show setup instructions')
@@ -126,6 +1363,9 @@ program
     console.log('   npm start generate <username>');
     console.log('   or');
     console.log('   github-comics generate <username>');
+    console.log('   github-comics generate org:<organization>');
+    console.log('   github-comics generate <owner>/<repo>');
+    console.log('   github-comics batch <subjects.txt>');
     console.log('');
     console.log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
     console.log('');
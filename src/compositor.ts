@@ -0,0 +1,388 @@
+import type { GeneratedImage } from './providers.js';
+import type { ComicPanel } from './script.js';
+import { createBitmap, decodePng, encodePng, isPng, readPngSize, type Bitmap } from './png.js';
+import { GLYPH_HEIGHT, GLYPH_WIDTH, glyphFor } from './font.js';
+import { escapeXml, wrapText } from './text.js';
+
+/**
+ * How panels are arranged in the final strip
+ */
+export const LAYOUTS = ['grid', 'horizontal', 'vertical'] as const;
+
+export type CompositeLayout = (typeof LAYOUTS)[number];
+
+export const COMPOSITE_FORMATS = ['png', 'svg'] as const;
+
+export type CompositeFormat = (typeof COMPOSITE_FORMATS)[number];
+
+/**
+ * One panel image plus the text to letter onto it
+ */
+export interface CompositePanel {
+  image: GeneratedImage;
+  caption?: string;
+  dialogue?: ComicPanel['dialogue'];
+}
+
+/**
+ * Options for compositeComic
+ */
+export interface CompositeOptions {
+  /** Panel arrangement (default: 'grid') */
+  layout?: CompositeLayout;
+  /** Columns for the grid layout (default: square-ish) */
+  columns?: number;
+  /** Output format (default: 'png') */
+  format?: CompositeFormat;
+  /** Title bar heading, e.g. the script title */
+  title?: string;
+  /** Title bar sub-heading, e.g. the username and date */
+  subtitle?: string;
+  /** Panel cell width in pixels (default: 512); height follows the first panel's aspect ratio */
+  panelWidth?: number;
+  /** Space between panels in pixels (default: 16) */
+  gutter?: number;
+}
+
+type Rgb = [number, number, number];
+
+const BLACK: Rgb = [0, 0, 0];
+const WHITE: Rgb = [255, 255, 255];
+const CAPTION_FILL: Rgb = [255, 243, 176];
+
+// Bitmap lettering: scale 2 gives 10x14 glyphs with 2px tracking
+const TEXT_SCALE = 2;
+const CHAR_ADVANCE = (GLYPH_WIDTH + 1) * TEXT_SCALE;
+const LINE_HEIGHT = (GLYPH_HEIGHT + 3) * TEXT_SCALE;
+const BOX_PADDING = 8;
+const BOX_MARGIN = 10;
+const BORDER = 2;
+
+/**
+ * Computes the number of columns and rows for a layout
+ *
+ * @param count - Number of panels
+ * @param layout - Panel arrangement
+ * @param columns - Grid columns override
+ * @returns Grid dimensions
+ */
+export function computeGrid(
+  count: number,
+  layout: CompositeLayout = 'grid',
+  columns?: number
+): { columns: number; rows: number } {
+  if (count < 1) {
+    throw new Error('At least one panel is required');
+  }
+
+  switch (layout) {
+    case 'horizontal':
+      return { columns: count, rows: 1 };
+    case 'vertical':
+      return { columns: 1, rows: count };
+    case 'grid': {
+      const cols = Math.min(count, Math.max(1, columns ?? Math.ceil(Math.sqrt(count))));
+      return { columns: cols, rows: Math.ceil(count / cols) };
+    }
+    default:
+      throw new Error(`Unknown layout: ${layout}. Expected one of: ${LAYOUTS.join(', ')}`);
+  }
+}
+
+interface TextBox {
+  lines: string[];
+  fill: Rgb;
+}
+
+interface Geometry {
+  width: number;
+  height: number;
+  cellWidth: number;
+  cellHeight: number;
+  titleHeight: number;
+  cells: Array<{ x: number; y: number }>;
+}
+
+function computeGeometry(panels: CompositePanel[], options: CompositeOptions): Geometry {
+  const { layout = 'grid', panelWidth = 512, gutter = 16 } = options;
+  const { columns, rows } = computeGrid(panels.length, layout, options.columns);
+
+  const firstSize = readPngSize(panels[0].image.data);
+  const cellWidth = panelWidth;
+  const cellHeight = firstSize ? Math.round((panelWidth * firstSize.height) / firstSize.width) : panelWidth;
+  const titleHeight = options.title || options.subtitle ? 72 : 0;
+
+  return {
+    width: gutter + columns * (cellWidth + gutter),
+    height: titleHeight + gutter + rows * (cellHeight + gutter),
+    cellWidth,
+    cellHeight,
+    titleHeight,
+    cells: panels.map((_, idx) => ({
+      x: gutter + (idx % columns) * (cellWidth + gutter),
+      y: titleHeight + gutter + Math.floor(idx / columns) * (cellHeight + gutter),
+    })),
+  };
+}
+
+/**
+ * Builds the speech bubbles (top) and caption box (bottom) for a panel
+ */
+function panelTextBoxes(panel: CompositePanel, maxChars: number): { top: TextBox[]; bottom: TextBox[] } {
+  const top = (panel.dialogue ?? []).map(({ speaker, line }) => ({
+    lines: wrapText(`${speaker}: ${line}`, maxChars),
+    fill: WHITE,
+  }));
+  const bottom = panel.caption ? [{ lines: wrapText(panel.caption, maxChars), fill: CAPTION_FILL }] : [];
+  return { top, bottom };
+}
+
+function fillRect(bitmap: Bitmap, x: number, y: number, w: number, h: number, [r, g, b]: Rgb): void {
+  const x0 = Math.max(0, Math.floor(x));
+  const y0 = Math.max(0, Math.floor(y));
+  const x1 = Math.min(bitmap.width, Math.floor(x + w));
+  const y1 = Math.min(bitmap.height, Math.floor(y + h));
+  for (let py = y0; py < y1; py++) {
+    for (let px = x0; px < x1; px++) {
+      const offset = (py * bitmap.width + px) * 4;
+      bitmap.data[offset] = r;
+      bitmap.data[offset + 1] = g;
+      bitmap.data[offset + 2] = b;
+      bitmap.data[offset + 3] = 255;
+    }
+  }
+}
+
+function strokeRect(bitmap: Bitmap, x: number, y: number, w: number, h: number, color: Rgb, thickness: number): void {
+  fillRect(bitmap, x, y, w, thickness, color);
+  fillRect(bitmap, x, y + h - thickness, w, thickness, color);
+  fillRect(bitmap, x, y, thickness, h, color);
+  fillRect(bitmap, x + w - thickness, y, thickness, h, color);
+}
+
+function drawText(bitmap: Bitmap, text: string, x: number, y: number, scale: number, color: Rgb): void {
+  let cursor = x;
+  for (const char of text) {
+    const rows = glyphFor(char);
+    for (let gy = 0; gy < GLYPH_HEIGHT; gy++) {
+      for (let gx = 0; gx < GLYPH_WIDTH; gx++) {
+        if (rows[gy][gx] === '#') {
+          fillRect(bitmap, cursor + gx * scale, y + gy * scale, scale, scale, color);
+        }
+      }
+    }
+    cursor += (GLYPH_WIDTH + 1) * scale;
+  }
+}
+
+/**
+ * Draws `src` scaled to fit inside the target rectangle (bilinear, centered),
+ * blending any transparency over what is already there
+ */
+function drawImageFit(dst: Bitmap, src: Bitmap, x: number, y: number, w: number, h: number): void {
+  const scale = Math.min(w / src.width, h / src.height);
+  const drawW = Math.max(1, Math.round(src.width * scale));
+  const drawH = Math.max(1, Math.round(src.height * scale));
+  const offsetX = Math.round(x + (w - drawW) / 2);
+  const offsetY = Math.round(y + (h - drawH) / 2);
+
+  for (let dy = 0; dy < drawH; dy++) {
+    const sy = Math.min(src.height - 1, Math.max(0, (dy + 0.5) / scale - 0.5));
+    const y0 = Math.floor(sy);
+    const y1 = Math.min(src.height - 1, y0 + 1);
+    const fy = sy - y0;
+    for (let dx = 0; dx < drawW; dx++) {
+      const sx = Math.min(src.width - 1, Math.max(0, (dx + 0.5) / scale - 0.5));
+      const x0 = Math.floor(sx);
+      const x1 = Math.min(src.width - 1, x0 + 1);
+      const fx = sx - x0;
+
+      const px = offsetX + dx;
+      const py = offsetY + dy;
+      if (px < 0 || py < 0 || px >= dst.width || py >= dst.height) {
+        continue;
+      }
+
+      const out = (py * dst.width + px) * 4;
+      const i00 = (y0 * src.width + x0) * 4;
+      const i10 = (y0 * src.width + x1) * 4;
+      const i01 = (y1 * src.width + x0) * 4;
+      const i11 = (y1 * src.width + x1) * 4;
+      const sampleChannel = (c: number): number =>
+        (src.data[i00 + c] * (1 - fx) + src.data[i10 + c] * fx) * (1 - fy) +
+        (src.data[i01 + c] * (1 - fx) + src.data[i11 + c] * fx) * fy;
+
+      const alpha = sampleChannel(3) / 255;
+      for (let c = 0; c < 3; c++) {
+        dst.data[out + c] = Math.round(sampleChannel(c) * alpha + dst.data[out + c] * (1 - alpha));
+      }
+      dst.data[out + 3] = 255;
+    }
+  }
+}
+
+function boxHeight(box: TextBox): number {
+  return box.lines.length * LINE_HEIGHT + BOX_PADDING * 2 - (LINE_HEIGHT - GLYPH_HEIGHT * TEXT_SCALE);
+}
+
+function composePng(panels: CompositePanel[], options: CompositeOptions): GeneratedImage {
+  const geometry = computeGeometry(panels, options);
+  const canvas = createBitmap(geometry.width, geometry.height);
+
+  if (geometry.titleHeight > 0) {
+    fillRect(canvas, 0, 0, geometry.width, geometry.titleHeight, BLACK);
+    const maxChars = Math.floor((geometry.width - 32) / ((GLYPH_WIDTH + 1) * 3));
+    if (options.title) {
+      drawText(canvas, options.title.slice(0, maxChars), 16, 12, 3, WHITE);
+    }
+    if (options.subtitle) {
+      drawText(canvas, options.subtitle.slice(0, Math.floor((geometry.width - 32) / CHAR_ADVANCE)), 16, options.title ? 46 : 28, TEXT_SCALE, WHITE);
+    }
+  }
+
+  const maxChars = Math.max(8, Math.floor((geometry.cellWidth - BOX_MARGIN * 2 - BOX_PADDING * 2) / CHAR_ADVANCE));
+
+  panels.forEach((panel, idx) => {
+    const { x, y } = geometry.cells[idx];
+    drawImageFit(canvas, decodePng(panel.image.data), x, y, geometry.cellWidth, geometry.cellHeight);
+    strokeRect(canvas, x - BORDER, y - BORDER, geometry.cellWidth + BORDER * 2, geometry.cellHeight + BORDER * 2, BLACK, BORDER * 2);
+
+    const { top, bottom } = panelTextBoxes(panel, maxChars);
+    const drawBox = (box: TextBox, boxY: number) => {
+      const width = Math.max(...box.lines.map((line) => line.length)) * CHAR_ADVANCE + BOX_PADDING * 2;
+      const height = boxHeight(box);
+      fillRect(canvas, x + BOX_MARGIN, boxY, width, height, box.fill);
+      strokeRect(canvas, x + BOX_MARGIN, boxY, width, height, BLACK, BORDER);
+      box.lines.forEach((line, lineIdx) => {
+        drawText(canvas, line, x + BOX_MARGIN + BOX_PADDING, boxY + BOX_PADDING + lineIdx * LINE_HEIGHT, TEXT_SCALE, BLACK);
+      });
+    };
+
+    let cursor = y + BOX_MARGIN;
+    for (const box of top) {
+      drawBox(box, cursor);
+      cursor += boxHeight(box) + BOX_MARGIN / 2;
+    }
+    let bottomCursor = y + geometry.cellHeight - BOX_MARGIN;
+    for (const box of [...bottom].reverse()) {
+      bottomCursor -= boxHeight(box);
+      drawBox(box, bottomCursor);
+    }
+  });
+
+  return { data: encodePng(canvas), mediaType: 'image/png' };
+}
+
+function composeSvg(panels: CompositePanel[], options: CompositeOptions): GeneratedImage {
+  const geometry = computeGeometry(panels, options);
+  const fontSize = 16;
+  const lineHeight = 20;
+  const charWidth = 9;
+  const maxChars = Math.max(8, Math.floor((geometry.cellWidth - BOX_MARGIN * 2 - BOX_PADDING * 2) / charWidth));
+  const font = 'font-family="\'Comic Neue\', \'Comic Sans MS\', sans-serif"';
+  const parts: string[] = [`<rect width="100%" height="100%" fill="#fff"/>`];
+
+  if (geometry.titleHeight > 0) {
+    parts.push(`<rect width="100%" height="${geometry.titleHeight}" fill="#000"/>`);
+    if (options.title) {
+      parts.push(`<text x="16" y="36" ${font} font-size="28" font-weight="bold" fill="#fff">${escapeXml(options.title)}</text>`);
+    }
+    if (options.subtitle) {
+      parts.push(`<text x="16" y="${options.title ? 60 : 44}" ${font} font-size="16" fill="#fff">${escapeXml(options.subtitle)}</text>`);
+    }
+  }
+
+  panels.forEach((panel, idx) => {
+    const { x, y } = geometry.cells[idx];
+    const href = `data:${panel.image.mediaType};base64,${Buffer.from(panel.image.data).toString('base64')}`;
+    parts.push(`<image x="${x}" y="${y}" width="${geometry.cellWidth}" height="${geometry.cellHeight}" preserveAspectRatio="xMidYMid meet" href="${href}"/>`);
+    parts.push(`<rect x="${x}" y="${y}" width="${geometry.cellWidth}" height="${geometry.cellHeight}" fill="none" stroke="#000" stroke-width="${BORDER * 2}"/>`);
+
+    const { top, bottom } = panelTextBoxes(panel, maxChars);
+    const height = (box: TextBox) => box.lines.length * lineHeight + BOX_PADDING * 2 - (lineHeight - fontSize);
+    const drawBox = (box: TextBox, boxY: number, rx: number) => {
+      const width = Math.max(...box.lines.map((line) => line.length)) * charWidth + BOX_PADDING * 2;
+      const [r, g, b] = box.fill;
+      parts.push(`<rect x="${x + BOX_MARGIN}" y="${boxY}" width="${width}" height="${height(box)}" rx="${rx}" fill="rgb(${r},${g},${b})" stroke="#000" stroke-width="${BORDER}"/>`);
+      const tspans = box.lines.map((line, lineIdx) =>
+        `<tspan x="${x + BOX_MARGIN + BOX_PADDING}" y="${boxY + BOX_PADDING + fontSize - 3 + lineIdx * lineHeight}">${escapeXml(line)}</tspan>`
+      ).join('');
+      parts.push(`<text ${font} font-size="${fontSize}" fill="#000">${tspans}</text>`);
+    };
+
+    let cursor = y + BOX_MARGIN;
+    for (const box of top) {
+      drawBox(box, cursor, 12);
+      cursor += height(box) + BOX_MARGIN / 2;
+    }
+    let bottomCursor = y + geometry.cellHeight - BOX_MARGIN;
+    for (const box of [...bottom].reverse()) {
+      bottomCursor -= height(box);
+      drawBox(box, bottomCursor, 0);
+    }
+  });
+
+  const svg = `<?xml version="1.0" encoding="UTF-8"?>
+<svg xmlns="http://www.w3.org/2000/svg" width="${geometry.width}" height="${geometry.height}" viewBox="0 0 ${geometry.width} ${geometry.height}">${parts.join('')}</svg>
+`;
+  return { data: new TextEncoder().encode(svg), mediaType: 'image/svg+xml' };
+}
+
+/**
+ * Lays out panel images into a single strip with a title bar, speech bubbles
+ * and captions. Runs entirely locally: PNG output decodes and re-encodes the
+ * panels in-process, SVG output embeds them as data URIs.
+ *
+ * @param panels - Panel images with their text, in reading order
+ * @param options - Layout, format and title bar options
+ * @returns Composited image
+ * @throws Error if there are no panels, or PNG output is requested for non-PNG panels
+ */
+export function compositeComic(panels: CompositePanel[], options: CompositeOptions = {}): GeneratedImage {
+  const { format = 'png' } = options;
+
+  if (!Array.isArray(panels) || panels.length === 0) {
+    throw new Error('At least one panel is required');
+  }
+
+  if (format === 'svg') {
+    return composeSvg(panels, options);
+  }
+
+  if (format !== 'png') {
+    throw new Error(`Unknown composite format: ${format}. Expected one of: ${COMPOSITE_FORMATS.join(', ')}`);
+  }
+
+  const nonPng = panels.find((panel) => !isPng(panel.image.data));
+  if (nonPng) {
+    throw new Error(`PNG compositing requires PNG panels, got ${nonPng.image.mediaType}. Use the svg format instead.`);
+  }
+
+  return composePng(panels, options);
+}
+
+/**
+ * Scales a PNG image down to at most `maxWidth` pixels wide, keeping its
+ * aspect ratio; transparency is flattened onto white. Smaller images are
+ * returned unchanged.
+ *
+ * @param image - PNG image
+ * @param maxWidth - Maximum width in pixels (default: 320)
+ * @returns PNG thumbnail
+ * @throws Error if the image is not a PNG
+ */
+export function createThumbnail(image: GeneratedImage, maxWidth: number = 320): GeneratedImage {
+  if (!isPng(image.data)) {
+    throw new Error(`Thumbnails require a PNG image, got ${image.mediaType}`);
+  }
+  const source = decodePng(image.data);
+  if (source.width <= maxWidth) {
+    return image;
+  }
+
+  const width = maxWidth;
+  const height = Math.max(1, Math.round((source.height * maxWidth) / source.width));
+  const thumbnail = createBitmap(width, height, [255, 255, 255, 255]);
+  drawImageFit(thumbnail, source, 0, 0, width, height);
+  return { data: encodePng(thumbnail), mediaType: 'image/png' };
+}
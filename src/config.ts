@@ -0,0 +1,301 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { parse as parseYaml } from 'yaml';
+import { z } from 'zod';
+import { ConfigError, FileSystemError } from './errors.js';
+import { RATE_LIMIT_POLICIES } from './github.js';
+import { FORGE_NAMES } from './forges.js';
+import { LAYOUTS, COMPOSITE_FORMATS } from './compositor.js';
+import { OUTPUT_FORMATS } from './output.js';
+import { PROFILE_FIELD_GROUPS } from './profile.js';
+import { PROVIDER_NAMES } from './providers.js';
+import { MAX_VARIANTS } from './quality.js';
+import { SCRIPT_WRITER_NAMES } from './script.js';
+import { SORT_STRATEGIES } from './selection.js';
+import { THEME_NAMES, MIN_PANELS, MAX_PANELS } from './templates.js';
+
+/**
+ * File names searched for, in order, in the working directory and then each parent
+ */
+export const CONFIG_FILE_NAMES = [
+  'github-comics.config.json',
+  'github-comics.config.yaml',
+  'github-comics.config.yml',
+  '.github-comicsrc',
+  '.github-comicsrc.json',
+  '.github-comicsrc.yaml',
+  '.github-comicsrc.yml',
+] as const;
+
+/** Settings that hold paths; relative ones in a configuration file are relative to that file */
+export const PATH_SETTINGS = ['template', 'output', 'cacheDir', 'historyDir'] as const;
+
+/** Settings that hold credentials; they are redacted whenever a configuration is printed */
+export const SECRET_SETTINGS = ['token', 'apiKey'] as const;
+
+/** Environment variables that override the matching setting */
+const ENV_SETTINGS = {
+  GITHUB_TOKEN: 'token',
+  AI_GATEWAY_API_KEY: 'apiKey',
+} as const;
+
+/**
+ * Every setting a configuration file or profile may hold. Keys are the CLI's
+ * long option names in camelCase, e.g. `--cache-ttl` is `cacheTtl`.
+ */
+export const comicSettingsSchema = z.object({
+  token: z.string().min(1).optional(),
+  apiKey: z.string().min(1).optional(),
+  count: z.number().int().min(1).max(10).optional(),
+  sort: z.enum(SORT_STRATEGIES).optional(),
+  excludeForks: z.boolean().optional(),
+  excludeArchived: z.boolean().optional(),
+  language: z.string().optional(),
+  topic: z.string().optional(),
+  theme: z.enum(THEME_NAMES as [string, ...string[]]).optional(),
+  panels: z.number().int().min(MIN_PANELS).max(MAX_PANELS).optional(),
+  style: z.string().optional(),
+  tone: z.string().optional(),
+  captionLanguage: z.string().optional(),
+  template: z.string().optional(),
+  includePrivate: z.boolean().optional(),
+  denylist: z.union([z.string(), z.array(z.string().min(1))]).optional(),
+  maxFieldLength: z.number().int().min(1).optional(),
+  forge: z.enum(FORGE_NAMES).optional(),
+  apiUrl: z.string().url().optional(),
+  since: z.string().optional(),
+  until: z.string().optional(),
+  enrich: z.union([z.string(), z.array(z.enum([...PROFILE_FIELD_GROUPS, 'all']))]).optional(),
+  rateLimit: z.enum(RATE_LIMIT_POLICIES).optional(),
+  cache: z.boolean().optional(),
+  cacheDir: z.string().optional(),
+  cacheTtl: z.number().min(0).optional(),
+  history: z.boolean().optional(),
+  historyDir: z.string().optional(),
+  output: z.string().optional(),
+  provider: z.enum(PROVIDER_NAMES).optional(),
+  writer: z.enum(SCRIPT_WRITER_NAMES).optional(),
+  perPanel: z.boolean().optional(),
+  layout: z.enum(LAYOUTS).optional(),
+  compositeFormat: z.enum(COMPOSITE_FORMATS).optional(),
+  composite: z.boolean().optional(),
+  format: z.union([z.string(), z.array(z.enum(OUTPUT_FORMATS))]).optional(),
+  filename: z.string().optional(),
+  sidecar: z.boolean().optional(),
+  seed: z.number().int().min(0).optional(),
+  variants: z.number().int().min(1).max(MAX_VARIANTS).optional(),
+  retries: z.number().int().min(0).optional(),
+}).strict();
+
+export type ComicSettings = z.infer<typeof comicSettingsSchema>;
+
+export type SettingName = keyof ComicSettings;
+
+/** Every setting name, in the order the configuration is printed */
+export const SETTING_NAMES = Object.keys(comicSettingsSchema.shape) as SettingName[];
+
+/**
+ * A configuration file: top-level settings plus named profiles that override them
+ */
+export const configFileSchema = comicSettingsSchema.extend({
+  profiles: z.record(comicSettingsSchema).optional(),
+}).strict();
+
+/**
+ * A loaded configuration file
+ */
+export interface ConfigFile {
+  /** Absolute path of the file */
+  path: string;
+  settings: ComicSettings;
+  profiles: Record<string, ComicSettings>;
+}
+
+/** Where an effective setting came from, lowest precedence first */
+export type SettingSource = 'file' | 'profile' | 'env';
+
+/**
+ * Settings after merging a configuration file, a profile and the environment
+ */
+export interface ResolvedSettings {
+  settings: ComicSettings;
+  /** Source of each setting in `settings` */
+  sources: Partial<Record<SettingName, SettingSource>>;
+  /** Profile applied, if any */
+  profile?: string;
+  /** Configuration file read, if any */
+  file?: string;
+}
+
+/**
+ * Options for resolveSettings
+ */
+export interface ResolveSettingsOptions {
+  /** Profile to apply on top of the file's top-level settings */
+  profile?: string;
+  /** Environment variables; GITHUB_TOKEN and AI_GATEWAY_API_KEY override the file (default: none) */
+  env?: NodeJS.ProcessEnv;
+}
+
+async function fileExists(filePath: string): Promise<boolean> {
+  try {
+    return (await fs.stat(filePath)).isFile();
+  } catch (error) {
+    return false;
+  }
+}
+
+/**
+ * Looks for a configuration file in a directory and then in each of its parents
+ *
+ * @param dir - Directory to start in (default: the working directory)
+ * @returns Path of the first file found, or undefined
+ */
+export async function findConfigFile(dir: string = process.cwd()): Promise<string | undefined> {
+  let current = path.resolve(dir);
+  for (;;) {
+    for (const name of CONFIG_FILE_NAMES) {
+      const candidate = path.join(current, name);
+      if (await fileExists(candidate)) {
+        return candidate;
+      }
+    }
+    const parent = path.dirname(current);
+    if (parent === current) {
+      return undefined;
+    }
+    current = parent;
+  }
+}
+
+/**
+ * Reads and validates a configuration file. `.json` files are parsed as
+ * JSON and everything else as YAML, which also accepts JSON. Relative
+ * paths in PATH_SETTINGS are resolved against the file's directory.
+ *
+ * @param filePath - Path to the file
+ * @returns Top-level settings and profiles
+ * @throws FileSystemError if the file cannot be read
+ * @throws ConfigError if it cannot be parsed or holds unknown or invalid settings
+ */
+export async function loadConfigFile(filePath: string): Promise<ConfigFile> {
+  const absolutePath = path.resolve(filePath);
+  let text: string;
+  try {
+    text = await fs.readFile(absolutePath, 'utf8');
+  } catch (error) {
+    throw new FileSystemError(`Cannot read configuration file ${filePath}: ${(error as Error).message}`, absolutePath, { cause: error });
+  }
+
+  let value: unknown;
+  try {
+    value = path.extname(absolutePath).toLowerCase() === '.json' ? JSON.parse(text) : parseYaml(text);
+  } catch (error) {
+    throw new ConfigError(`Configuration file is not valid ${path.extname(absolutePath).toLowerCase() === '.json' ? 'JSON' : 'YAML'}: ${filePath}`, { cause: error });
+  }
+
+  // An empty YAML file parses to null
+  const result = configFileSchema.safeParse(value ?? {});
+  if (!result.success) {
+    const issues = result.error.issues
+      .slice(0, 3)
+      .map((issue) => `${issue.path.join('.') || '(root)'}: ${issue.message}`)
+      .join('; ');
+    throw new ConfigError(`Invalid configuration file ${filePath}: ${issues}`);
+  }
+
+  // The file may sit in a parent of the working directory, so its paths must not depend on it
+  const resolvePaths = (layer: ComicSettings): ComicSettings => {
+    const resolved = { ...layer };
+    for (const key of PATH_SETTINGS) {
+      if (resolved[key] !== undefined) {
+        resolved[key] = path.resolve(path.dirname(absolutePath), resolved[key]);
+      }
+    }
+    return resolved;
+  };
+
+  const { profiles = {}, ...settings } = result.data;
+  return {
+    path: absolutePath,
+    settings: resolvePaths(settings),
+    profiles: Object.fromEntries(Object.entries(profiles).map(([name, layer]) => [name, resolvePaths(layer)])),
+  };
+}
+
+/**
+ * Merges a configuration file's settings, a profile and the environment.
+ * Later layers win: file, then profile, then environment. Command-line
+ * flags are applied on top by the caller.
+ *
+ * @param file - Loaded configuration file, if any
+ * @param options - Profile name and environment
+ * @returns Merged settings with the source of each
+ * @throws ConfigError if the profile does not exist
+ */
+export function resolveSettings(file: ConfigFile | undefined, options: ResolveSettingsOptions = {}): ResolvedSettings {
+  const { profile, env = {} } = options;
+  const settings: Record<string, unknown> = {};
+  const sources: Partial<Record<SettingName, SettingSource>> = {};
+  const apply = (layer: ComicSettings, source: SettingSource) => {
+    for (const [key, value] of Object.entries(layer)) {
+      if (value !== undefined) {
+        settings[key] = value;
+        sources[key as SettingName] = source;
+      }
+    }
+  };
+
+  if (file) {
+    apply(file.settings, 'file');
+  }
+  if (profile) {
+    const profileSettings = file?.profiles[profile];
+    if (!profileSettings) {
+      const available = Object.keys(file?.profiles ?? {});
+      throw new ConfigError(file
+        ? `Unknown profile "${profile}" in ${file.path}${available.length > 0 ? ` (available: ${available.join(', ')})` : ''}`
+        : `Profile "${profile}" needs a configuration file, but none was found`);
+    }
+    apply(profileSettings, 'profile');
+  }
+  for (const [variable, key] of Object.entries(ENV_SETTINGS)) {
+    if (env[variable]) {
+      apply({ [key]: env[variable] }, 'env');
+    }
+  }
+
+  return { settings: settings as ComicSettings, sources, profile, file: file?.path };
+}
+
+/**
+ * Converts a command-line option value to the type its setting holds, e.g. `"3"` to 3
+ *
+ * @param name - Setting name
+ * @param value - Option value as Commander parsed it
+ * @returns The converted value, or the value unchanged when no conversion applies
+ */
+export function parseSettingValue(name: SettingName, value: unknown): unknown {
+  if (typeof value === 'string' && comicSettingsSchema.shape[name].unwrap() instanceof z.ZodNumber) {
+    const number = Number(value);
+    return Number.isNaN(number) ? value : number;
+  }
+  return value;
+}
+
+/**
+ * Replaces credentials with a placeholder that keeps only their last four characters
+ *
+ * @param settings - Settings to print
+ * @returns A copy safe to print or log
+ */
+export function redactSettings<T extends Partial<Record<string, unknown>>>(settings: T): T {
+  const redacted: Record<string, unknown> = { ...settings };
+  for (const key of SECRET_SETTINGS) {
+    const value = redacted[key];
+    if (typeof value === 'string' && value) {
+      redacted[key] = value.length > 8 ? `****${value.slice(-4)}` : '****';
+    }
+  }
+  return redacted as T;
+}
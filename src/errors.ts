@@ -0,0 +1,171 @@
+/**
+ * Process exit codes used by the CLI, one per error class
+ */
+export const EXIT_CODES = {
+  /** Any other failure */
+  error: 1,
+  /** Missing keys, invalid options or an invalid subject */
+  config: 2,
+  /** The user, organization or repository does not exist */
+  notFound: 3,
+  /** GitHub's rate limit ran out */
+  rateLimited: 4,
+  /** The model returned no image, e.g. because of a safety filter */
+  generationRefused: 5,
+  /** Reading or writing a file failed */
+  filesystem: 6,
+  /** Cancelled through an AbortSignal, e.g. with Ctrl+C */
+  aborted: 130,
+} as const;
+
+export type ComicErrorCode =
+  | 'CONFIG'
+  | 'NOT_FOUND'
+  | 'RATE_LIMITED'
+  | 'GENERATION_REFUSED'
+  | 'GENERATION_FAILED'
+  | 'FILESYSTEM'
+  | 'ABORTED';
+
+/**
+ * Base class of the errors thrown by the library; `code` and `exitCode`
+ * identify the kind of failure without parsing the message
+ */
+export class ComicError extends Error {
+  readonly code: ComicErrorCode;
+  readonly exitCode: number;
+
+  constructor(code: ComicErrorCode, exitCode: number, message: string, options?: { cause?: unknown }) {
+    super(message, options);
+    this.name = new.target.name;
+    this.code = code;
+    this.exitCode = exitCode;
+  }
+}
+
+/**
+ * A key is missing, or an option or subject is invalid
+ */
+export class ConfigError extends ComicError {
+  constructor(message: string, options?: { cause?: unknown }) {
+    super('CONFIG', EXIT_CODES.config, message, options);
+  }
+}
+
+/**
+ * GitHub answered 404 for the subject
+ */
+export class NotFoundError extends ComicError {
+  /** What was looked up, e.g. "octocat" or "vercel/next.js" */
+  readonly subject: string;
+
+  constructor(message: string, subject: string) {
+    super('NOT_FOUND', EXIT_CODES.notFound, message);
+    this.subject = subject;
+  }
+}
+
+/**
+ * GitHub's primary or secondary rate limit ran out and waiting was not possible
+ */
+export class RateLimitError extends ComicError {
+  /** When the limit resets, if GitHub said */
+  readonly resetAt?: Date;
+
+  constructor(message: string, resetAt?: Date) {
+    super('RATE_LIMITED', EXIT_CODES.rateLimited, message);
+    this.resetAt = resetAt;
+  }
+}
+
+/**
+ * The model answered without an image, e.g. a content filter refused the prompt
+ */
+export class GenerationRefusedError extends ComicError {
+  /** The model's finish reason, e.g. "content-filter" */
+  readonly finishReason?: string;
+
+  constructor(message: string, finishReason?: string) {
+    super('GENERATION_REFUSED', EXIT_CODES.generationRefused, message);
+    this.finishReason = finishReason;
+  }
+}
+
+/**
+ * Generating an image failed for another reason, e.g. a network error
+ */
+export class GenerationError extends ComicError {
+  constructor(message: string, options?: { cause?: unknown }) {
+    super('GENERATION_FAILED', EXIT_CODES.error, message, options);
+  }
+}
+
+/**
+ * Reading or writing a file failed
+ */
+export class FileSystemError extends ComicError {
+  /** The file or directory involved, when known */
+  readonly path?: string;
+
+  constructor(message: string, path?: string, options?: { cause?: unknown }) {
+    super('FILESYSTEM', EXIT_CODES.filesystem, message, options);
+    this.path = path;
+  }
+}
+
+/**
+ * The caller cancelled the run through its AbortSignal
+ */
+export class AbortedError extends ComicError {
+  constructor(message: string = 'Comic generation was cancelled', options?: { cause?: unknown }) {
+    super('ABORTED', EXIT_CODES.aborted, message, options);
+  }
+}
+
+/**
+ * Turns the reason an AbortSignal was aborted with into an AbortedError
+ *
+ * @param signal - An aborted signal
+ * @returns The reason itself if it already is an AbortedError, or one caused by it
+ */
+export function toAbortedError(signal: AbortSignal): AbortedError {
+  return signal.reason instanceof AbortedError ? signal.reason : new AbortedError(undefined, { cause: signal.reason });
+}
+
+/**
+ * Throws an AbortedError if the signal has been aborted
+ *
+ * @param signal - Signal passed by the caller, if any
+ * @throws AbortedError if the signal is aborted
+ */
+export function throwIfAborted(signal: AbortSignal | undefined): void {
+  if (signal?.aborted) {
+    throw toAbortedError(signal);
+  }
+}
+
+/**
+ * Whether an error came from a Node.js file system call (it carries `code` and `syscall`)
+ */
+export function isNodeFileSystemError(error: unknown): error is NodeJS.ErrnoException {
+  return error instanceof Error
+    && typeof (error as NodeJS.ErrnoException).code === 'string'
+    && typeof (error as NodeJS.ErrnoException).syscall === 'string';
+}
+
+/**
+ * Classifies any thrown value for reporting, e.g. as CLI JSON output
+ *
+ * @param error - Thrown value
+ * @returns Error code (`ERROR` for untyped errors), message and exit code from EXIT_CODES
+ */
+export function describeError(error: unknown): { code: ComicErrorCode | 'ERROR'; message: string; exitCode: number } {
+  const message = error instanceof Error ? error.message : String(error);
+  if (error instanceof ComicError) {
+    return { code: error.code, message, exitCode: error.exitCode };
+  }
+  if (isNodeFileSystemError(error)) {
+    return { code: 'FILESYSTEM', message, exitCode: EXIT_CODES.filesystem };
+  }
+  return { code: 'ERROR', message, exitCode: EXIT_CODES.error };
+}
@@ -0,0 +1,130 @@
+import { toAbortedError } from './errors.js';
+import type { ForgeName } from './forges.js';
+
+/**
+ * Progress events emitted while a comic is made, in the order a run emits them:
+ *
+ * - `fetch-start`: fetching data about the subject begins
+ * - `repos-fetched`: the subject's repositories (or repository story) arrived
+ * - `prompt-built`: the prompt is ready
+ * - `generation-start`: the script writer or image provider is called
+ * - `image-saved`: an image was written to disk
+ * - `retry`: a failed image or a GitHub rate limit is about to be retried
+ * - `error`: the run failed; the error is thrown right after
+ */
+export const COMIC_EVENT_TYPES = [
+  'fetch-start',
+  'repos-fetched',
+  'prompt-built',
+  'generation-start',
+  'image-saved',
+  'retry',
+  'error',
+] as const;
+
+export type ComicEventType = (typeof COMIC_EVENT_TYPES)[number];
+
+/**
+ * What is being generated: the script, the whole strip, one panel or one
+ * best-of-N candidate
+ */
+export type GenerationStage = 'script' | 'comic' | 'panel' | 'variant';
+
+/**
+ * A progress event without its timing
+ */
+export type ComicEventData =
+  | { type: 'fetch-start'; subject: string; forge: ForgeName }
+  | {
+      type: 'repos-fetched';
+      subject: string;
+      /** Repositories fetched, before selection and safety filters */
+      count: number;
+      /** Time since `fetch-start` */
+      durationMs: number;
+    }
+  | {
+      type: 'prompt-built';
+      prompt: string;
+      /** Repositories featured in the prompt */
+      repos: string[];
+    }
+  | {
+      type: 'generation-start';
+      stage: GenerationStage;
+      /** Script writer or image provider name */
+      provider: string;
+      model?: string;
+      /** Which panel or candidate, 1-based, and how many there are */
+      index?: number;
+      total?: number;
+    }
+  | {
+      type: 'image-saved';
+      stage: Exclude<GenerationStage, 'script'>;
+      filePath: string;
+      index?: number;
+      /** Time since the matching `generation-start`, or spent compositing a strip from its panels */
+      durationMs: number;
+    }
+  | {
+      type: 'retry';
+      /** Whether an image or a GitHub request is retried */
+      source: 'image' | 'github';
+      /** Retry number, 1-based (images only) */
+      attempt?: number;
+      /** Time until the retry */
+      delayMs: number;
+      /** Why, e.g. the error message or "rate limit reset" */
+      reason: string;
+      error?: unknown;
+    }
+  | { type: 'error'; error: unknown };
+
+/**
+ * A progress event, with the time since the run started
+ */
+export type ComicEvent = ComicEventData & { elapsedMs: number };
+
+/**
+ * Receives progress events; it is called synchronously, so it should return quickly
+ */
+export type ComicEventListener = (event: ComicEvent) => void;
+
+/**
+ * Creates the function a run reports its progress through. Every event is
+ * stamped with the time since the reporter was created; a reporter can be
+ * passed on as a listener, and restamps events from nested runs.
+ *
+ * @param listener - Listener passed by the caller, if any
+ * @returns Function that stamps and forwards events
+ */
+export function createEventReporter(listener: ComicEventListener | undefined): (event: ComicEventData) => void {
+  const startedAt = Date.now();
+  return (event) => listener?.({ ...event, elapsedMs: Date.now() - startedAt });
+}
+
+/**
+ * Waits for a number of milliseconds, or until the signal is aborted
+ *
+ * @param ms - Delay in milliseconds
+ * @param signal - Signal that cuts the wait short
+ * @throws AbortedError if the signal is or becomes aborted
+ */
+export function delay(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(toAbortedError(signal));
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(toAbortedError(signal!));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
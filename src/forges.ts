@@ -0,0 +1,310 @@
+import { ConfigError, NotFoundError } from './errors.js';
+import {
+  GITHUB_API_URL,
+  createGithubClient,
+  fetchGithubResource,
+  fetchRepositoryPages,
+  type GithubClient,
+  type GithubClientOptions,
+} from './github.js';
+import {
+  fetchRepositories,
+  fetchOrganizationRepositories,
+  fetchRepositoryStory,
+  summarizeReadme,
+  type FetchRepositoriesOptions,
+  type RepoInfo,
+  type RepositoryStory,
+} from './index.js';
+
+/**
+ * Code hosts the repositories can come from:
+ *
+ * - `github`: github.com
+ * - `github-enterprise`: GitHub Enterprise Server, at the API URL given
+ * - `gitlab`: gitlab.com or a self-managed GitLab
+ * - `gitea` / `forgejo`: Gitea or Forgejo, e.g. gitea.com or codeberg.org
+ */
+export const FORGE_NAMES = ['github', 'github-enterprise', 'gitlab', 'gitea', 'forgejo'] as const;
+
+export type ForgeName = (typeof FORGE_NAMES)[number];
+
+/** API root of each forge when none is given; GitHub Enterprise has none */
+export const FORGE_API_URLS: Record<ForgeName, string | undefined> = {
+  github: GITHUB_API_URL,
+  'github-enterprise': undefined,
+  gitlab: 'https://gitlab.com/api/v4',
+  gitea: 'https://gitea.com/api/v1',
+  forgejo: 'https://codeberg.org/api/v1',
+};
+
+/** Configuration key (and environment variable) holding each forge's token */
+export const FORGE_TOKEN_VARIABLES = {
+  github: 'GITHUB_TOKEN',
+  'github-enterprise': 'GITHUB_ENTERPRISE_TOKEN',
+  gitlab: 'GITLAB_TOKEN',
+  gitea: 'GITEA_TOKEN',
+  forgejo: 'FORGEJO_TOKEN',
+} as const satisfies Record<ForgeName, string>;
+
+/**
+ * Reads users', organizations' and repositories' data from one code host and
+ * normalizes it into the shapes the prompt builders use
+ */
+export interface Forge {
+  readonly name: ForgeName;
+  /** API root every request goes to */
+  readonly baseUrl: string;
+  /** HTTP client shared by every request, with its rate limit and ETag store */
+  readonly client: GithubClient;
+  /**
+   * Fetches a user's repositories
+   *
+   * @throws NotFoundError if the user does not exist
+   */
+  fetchUserRepositories(login: string, options?: FetchRepositoriesOptions): Promise<RepoInfo[]>;
+  /**
+   * Fetches an organization's (or GitLab group's) repositories
+   *
+   * @throws NotFoundError if the organization does not exist
+   */
+  fetchOrganizationRepositories(org: string, options?: FetchRepositoriesOptions): Promise<RepoInfo[]>;
+  /**
+   * Fetches a repository with its README summary, releases and top contributors
+   *
+   * @throws NotFoundError if the repository does not exist
+   */
+  fetchRepositoryStory(owner: string, repo: string): Promise<RepositoryStory>;
+}
+
+/**
+ * Options for createForge: the HTTP client options, with `baseUrl` as the forge's API root
+ */
+export type ForgeOptions = GithubClientOptions;
+
+/**
+ * Decodes a file payload in the `{ content, encoding }` shape GitHub, GitLab and Gitea share
+ */
+function decodeReadme(file: any): string | null {
+  return typeof file?.content === 'string'
+    ? summarizeReadme(Buffer.from(file.content, file.encoding === 'base64' ? 'base64' : 'utf8').toString('utf8'))
+    : null;
+}
+
+function githubForge(name: ForgeName, client: GithubClient): Forge {
+  return {
+    name,
+    baseUrl: client.baseUrl,
+    client,
+    fetchUserRepositories: (login, options) => fetchRepositories(login, client, options),
+    fetchOrganizationRepositories: (org, options) => fetchOrganizationRepositories(org, client, options),
+    fetchRepositoryStory: (owner, repo) => fetchRepositoryStory(owner, repo, client),
+  };
+}
+
+/**
+ * Maps a GitLab project to RepoInfo. Project lists carry no language, so
+ * only repository stories have one.
+ */
+function toGitlabRepoInfo(project: any): RepoInfo {
+  return {
+    name: project.path ?? project.name,
+    description: project.description || null,
+    stargazers_count: project.star_count,
+    forks_count: project.forks_count,
+    fork: Boolean(project.forked_from_project),
+    archived: project.archived,
+    topics: project.topics ?? project.tag_list,
+    pushed_at: project.last_activity_at,
+    updated_at: project.last_activity_at,
+    created_at: project.created_at,
+    open_issues_count: project.open_issues_count,
+    private: project.visibility ? project.visibility !== 'public' : undefined,
+    license: project.license?.nickname ?? project.license?.name ?? null,
+  };
+}
+
+function gitlabForge(client: GithubClient): Forge {
+  const listProjects = async (path: string, label: string, notFound: string, options: FetchRepositoriesOptions = {}) => {
+    const { maxPages = 10, perPage = 100 } = options;
+    const data = await fetchRepositoryPages(
+      client, `${path}?per_page=${perPage}&order_by=last_activity_at`, maxPages, label, notFound
+    );
+    if (data.length === 0) {
+      throw new Error(`${label} has no public projects`);
+    }
+    return data.map(toGitlabRepoInfo);
+  };
+
+  return {
+    name: 'gitlab',
+    baseUrl: client.baseUrl,
+    client,
+
+    fetchUserRepositories: (login, options) =>
+      listProjects(`/users/${encodeURIComponent(login)}/projects`, login, 'User not found', options),
+
+    fetchOrganizationRepositories: (group, options) =>
+      listProjects(`/groups/${encodeURIComponent(group)}/projects`, `group ${group}`, 'Group not found', options),
+
+    async fetchRepositoryStory(owner, repo) {
+      const fullName = `${owner}/${repo}`;
+      const base = `/projects/${encodeURIComponent(fullName)}`;
+      const project = await fetchGithubResource<any>(client, base, `project ${fullName}`, null);
+      if (!project) {
+        throw new NotFoundError(`Failed to fetch project ${fullName}: 404 Project not found`, fullName);
+      }
+
+      // readme_url points at the web UI: <project>/-/blob/<ref>/<path>
+      const readme = String(project.readme_url ?? '').match(/\/-\/blob\/([^/]+)\/(.+)$/);
+      const [file, languages, releases, contributors] = await Promise.all([
+        readme
+          ? fetchGithubResource<any>(
+            client,
+            `${base}/repository/files/${encodeURIComponent(decodeURIComponent(readme[2]))}?ref=${encodeURIComponent(readme[1])}`,
+            `README for ${fullName}`,
+            null
+          )
+          : null,
+        fetchGithubResource<Record<string, number>>(client, `${base}/languages`, `languages for ${fullName}`, {}),
+        fetchGithubResource<any[]>(client, `${base}/releases?per_page=5`, `releases for ${fullName}`, []),
+        fetchGithubResource<any[]>(
+          client, `${base}/repository/contributors?order_by=commits&sort=desc&per_page=5`, `contributors for ${fullName}`, []
+        ),
+      ]);
+      const language = Object.entries(languages ?? {}).sort((a, b) => b[1] - a[1])[0]?.[0] ?? null;
+
+      return {
+        owner,
+        repo: { ...toGitlabRepoInfo(project), language },
+        readmeSummary: decodeReadme(file),
+        releases: (Array.isArray(releases) ? releases : []).map((release) => ({
+          tag: release.tag_name,
+          name: release.name ?? null,
+          publishedAt: release.released_at ?? null,
+        })),
+        contributors: (Array.isArray(contributors) ? contributors : []).map((contributor) => ({
+          login: contributor.name,
+          contributions: contributor.commits,
+        })),
+      };
+    },
+  };
+}
+
+function toGiteaRepoInfo(repo: any): RepoInfo {
+  return {
+    name: repo.name,
+    description: repo.description || null,
+    stargazers_count: repo.stars_count,
+    language: repo.language || null,
+    forks_count: repo.forks_count,
+    fork: repo.fork,
+    archived: repo.archived,
+    topics: repo.topics,
+    pushed_at: repo.updated_at,
+    updated_at: repo.updated_at,
+    created_at: repo.created_at,
+    open_issues_count: repo.open_issues_count,
+    private: repo.private,
+    license: null,
+  };
+}
+
+function giteaForge(name: ForgeName, client: GithubClient): Forge {
+  const listRepos = async (path: string, label: string, notFound: string, options: FetchRepositoriesOptions = {}) => {
+    // Gitea caps pages at 50 repositories by default
+    const { maxPages = 10, perPage = 50 } = options;
+    const data = await fetchRepositoryPages(client, `${path}?limit=${perPage}`, maxPages, label, notFound);
+    if (data.length === 0) {
+      throw new Error(`${label} has no public repositories`);
+    }
+    return data.map(toGiteaRepoInfo);
+  };
+
+  return {
+    name,
+    baseUrl: client.baseUrl,
+    client,
+
+    fetchUserRepositories: (login, options) =>
+      listRepos(`/users/${encodeURIComponent(login)}/repos`, login, 'User not found', options),
+
+    fetchOrganizationRepositories: (org, options) =>
+      listRepos(`/orgs/${encodeURIComponent(org)}/repos`, `org ${org}`, 'Organization not found', options),
+
+    async fetchRepositoryStory(owner, repo) {
+      const fullName = `${owner}/${repo}`;
+      const base = `/repos/${encodeURIComponent(owner)}/${encodeURIComponent(repo)}`;
+      const repoData = await fetchGithubResource<any>(client, base, `repository ${fullName}`, null);
+      if (!repoData) {
+        throw new NotFoundError(`Failed to fetch repository ${fullName}: 404 Repository not found`, fullName);
+      }
+
+      const [readme, releases, commits] = await Promise.all([
+        fetchGithubResource<any>(client, `${base}/contents/README.md`, `README for ${fullName}`, null),
+        fetchGithubResource<any[]>(client, `${base}/releases?limit=5`, `releases for ${fullName}`, []),
+        fetchGithubResource<any[]>(client, `${base}/commits?limit=50&stat=false`, `commits for ${fullName}`, []),
+      ]);
+
+      // Gitea has no contributors endpoint, so count the authors of recent commits
+      const authors = new Map<string, number>();
+      for (const commit of Array.isArray(commits) ? commits : []) {
+        const login = commit?.author?.login || commit?.commit?.author?.name;
+        if (login) {
+          authors.set(login, (authors.get(login) ?? 0) + 1);
+        }
+      }
+
+      return {
+        owner,
+        repo: toGiteaRepoInfo(repoData),
+        readmeSummary: decodeReadme(readme),
+        releases: (Array.isArray(releases) ? releases : []).map((release) => ({
+          tag: release.tag_name,
+          name: release.name || null,
+          publishedAt: release.published_at ?? null,
+        })),
+        contributors: [...authors.entries()]
+          .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+          .slice(0, 5)
+          .map(([login, contributions]) => ({ login, contributions })),
+      };
+    },
+  };
+}
+
+/**
+ * Creates the adapter for a forge. Every forge is reached through the same
+ * HTTP client, so rate limits, retries and ETags work the same everywhere.
+ *
+ * @param name - Forge name
+ * @param options - Token, API root (`baseUrl`) and client options
+ * @returns Forge adapter
+ * @throws ConfigError if the forge is unknown, needs an API root that was not
+ *   given, or the API root is not an http(s) URL
+ */
+export function createForge(name: ForgeName, options: ForgeOptions = {}): Forge {
+  if (!FORGE_NAMES.includes(name)) {
+    throw new ConfigError(`Unknown forge: ${name}. Expected one of: ${FORGE_NAMES.join(', ')}`);
+  }
+  const baseUrl = (options.baseUrl ?? FORGE_API_URLS[name])?.replace(/\/+$/, '');
+  if (!baseUrl) {
+    throw new ConfigError(`The ${name} forge needs an API URL, e.g. https://github.example.com/api/v3`);
+  }
+  if (!/^https?:\/\/[^/]/i.test(baseUrl)) {
+    throw new ConfigError(`Invalid API URL for ${name}: ${baseUrl}`);
+  }
+
+  const client = createGithubClient({ ...options, baseUrl });
+  switch (name) {
+    case 'github':
+    case 'github-enterprise':
+      return githubForge(name, client);
+    case 'gitlab':
+      return gitlabForge(client);
+    case 'gitea':
+    case 'forgejo':
+      return giteaForge(name, client);
+  }
+}
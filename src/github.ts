@@ -0,0 +1,443 @@
+import fetch from 'node-fetch';
+import { createHash } from 'crypto';
+import { ConfigError, NotFoundError, RateLimitError, throwIfAborted } from './errors.js';
+import { delay } from './events.js';
+
+export const GITHUB_API_URL = 'https://api.github.com';
+
+/**
+ * What a client does when the rate limit is exhausted:
+ *
+ * - `wait`: sleep until the limit resets (up to `maxWait`), then continue
+ * - `fail`: throw immediately, without spending another request
+ */
+export const RATE_LIMIT_POLICIES = ['wait', 'fail'] as const;
+
+export type RateLimitPolicy = (typeof RATE_LIMIT_POLICIES)[number];
+
+/**
+ * Rate limit as last reported by the `X-RateLimit-*` response headers
+ */
+export interface RateLimitState {
+  limit?: number;
+  remaining?: number;
+  resetAt?: Date;
+}
+
+/**
+ * Response body remembered for conditional requests
+ */
+export interface CachedGithubResponse {
+  etag: string;
+  data: unknown;
+  link: string | null;
+}
+
+/**
+ * Options for createGithubClient
+ */
+export interface GithubClientOptions {
+  /** GitHub personal access token */
+  token?: string;
+  /** API root, e.g. a local mock server in tests (default: https://api.github.com) */
+  baseUrl?: string;
+  /** Behaviour when the rate limit is exhausted (default: wait) */
+  rateLimit?: RateLimitPolicy;
+  /** Longest time in ms to wait for a rate limit reset before failing anyway (default: 60000) */
+  maxWait?: number;
+  /** Retries for 5xx responses and network errors (default: 3) */
+  retries?: number;
+  /** Delay in ms before the first retry, doubled for each further retry (default: 1000) */
+  retryDelay?: number;
+  /** Store for ETags and bodies of earlier responses (default: shared per token and base URL) */
+  etags?: Map<string, CachedGithubResponse>;
+  /** Called before the client sleeps for a rate limit or a retry */
+  onWait?: (ms: number, reason: string) => void;
+  /** Called before every HTTP request, including retries and revalidations */
+  onRequest?: (url: string) => void;
+  /** Sleep implementation, replaceable in tests */
+  sleep?: (ms: number) => Promise<void>;
+  /** Cancels requests and waits in progress, and every later request */
+  signal?: AbortSignal;
+}
+
+/**
+ * Successful (or not modified) GitHub API response
+ */
+export interface GithubResponse<T> {
+  status: number;
+  data: T;
+  /** Relations from the Link header, e.g. `next` */
+  links: Record<string, string>;
+  /** True when GitHub answered 304 and the body came from the ETag store */
+  notModified: boolean;
+}
+
+/**
+ * GitHub API client shared by every fetch in this package
+ */
+export interface GithubClient {
+  readonly baseUrl: string;
+  /** Rate limit reported by the most recent response */
+  readonly rateLimit: RateLimitState;
+  /**
+   * Sends a GET request
+   *
+   * @param pathOrUrl - Path below the base URL (`/users/octocat`) or an absolute URL on the same host
+   * @param label - Resource description used in error messages, e.g. "repos for octocat"
+   * @returns Response, or null for 404
+   * @throws Error for other non-OK responses, exhausted rate limits and failed retries
+   */
+  request<T>(pathOrUrl: string, label: string): Promise<GithubResponse<T> | null>;
+}
+
+/** Status codes worth retrying; GitHub returns these for transient failures */
+const RETRYABLE_STATUSES = [500, 502, 503, 504];
+
+/** GitHub asks clients to wait at least a minute after a secondary rate limit without Retry-After */
+const SECONDARY_LIMIT_DEFAULT_WAIT = 60_000;
+
+interface SharedClientState {
+  etags: Map<string, CachedGithubResponse>;
+  rateLimit: RateLimitState;
+}
+
+/** Conditional-request stores and rate limits shared by clients for the same token, least recently used first */
+const sharedState = new Map<string, SharedClientState>();
+
+/** Oldest ETag entries are dropped beyond this many per store */
+const MAX_ETAG_ENTRIES = 500;
+
+/** Least recently used stores are dropped beyond this many tokens, e.g. when a server passes client tokens through */
+export const MAX_SHARED_IDENTITIES = 50;
+
+/**
+ * Builds the default request headers for the GitHub API
+ *
+ * @param token - Optional GitHub personal access token
+ * @returns Request headers
+ */
+export function githubHeaders(token?: string): Record<string, string> {
+  const headers: Record<string, string> = {
+    Accept: 'application/vnd.github+json',
+    'User-Agent': 'github-comics-cli'
+  };
+
+  if (token) {
+    headers.Authorization = `Bearer ${token}`;
+  }
+
+  return headers;
+}
+
+/**
+ * Parses a GitHub `Link` header into a map of rel → URL
+ *
+ * @param header - Raw Link header value
+ * @returns Map of relation names to URLs
+ */
+export function parseLinkHeader(header: string | null | undefined): Record<string, string> {
+  const links: Record<string, string> = {};
+  if (!header) {
+    return links;
+  }
+
+  for (const part of header.split(',')) {
+    const match = part.match(/<([^>]+)>\s*;\s*rel="([^"]+)"/);
+    if (match) {
+      links[match[2]] = match[1];
+    }
+  }
+  return links;
+}
+
+/**
+ * Reads the rate limit from response headers
+ *
+ * @param headers - Response headers
+ * @returns Rate limit, or null if the response carries none
+ */
+export function parseRateLimit(headers: { get(name: string): string | null } | undefined): RateLimitState | null {
+  const remaining = headers?.get('x-ratelimit-remaining');
+  if (remaining == null) {
+    return null;
+  }
+  const limit = headers?.get('x-ratelimit-limit');
+  const reset = headers?.get('x-ratelimit-reset');
+  return {
+    limit: limit != null ? Number(limit) : undefined,
+    remaining: Number(remaining),
+    resetAt: reset != null ? new Date(Number(reset) * 1000) : undefined,
+  };
+}
+
+function formatWait(ms: number): string {
+  return ms < 60_000 ? `${Math.ceil(ms / 1000)}s` : `${Math.ceil(ms / 60_000)}m`;
+}
+
+async function readErrorMessage(res: { text?: () => Promise<string> }): Promise<string> {
+  try {
+    const body = typeof res.text === 'function' ? await res.text() : '';
+    return String(JSON.parse(body)?.message ?? '');
+  } catch (error) {
+    return '';
+  }
+}
+
+/**
+ * Identifies a token without revealing it, e.g. to keep data fetched with
+ * different tokens apart in caches
+ *
+ * @param token - Access token, if any
+ * @returns SHA-256 of the token, or `anonymous` without one
+ */
+export function hashToken(token: string | undefined): string {
+  return token ? createHash('sha256').update(token).digest('hex') : 'anonymous';
+}
+
+/**
+ * Creates a GitHub API client that tracks the rate limit, waits or fails fast
+ * when it runs out, retries transient failures with exponential backoff and
+ * revalidates earlier responses with `If-None-Match`
+ *
+ * @param options - Token, base URL and retry policy
+ * @returns GitHub client
+ */
+export function createGithubClient(options: GithubClientOptions = {}): GithubClient {
+  const {
+    token,
+    baseUrl = GITHUB_API_URL,
+    rateLimit: policy = 'wait',
+    maxWait = 60_000,
+    retries = 3,
+    retryDelay = 1000,
+    onWait,
+    onRequest,
+    signal,
+    sleep = (ms: number) => delay(ms, signal),
+  } = options;
+
+  if (!RATE_LIMIT_POLICIES.includes(policy)) {
+    throw new ConfigError(`Unknown rate limit policy: ${policy}. Expected one of: ${RATE_LIMIT_POLICIES.join(', ')}`);
+  }
+
+  // Never share ETag bodies between tokens, which may see different data
+  const identity = `${baseUrl}|${hashToken(token)}`;
+  const state: SharedClientState = sharedState.get(identity) ?? { etags: new Map(), rateLimit: {} };
+  sharedState.delete(identity);
+  sharedState.set(identity, state);
+  if (sharedState.size > MAX_SHARED_IDENTITIES) {
+    sharedState.delete(sharedState.keys().next().value!);
+  }
+  const etags = options.etags ?? state.etags;
+  const headers = githubHeaders(token);
+
+  const wait = async (ms: number, reason: string) => {
+    onWait?.(ms, reason);
+    await sleep(ms);
+    throwIfAborted(signal);
+  };
+
+  const primaryLimitError = (label: string, status: number) => {
+    const reset = state.rateLimit.resetAt;
+    const resetText = reset ? ` (resets at ${reset.toISOString()})` : '';
+    return new RateLimitError(`Failed to fetch ${label}: ${status} API rate limit exceeded${resetText}. Use GITHUB_TOKEN for higher limits.`, reset);
+  };
+
+  /**
+   * Waits for an exhausted rate limit to reset, or throws under the fail policy
+   * or when the reset is too far away
+   */
+  const awaitReset = async (label: string, status: number) => {
+    const reset = state.rateLimit.resetAt;
+    const ms = reset ? reset.getTime() - Date.now() + 1000 : undefined;
+    if (policy === 'fail' || ms === undefined || ms > maxWait) {
+      throw primaryLimitError(label, status);
+    }
+    await wait(Math.max(ms, 0), 'rate limit reset');
+    state.rateLimit = { ...state.rateLimit, remaining: undefined };
+  };
+
+  const resolveUrl = (pathOrUrl: string) => {
+    if (pathOrUrl.startsWith('/')) {
+      return `${baseUrl}${pathOrUrl}`;
+    }
+    // Absolute URLs come from Link headers; only follow them on the API host
+    if (!pathOrUrl.startsWith(`${baseUrl}/`)) {
+      throw new Error(`Refusing to request a URL outside ${baseUrl}: ${pathOrUrl}`);
+    }
+    return pathOrUrl;
+  };
+
+  return {
+    baseUrl,
+    get rateLimit() {
+      return { ...state.rateLimit };
+    },
+
+    async request<T>(pathOrUrl: string, label: string): Promise<GithubResponse<T> | null> {
+      const url = resolveUrl(pathOrUrl);
+
+      for (let attempt = 0; ; attempt++) {
+        throwIfAborted(signal);
+        const { remaining, resetAt } = state.rateLimit;
+        if (remaining === 0 && resetAt && resetAt.getTime() > Date.now()) {
+          await awaitReset(label, 403);
+        }
+
+        const cached = etags.get(url);
+        const requestHeaders = cached ? { ...headers, 'If-None-Match': cached.etag } : headers;
+
+        let res;
+        try {
+          onRequest?.(url);
+          res = await fetch(url, { headers: requestHeaders, signal });
+        } catch (error) {
+          throwIfAborted(signal);
+          if (attempt < retries) {
+            await wait(retryDelay * 2 ** attempt, 'network error');
+            continue;
+          }
+          throw new Error(`Failed to fetch ${label}: ${error instanceof Error ? error.message : String(error)}`);
+        }
+
+        const rateLimit = parseRateLimit(res.headers);
+        if (rateLimit) {
+          state.rateLimit = rateLimit;
+        }
+
+        if (res.status === 304 && cached) {
+          return { status: 304, data: cached.data as T, links: parseLinkHeader(cached.link), notModified: true };
+        }
+
+        if (res.status === 404) {
+          return null;
+        }
+
+        if (res.ok) {
+          const data = (await res.json()) as T;
+          const link = res.headers?.get('link') ?? null;
+          const etag = res.headers?.get('etag');
+          if (etag) {
+            etags.delete(url);
+            etags.set(url, { etag, data, link });
+            if (etags.size > MAX_ETAG_ENTRIES) {
+              etags.delete(etags.keys().next().value!);
+            }
+          }
+          return { status: res.status ?? 200, data, links: parseLinkHeader(link), notModified: false };
+        }
+
+        if (res.status === 403 || res.status === 429) {
+          const retryAfter = res.headers?.get('retry-after');
+          const message = await readErrorMessage(res);
+
+          // Secondary limits guard against bursts and are not reflected in X-RateLimit-Remaining
+          if (retryAfter != null || /secondary rate limit/i.test(message)) {
+            const ms = retryAfter != null ? Number(retryAfter) * 1000 : SECONDARY_LIMIT_DEFAULT_WAIT;
+            if (policy === 'fail' || ms > maxWait || attempt >= retries) {
+              throw new RateLimitError(
+                `Failed to fetch ${label}: ${res.status} Secondary rate limit exceeded; retry after ${formatWait(ms)}.`,
+                new Date(Date.now() + ms)
+              );
+            }
+            await wait(ms, 'secondary rate limit');
+            continue;
+          }
+
+          if (rateLimit?.remaining === 0) {
+            if (attempt >= retries) {
+              throw primaryLimitError(label, res.status);
+            }
+            await awaitReset(label, res.status);
+            continue;
+          }
+
+          if (res.status === 403 && !rateLimit) {
+            throw new RateLimitError(`Failed to fetch ${label}: 403 API rate limit exceeded. Use GITHUB_TOKEN for higher limits.`);
+          }
+        }
+
+        if (RETRYABLE_STATUSES.includes(res.status) && attempt < retries) {
+          await wait(retryDelay * 2 ** attempt, `${res.status} response`);
+          continue;
+        }
+
+        throw new Error(`Failed to fetch ${label}: ${res.status} ${res.statusText}`);
+      }
+    },
+  };
+}
+
+/**
+ * Returns the client to use for a token or an existing client
+ *
+ * @param tokenOrClient - GitHub token, client, or nothing for anonymous access
+ * @returns GitHub client
+ */
+export function resolveGithubClient(tokenOrClient?: string | GithubClient): GithubClient {
+  return typeof tokenOrClient === 'object' ? tokenOrClient : createGithubClient({ token: tokenOrClient });
+}
+
+/**
+ * Fetches a single JSON resource from the GitHub API, returning `fallback` on 404
+ *
+ * @param client - GitHub client
+ * @param path - Resource path below the API root
+ * @param label - Resource description used in error messages
+ * @param fallback - Value returned when the resource does not exist
+ * @returns Parsed JSON body or the fallback
+ * @throws Error for any other non-OK response
+ */
+export async function fetchGithubResource<T>(
+  client: GithubClient,
+  path: string,
+  label: string,
+  fallback: T
+): Promise<T> {
+  const res = await client.request<T>(path, label);
+  return res ? res.data : fallback;
+}
+
+/**
+ * Fetches every page of a repository listing endpoint, following `next` links
+ * that stay on the API host
+ *
+ * @param client - GitHub client
+ * @param path - First page path
+ * @param maxPages - Maximum number of pages to follow
+ * @param label - Subject description used in error messages, e.g. "octocat"
+ * @param notFound - Error detail used for 404 responses
+ * @returns Raw repository payloads from every page
+ * @throws NotFoundError if a page answers 404
+ */
+export async function fetchRepositoryPages(
+  client: GithubClient,
+  path: string,
+  maxPages: number,
+  label: string,
+  notFound: string
+): Promise<any[]> {
+  const data: any[] = [];
+  let nextUrl: string | undefined = path;
+
+  for (let page = 0; nextUrl && page < maxPages; page++) {
+    const res = await client.request<any[]>(nextUrl, `repos for ${label}`);
+
+    if (!res) {
+      throw new NotFoundError(`Failed to fetch repos for ${label}: 404 ${notFound}`, label);
+    }
+
+    if (!Array.isArray(res.data)) {
+      throw new Error('Invalid response from GitHub API');
+    }
+
+    data.push(...res.data);
+
+    // Only follow next links that stay on the GitHub API host
+    const next = res.links.next;
+    nextUrl = next?.startsWith(`${client.baseUrl}/`) ? next : undefined;
+  }
+
+  return data;
+}
@@ -0,0 +1,241 @@
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { randomBytes } from 'crypto';
+import type { RepoInfo } from './index.js';
+import type { ComicScript } from './script.js';
+import { encodeFileName } from './text.js';
+
+/**
+ * What is remembered about one repository, to tell what changed by the next episode
+ */
+export interface RepoSnapshot {
+  name: string;
+  stars: number;
+  forks?: number;
+  language?: string | null;
+}
+
+/**
+ * One comic in a subject's series
+ */
+export interface ComicEpisode {
+  /** Episode number, starting at 1 */
+  episode: number;
+  /** Subject as shown to users, e.g. "octocat" or "org:github" */
+  subject: string;
+  createdAt: string;
+  theme: string;
+  panels: number;
+  prompt: string;
+  script?: ComicScript;
+  /** Repositories featured in the prompt */
+  repos: string[];
+  /** Every repository considered, after private ones were excluded */
+  snapshot: RepoSnapshot[];
+  /** Files written for the comic, primary file first */
+  files: string[];
+}
+
+/**
+ * Differences between the snapshot of the last episode and the current repositories
+ */
+export interface RepoChanges {
+  newRepos: RepoSnapshot[];
+  removedRepos: string[];
+  /** Repositories that gained stars, most gained first */
+  starGrowth: { name: string; from: number; to: number }[];
+  /** Primary languages that no earlier repository used */
+  newLanguages: string[];
+}
+
+/**
+ * Options for createComicHistory
+ */
+export interface ComicHistoryOptions {
+  /** History directory (default: see defaultHistoryDir) */
+  dir?: string;
+}
+
+/**
+ * Local store of every comic generated per subject
+ */
+export interface ComicHistory {
+  readonly dir: string;
+  /** Episodes of a subject, oldest first */
+  list(subject: string): Promise<ComicEpisode[]>;
+  /** The most recent episode of a subject, if any */
+  latest(subject: string): Promise<ComicEpisode | undefined>;
+  /**
+   * Stores a new episode, numbered after the latest one
+   *
+   * @returns The stored episode
+   */
+  record(episode: Omit<ComicEpisode, 'episode' | 'createdAt'>): Promise<ComicEpisode>;
+}
+
+/**
+ * Default history directory: `$GITHUB_COMICS_HISTORY_DIR`, or
+ * `github-comics/history` under `$XDG_DATA_HOME` (default: `~/.local/share`)
+ */
+export function defaultHistoryDir(): string {
+  return process.env.GITHUB_COMICS_HISTORY_DIR
+    ?? path.join(process.env.XDG_DATA_HOME || path.join(os.homedir(), '.local', 'share'), 'github-comics', 'history');
+}
+
+/**
+ * Reduces repositories to the fields compared between episodes
+ *
+ * @param repos - Repositories as fetched
+ * @returns Snapshot sorted by name
+ */
+export function snapshotRepositories(repos: RepoInfo[]): RepoSnapshot[] {
+  return repos
+    .map((repo) => ({
+      name: repo.name,
+      stars: repo.stargazers_count ?? 0,
+      forks: repo.forks_count,
+      language: repo.language ?? null,
+    }))
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * Compares the repositories of the last episode with the current ones
+ *
+ * @param previous - Snapshot stored with the last episode
+ * @param current - Snapshot of the repositories now
+ * @returns New and removed repositories, star growth and new languages
+ */
+export function diffSnapshots(previous: RepoSnapshot[], current: RepoSnapshot[]): RepoChanges {
+  const before = new Map(previous.map((repo) => [repo.name, repo]));
+  const after = new Set(current.map((repo) => repo.name));
+  const knownLanguages = new Set(previous.map((repo) => repo.language?.toLowerCase()).filter(Boolean));
+
+  const newRepos = current.filter((repo) => !before.has(repo.name));
+  const newLanguages: string[] = [];
+  for (const { language } of newRepos) {
+    if (language && !knownLanguages.has(language.toLowerCase())) {
+      knownLanguages.add(language.toLowerCase());
+      newLanguages.push(language);
+    }
+  }
+
+  return {
+    newRepos,
+    removedRepos: previous.filter((repo) => !after.has(repo.name)).map((repo) => repo.name),
+    starGrowth: current
+      .filter((repo) => before.has(repo.name) && repo.stars > before.get(repo.name)!.stars)
+      .map((repo) => ({ name: repo.name, from: before.get(repo.name)!.stars, to: repo.stars }))
+      .sort((a, b) => (b.to - b.from) - (a.to - a.from) || a.name.localeCompare(b.name)),
+    newLanguages,
+  };
+}
+
+/**
+ * Writes the "previously on" section of a sequel prompt
+ *
+ * @param previous - Last episode
+ * @param changes - What changed since it, from diffSnapshots
+ * @returns Recap text for the prompt builders
+ */
+export function createRecap(previous: ComicEpisode, changes: RepoChanges): string {
+  const lines = [
+    `This is episode ${previous.episode + 1} of an ongoing comic series.`,
+    `Previously, in episode ${previous.episode} (${previous.createdAt.slice(0, 10)}): the strip featured ${previous.repos.join(', ') || 'their projects'}.`,
+  ];
+
+  const changed = [
+    changes.newRepos.length > 0
+      ? `- New repositories: ${changes.newRepos.slice(0, 5).map((repo) => `${repo.name}${repo.language ? ` [${repo.language}]` : ''}`).join(', ')}`
+      : null,
+    changes.starGrowth.length > 0
+      ? `- Star growth: ${changes.starGrowth.slice(0, 5).map((repo) => `${repo.name} ⭐ ${repo.from} → ${repo.to}`).join(', ')}`
+      : null,
+    changes.newLanguages.length > 0 ? `- New languages: ${changes.newLanguages.join(', ')}` : null,
+    changes.removedRepos.length > 0 ? `- Gone since last time: ${changes.removedRepos.slice(0, 5).join(', ')}` : null,
+  ].filter(Boolean);
+
+  if (changed.length > 0) {
+    lines.push('What changed since then:', ...(changed as string[]));
+    lines.push('Call back to the previous episode and build this one around these changes.');
+  } else {
+    lines.push('Nothing has changed since then: no new repositories and no new stars. Call back to the previous episode and make the quiet spell the joke.');
+  }
+  return lines.join('\n');
+}
+
+/**
+ * Directory name used for a subject inside the history directory. Subjects
+ * are case-insensitive, and characters such as `:` are hex-encoded so that
+ * `org:acme` and the user `org-acme` never share a directory.
+ */
+function subjectDirectoryName(subject: string): string {
+  return encodeFileName(subject.toLowerCase());
+}
+
+function episodeFileName(episode: number): string {
+  return `episode-${String(episode).padStart(4, '0')}.json`;
+}
+
+/**
+ * Creates a history store. Each episode is a JSON file under
+ * `<dir>/<subject>/`, so the store needs no index and survives partial writes.
+ *
+ * @param options - History directory
+ * @returns History store
+ */
+export function createComicHistory(options: ComicHistoryOptions = {}): ComicHistory {
+  const dir = path.resolve(options.dir ?? defaultHistoryDir());
+
+  async function list(subject: string): Promise<ComicEpisode[]> {
+    const subjectDir = path.join(dir, subjectDirectoryName(subject));
+    let names: string[];
+    try {
+      names = await fs.readdir(subjectDir);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+
+    const episodes: ComicEpisode[] = [];
+    for (const name of names.filter((name) => /^episode-\d+\.json$/.test(name)).sort()) {
+      try {
+        episodes.push(JSON.parse(await fs.readFile(path.join(subjectDir, name), 'utf8')));
+      } catch (error) {
+        // A corrupt episode is skipped rather than blocking the series
+      }
+    }
+    return episodes
+      .filter((episode) => episode.subject?.toLowerCase() === subject.toLowerCase())
+      .sort((a, b) => a.episode - b.episode);
+  }
+
+  return {
+    dir,
+    list,
+
+    async latest(subject) {
+      return (await list(subject)).at(-1);
+    },
+
+    async record(entry) {
+      const previous = (await list(entry.subject)).at(-1);
+      const episode: ComicEpisode = {
+        ...entry,
+        episode: (previous?.episode ?? 0) + 1,
+        createdAt: new Date().toISOString(),
+      };
+      const subjectDir = path.join(dir, subjectDirectoryName(entry.subject));
+      await fs.mkdir(subjectDir, { recursive: true });
+      // Write under a temporary name first so readers never see half a file
+      const filePath = path.join(subjectDir, episodeFileName(episode.episode));
+      const temp = `${filePath}.${randomBytes(6).toString('hex')}.tmp`;
+      await fs.writeFile(temp, `${JSON.stringify(episode, null, 2)}\n`);
+      await fs.rename(temp, filePath);
+      return episode;
+    },
+  };
+}
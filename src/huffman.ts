@@ -0,0 +1,82 @@
+/**
+ * Computes length-limited Huffman code lengths for a symbol histogram.
+ * Symbols with a zero count get length 0; a lone symbol gets length 1.
+ *
+ * @param counts - Occurrences per symbol
+ * @param maxLength - Longest allowed code length
+ * @returns Code length per symbol
+ */
+export function huffmanCodeLengths(counts: ArrayLike<number>, maxLength: number): number[] {
+  const lengths = new Array<number>(counts.length).fill(0);
+  const used: number[] = [];
+  for (let symbol = 0; symbol < counts.length; symbol++) {
+    if (counts[symbol] > 0) {
+      used.push(symbol);
+    }
+  }
+
+  if (used.length === 0) {
+    return lengths;
+  }
+  if (used.length === 1) {
+    lengths[used[0]] = 1;
+    return lengths;
+  }
+
+  interface Node {
+    weight: number;
+    symbol?: number;
+    children?: [Node, Node];
+  }
+
+  // Flatten the histogram until the tree fits within maxLength
+  for (let minCount = 1; ; minCount *= 2) {
+    let nodes: Node[] = used.map((symbol) => ({ weight: Math.max(counts[symbol], minCount), symbol }));
+    while (nodes.length > 1) {
+      nodes.sort((a, b) => a.weight - b.weight);
+      const [a, b] = nodes;
+      nodes = [{ weight: a.weight + b.weight, children: [a, b] }, ...nodes.slice(2)];
+    }
+
+    let longest = 0;
+    const stack: Array<[Node, number]> = [[nodes[0], 0]];
+    while (stack.length > 0) {
+      const [node, depth] = stack.pop()!;
+      if (node.children) {
+        stack.push([node.children[0], depth + 1], [node.children[1], depth + 1]);
+      } else {
+        lengths[node.symbol!] = depth;
+        longest = Math.max(longest, depth);
+      }
+    }
+
+    if (longest <= maxLength) {
+      return lengths;
+    }
+  }
+}
+
+/**
+ * Assigns canonical codes (shorter codes first, ties by symbol) to code lengths
+ *
+ * @param lengths - Code length per symbol
+ * @returns Code per symbol, most significant bit first
+ */
+export function canonicalCodes(lengths: number[]): number[] {
+  const maxLength = Math.max(0, ...lengths);
+  const countPerLength = new Array<number>(maxLength + 1).fill(0);
+  for (const length of lengths) {
+    if (length > 0) {
+      countPerLength[length]++;
+    }
+  }
+
+  const nextCode = new Array<number>(maxLength + 1).fill(0);
+  let code = 0;
+  for (let length = 1; length <= maxLength; length++) {
+    code = (code + countPerLength[length - 1]) << 1;
+    nextCode[length] = code;
+  }
+
+  return lengths.map((length) => (length > 0 ? nextCode[length]++ : 0));
+}
@@ -1,17 +1,127 @@
 import { z } from 'zod';
-import fetch from 'node-fetch';
-import { generateText } from 'ai';
-import { google } from '@ai-sdk/google';
 import * as fs from 'fs/promises';
 import * as path from 'path';
+import { createGeminiProvider, extensionForMediaType, type GeneratedImage, type ImageProvider } from './providers.js';
+
+import { selectRepositories, type RepoSelectionOptions } from './selection.js';
+import {
+  fetchGithubResource,
+  hashToken,
+  fetchRepositoryPages,
+  resolveGithubClient,
+  type GithubClient,
+  type GithubClientOptions,
+} from './github.js';
+import {
+  enrichProfile,
+  describeEnrichedRepo,
+  describeUserProfile,
+  type EnrichedProfile,
+  type ProfileFieldGroup,
+} from './profile.js';
+import { composePrompt, resolveComicStyle, type ComicStyleOptions } from './templates.js';
+import {
+  createScriptPrompt,
+  scriptToImagePrompt,
+  panelToImagePrompt,
+  type ComicScript,
+  type ScriptWriter,
+} from './script.js';
+import { compositeComic, type CompositeOptions } from './compositor.js';
+import { isPng } from './png.js';
+import { cacheImageProvider, hashValue, type ComicCache } from './cache.js';
+import {
+  ComicError,
+  ConfigError,
+  FileSystemError,
+  GenerationError,
+  NotFoundError,
+  isNodeFileSystemError,
+  throwIfAborted,
+  toAbortedError,
+} from './errors.js';
+import { createEventReporter, type ComicEventData, type ComicEventListener } from './events.js';
+import {
+  renderFilename,
+  writeComicOutputs,
+  DEFAULT_FILENAME_TEMPLATE,
+  type ComicDetails,
+  type ComicMetadata,
+  type ComicOutputInfo,
+  type OutputArtifact,
+  type OutputOptions,
+  type VariantSummary,
+} from './output.js';
+import { comicSettingsSchema } from './config.js';
+import { createSafetyFilter, type Redaction, type SafetyFilter, type SafetyOptions } from './safety.js';
+import {
+  aggregateActivity,
+  fetchUserEvents,
+  formatMonth,
+  type ActivitySummary,
+  type ActivityWindow,
+} from './activity.js';
+import { readLocalRepository, type LanguageShare } from './local.js';
+import { createForge, FORGE_TOKEN_VARIABLES, type Forge, type ForgeName } from './forges.js';
+import { checkImage, retryImageProvider, MAX_VARIANTS, type RetryImageOptions } from './quality.js';
+import {
+  aggregateTeam,
+  formatTeamNames,
+  MIN_TEAM_SIZE,
+  MAX_TEAM_SIZE,
+  type TeamMember,
+  type TeamMode,
+  type TeamSummary,
+} from './team.js';
+import {
+  createRecap,
+  diffSnapshots,
+  snapshotRepositories,
+  type ComicEpisode,
+  type ComicHistory,
+  type RepoChanges,
+  type RepoSnapshot,
+} from './history.js';
+
+export * from './errors.js';
+export * from './providers.js';
+export * from './github.js';
+export * from './selection.js';
+export * from './profile.js';
+export * from './templates.js';
+export * from './script.js';
+export * from './compositor.js';
+export * from './png.js';
+export * from './jpeg.js';
+export * from './webp.js';
+export * from './output.js';
+export * from './batch.js';
+export * from './cache.js';
+export * from './badge.js';
+export * from './server.js';
+export * from './action.js';
+export * from './config.js';
+export * from './safety.js';
+export * from './history.js';
+export * from './activity.js';
+export * from './local.js';
+export * from './forges.js';
+export * from './team.js';
+export * from './quality.js';
+export * from './events.js';
 
 /**
- * Configuration schema for the GitHub Comics tool
+ * Configuration schema for the GitHub Comics tool: the credentials plus every
+ * optional setting a configuration file may hold (see comicSettingsSchema)
  */
 export const configSchema = z.object({
   AI_GATEWAY_API_KEY: z.string().min(1, 'AI_GATEWAY_API_KEY is required'),
   GITHUB_TOKEN: z.string().optional(),
-});
+  GITHUB_ENTERPRISE_TOKEN: z.string().optional(),
+  GITLAB_TOKEN: z.string().optional(),
+  GITEA_TOKEN: z.string().optional(),
+  FORGEJO_TOKEN: z.string().optional(),
+}).merge(comicSettingsSchema.omit({ token: true, apiKey: true }).strip());
 
 export type Config = z.infer<typeof configSchema>;
 
@@ -23,6 +133,81 @@ export interface RepoInfo {
   description: string | null;
   stargazers_count?: number;
   language?: string | null;
+  forks_count?: number;
+  fork?: boolean;
+  archived?: boolean;
+  topics?: string[];
+  pushed_at?: string | null;
+  updated_at?: string | null;
+  created_at?: string | null;
+  open_issues_count?: number;
+  /** SPDX identifier (or name) of the repository license */
+  license?: string | null;
+  /** Only visible with a token that has access; excluded from prompts unless allowed */
+  private?: boolean;
+}
+
+/**
+ * What a comic is about: a user, an organization, a single repository, a
+ * git working copy on disk or several users in one strip. Local subjects are
+ * never parsed from strings, so subjects from batch files or HTTP requests
+ * cannot read the local disk.
+ */
+export type ComicSubject =
+  | { type: 'user'; login: string }
+  | { type: 'org'; login: string }
+  | { type: 'repo'; owner: string; repo: string }
+  | { type: 'local'; path: string }
+  | { type: 'team'; mode: TeamMode; logins: string[] };
+
+/**
+ * Release summary used in repository stories
+ */
+export interface ReleaseInfo {
+  tag: string;
+  name: string | null;
+  publishedAt: string | null;
+}
+
+/**
+ * Contributor summary used in repository stories
+ */
+export interface ContributorInfo {
+  login: string;
+  contributions: number;
+}
+
+/**
+ * Everything needed to tell the story of a single repository
+ */
+export interface RepositoryStory {
+  owner: string;
+  repo: RepoInfo;
+  readmeSummary: string | null;
+  releases: ReleaseInfo[];
+  contributors: ContributorInfo[];
+  /** Latest commit messages, newest first (local repositories) */
+  recentCommits?: string[];
+  /** Total number of commits (local repositories) */
+  commitCount?: number;
+  /** Languages by number of files (local repositories) */
+  languages?: LanguageShare[];
+  /** Read from a git working copy rather than the GitHub API */
+  local?: boolean;
+}
+
+/**
+ * Optional inputs shared by the prompt builders
+ */
+export interface PromptOptions {
+  /** Enriched profile data from enrichProfile */
+  profile?: EnrichedProfile;
+  /** Reference time for relative dates (default: now) */
+  now?: Date;
+  /** Theme, panel count, tone, art style, language or a custom template */
+  style?: ComicStyleOptions;
+  /** "Previously on" section for sequels, from createRecap */
+  recap?: string;
 }
 
 /**
@@ -31,64 +216,295 @@ export interface RepoInfo {
 export interface ImageResult {
   filePath: string;
   fileName: string;
+  /** Individual panel images, when panels were generated separately */
+  panels?: ImageResult[];
+  /** Script the image was generated from, for two-stage generation */
+  script?: ComicScript;
+  /** Every file written for the comic, primary file first */
+  artifacts?: OutputArtifact[];
+  /** What was recorded about the generation (also written to the sidecar, if enabled) */
+  metadata?: ComicMetadata;
+  /** Episode number in the subject's history, when a history store was given */
+  episode?: number;
+  /** Every candidate of a best-of-N generation, in the order they were generated */
+  variants?: ImageVariant[];
 }
 
 /**
- * Fetches repositories for a GitHub user
+ * One candidate of a best-of-N generation
+ */
+export interface ImageVariant {
+  filePath: string;
+  fileName: string;
+  /** Score from checkImage; the best candidate becomes the comic */
+  score: number;
+  /** Whether this candidate is the comic in `ImageResult.filePath` */
+  primary: boolean;
+}
+
+/**
+ * Options controlling how many pages of repositories are fetched
+ */
+export interface FetchRepositoriesOptions {
+  /** Maximum number of pages to follow via the Link header (default: 10) */
+  maxPages?: number;
+  /** Repositories per page, capped at 100 by GitHub (default: 100) */
+  perPage?: number;
+}
+
+// GitHub logins (users and organizations) share the same format rules
+const LOGIN_REGEX = /^[a-z\d](?:[a-z\d]|-(?=[a-z\d])){0,38}$/i;
+const REPO_NAME_REGEX = /^[a-z\d._-]{1,100}$/i;
+
+/**
+ * Maps a raw GitHub repository payload to RepoInfo
+ */
+function toRepoInfo(repo: any): RepoInfo {
+  return {
+    name: repo.name,
+    description: repo.description,
+    stargazers_count: repo.stargazers_count,
+    language: repo.language,
+    forks_count: repo.forks_count,
+    fork: repo.fork,
+    archived: repo.archived,
+    topics: repo.topics,
+    pushed_at: repo.pushed_at,
+    updated_at: repo.updated_at,
+    created_at: repo.created_at,
+    open_issues_count: repo.open_issues_count,
+    private: repo.private,
+    license: repo.license
+      ? (repo.license.spdx_id && repo.license.spdx_id !== 'NOASSERTION' ? repo.license.spdx_id : repo.license.name ?? null)
+      : null,
+  };
+}
+
+/**
+ * Fetches repositories for a GitHub user, following pagination
  *
  * @param user - GitHub username
- * @param token - Optional GitHub personal access token for authentication
+ * @param tokenOrClient - Optional GitHub personal access token, or a GitHub client
+ * @param options - Pagination options
  * @returns Array of repository information
  * @throws Error if the GitHub API request fails
  */
-export async function fetchRepositories(user: string, token?: string): Promise<RepoInfo[]> {
+export async function fetchRepositories(
+  user: string,
+  tokenOrClient?: string | GithubClient,
+  options: FetchRepositoriesOptions = {}
+): Promise<RepoInfo[]> {
+  const { maxPages = 10, perPage = 100 } = options;
+
   // Validate GitHub username format
-  const USERNAME_REGEX = /^[a-z\d](?:[a-z\d]|-(?=[a-z\d])){0,38}$/i;
-  if (!USERNAME_REGEX.test(user)) {
-    throw new Error(`Invalid GitHub username: ${user}`);
+  if (!LOGIN_REGEX.test(user)) {
+    throw new ConfigError(`Invalid GitHub username: ${user}`);
   }
 
   // Safely encode username to prevent URL manipulation
   const sanitizedUser = encodeURIComponent(user);
-  const url = `https://api.github.com/users/${sanitizedUser}/repos?sort=updated&per_page=30`;
+  const url = `/users/${sanitizedUser}/repos?sort=updated&per_page=${perPage}`;
 
-  const headers: Record<string, string> = {
-    Accept: 'application/vnd.github+json',
-    'User-Agent': 'github-comics-cli'
-  };
+  const data = await fetchRepositoryPages(resolveGithubClient(tokenOrClient), url, maxPages, user, 'User not found');
 
-  if (token) {
-    headers.Authorization = `Bearer ${token}`;
+  if (data.length === 0) {
+    throw new Error(`User '${user}' has no public repositories`);
   }
 
-  const res = await fetch(url, { headers });
+  return data.map(toRepoInfo);
+}
+
+/**
+ * Fetches repositories for a GitHub organization, following pagination
+ *
+ * @param org - GitHub organization login
+ * @param tokenOrClient - Optional GitHub personal access token, or a GitHub client
+ * @param options - Pagination options
+ * @returns Array of repository information
+ * @throws Error if the GitHub API request fails
+ */
+export async function fetchOrganizationRepositories(
+  org: string,
+  tokenOrClient?: string | GithubClient,
+  options: FetchRepositoriesOptions = {}
+): Promise<RepoInfo[]> {
+  const { maxPages = 10, perPage = 100 } = options;
 
-  if (!res.ok) {
-    // Provide more specific error messages based on status code
-    const errorDetail = res.status === 404
-      ? 'User not found'
-      : res.status === 403
-      ? 'API rate limit exceeded. Use GITHUB_TOKEN for higher limits.'
-      : res.statusText;
-    throw new Error(`Failed to fetch repos for ${user}: ${res.status} ${errorDetail}`);
+  if (!LOGIN_REGEX.test(org)) {
+    throw new ConfigError(`Invalid GitHub organization: ${org}`);
   }
 
-  const data = (await res.json()) as any[];
+  const url = `/orgs/${encodeURIComponent(org)}/repos?sort=updated&per_page=${perPage}`;
 
-  if (!Array.isArray(data)) {
-    throw new Error('Invalid response from GitHub API');
-  }
+  const data = await fetchRepositoryPages(
+    resolveGithubClient(tokenOrClient), url, maxPages, `org ${org}`, 'Organization not found'
+  );
 
   if (data.length === 0) {
-    throw new Error(`User '${user}' has no public repositories`);
+    throw new Error(`Organization '${org}' has no public repositories`);
   }
 
-  return data.map((repo) => ({
-    name: repo.name,
-    description: repo.description,
-    stargazers_count: repo.stargazers_count,
-    language: repo.language,
-  }));
+  return data.map(toRepoInfo);
+}
+
+/**
+ * Reduces a README to a short plain-text summary: the first prose paragraph
+ * with markdown images, badges, HTML and headings removed.
+ *
+ * @param readme - Raw README markdown
+ * @param maxLength - Maximum summary length (default: 400)
+ * @returns Summary text, or null if nothing readable remains
+ */
+export function summarizeReadme(readme: string, maxLength: number = 400): string | null {
+  const text = readme
+    .replace(/<!--[\s\S]*?-->/g, '')
+    .replace(/```[\s\S]*?```/g, '')
+    .replace(/<[^>]+>/g, '')
+    .replace(/!\[[^\]]*\]\([^)]*\)/g, '')
+    .replace(/\[([^\]]*)\]\([^)]*\)/g, '$1');
+
+  const paragraph = text
+    .split(/\n\s*\n/)
+    .map((block) => block
+      .split('\n')
+      .filter((line) => !/^\s*(#|[-=]{3,}|\|)/.test(line))
+      .join(' ')
+      .replace(/[*_`]/g, '')
+      .replace(/\s+/g, ' ')
+      .trim())
+    .find((block) => block.length >= 20);
+
+  if (!paragraph) {
+    return null;
+  }
+
+  return paragraph.length > maxLength ? `${paragraph.slice(0, maxLength - 1).trimEnd()}…` : paragraph;
+}
+
+/**
+ * Fetches the data needed to tell the story of a single repository:
+ * its metadata, a README summary, recent releases and top contributors
+ *
+ * @param owner - Repository owner (user or organization)
+ * @param repo - Repository name
+ * @param tokenOrClient - Optional GitHub personal access token, or a GitHub client
+ * @returns Repository story data
+ * @throws Error if the repository cannot be fetched
+ */
+export async function fetchRepositoryStory(
+  owner: string,
+  repo: string,
+  tokenOrClient?: string | GithubClient
+): Promise<RepositoryStory> {
+  if (!LOGIN_REGEX.test(owner) || !REPO_NAME_REGEX.test(repo) || repo === '.' || repo === '..') {
+    throw new ConfigError(`Invalid GitHub repository: ${owner}/${repo}`);
+  }
+
+  const fullName = `${owner}/${repo}`;
+  const base = `/repos/${encodeURIComponent(owner)}/${encodeURIComponent(repo)}`;
+  const client = resolveGithubClient(tokenOrClient);
+
+  const repoData = await fetchGithubResource<any>(client, base, `repository ${fullName}`, null);
+  if (!repoData) {
+    throw new NotFoundError(`Failed to fetch repository ${fullName}: 404 Repository not found`, fullName);
+  }
+
+  const [readme, releases, contributors] = await Promise.all([
+    fetchGithubResource<any>(client, `${base}/readme`, `README for ${fullName}`, null),
+    fetchGithubResource<any[]>(client, `${base}/releases?per_page=5`, `releases for ${fullName}`, []),
+    fetchGithubResource<any[]>(client, `${base}/contributors?per_page=5`, `contributors for ${fullName}`, []),
+  ]);
+
+  return {
+    owner,
+    repo: toRepoInfo(repoData),
+    readmeSummary: typeof readme?.content === 'string'
+      ? summarizeReadme(Buffer.from(readme.content, readme.encoding === 'base64' ? 'base64' : 'utf8').toString('utf8'))
+      : null,
+    releases: (Array.isArray(releases) ? releases : []).map((release) => ({
+      tag: release.tag_name,
+      name: release.name ?? null,
+      publishedAt: release.published_at ?? null,
+    })),
+    contributors: (Array.isArray(contributors) ? contributors : []).map((contributor) => ({
+      login: contributor.login,
+      contributions: contributor.contributions,
+    })),
+  };
+}
+
+/**
+ * Parses a CLI-style subject string into a comic subject
+ *
+ * Accepted forms: `username`, `user:username`, `org:organization`, `owner/repo`,
+ * and `team:alice,bob` or `versus:alice,bob` for several users in one strip
+ *
+ * @param input - Subject string
+ * @returns Parsed subject
+ * @throws Error if the subject is not in a recognized form
+ */
+export function parseSubject(input: string): ComicSubject {
+  const value = typeof input === 'string' ? input.trim() : '';
+
+  const team = value.match(/^(team|versus):(.+)$/i);
+  if (team) {
+    const mode = team[1].toLowerCase() as TeamMode;
+    const logins: string[] = [];
+    for (const login of team[2].split(',').map((part) => part.trim())) {
+      if (!LOGIN_REGEX.test(login)) {
+        throw new ConfigError(`Invalid GitHub username: ${login}`);
+      }
+      if (!logins.some((other) => other.toLowerCase() === login.toLowerCase())) {
+        logins.push(login);
+      }
+    }
+    if (logins.length < MIN_TEAM_SIZE || logins.length > MAX_TEAM_SIZE) {
+      throw new ConfigError(`A ${mode} comic needs ${MIN_TEAM_SIZE} to ${MAX_TEAM_SIZE} different users, got ${logins.length}`);
+    }
+    return { type: 'team', mode, logins };
+  }
+
+  const prefixed = value.match(/^(user|org):(.+)$/i);
+  if (prefixed) {
+    const login = prefixed[2];
+    if (!LOGIN_REGEX.test(login)) {
+      throw new ConfigError(`Invalid GitHub ${prefixed[1].toLowerCase() === 'org' ? 'organization' : 'username'}: ${login}`);
+    }
+    return { type: prefixed[1].toLowerCase() as 'user' | 'org', login };
+  }
+
+  const parts = value.split('/');
+  if (parts.length === 2) {
+    const [owner, repo] = parts;
+    if (!LOGIN_REGEX.test(owner) || !REPO_NAME_REGEX.test(repo) || repo === '.' || repo === '..') {
+      throw new ConfigError(`Invalid GitHub repository: ${value}`);
+    }
+    return { type: 'repo', owner, repo };
+  }
+
+  if (!LOGIN_REGEX.test(value)) {
+    throw new ConfigError(`Invalid GitHub username: ${value}`);
+  }
+  return { type: 'user', login: value };
+}
+
+/**
+ * Formats a subject for display, e.g. "octocat", "org:vercel", "vercel/next.js",
+ * "local:../app" or "versus:alice,bob"
+ */
+export function formatSubject(subject: ComicSubject): string {
+  switch (subject.type) {
+    case 'user':
+      return subject.login;
+    case 'org':
+      return `org:${subject.login}`;
+    case 'repo':
+      return `${subject.owner}/${subject.repo}`;
+    case 'local':
+      return `local:${subject.path}`;
+    case 'team':
+      return `${subject.mode}:${subject.logins.join(',')}`;
+  }
 }
 
 /**
@@ -97,10 +513,16 @@ export async function fetchRepositories(user: string, token?: string): Promise<R
  * @param repos - Array of repository information
  * @param user - GitHub username
  * @param count - Number of top repositories to include (default: 3)
+ * @param options - Optional enriched profile data to weave into the prompt
  * @returns Formatted prompt for image generation
  * @throws Error if inputs are invalid
  */
-export function createComicPrompt(repos: RepoInfo[], user: string, count: number = 3): string {
+export function createComicPrompt(
+  repos: RepoInfo[],
+  user: string,
+  count: number = 3,
+  options: PromptOptions = {}
+): string {
   // Validate inputs
   if (!Array.isArray(repos)) {
     throw new Error('repos must be an array');
@@ -114,9 +536,45 @@ export function createComicPrompt(repos: RepoInfo[], user: string, count: number
     throw new Error('count must be a positive number');
   }
 
+  const repoDetails = formatRepoDetails(repos, count, options);
+  const profileUser = options.profile?.user;
+  const about = profileUser ? `\nAbout them: ${describeUserProfile(profileUser)}\n` : '';
+
+  return composePrompt({
+    subject: `about GitHub user "${user}" and their coding projects.`,
+    body: `${about}\nTheir top repositories:\n${repoDetails}${formatRecap(options.recap)}`,
+    direction: 'Each panel should tell part of the story about their coding journey.',
+    values: {
+      user,
+      subject: user,
+      repos: repoDetails,
+      repoCount: String(Math.min(count, repos.length)),
+      about: profileUser ? describeUserProfile(profileUser) : '',
+      bio: profileUser?.bio ?? '',
+      location: profileUser?.location ?? '',
+      followers: profileUser ? String(profileUser.followers) : '',
+      recap: options.recap ?? '',
+    },
+    repos: repos.slice(0, count),
+  }, options.style);
+}
+
+/**
+ * Places a sequel recap after the prompt body, or nothing for standalone comics
+ */
+function formatRecap(recap: string | undefined): string {
+  return recap ? `\n\n${recap}` : '';
+}
+
+/**
+ * Formats the top `count` repositories as a numbered list for prompts,
+ * adding enriched detail lines when a profile is supplied
+ */
+function formatRepoDetails(repos: RepoInfo[], count: number, options: PromptOptions = {}): string {
   const topRepos = repos.slice(0, count);
+  const { profile, now } = options;
 
-  const repoDetails = topRepos.map((r, idx) => {
+  return topRepos.map((r, idx) => {
     // Validate required field
     if (!r.name || typeof r.name !== 'string') {
       throw new Error(`Repository at index ${idx} is missing required field: name`);
@@ -124,96 +582,1167 @@ export function createComicPrompt(repos: RepoInfo[], user: string, count: number
 
     const stars = r.stargazers_count ? ` (⭐ ${r.stargazers_count})` : '';
     const lang = r.language ? ` [${r.language}]` : '';
-    return `${idx + 1}. ${r.name}${lang}${stars}: ${r.description ?? 'No description'}`;
+    const line = `${idx + 1}. ${r.name}${lang}${stars}: ${r.description ?? 'No description'}`;
+
+    const enriched = profile?.repos.find((repo) => repo.name === r.name);
+    const details = enriched ? describeEnrichedRepo(enriched, profile.groups, now) : [];
+    return [line, ...details].join('\n');
   }).join('\n');
+}
+
+/**
+ * Creates a prompt for a comic about a GitHub organization and its projects
+ *
+ * @param repos - Array of repository information
+ * @param org - GitHub organization login
+ * @param count - Number of top repositories to include (default: 3)
+ * @param options - Optional enriched profile data to weave into the prompt
+ * @returns Formatted prompt for image generation
+ * @throws Error if inputs are invalid
+ */
+export function createOrganizationPrompt(
+  repos: RepoInfo[],
+  org: string,
+  count: number = 3,
+  options: PromptOptions = {}
+): string {
+  if (!Array.isArray(repos)) {
+    throw new Error('repos must be an array');
+  }
+
+  if (typeof org !== 'string' || org.trim().length === 0) {
+    throw new Error('org must be a non-empty string');
+  }
+
+  if (typeof count !== 'number' || isNaN(count) || count < 1) {
+    throw new Error('count must be a positive number');
+  }
+
+  const repoDetails = formatRepoDetails(repos, count, options);
+  const profileOrg = options.profile?.user;
+  const about = profileOrg ? `\nAbout the organization: ${describeUserProfile(profileOrg)}\n` : '';
+
+  return composePrompt({
+    subject: `about the GitHub organization "${org}" and the team building its projects.`,
+    body: `${about}\nTheir flagship repositories:\n${repoDetails}${formatRecap(options.recap)}`,
+    direction: 'Show the team as an ensemble cast working together. Each panel should tell part of the story of the organization.',
+    values: {
+      user: org,
+      subject: org,
+      repos: repoDetails,
+      repoCount: String(Math.min(count, repos.length)),
+      about: profileOrg ? describeUserProfile(profileOrg) : '',
+      bio: profileOrg?.bio ?? '',
+      location: profileOrg?.location ?? '',
+      followers: profileOrg ? String(profileOrg.followers) : '',
+      recap: options.recap ?? '',
+    },
+    repos: repos.slice(0, count),
+  }, options.style);
+}
+
+/**
+ * Creates a prompt for a comic telling the story of a single repository
+ *
+ * @param story - Repository story data from fetchRepositoryStory
+ * @param options - Optional style options
+ * @returns Formatted prompt for image generation
+ * @throws Error if the story is missing its repository
+ */
+export function createRepositoryStoryPrompt(story: RepositoryStory, options: PromptOptions = {}): string {
+  if (!story || !story.repo || typeof story.repo.name !== 'string' || !story.repo.name) {
+    throw new Error('story must include a repository with a name');
+  }
+
+  const { repo } = story;
+  const fullName = story.owner ? `${story.owner}/${repo.name}` : repo.name;
+
+  const facts = [
+    story.languages && story.languages.length > 1
+      ? `Languages: ${story.languages.slice(0, 4).map((share) => `${share.language} (${share.files} file${share.files === 1 ? '' : 's'})`).join(', ')}`
+      : repo.language ? `Language: ${repo.language}` : null,
+    repo.stargazers_count ? `Stars: ⭐ ${repo.stargazers_count}` : null,
+    repo.forks_count ? `Forks: ${repo.forks_count}` : null,
+    story.commitCount ? `Commits: ${story.commitCount}${repo.created_at ? ` since ${repo.created_at.slice(0, 10)}` : ''}` : null,
+    repo.description || !story.readmeSummary ? `Description: ${repo.description ?? 'No description'}` : null,
+    story.readmeSummary ? `From the README: ${story.readmeSummary}` : null,
+    story.recentCommits && story.recentCommits.length > 0
+      ? `Recent commits: ${story.recentCommits.map((message) => `"${message}"`).join('; ')}`
+      : null,
+  ].filter(Boolean).join('\n');
 
-  return `Create a humorous 4-panel comic strip about GitHub user "${user}" and their coding projects.
+  const releases = story.releases.length > 0
+    ? story.releases.map((r) => `- ${r.tag}${r.name && r.name !== r.tag ? ` "${r.name}"` : ''}${r.publishedAt ? ` (${r.publishedAt.slice(0, 10)})` : ''}`).join('\n')
+    : '- No releases yet';
+
+  const contributors = story.contributors.length > 0
+    ? story.contributors.map((c) => `- ${c.login} (${c.contributions} contributions)`).join('\n')
+    : '- Unknown';
+
+  return composePrompt({
+    subject: `telling the story of the ${story.local ? '' : 'GitHub '}project "${fullName}".`,
+    body: `\nAbout the project:\n${facts}\n\nRecent releases:\n${releases}\n\nTop contributors (the main characters):\n${contributors}${formatRecap(options.recap)}`,
+    direction: 'Follow the project from its first commit to its latest release, with the contributors as the heroes.',
+    values: {
+      user: story.owner || repo.name,
+      subject: fullName,
+      repos: facts,
+      repoCount: '1',
+      readme: story.readmeSummary ?? '',
+      releases,
+      contributors,
+      recap: options.recap ?? '',
+    },
+    repos: [repo],
+  }, options.style);
+}
+
+/**
+ * Creates a prompt for a year-in-review comic about a user's activity in a time window
+ *
+ * @param summary - Activity summary from aggregateActivity
+ * @param count - Number of most active repositories to include (default: 3)
+ * @param options - Optional style options
+ * @returns Formatted prompt for image generation
+ * @throws Error if inputs are invalid
+ */
+export function createActivityPrompt(
+  summary: ActivitySummary,
+  count: number = 3,
+  options: PromptOptions = {}
+): string {
+  if (!summary || typeof summary.login !== 'string' || !summary.login) {
+    throw new Error('summary must include a login');
+  }
+
+  if (typeof count !== 'number' || isNaN(count) || count < 1) {
+    throw new Error('count must be a positive number');
+  }
 
-Their top repositories:
-${repoDetails}
+  const { login } = summary;
+  const period = `${summary.since} to ${summary.until}`;
+  const active = summary.activeRepos.slice(0, count);
+  const activeRepos = active.length > 0
+    ? active.map((repo, idx) => {
+      const lang = repo.language ? ` [${repo.language}]` : '';
+      const stars = repo.stars ? ` (⭐ ${repo.stars})` : '';
+      const work = [
+        repo.events > 0 ? `${repo.events} event${repo.events === 1 ? '' : 's'}` : null,
+        repo.commits > 0 ? `${repo.commits} commit${repo.commits === 1 ? '' : 's'}` : null,
+      ].filter(Boolean).join(', ');
+      return `${idx + 1}. ${repo.name}${lang}${stars}${work ? `: ${work}` : ''}`;
+    }).join('\n')
+    : '- No public activity in this period';
+  const newRepos = summary.newRepos.length > 0
+    ? summary.newRepos.slice(0, 5).map((repo) =>
+      `- ${repo.name}${repo.language ? ` [${repo.language}]` : ''}${repo.created_at ? `, started ${repo.created_at.slice(0, 10)}` : ''}: ${repo.description ?? 'No description'}`).join('\n')
+    : '- None';
+  const languages = summary.languages.join(', ');
+  const busiestMonths = summary.busiestMonths.slice(0, 3).map(({ month }) => formatMonth(month)).join(', ');
+  const totals = `${summary.events} public event${summary.events === 1 ? '' : 's'}, ${summary.commits} commit${summary.commits === 1 ? '' : 's'} pushed`;
 
-Style: Comic book style, colorful, fun and playful. Each panel should tell part of the story about their coding journey. Make it lighthearted and encouraging.`;
+  return composePrompt({
+    subject: `looking back on GitHub user "${login}"'s activity from ${period}, like a year-in-review recap.`,
+    body: `\nTheir period in numbers: ${totals}\n\nMost active repositories:\n${activeRepos}\n\nNew projects started:\n${newRepos}${languages ? `\n\nLanguages picked up: ${languages}` : ''}${busiestMonths ? `\n\nBusiest months: ${busiestMonths}` : ''}${formatRecap(options.recap)}`,
+    direction: 'Each panel should be one highlight of the period: the busiest months, the most active projects, the new projects and the languages they picked up.',
+    values: {
+      user: login,
+      subject: login,
+      repos: activeRepos,
+      repoCount: String(active.length),
+      since: summary.since,
+      until: summary.until,
+      totals,
+      newRepos,
+      languages,
+      busiestMonths,
+      recap: options.recap ?? '',
+    },
+    repos: active.map((repo) => ({ name: repo.name, description: null, language: repo.language, stargazers_count: repo.stars })),
+  }, options.style);
+}
+
+/**
+ * Creates a prompt for a comic featuring several users: an ensemble story
+ * for `team` summaries, or a head-to-head for `versus` summaries
+ *
+ * @param summary - Team summary from aggregateTeam
+ * @param count - Number of repositories to include per member (default: 3)
+ * @param options - Optional style options
+ * @returns Formatted prompt for image generation
+ * @throws Error if inputs are invalid
+ */
+export function createTeamPrompt(
+  summary: TeamSummary,
+  count: number = 3,
+  options: PromptOptions = {}
+): string {
+  if (!summary || !Array.isArray(summary.members) || summary.members.length === 0) {
+    throw new Error('summary must include at least one member');
+  }
+
+  if (typeof count !== 'number' || isNaN(count) || count < 1) {
+    throw new Error('count must be a positive number');
+  }
+
+  const { mode, members, leaders } = summary;
+  const logins = members.map((member) => member.login);
+  const names = mode === 'versus' ? logins.join(' vs ') : formatTeamNames(logins);
+  const describeLanguages = (member: TeamMember) => member.languages.slice(0, 3).map(({ language }) => language).join(', ');
+
+  const memberDetails = members.map((member) => {
+    const languages = describeLanguages(member);
+    const heading = `${member.login}: ${member.repoCount} repositor${member.repoCount === 1 ? 'y' : 'ies'}, ⭐ ${member.stars}${languages ? `, mostly ${languages}` : ''}`;
+    const repos = member.topRepos.length > 0 ? formatRepoDetails(member.topRepos, count) : '- No public repositories';
+    return `${heading}\n${repos}`;
+  }).join('\n\n');
+
+  const round = (label: string, value: (member: TeamMember) => string, lead: string | null) =>
+    `${label}: ${members.map((member) => `${member.login} ${value(member)}`).join(' vs ')} (${lead ? `${lead} leads` : 'tied'})`;
+  const scoreboard = [
+    round('Stars', (member) => `⭐ ${member.stars}`, leaders.stars),
+    round('Projects', (member) => String(member.repoCount), leaders.repos),
+    round('Languages', (member) => `${member.languages.length}${member.languages.length > 0 ? ` (${describeLanguages(member)})` : ''}`, leaders.languages),
+  ].join('\n');
+  const sharedLanguages = summary.sharedLanguages.join(', ');
+  const shared = sharedLanguages ? `\n\nLanguages they all use: ${sharedLanguages}` : '';
+
+  const story = mode === 'versus'
+    ? {
+      subject: `staging a friendly head-to-head between GitHub users ${names}.`,
+      body: `\nThe scoreboard:\n${scoreboard}\n\nTheir top repositories:\n${memberDetails}${shared}${formatRecap(options.recap)}`,
+      direction: 'Frame it as a good-natured rivalry: each panel is one round (stars, projects, languages), ending with the rivals shaking hands.',
+    }
+    : {
+      subject: `about the team of GitHub users ${names} and their coding projects.`,
+      body: `\nThe team:\n${memberDetails}${shared}${formatRecap(options.recap)}`,
+      direction: 'Show the members as an ensemble cast, each bringing their own projects to one shared story.',
+    };
+  const featured = members.flatMap((member) => member.topRepos.slice(0, count));
+
+  return composePrompt({
+    ...story,
+    values: {
+      user: names,
+      subject: names,
+      repos: memberDetails,
+      repoCount: String(featured.length),
+      members: memberDetails,
+      scoreboard,
+      sharedLanguages,
+      recap: options.recap ?? '',
+    },
+    repos: featured,
+  }, options.style);
+}
+
+/**
+ * Options for generateComicImage
+ */
+export interface ComicImageOptions {
+  /** Seed passed to providers that support deterministic output */
+  seed?: number;
+  /** Output formats, filename template and sidecar */
+  output?: OutputOptions;
+  /** Subject, theme and repositories recorded in filenames and metadata */
+  details?: ComicDetails;
+  /** Candidates to generate; the best-scoring one becomes the comic and the others are kept next to it (default: 1) */
+  variants?: number;
+  /** Retry refusals, failed requests and unusable images (default: call the provider once and accept any image) */
+  retry?: RetryImageOptions;
+  /** Receives generation-start, image-saved and retry events */
+  onEvent?: ComicEventListener;
+  /** Cancels generation; images already saved are kept */
+  signal?: AbortSignal;
 }
 
 /**
- * Generates a comic image using Gemini Flash 2.5 via Vercel AI Gateway
+ * Generates a comic image and saves it to disk
  *
  * @param prompt - Text prompt for image generation
- * @param apiKey - Vercel AI Gateway API token
+ * @param apiKeyOrProvider - Vercel AI Gateway API token (uses Gemini) or a custom image provider
  * @param outputDir - Directory to save the generated image (default: './output')
- * @returns Image result with file path and name
- * @throws Error if the image generation fails
+ * @param options - Seed, output formats, details for filenames and metadata,
+ *   number of candidates and retry policy
+ * @returns Image result with the primary file and every artifact written, and
+ *   every candidate in `variants` when more than one was generated
+ * @throws ConfigError if `variants` is out of range, GenerationRefusedError if
+ *   the model returns no image, GenerationError or FileSystemError if
+ *   generating or saving it fails, AbortedError if `signal` is aborted
  */
 export async function generateComicImage(
   prompt: string,
-  apiKey: string,
-  outputDir: string = './output'
+  apiKeyOrProvider: string | ImageProvider,
+  outputDir: string = './output',
+  options: ComicImageOptions = {}
 ): Promise<ImageResult> {
+  const { variants = 1, signal } = options;
+  checkVariants(variants);
+  const emit = createEventReporter(options.onEvent);
+  const base = typeof apiKeyOrProvider === 'string'
+    ? createGeminiProvider({ apiKey: apiKeyOrProvider })
+    : apiKeyOrProvider;
+  const provider = withRetry(base, options.retry, emit);
+  const startedAt = new Date();
+  const generationStart = (stage: 'comic' | 'variant', index?: number) => {
+    throwIfAborted(signal);
+    emit({ type: 'generation-start', stage, provider: provider.name, model: provider.model, index, total: index ? variants : undefined });
+    return Date.now();
+  };
+
   try {
-    // Use Gemini model through AI Gateway, passing API key directly
-    const result = await generateText({
-      model: google('gemini-2.5-flash-image-preview', { apiKey }),
-      prompt: prompt,
-    });
+    if (variants === 1) {
+      const generatedAt = generationStart('comic');
+      const image = await provider.generate(prompt, { seed: options.seed, signal });
+      const result = await saveComicOutputs(image, outputDir, {
+        ...options.details,
+        prompt,
+        provider: { name: provider.name, model: provider.model },
+        seed: options.seed,
+        startedAt,
+      }, options.output);
+      emit({ type: 'image-saved', stage: 'comic', filePath: result.filePath, durationMs: Date.now() - generatedAt });
+      return result;
+    }
 
-    // Check if any files were generated
-    if (!result.files || result.files.length === 0) {
-      throw new Error(
-        `No images were generated. Finish reason: ${result.finishReason}. ` +
-        'Make sure you have credits and the model supports image generation.'
-      );
+    // A candidate that fails even after retries is skipped, as long as another one succeeds
+    const candidates: { image: GeneratedImage; score: number; variant: number; durationMs: number }[] = [];
+    const failures = new Map<number, string>();
+    let lastError: unknown;
+    for (let variant = 1; variant <= variants; variant++) {
+      const generatedAt = generationStart('variant', variant);
+      try {
+        const image = await provider.generate(prompt, { seed: options.seed, variant, signal });
+        // Size requirements are the retry policy's job; candidates are ranked by contrast alone
+        const { score } = checkImage(image, { minWidth: 0, minHeight: 0 });
+        candidates.push({ image, score, variant, durationMs: Date.now() - generatedAt });
+      } catch (error) {
+        throwIfAborted(signal);
+        lastError = error;
+        failures.set(variant, error instanceof Error ? error.message : String(error));
+      }
+    }
+    if (candidates.length === 0) {
+      throw lastError;
     }
 
-    // Ensure output directory exists
-    await fs.mkdir(outputDir, { recursive: true });
+    const best = candidates.reduce((top, candidate) => (candidate.score > top.score ? candidate : top));
+    const summaries = Array.from({ length: variants }, (_, idx): VariantSummary => {
+      const variant = idx + 1;
+      const candidate = candidates.find((other) => other.variant === variant);
+      return {
+        variant,
+        // Providers draw each candidate with the seed moved on by its number
+        seed: options.seed === undefined ? undefined : options.seed + variant - 1,
+        score: candidate?.score,
+        error: failures.get(variant),
+        primary: candidate === best,
+      };
+    });
+    const result = await saveComicOutputs(best.image, outputDir, {
+      ...options.details,
+      prompt,
+      provider: { name: provider.name, model: provider.model },
+      seed: options.seed,
+      startedAt,
+      variants: summaries,
+    }, options.output);
+    const stem = result.fileName.replace(/\.[^.]+$/, '');
+    const saved = await Promise.all(candidates.map((candidate) => candidate === best
+      ? { filePath: result.filePath, fileName: result.fileName }
+      : saveGeneratedImage(candidate.image, outputDir, `${stem}-variant-${candidate.variant}`)));
+    candidates.forEach((candidate, idx) => emit({
+      type: 'image-saved',
+      stage: candidate === best ? 'comic' : 'variant',
+      filePath: saved[idx].filePath,
+      index: candidate.variant,
+      durationMs: candidate.durationMs,
+    }));
+    return {
+      ...result,
+      variants: candidates.map((candidate, idx) => ({
+        filePath: saved[idx].filePath,
+        fileName: saved[idx].fileName,
+        score: candidate.score,
+        primary: candidate === best,
+      })),
+    };
+  } catch (error) {
+    throwIfAborted(signal);
+    throw toGenerationError(error, 'Failed to generate comic');
+  }
+}
 
-    // Save the first image
-    const file = result.files[0];
+/**
+ * Wraps a provider in the retry policy, if there is one, and reports every retry as an event
+ */
+function withRetry(
+  provider: ImageProvider,
+  retry: RetryImageOptions | undefined,
+  emit: (event: ComicEventData) => void
+): ImageProvider {
+  if (!retry) {
+    return provider;
+  }
+  return retryImageProvider(provider, {
+    ...retry,
+    onRetry: (attempt, error, ms) => {
+      retry.onRetry?.(attempt, error, ms);
+      const reason = error instanceof Error ? error.message : String(error);
+      emit({ type: 'retry', source: 'image', attempt, delayMs: ms, reason, error });
+    },
+  });
+}
 
-    if (!file.mediaType.startsWith('image/')) {
-      throw new Error(`Invalid file type: ${file.mediaType}`);
-    }
+/**
+ * Rejects candidate counts generateComicImage cannot honour
+ */
+function checkVariants(variants: number = 1, perPanel?: boolean): void {
+  if (!Number.isInteger(variants) || variants < 1 || variants > MAX_VARIANTS) {
+    throw new ConfigError(`Variants must be a whole number from 1 to ${MAX_VARIANTS}, got ${variants}`);
+  }
+  if (variants > 1 && perPanel) {
+    throw new ConfigError('Variants are only available when the comic is generated as one image, not per panel');
+  }
+}
+
+/**
+ * Keeps typed errors as they are, reports file system failures as
+ * FileSystemError and wraps anything else in a GenerationError
+ */
+function toGenerationError(error: unknown, context: string): unknown {
+  if (error instanceof ComicError || !(error instanceof Error)) {
+    return error;
+  }
+  if (isNodeFileSystemError(error)) {
+    return new FileSystemError(`${context}: ${error.message}`, error.path, { cause: error });
+  }
+  return new GenerationError(`${context}: ${error.message}`, { cause: error });
+}
+
+/**
+ * Writes the final comic in every requested format and returns it as an ImageResult
+ */
+async function saveComicOutputs(
+  image: GeneratedImage,
+  outputDir: string,
+  info: ComicOutputInfo,
+  output: OutputOptions = {}
+): Promise<ImageResult> {
+  const { artifacts, metadata } = await writeComicOutputs(image, outputDir, info, output);
+  return {
+    filePath: artifacts[0].filePath,
+    fileName: artifacts[0].fileName,
+    artifacts,
+    metadata,
+  };
+}
+
+/**
+ * Validates a generated image and writes it to `outputDir` as `<fileStem>.<ext>`
+ */
+async function saveGeneratedImage(image: GeneratedImage, outputDir: string, fileStem: string): Promise<ImageResult> {
+  if (!image.mediaType.startsWith('image/')) {
+    throw new Error(`Invalid file type: ${image.mediaType}`);
+  }
+
+  // Ensure output directory exists
+  await fs.mkdir(outputDir, { recursive: true });
+
+  const extension = extensionForMediaType(image.mediaType);
+  const fileName = `${fileStem}.${extension}`;
+  const filePath = path.join(outputDir, fileName);
+
+  await fs.writeFile(filePath, image.data);
+
+  return {
+    filePath,
+    fileName,
+  };
+}
 
-    const extension = file.mediaType.split('/')[1] || 'png';
-    const fileName = `github-comic-${Date.now()}.${extension}`;
-    const filePath = path.join(outputDir, fileName);
+/**
+ * Generates comic images from a structured script, either as one strip or
+ * as one image per panel. Per-panel images are composited locally into the
+ * final strip, with captions and dialogue lettered on top.
+ *
+ * @param script - Comic script (see comicScriptSchema)
+ * @param provider - Image provider
+ * @param outputDir - Directory to save the generated images (default: './output')
+ * @param options - Set `perPanel` to generate each panel separately; `composite`
+ *   configures (or with `false`, skips) assembling the panels into a strip.
+ *   Output formats and the sidecar apply to the final strip.
+ * @returns Image result; per-panel results are listed in `panels`
+ * @throws Error if the image generation fails, AbortedError if `options.signal` is aborted
+ */
+export async function generateComicFromScript(
+  script: ComicScript,
+  provider: ImageProvider,
+  outputDir: string = './output',
+  options: ComicImageOptions & { perPanel?: boolean; composite?: CompositeOptions | false } = {}
+): Promise<ImageResult> {
+  const details: ComicDetails = { ...options.details, script, panels: script.panels.length };
+  const emit = createEventReporter(options.onEvent);
+
+  if (!options.perPanel) {
+    const image = await generateComicImage(scriptToImagePrompt(script), provider, outputDir, { ...options, details, onEvent: emit });
+    return { ...image, script };
+  }
+  checkVariants(options.variants, true);
+  const { signal } = options;
+  const panelProvider = withRetry(provider, options.retry, emit);
 
-    // Save using uint8Array directly
-    await fs.writeFile(filePath, file.uint8Array);
+  const composite = options.composite === false ? null : options.composite ?? {};
+  // Text is lettered locally when compositing, so keep it out of the artwork
+  const prompts = script.panels.map((_, idx) => panelToImagePrompt(script, idx, { includeText: !composite }));
+  const info: ComicOutputInfo = {
+    ...details,
+    prompt: prompts.join('\n\n'),
+    provider: { name: provider.name, model: provider.model },
+    seed: options.seed,
+    startedAt: new Date(),
+  };
+  const stem = renderFilename(options.output?.filenameTemplate ?? DEFAULT_FILENAME_TEMPLATE, info);
+  const images: GeneratedImage[] = [];
+  const panels: ImageResult[] = [];
+
+  try {
+    // Generate sequentially so providers see one request at a time
+    for (let idx = 0; idx < script.panels.length; idx++) {
+      throwIfAborted(signal);
+      const generatedAt = Date.now();
+      emit({
+        type: 'generation-start',
+        stage: 'panel',
+        provider: provider.name,
+        model: provider.model,
+        index: idx + 1,
+        total: script.panels.length,
+      });
+      const image = await panelProvider.generate(prompts[idx], { seed: options.seed, signal });
+      images.push(image);
+      panels.push(await saveGeneratedImage(image, outputDir, `${stem}-panel-${idx + 1}`));
+      emit({ type: 'image-saved', stage: 'panel', filePath: panels[idx].filePath, index: idx + 1, durationMs: Date.now() - generatedAt });
+    }
+  } catch (error) {
+    throwIfAborted(signal);
+    throw toGenerationError(error, `Failed to generate comic panel ${panels.length + 1}`);
+  }
 
+  if (!composite) {
     return {
-      filePath,
-      fileName,
+      filePath: panels[0].filePath,
+      fileName: panels[0].fileName,
+      panels,
+      script,
     };
-  } catch (error) {
-    if (error instanceof Error) {
-      throw new Error(`Failed to generate comic: ${error.message}`);
+  }
+
+  const compositedAt = Date.now();
+  const strip = compositeComic(
+    script.panels.map((panel, idx) => ({ image: images[idx], caption: panel.caption, dialogue: panel.dialogue })),
+    {
+      ...composite,
+      title: composite.title ?? script.title,
+      // Fall back to SVG when a provider returns formats the PNG compositor cannot decode
+      format: composite.format ?? (images.every((image) => isPng(image.data)) ? 'png' : 'svg'),
     }
-    throw error;
+  );
+  const result = await saveComicOutputs(strip, outputDir, info, options.output);
+  emit({ type: 'image-saved', stage: 'comic', filePath: result.filePath, durationMs: Date.now() - compositedAt });
+
+  return { ...result, panels, script };
+}
+
+/**
+ * Options for generateGithubComic
+ */
+export interface GenerateComicOptions {
+  repoCount?: number;
+  outputDir?: string;
+  /** Image provider to use instead of the default Gemini provider */
+  provider?: ImageProvider;
+  /** How repositories are filtered and ranked before the top N are featured */
+  selection?: RepoSelectionOptions;
+  /** Private repositories, denylist, instruction-like text and field lengths (default: private excluded) */
+  safety?: SafetyOptions;
+  /** Extra profile field groups to fetch and include in the prompt (default: none) */
+  enrich?: ProfileFieldGroup[];
+  /** Reuse GitHub data and generated images from this on-disk cache */
+  cache?: ComicCache;
+  /** Code host to fetch from (default: github); its token comes from config, see FORGE_TOKEN_VARIABLES */
+  forge?: ForgeName;
+  /** Rate limit policy, retries and API URL for requests to the forge; the token comes from config */
+  github?: Omit<GithubClientOptions, 'token'>;
+  /** Theme, panel count, tone, art style, language or a custom template */
+  style?: ComicStyleOptions;
+  /** Write a structured script with this text model first, then draw from the script */
+  scriptWriter?: ScriptWriter;
+  /** With a script writer, generate one image per panel instead of one strip */
+  perPanel?: boolean;
+  /** How per-panel images are composited into a strip, or `false` to keep them separate */
+  composite?: CompositeOptions | false;
+  /** Seed passed to providers that support deterministic output */
+  seed?: number;
+  /** Output formats, filename template and sidecar */
+  output?: OutputOptions;
+  /** Candidates to generate; the best-scoring one becomes the comic (default: 1) */
+  variants?: number;
+  /** Retry refusals, failed requests and unusable images (default: call the provider once and accept any image) */
+  retry?: RetryImageOptions;
+  /** Record every comic as the next episode of its subject in this history store */
+  history?: ComicHistory;
+  /** Refer to the subject's latest episode in `history` and what changed since it */
+  sequel?: boolean;
+  /** Make a year-in-review comic about a user's activity in this window instead */
+  activity?: ActivityWindow;
+  /** Receives progress events, from fetching data to saving the comic */
+  onEvent?: ComicEventListener;
+  /** Cancels requests, waits and generation in progress; the run then throws AbortedError */
+  signal?: AbortSignal;
+}
+
+/**
+ * What prepareComicPrompt built, and what it knows about the subject's series
+ */
+interface PreparedPrompt {
+  prompt: string;
+  repos: string[];
+  dataHash: string;
+  redactions: Redaction[];
+  /** Repositories considered, stored with the episode for the next sequel */
+  snapshot: RepoSnapshot[];
+  /** Latest episode, for sequels */
+  previous?: ComicEpisode;
+  /** What changed since the latest episode, for sequels */
+  changes?: RepoChanges;
+}
+
+/**
+ * Fetches data for a subject and builds its comic prompt without generating an image
+ *
+ * @param subject - GitHub username, subject string (`org:name`, `owner/repo`) or parsed subject
+ * @param config - Configuration; only GITHUB_TOKEN is used
+ * @param options - Selection, enrichment and style options
+ * @returns Prompt text
+ */
+export async function buildComicPrompt(
+  subject: string | ComicSubject,
+  config: Partial<Config>,
+  options: GenerateComicOptions = {}
+): Promise<string> {
+  const { prompt } = await prepareComicPrompt(subject, config, options);
+  return prompt;
+}
+
+/**
+ * Builds the comic prompt and reports which repositories it features
+ */
+async function prepareComicPrompt(
+  subject: string | ComicSubject,
+  config: Partial<Config>,
+  options: GenerateComicOptions
+): Promise<PreparedPrompt> {
+  const { repoCount = 3, cache } = options;
+  const safety = createSafetyFilter(options.safety);
+  if (options.sequel && !options.history) {
+    throw new ConfigError('Sequels need a history store with the previous episodes');
+  }
+  subject = typeof subject === 'string' ? parseSubject(subject) : subject;
+  if (options.activity && subject.type !== 'user') {
+    throw new ConfigError('Activity comics (--since/--until) are only available for users');
+  }
+  if (options.enrich?.length && subject.type === 'team') {
+    throw new ConfigError(`Profile enrichment (--enrich) is not available for ${subject.mode} comics`);
+  }
+  const forgeName = options.forge ?? 'github';
+  // Profile enrichment and events use endpoints only GitHub has
+  if (forgeName !== 'github' && forgeName !== 'github-enterprise' && subject.type !== 'local') {
+    if (options.enrich?.length) {
+      throw new ConfigError(`Profile enrichment (--enrich) is only available on GitHub, not ${forgeName}`);
+    }
+    if (options.activity) {
+      throw new ConfigError(`Activity comics (--since/--until) are only available on GitHub, not ${forgeName}`);
+    }
+  }
+  const emit = createEventReporter(options.onEvent);
+  const built = (prepared: PreparedPrompt) => {
+    emit({ type: 'prompt-built', prompt: prepared.prompt, repos: prepared.repos });
+    return prepared;
+  };
+  const subjectName = formatSubject(subject);
+  emit({ type: 'fetch-start', subject: subjectName, forge: forgeName });
+  const fetchedAt = Date.now();
+  const reposFetched = (count: number) =>
+    emit({ type: 'repos-fetched', subject: subjectName, count, durationMs: Date.now() - fetchedAt });
+
+  const previous = options.sequel ? await options.history!.latest(formatSubject(subject)) : undefined;
+  const sequelOf = (snapshot: RepoSnapshot[]) => {
+    const changes = previous && diffSnapshots(previous.snapshot, snapshot);
+    return { previous, changes, recap: previous && createRecap(previous, changes!) };
+  };
+  // One client per comic so every call shares the rate limit and ETag store
+  const token = config[FORGE_TOKEN_VARIABLES[forgeName]];
+  const forge = createForge(forgeName, {
+    token,
+    ...options.github,
+    signal: options.signal ?? options.github?.signal,
+    onWait: (ms, reason) => {
+      options.github?.onWait?.(ms, reason);
+      emit({ type: 'retry', source: 'github', delayMs: ms, reason });
+    },
+  });
+  const github = forge.client;
+  // Tokens may see private repositories, so data is never shared between tokens or forges
+  const scope = [forge.baseUrl, hashToken(token)];
+  const cached = <T>(key: unknown[], label: string, load: () => Promise<T>) =>
+    cache ? cache.github([...scope, ...key], label, load) : load();
+
+  if (subject.type === 'repo' || subject.type === 'local') {
+    // Working copies are read from disk on every run, so they are never cached
+    const story = safety.story(subject.type === 'local'
+      ? await readLocalRepository(subject.path)
+      : await cached(['story', subject.owner, subject.repo], `story for ${formatSubject(subject)}`, () =>
+        forge.fetchRepositoryStory(subject.owner, subject.repo)));
+    reposFetched(1);
+    const snapshot = snapshotRepositories([story.repo]);
+    const { recap, ...sequel } = sequelOf(snapshot);
+    return built({
+      prompt: createRepositoryStoryPrompt(story, { style: options.style, recap }),
+      repos: [subject.type === 'local' ? story.repo.name : formatSubject(subject)],
+      dataHash: hashValue(story),
+      redactions: safety.redactions,
+      snapshot,
+      ...sequel,
+    });
+  }
+
+  if (subject.type === 'team') {
+    return built(await prepareTeamPrompt(subject, options, { cached, forge, safety, sequelOf, reposFetched }));
+  }
+
+  const { type, login } = subject;
+  const fetched = await cached([type, login], `repos for ${formatSubject(subject)}`, () => type === 'org'
+    ? forge.fetchOrganizationRepositories(login)
+    : forge.fetchUserRepositories(login));
+  reposFetched(fetched.length);
+
+  const available = safety.exclude(fetched);
+  if (options.activity) {
+    return built(await prepareActivityPrompt(login, fetched, available, options, {
+      cached,
+      github,
+      safety,
+      sequelOf,
+    }));
+  }
+  const selected = selectRepositories(available, options.selection);
+  if (selected.length === 0) {
+    throw new Error(`No repositories for ${formatSubject(subject)} match the selection filters`);
+  }
+  const repos = safety.clean(selected.slice(0, repoCount));
+  const snapshot = snapshotRepositories(available);
+  const { recap, ...sequel } = sequelOf(snapshot);
+
+  const enrich = options.enrich ?? [];
+  const enriched = enrich.length > 0
+    ? await cached(
+      ['profile', login, enrich, repos.slice(0, repoCount).map((repo) => repo.name)],
+      `${enrich.join(', ')} for ${login}`,
+      () => enrichProfile(login, repos, { include: enrich, repoCount, token: github })
+    )
+    : undefined;
+  const profile = enriched && safety.profile(enriched);
+
+  return built({
+    ...createReposPrompt(subject, repos, repoCount, { ...options, recap }, profile),
+    dataHash: hashValue({ fetched, profile: enriched }),
+    redactions: safety.redactions,
+    snapshot,
+    ...sequel,
+  });
+}
+
+/**
+ * Builds a year-in-review prompt from a user's repositories and public events
+ */
+async function prepareActivityPrompt(
+  login: string,
+  fetched: RepoInfo[],
+  available: RepoInfo[],
+  options: GenerateComicOptions,
+  context: {
+    cached: <T>(key: unknown[], label: string, load: () => Promise<T>) => Promise<T>;
+    github: GithubClient;
+    safety: SafetyFilter;
+    sequelOf: (snapshot: RepoSnapshot[]) => { previous?: ComicEpisode; changes?: RepoChanges; recap?: string };
+  }
+): Promise<PreparedPrompt> {
+  const { repoCount = 3, activity } = options;
+  const { cached, github, safety, sequelOf } = context;
+  const events = await cached(['events', login, activity.since.toISOString()], `events for ${login}`, () =>
+    fetchUserEvents(login, github, { since: activity.since }));
+
+  // Own repositories the safety filter excluded stay out, and other accounts' repositories are checked by name
+  const ownPrefix = `${login.toLowerCase()}/`;
+  const allowedOwn = new Set(available.map((repo) => repo.name.toLowerCase()));
+  const others = [...new Set(events.map((event) => event.repo).filter((name) => !name.toLowerCase().startsWith(ownPrefix)))];
+  const allowedOthers = new Set(safety.exclude(others.map((name) => ({ name, description: null }))).map((repo) => repo.name));
+  const visible = events.filter((event) => event.repo.toLowerCase().startsWith(ownPrefix)
+    ? allowedOwn.has(event.repo.slice(ownPrefix.length).toLowerCase())
+    : allowedOthers.has(event.repo));
+
+  const summary = aggregateActivity(login, selectRepositories(available, options.selection), visible, activity);
+  summary.newRepos = safety.clean(summary.newRepos);
+  const snapshot = snapshotRepositories(available);
+  const { recap, ...sequel } = sequelOf(snapshot);
+
+  return {
+    prompt: createActivityPrompt(summary, repoCount, { style: options.style, recap }),
+    repos: summary.activeRepos.slice(0, repoCount).map((repo) => repo.name),
+    dataHash: hashValue({ fetched, events }),
+    redactions: safety.redactions,
+    snapshot,
+    ...sequel,
+  };
+}
+
+/**
+ * Builds a team or versus prompt from every member's repositories, fetched in parallel
+ */
+async function prepareTeamPrompt(
+  subject: Extract<ComicSubject, { type: 'team' }>,
+  options: GenerateComicOptions,
+  context: {
+    cached: <T>(key: unknown[], label: string, load: () => Promise<T>) => Promise<T>;
+    forge: Forge;
+    safety: SafetyFilter;
+    sequelOf: (snapshot: RepoSnapshot[]) => { previous?: ComicEpisode; changes?: RepoChanges; recap?: string };
+    reposFetched: (count: number) => void;
+  }
+): Promise<PreparedPrompt> {
+  const { repoCount = 3 } = options;
+  const { cached, forge, safety, sequelOf, reposFetched } = context;
+  // Each member shares the cache entry of their own comic
+  const fetched = await Promise.all(subject.logins.map((login) =>
+    cached(['user', login], `repos for ${login}`, () => forge.fetchUserRepositories(login))));
+  reposFetched(fetched.reduce((sum, repos) => sum + repos.length, 0));
+
+  const available = fetched.map((repos) => safety.exclude(repos));
+  const summary = aggregateTeam(subject.mode, subject.logins.map((login, idx) => ({
+    login,
+    repos: selectRepositories(available[idx], options.selection),
+  })), repoCount);
+  if (summary.members.every((member) => member.topRepos.length === 0)) {
+    throw new Error(`No repositories for ${formatSubject(subject)} match the selection filters`);
+  }
+  for (const member of summary.members) {
+    member.topRepos = safety.clean(member.topRepos);
+  }
+  // Names are prefixed with the member, so sequels can tell whose repository changed
+  const snapshot = snapshotRepositories(subject.logins.flatMap((login, idx) =>
+    available[idx].map((repo) => ({ ...repo, name: `${login}/${repo.name}` }))));
+  const { recap, ...sequel } = sequelOf(snapshot);
+
+  return {
+    prompt: createTeamPrompt(summary, repoCount, { style: options.style, recap }),
+    repos: summary.members.flatMap((member) => member.topRepos.map((repo) => `${member.login}/${repo.name}`)),
+    dataHash: hashValue(fetched),
+    redactions: safety.redactions,
+    snapshot,
+    ...sequel,
+  };
+}
+
+/**
+ * Builds the prompt for a user or organization from already selected repositories
+ */
+function createReposPrompt(
+  subject: Extract<ComicSubject, { type: 'user' | 'org' }>,
+  repos: RepoInfo[],
+  repoCount: number,
+  options: Pick<PromptOptions, 'style' | 'recap'>,
+  profile?: EnrichedProfile
+): { prompt: string; repos: string[] } {
+  const promptOptions = { profile, style: options.style, recap: options.recap };
+  const prompt = subject.type === 'org'
+    ? createOrganizationPrompt(repos, subject.login, repoCount, promptOptions)
+    : createComicPrompt(repos, subject.login, repoCount, promptOptions);
+  return { prompt, repos: repos.slice(0, repoCount).map((repo) => repo.name) };
+}
+
+/**
+ * Calls a real run would make to each API
+ */
+export interface ApiCallEstimate {
+  /** GitHub requests made while fetching data; cached responses make none */
+  github: number;
+  /** Script writer calls */
+  textModel: number;
+  /** Image provider calls, before any cache hits */
+  imageModel: number;
+}
+
+/**
+ * What generateGithubComic would send, without calling any model
+ */
+export interface ComicPreview {
+  subject: string;
+  theme: string;
+  panels: number;
+  /** Repositories featured in the prompt */
+  repos: string[];
+  /** Prompt sent to the image provider, or to the script writer as its brief */
+  prompt: string;
+  /** Full instructions sent to the script writer, when one is configured */
+  scriptPrompt?: string;
+  apiCalls: ApiCallEstimate;
+  /** What the safety filter left out of the prompt */
+  redactions: Redaction[];
+  /** Episode a real run would record, for sequels */
+  episode?: number;
+  /** What changed since the latest episode, for sequels */
+  changes?: RepoChanges;
+}
+
+/**
+ * Assembles a preview from a built prompt and the generation options
+ */
+function toComicPreview(
+  subject: ComicSubject,
+  built: Pick<PreparedPrompt, 'prompt' | 'repos' | 'redactions' | 'previous' | 'changes'>,
+  options: GenerateComicOptions,
+  githubRequests: number
+): ComicPreview {
+  const style = resolveComicStyle(options.style);
+  return {
+    subject: formatSubject(subject),
+    theme: style.theme,
+    panels: style.panels,
+    repos: built.repos,
+    prompt: built.prompt,
+    scriptPrompt: options.scriptWriter ? createScriptPrompt(built.prompt, style.panels) : undefined,
+    apiCalls: {
+      github: githubRequests,
+      textModel: options.scriptWriter ? 1 : 0,
+      imageModel: options.scriptWriter && options.perPanel ? style.panels : options.variants ?? 1,
+    },
+    redactions: built.redactions,
+    episode: options.sequel ? (built.previous?.episode ?? 0) + 1 : undefined,
+    changes: built.changes,
+  };
+}
+
+/**
+ * Fetches data for a subject and builds everything generateGithubComic would
+ * send, without calling the image provider or script writer
+ *
+ * @param subject - GitHub username, subject string (`org:name`, `owner/repo`) or parsed subject
+ * @param config - Configuration; only GITHUB_TOKEN is used
+ * @param options - The options a real run would use
+ * @returns Prompt, featured repositories and an estimate of API calls
+ */
+export async function previewComic(
+  subject: string | ComicSubject,
+  config: Partial<Config>,
+  options: GenerateComicOptions = {}
+): Promise<ComicPreview> {
+  subject = typeof subject === 'string' ? parseSubject(subject) : subject;
+  let githubRequests = 0;
+  const built = await prepareComicPrompt(subject, config, {
+    ...options,
+    github: {
+      ...options.github,
+      onRequest: (url) => {
+        githubRequests++;
+        options.github?.onRequest?.(url);
+      },
+    },
+  });
+  return toComicPreview(subject, built, options, githubRequests);
+}
+
+/**
+ * Builds a preview from repositories already on hand, fully offline. Selection
+ * filters, the repository count and style options apply as in a real run.
+ *
+ * @param subject - User or organization the repositories belong to
+ * @param repos - Repositories, e.g. from loadRepoFile
+ * @param options - The options a real run would use; enrichment is not available offline
+ * @returns Prompt, featured repositories and an estimate of API calls
+ * @throws Error for repository subjects, or if no repository matches the selection
+ */
+export function previewComicFromRepos(
+  subject: string | ComicSubject,
+  repos: RepoInfo[],
+  options: GenerateComicOptions = {}
+): ComicPreview {
+  subject = typeof subject === 'string' ? parseSubject(subject) : subject;
+  if (subject.type === 'repo' || subject.type === 'local' || subject.type === 'team') {
+    throw new Error('Offline previews support users and organizations, not single, local or multiple subjects');
   }
+  const { repoCount = 3 } = options;
+  const safety = createSafetyFilter(options.safety);
+  const selected = selectRepositories(safety.exclude(repos), options.selection);
+  if (selected.length === 0) {
+    throw new Error(`No repositories for ${formatSubject(subject)} match the selection filters`);
+  }
+  const built = createReposPrompt(subject, safety.clean(selected.slice(0, repoCount)), repoCount, options);
+  return toComicPreview(subject, { ...built, redactions: safety.redactions }, options, 0);
+}
+
+/**
+ * Repository fields accepted in offline preview files; extra fields are ignored
+ */
+export const repoInfoSchema = z.object({
+  name: z.string().min(1),
+  description: z.string().nullable().default(null),
+  stargazers_count: z.number().optional(),
+  language: z.string().nullable().optional(),
+  forks_count: z.number().optional(),
+  fork: z.boolean().optional(),
+  archived: z.boolean().optional(),
+  topics: z.array(z.string()).optional(),
+  pushed_at: z.string().nullable().optional(),
+  updated_at: z.string().nullable().optional(),
+  created_at: z.string().nullable().optional(),
+  open_issues_count: z.number().optional(),
+  license: z.string().nullable().optional(),
+  private: z.boolean().optional(),
+});
+
+/**
+ * Reads a JSON array of repositories, e.g. saved from the GitHub API, for offline previews
+ *
+ * @param filePath - Path to the JSON file
+ * @returns Validated repositories
+ * @throws Error if the file cannot be read, is not JSON or is not an array of repositories
+ */
+export async function loadRepoFile(filePath: string): Promise<RepoInfo[]> {
+  const text = await fs.readFile(filePath, 'utf8');
+
+  let value: unknown;
+  try {
+    value = JSON.parse(text);
+  } catch (error) {
+    throw new Error(`Repository file is not valid JSON: ${filePath}`);
+  }
+
+  const result = z.array(repoInfoSchema).min(1, 'At least one repository is required').safeParse(value);
+  if (!result.success) {
+    const issues = result.error.issues
+      .slice(0, 3)
+      .map((issue) => `${issue.path.join('.') || '(root)'}: ${issue.message}`)
+      .join('; ');
+    throw new Error(`Invalid repository file: ${issues}`);
+  }
+  return result.data as RepoInfo[];
 }
 
 /**
  * Main function to generate a GitHub comic
  *
- * @param user - GitHub username
- * @param config - Configuration with API keys
- * @param options - Optional parameters
+ * @param subject - GitHub username, subject string (`org:name`, `owner/repo`) or parsed subject
+ * @param config - Configuration with API keys (AI_GATEWAY_API_KEY may be omitted when a provider is given)
+ * @param options - Optional parameters; `onEvent` receives progress events and `signal` cancels the run
  * @returns Image result with file path and name
+ * @throws Error if neither an API key nor a provider is available, AbortedError if `options.signal` is aborted
  */
 export async function generateGithubComic(
-  user: string,
-  config: Config,
-  options: {
-    repoCount?: number;
-    outputDir?: string;
-  } = {}
+  subject: string | ComicSubject,
+  config: Partial<Config>,
+  options: GenerateComicOptions = {}
+): Promise<ImageResult> {
+  const emit = createEventReporter(options.onEvent);
+  try {
+    return await runComic(subject, config, { ...options, onEvent: emit });
+  } catch (error) {
+    const failure = options.signal?.aborted ? toAbortedError(options.signal) : error;
+    emit({ type: 'error', error: failure });
+    throw failure;
+  }
+}
+
+/**
+ * Fetches data, builds the prompt, generates the comic and records it, for generateGithubComic
+ */
+async function runComic(
+  subject: string | ComicSubject,
+  config: Partial<Config>,
+  options: GenerateComicOptions
 ): Promise<ImageResult> {
-  const { repoCount = 3, outputDir = './output' } = options;
+  const { outputDir = './output' } = options;
+
+  if (!options.provider && !config.AI_GATEWAY_API_KEY) {
+    throw new ConfigError('AI_GATEWAY_API_KEY is required when no image provider is supplied');
+  }
+  const provider = options.provider ?? createGeminiProvider({ apiKey: config.AI_GATEWAY_API_KEY });
 
-  const repos = await fetchRepositories(user, config.GITHUB_TOKEN);
-  const prompt = createComicPrompt(repos, user, repoCount);
-  const image = await generateComicImage(prompt, config.AI_GATEWAY_API_KEY, outputDir);
+  // Validate style and filename options before spending any API calls
+  const style = resolveComicStyle(options.style);
+  if (options.output?.filenameTemplate) {
+    renderFilename(options.output.filenameTemplate, { prompt: '', provider, startedAt: new Date() });
+  }
+  checkVariants(options.variants, Boolean(options.scriptWriter && options.perPanel));
 
-  return image;
+  subject = typeof subject === 'string' ? parseSubject(subject) : subject;
+  const { prompt, repos, dataHash, redactions, snapshot } = await prepareComicPrompt(subject, config, options);
+  const details: ComicDetails = {
+    subject: formatSubject(subject),
+    user: subject.type === 'repo' ? subject.owner
+      : subject.type === 'local' ? path.basename(path.resolve(subject.path))
+      : subject.type === 'team' ? subject.logins.join(subject.mode === 'versus' ? '-vs-' : '-')
+      : subject.login,
+    theme: style.theme,
+    panels: style.panels,
+    repos,
+    redactions,
+  };
+  // Retry inside the cache, so an image that fails validation is never stored
+  const emit = createEventReporter(options.onEvent);
+  const retrying = withRetry(provider, options.retry, emit);
+  const imageProvider = options.cache
+    ? cacheImageProvider(retrying, options.cache, { subject: details.subject, dataHash })
+    : retrying;
+  const imageOptions: ComicImageOptions = {
+    seed: options.seed,
+    output: options.output,
+    details,
+    variants: options.variants,
+    onEvent: emit,
+    signal: options.signal,
+  };
+
+  let result: ImageResult;
+  if (options.scriptWriter) {
+    throwIfAborted(options.signal);
+    emit({ type: 'generation-start', stage: 'script', provider: options.scriptWriter.name, model: options.scriptWriter.model });
+    const script = await options.scriptWriter.write(prompt, { panels: style.panels, signal: options.signal });
+    result = await generateComicFromScript(script, imageProvider, outputDir, {
+      ...imageOptions,
+      perPanel: options.perPanel,
+      composite: options.composite === false ? false : {
+        ...options.composite,
+        subtitle: options.composite?.subtitle ?? `${details.subject} · ${new Date().toISOString().slice(0, 10)}`,
+      },
+    });
+  } else {
+    result = await generateComicImage(prompt, imageProvider, outputDir, imageOptions);
+  }
+
+  if (!options.history) {
+    return result;
+  }
+  const episode = await options.history.record({
+    subject: details.subject!,
+    theme: style.theme,
+    panels: style.panels,
+    prompt,
+    script: result.script,
+    repos,
+    snapshot,
+    files: result.artifacts?.map((artifact) => artifact.filePath)
+      ?? [result.filePath, ...(result.panels ?? []).map((panel) => panel.filePath)],
+  });
+  return { ...result, episode: episode.episode };
 }
@@ -0,0 +1,272 @@
+import type { Bitmap } from './png.js';
+import { canonicalCodes, huffmanCodeLengths } from './huffman.js';
+
+/** Natural (row-major) index of each coefficient in zig-zag order */
+const ZIGZAG = [
+  0, 1, 8, 16, 9, 2, 3, 10, 17, 24, 32, 25, 18, 11, 4, 5,
+  12, 19, 26, 33, 40, 48, 41, 34, 27, 20, 13, 6, 7, 14, 21, 28,
+  35, 42, 49, 56, 57, 50, 43, 36, 29, 22, 15, 23, 30, 37, 44, 51,
+  58, 59, 52, 45, 38, 31, 39, 46, 53, 60, 61, 54, 47, 55, 62, 63,
+];
+
+// Example quantization tables from the JPEG specification (Annex K), row-major
+const LUMA_QUANT = [
+  16, 11, 10, 16, 24, 40, 51, 61,
+  12, 12, 14, 19, 26, 58, 60, 55,
+  14, 13, 16, 24, 40, 57, 69, 56,
+  14, 17, 22, 29, 51, 87, 80, 62,
+  18, 22, 37, 56, 68, 109, 103, 77,
+  24, 35, 55, 64, 81, 104, 113, 92,
+  49, 64, 78, 87, 103, 121, 120, 101,
+  72, 92, 95, 98, 112, 100, 103, 99,
+];
+
+const CHROMA_QUANT = [
+  17, 18, 24, 47, 99, 99, 99, 99,
+  18, 21, 26, 66, 99, 99, 99, 99,
+  24, 26, 56, 99, 99, 99, 99, 99,
+  47, 66, 99, 99, 99, 99, 99, 99,
+  ...new Array<number>(32).fill(99),
+];
+
+const COSINES = Array.from({ length: 8 }, (_, x) =>
+  Array.from({ length: 8 }, (_, u) => Math.cos(((2 * x + 1) * u * Math.PI) / 16))
+);
+
+function scaleQuantTable(table: number[], quality: number): number[] {
+  const scale = quality < 50 ? 5000 / quality : 200 - quality * 2;
+  return table.map((value) => Math.min(255, Math.max(1, Math.floor((value * scale + 50) / 100))));
+}
+
+/**
+ * Forward DCT and quantization of one 8x8 block; returns coefficients in zig-zag order
+ */
+function transformBlock(block: Float64Array, quant: number[]): Int16Array {
+  const temp = new Float64Array(64);
+  for (let y = 0; y < 8; y++) {
+    for (let u = 0; u < 8; u++) {
+      let sum = 0;
+      for (let x = 0; x < 8; x++) {
+        sum += block[y * 8 + x] * COSINES[x][u];
+      }
+      temp[y * 8 + u] = sum * (u === 0 ? Math.SQRT1_2 : 1) / 2;
+    }
+  }
+
+  const out = new Int16Array(64);
+  for (let k = 0; k < 64; k++) {
+    const index = ZIGZAG[k];
+    const u = index % 8;
+    const v = index >> 3;
+    let sum = 0;
+    for (let y = 0; y < 8; y++) {
+      sum += temp[y * 8 + u] * COSINES[y][v];
+    }
+    out[k] = Math.round((sum * (v === 0 ? Math.SQRT1_2 : 1)) / 2 / quant[index]);
+  }
+  return out;
+}
+
+/** Number of bits needed for a coefficient's magnitude (JPEG "category") */
+function category(value: number): number {
+  let magnitude = Math.abs(value);
+  let bits = 0;
+  while (magnitude > 0) {
+    bits++;
+    magnitude >>= 1;
+  }
+  return bits;
+}
+
+/** Low bits appended after a Huffman symbol; negative values use one's complement */
+function magnitudeBits(value: number, size: number): number {
+  return (value < 0 ? value - 1 : value) & ((1 << size) - 1);
+}
+
+interface HuffmanTable {
+  lengths: number[];
+  codes: number[];
+}
+
+/**
+ * Builds an optimal table for a symbol histogram. A reserved dummy symbol takes
+ * the longest code so no real symbol is assigned the all-ones code.
+ */
+function buildTable(counts: number[]): HuffmanTable {
+  const withReserved = [...counts, 1];
+  const lengths = huffmanCodeLengths(withReserved, 16);
+  const reserved = counts.length;
+  const longest = Math.max(...lengths);
+  if (lengths[reserved] < longest) {
+    const swap = lengths.indexOf(longest);
+    lengths[swap] = lengths[reserved];
+    lengths[reserved] = longest;
+  }
+  const codes = canonicalCodes(lengths);
+  return { lengths: lengths.slice(0, reserved), codes: codes.slice(0, reserved) };
+}
+
+function segment(marker: number, body: number[]): number[] {
+  const length = body.length + 2;
+  return [0xff, marker, length >> 8, length & 0xff, ...body];
+}
+
+function huffmanSegmentBody(tableClass: number, id: number, table: HuffmanTable): number[] {
+  const counts = new Array<number>(16).fill(0);
+  const symbols: number[] = [];
+  for (let length = 1; length <= 16; length++) {
+    table.lengths.forEach((symbolLength, symbol) => {
+      if (symbolLength === length) {
+        counts[length - 1]++;
+        symbols.push(symbol);
+      }
+    });
+  }
+  return [(tableClass << 4) | id, ...counts, ...symbols];
+}
+
+/**
+ * Encodes an RGBA bitmap as a baseline JPEG (4:4:4, per-image optimized
+ * Huffman tables). Transparent pixels are flattened onto white.
+ *
+ * @param bitmap - Pixels to encode
+ * @param quality - Quality from 1 (smallest) to 100 (best) (default: 90)
+ * @returns JPEG file bytes
+ */
+export function encodeJpeg(bitmap: Bitmap, quality: number = 90): Buffer {
+  const { width, height, data } = bitmap;
+  if (data.length !== width * height * 4) {
+    throw new Error(`Bitmap data length ${data.length} does not match ${width}x${height} RGBA`);
+  }
+  if (width > 65535 || height > 65535) {
+    throw new Error(`JPEG dimensions are limited to 65535 pixels, got ${width}x${height}`);
+  }
+  if (!Number.isInteger(quality) || quality < 1 || quality > 100) {
+    throw new Error('JPEG quality must be an integer between 1 and 100');
+  }
+
+  const quant = [scaleQuantTable(LUMA_QUANT, quality), scaleQuantTable(CHROMA_QUANT, quality)];
+
+  // Transform every block first so the Huffman tables can be fitted to the image
+  const blocks: Int16Array[] = [];
+  const components = [new Float64Array(64), new Float64Array(64), new Float64Array(64)];
+  for (let by = 0; by < height; by += 8) {
+    for (let bx = 0; bx < width; bx += 8) {
+      for (let y = 0; y < 8; y++) {
+        for (let x = 0; x < 8; x++) {
+          // Replicate edge pixels into the padding of partial blocks
+          const px = Math.min(bx + x, width - 1);
+          const py = Math.min(by + y, height - 1);
+          const offset = (py * width + px) * 4;
+          const alpha = data[offset + 3] / 255;
+          const r = data[offset] * alpha + 255 * (1 - alpha);
+          const g = data[offset + 1] * alpha + 255 * (1 - alpha);
+          const b = data[offset + 2] * alpha + 255 * (1 - alpha);
+          components[0][y * 8 + x] = 0.299 * r + 0.587 * g + 0.114 * b - 128;
+          components[1][y * 8 + x] = -0.168736 * r - 0.331264 * g + 0.5 * b;
+          components[2][y * 8 + x] = 0.5 * r - 0.418688 * g - 0.081312 * b;
+        }
+      }
+      blocks.push(
+        transformBlock(components[0], quant[0]),
+        transformBlock(components[1], quant[1]),
+        transformBlock(components[2], quant[1])
+      );
+    }
+  }
+
+  // Collect symbols: luma uses table 0, chroma shares table 1
+  const dcCounts = [new Array<number>(12).fill(0), new Array<number>(12).fill(0)];
+  const acCounts = [new Array<number>(256).fill(0), new Array<number>(256).fill(0)];
+  const visit = (emit: (table: number, ac: boolean, symbol: number, value: number, size: number) => void) => {
+    const previousDc = [0, 0, 0];
+    blocks.forEach((block, idx) => {
+      const component = idx % 3;
+      const table = component === 0 ? 0 : 1;
+      const diff = block[0] - previousDc[component];
+      previousDc[component] = block[0];
+      const dcSize = category(diff);
+      emit(table, false, dcSize, diff, dcSize);
+
+      let run = 0;
+      for (let k = 1; k < 64; k++) {
+        const value = block[k];
+        if (value === 0) {
+          run++;
+          continue;
+        }
+        while (run > 15) {
+          emit(table, true, 0xf0, 0, 0);
+          run -= 16;
+        }
+        const size = category(value);
+        emit(table, true, (run << 4) | size, value, size);
+        run = 0;
+      }
+      if (run > 0) {
+        emit(table, true, 0x00, 0, 0);
+      }
+    });
+  };
+
+  visit((table, ac, symbol) => {
+    (ac ? acCounts : dcCounts)[table][symbol]++;
+  });
+  const dcTables = dcCounts.map(buildTable);
+  const acTables = acCounts.map(buildTable);
+
+  const scan: number[] = [];
+  let accumulator = 0;
+  let bitCount = 0;
+  const writeBits = (value: number, bits: number) => {
+    for (let i = bits - 1; i >= 0; i--) {
+      accumulator = (accumulator << 1) | ((value >> i) & 1);
+      bitCount++;
+      if (bitCount === 8) {
+        scan.push(accumulator);
+        // Byte-stuff 0xFF so it is not mistaken for a marker
+        if (accumulator === 0xff) {
+          scan.push(0);
+        }
+        accumulator = 0;
+        bitCount = 0;
+      }
+    }
+  };
+
+  visit((table, ac, symbol, value, size) => {
+    const { codes, lengths } = (ac ? acTables : dcTables)[table];
+    writeBits(codes[symbol], lengths[symbol]);
+    if (size > 0) {
+      writeBits(magnitudeBits(value, size), size);
+    }
+  });
+  // Pad the final byte with 1 bits
+  if (bitCount > 0) {
+    writeBits(0xff, 8 - bitCount);
+  }
+
+  const header = [
+    0xff, 0xd8,
+    ...segment(0xe0, [0x4a, 0x46, 0x49, 0x46, 0x00, 1, 1, 0, 0, 1, 0, 1, 0, 0]),
+    ...segment(0xdb, [
+      0, ...ZIGZAG.map((index) => quant[0][index]),
+      1, ...ZIGZAG.map((index) => quant[1][index]),
+    ]),
+    ...segment(0xc0, [
+      8, height >> 8, height & 0xff, width >> 8, width & 0xff, 3,
+      1, 0x11, 0,
+      2, 0x11, 1,
+      3, 0x11, 1,
+    ]),
+    ...segment(0xc4, [
+      ...huffmanSegmentBody(0, 0, dcTables[0]),
+      ...huffmanSegmentBody(1, 0, acTables[0]),
+      ...huffmanSegmentBody(0, 1, dcTables[1]),
+      ...huffmanSegmentBody(1, 1, acTables[1]),
+    ]),
+    ...segment(0xda, [3, 1, 0x00, 2, 0x11, 3, 0x11, 0, 63, 0]),
+  ];
+
+  return Buffer.concat([Buffer.from(header), Buffer.from(scan), Buffer.from([0xff, 0xd9])]);
+}
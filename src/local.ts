@@ -0,0 +1,165 @@
+import { execFile } from 'child_process';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { promisify } from 'util';
+import { ConfigError, NotFoundError } from './errors.js';
+import { summarizeReadme, type RepositoryStory } from './index.js';
+
+/**
+ * Language names by file extension, for repositories that are not on GitHub
+ */
+const LANGUAGES_BY_EXTENSION: Record<string, string> = {
+  '.ts': 'TypeScript', '.tsx': 'TypeScript', '.mts': 'TypeScript', '.cts': 'TypeScript',
+  '.js': 'JavaScript', '.jsx': 'JavaScript', '.mjs': 'JavaScript', '.cjs': 'JavaScript',
+  '.py': 'Python', '.rb': 'Ruby', '.go': 'Go', '.rs': 'Rust', '.java': 'Java', '.kt': 'Kotlin',
+  '.kts': 'Kotlin', '.scala': 'Scala', '.swift': 'Swift', '.m': 'Objective-C', '.c': 'C', '.h': 'C',
+  '.cc': 'C++', '.cpp': 'C++', '.cxx': 'C++', '.hpp': 'C++', '.cs': 'C#', '.fs': 'F#', '.php': 'PHP',
+  '.pl': 'Perl', '.lua': 'Lua', '.r': 'R', '.jl': 'Julia', '.dart': 'Dart', '.ex': 'Elixir',
+  '.exs': 'Elixir', '.erl': 'Erlang', '.hs': 'Haskell', '.clj': 'Clojure', '.ml': 'OCaml',
+  '.zig': 'Zig', '.nim': 'Nim', '.sh': 'Shell', '.bash': 'Shell', '.ps1': 'PowerShell',
+  '.sql': 'SQL', '.vue': 'Vue', '.svelte': 'Svelte', '.html': 'HTML', '.css': 'CSS', '.scss': 'SCSS',
+  '.tf': 'HCL', '.sol': 'Solidity',
+};
+
+/**
+ * Share of a working copy's files written in one language
+ */
+export interface LanguageShare {
+  language: string;
+  files: number;
+}
+
+/**
+ * Options for readLocalRepository
+ */
+export interface LocalRepositoryOptions {
+  /** Number of recent commit messages, tags and authors to read (default: 5) */
+  limit?: number;
+}
+
+/** Runs git in a directory and returns its standard output */
+export type GitCommand = (args: string[], cwd: string) => Promise<string>;
+
+const runGit: GitCommand = async (args, cwd) => {
+  const { stdout } = await promisify(execFile)('git', args, { cwd, maxBuffer: 64 * 1024 * 1024 });
+  return stdout;
+};
+
+/**
+ * Counts tracked files per language by extension, most files first
+ *
+ * @param files - Paths relative to the repository root
+ * @returns Languages with at least one file
+ */
+export function detectLanguages(files: string[]): LanguageShare[] {
+  const counts = new Map<string, number>();
+  for (const file of files) {
+    const language = LANGUAGES_BY_EXTENSION[path.extname(file).toLowerCase()];
+    if (language) {
+      counts.set(language, (counts.get(language) ?? 0) + 1);
+    }
+  }
+  return [...counts.entries()]
+    .map(([language, files]) => ({ language, files }))
+    .sort((a, b) => b.files - a.files || a.language.localeCompare(b.language));
+}
+
+/**
+ * Takes the owner from a remote URL such as `git@host:owner/repo.git` or
+ * `https://host/owner/repo`, or returns null
+ */
+function ownerFromRemote(url: string): string | null {
+  const match = url.trim().match(/[:/]([^/:]+)\/[^/]+?(?:\.git)?\/?$/);
+  return match ? match[1] : null;
+}
+
+function lines(output: string): string[] {
+  return output.split('\n').map((line) => line.trim()).filter(Boolean);
+}
+
+/**
+ * Reads the story of a git working copy without any network access: commit
+ * history, top authors, languages by file extension, tags and the README
+ *
+ * @param dir - Path to the working copy (or any directory inside it)
+ * @param options - How many commits, tags and authors to read
+ * @param git - Git runner, replaceable in tests
+ * @returns Repository story for createRepositoryStoryPrompt; `repo` also works with createComicPrompt
+ * @throws NotFoundError if the directory does not exist
+ * @throws ConfigError if it is not a git repository, has no commits or git is not installed
+ */
+export async function readLocalRepository(
+  dir: string,
+  options: LocalRepositoryOptions = {},
+  git: GitCommand = runGit
+): Promise<RepositoryStory> {
+  const { limit = 5 } = options;
+  const absolute = path.resolve(dir);
+  try {
+    if (!(await fs.stat(absolute)).isDirectory()) {
+      throw new ConfigError(`Not a directory: ${dir}`);
+    }
+  } catch (error) {
+    if (error instanceof ConfigError) {
+      throw error;
+    }
+    throw new NotFoundError(`Local repository not found: ${dir}`, dir);
+  }
+
+  let root: string;
+  try {
+    root = (await git(['rev-parse', '--show-toplevel'], absolute)).trim();
+  } catch (error) {
+    throw new ConfigError((error as NodeJS.ErrnoException).code === 'ENOENT'
+      ? 'git is required to read local repositories, but it was not found'
+      : `Not a git repository: ${dir}`, { cause: error });
+  }
+
+  const read = (args: string[]) => git(args, root);
+  let head: string[];
+  try {
+    head = lines(await read(['log', `-n${limit}`, '--format=%aI%x09%s']));
+  } catch (error) {
+    throw new ConfigError(`Local repository has no commits yet: ${dir}`, { cause: error });
+  }
+
+  const [count, roots, authors, tags, files, remote] = await Promise.all([
+    read(['rev-list', '--count', 'HEAD']),
+    read(['rev-list', '--max-parents=0', '--format=%aI', 'HEAD']),
+    read(['shortlog', '-sn', '--no-merges', 'HEAD']),
+    read(['for-each-ref', '--sort=-creatordate', `--count=${limit}`, '--format=%(refname:short)%09%(creatordate:iso-strict)', 'refs/tags']),
+    read(['ls-files']),
+    read(['config', '--get', 'remote.origin.url']).catch(() => ''),
+  ]);
+
+  const fileList = lines(files);
+  const languages = detectLanguages(fileList);
+  const readmeFile = fileList.find((file) => /^readme(\.\w+)?$/i.test(file));
+  const readme = readmeFile ? await fs.readFile(path.join(root, readmeFile), 'utf8').catch(() => null) : null;
+  // rev-list prints a "commit <sha>" line before each root's date; the oldest root comes last
+  const createdAt = lines(roots).filter((line) => !line.startsWith('commit ')).sort()[0] ?? null;
+
+  return {
+    owner: ownerFromRemote(remote) ?? '',
+    repo: {
+      name: path.basename(root),
+      description: null,
+      language: languages[0]?.language ?? null,
+      created_at: createdAt,
+      pushed_at: head[0]?.split('\t')[0] ?? null,
+    },
+    readmeSummary: readme ? summarizeReadme(readme) : null,
+    releases: lines(tags).map((line) => {
+      const [tag, date] = line.split('\t');
+      return { tag, name: null, publishedAt: date || null };
+    }),
+    contributors: lines(authors).slice(0, limit).map((line) => {
+      const [contributions, login] = line.split('\t');
+      return { login, contributions: Number(contributions) };
+    }),
+    recentCommits: head.map((line) => line.slice(line.indexOf('\t') + 1)),
+    commitCount: Number(count.trim()),
+    languages,
+    local: true,
+  };
+}
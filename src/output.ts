@@ -0,0 +1,369 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { ConfigError } from './errors.js';
+import { extensionForMediaType, type GeneratedImage } from './providers.js';
+import type { ComicScript } from './script.js';
+import type { Redaction } from './safety.js';
+import { decodePng, encodePng, isPng, readPngSize } from './png.js';
+import { encodeJpeg } from './jpeg.js';
+import { encodeWebp } from './webp.js';
+import { escapeXml } from './text.js';
+
+/**
+ * Files that can be written for a generated comic
+ */
+export const OUTPUT_FORMATS = ['png', 'webp', 'jpeg', 'svg', 'html', 'markdown'] as const;
+
+export type OutputFormat = (typeof OUTPUT_FORMATS)[number];
+
+/** Placeholders available in filename templates, e.g. `{user}-{theme}-{date}` */
+export const FILENAME_PLACEHOLDERS = ['user', 'subject', 'theme', 'date', 'timestamp', 'provider', 'model', 'seed'] as const;
+
+export const DEFAULT_FILENAME_TEMPLATE = 'github-comic-{timestamp}';
+
+/**
+ * Options controlling which files are written for a comic
+ */
+export interface OutputOptions {
+  /** Formats to write; the first image format is the primary file (default: the provider's own format) */
+  formats?: OutputFormat[];
+  /** Filename without extension, with {placeholders} (default: 'github-comic-{timestamp}') */
+  filenameTemplate?: string;
+  /** Also write a `<name>.json` file recording how the comic was made */
+  sidecar?: boolean;
+  /** JPEG quality, 1–100 (default: 90) */
+  jpegQuality?: number;
+}
+
+/**
+ * What is known about a comic when it is saved, used for filenames and metadata
+ */
+export interface ComicOutputInfo {
+  prompt: string;
+  provider: { name: string; model?: string };
+  seed?: number;
+  /** When generation started; also the source of {date} and {timestamp} */
+  startedAt: Date;
+  /** Subject as shown to users, e.g. "octocat" or "org:github" */
+  subject?: string;
+  /** User, organization or repository owner login */
+  user?: string;
+  theme?: string;
+  panels?: number;
+  /** Names of the repositories featured in the prompt */
+  repos?: string[];
+  /** What the safety filter left out of the prompt */
+  redactions?: Redaction[];
+  script?: ComicScript;
+  /** Every candidate of a best-of-N generation */
+  variants?: VariantSummary[];
+}
+
+/**
+ * One candidate of a best-of-N generation, as recorded in the metadata
+ */
+export interface VariantSummary {
+  /** Candidate number, 1-based */
+  variant: number;
+  seed?: number;
+  /** Score from checkImage; absent when the candidate failed */
+  score?: number;
+  /** Why the candidate failed, after its retries */
+  error?: string;
+  /** Whether this candidate became the comic */
+  primary: boolean;
+}
+
+/**
+ * Comic details supplied by the caller rather than the generation itself
+ */
+export type ComicDetails = Pick<ComicOutputInfo, 'subject' | 'user' | 'theme' | 'panels' | 'repos' | 'redactions' | 'script'>;
+
+/**
+ * Contents of the JSON sidecar
+ */
+export interface ComicMetadata {
+  prompt: string;
+  provider: string;
+  model?: string;
+  seed?: number;
+  subject?: string;
+  theme?: string;
+  panels?: number;
+  repos?: string[];
+  redactions?: Redaction[];
+  script?: ComicScript;
+  /** Every candidate of a best-of-N generation, with its score and which one was kept */
+  variants?: VariantSummary[];
+  startedAt: string;
+  finishedAt: string;
+  /** Names of the files written next to the sidecar */
+  files: string[];
+}
+
+/**
+ * A file written for a comic
+ */
+export interface OutputArtifact {
+  /** Requested format, 'original' for the provider's image as-is, or 'sidecar' */
+  format: OutputFormat | 'original' | 'sidecar';
+  mediaType: string;
+  filePath: string;
+  fileName: string;
+}
+
+/**
+ * Parses a comma-separated list of output formats
+ *
+ * @param input - e.g. "png,webp,markdown"
+ * @returns Formats in the given order, without duplicates
+ * @throws ConfigError if a format is unknown
+ */
+export function parseOutputFormats(input: string): OutputFormat[] {
+  const formats = input.split(',').map((format) => format.trim().toLowerCase()).filter(Boolean);
+  for (const format of formats) {
+    if (!(OUTPUT_FORMATS as readonly string[]).includes(format)) {
+      throw new ConfigError(`Unknown output format: ${format}. Expected one of: ${OUTPUT_FORMATS.join(', ')}`);
+    }
+  }
+  if (formats.length === 0) {
+    throw new ConfigError('At least one output format is required');
+  }
+  return [...new Set(formats)] as OutputFormat[];
+}
+
+/**
+ * Fills a filename template. Values are reduced to letters, digits, `.`, `_`
+ * and `-` so they cannot introduce path separators.
+ *
+ * @param template - Template such as `{user}-{theme}-{date}`
+ * @param info - Comic details supplying the placeholder values
+ * @returns Filename without extension
+ * @throws ConfigError if the template uses an unknown placeholder or contains a path separator
+ */
+export function renderFilename(template: string, info: ComicOutputInfo): string {
+  if (/[\\/]/.test(template)) {
+    throw new ConfigError(`Filename template must not contain path separators: ${template}`);
+  }
+
+  const values: Record<(typeof FILENAME_PLACEHOLDERS)[number], string | undefined> = {
+    user: info.user,
+    subject: info.subject,
+    theme: info.theme,
+    date: info.startedAt.toISOString().slice(0, 10),
+    timestamp: String(info.startedAt.getTime()),
+    provider: info.provider.name,
+    model: info.provider.model,
+    seed: info.seed === undefined ? undefined : String(info.seed),
+  };
+
+  const name = template.replace(/\{(\w+)\}/g, (placeholder, key: string) => {
+    if (!Object.prototype.hasOwnProperty.call(values, key)) {
+      throw new ConfigError(`Unknown filename placeholder: ${placeholder}. Expected one of: ${FILENAME_PLACEHOLDERS.map((p) => `{${p}}`).join(', ')}`);
+    }
+    return (values[key as keyof typeof values] ?? 'unknown').replace(/[^\w.-]+/g, '-');
+  });
+
+  if (name.trim().length === 0 || name === '.' || name === '..') {
+    throw new ConfigError(`Filename template produced an invalid name: ${template}`);
+  }
+  return name;
+}
+
+/**
+ * Converts an image to PNG, WebP or JPEG. Images already in the target format
+ * are returned unchanged; other conversions need a PNG source.
+ *
+ * @param image - Source image
+ * @param format - Target raster format
+ * @param options - JPEG quality
+ * @returns Converted image
+ * @throws Error if the source cannot be decoded
+ */
+export function convertImage(
+  image: GeneratedImage,
+  format: 'png' | 'webp' | 'jpeg',
+  options: { jpegQuality?: number } = {}
+): GeneratedImage {
+  const mediaType = `image/${format}`;
+  if (image.mediaType === mediaType) {
+    return image;
+  }
+  if (!isPng(image.data)) {
+    throw new Error(`Cannot convert ${image.mediaType} to ${format}; only PNG images can be converted`);
+  }
+
+  const bitmap = decodePng(image.data);
+  switch (format) {
+    case 'png':
+      return { data: encodePng(bitmap), mediaType };
+    case 'webp':
+      return { data: encodeWebp(bitmap), mediaType };
+    case 'jpeg':
+      return { data: encodeJpeg(bitmap, options.jpegQuality), mediaType };
+  }
+}
+
+function dataUri(image: GeneratedImage): string {
+  return `data:${image.mediaType};base64,${Buffer.from(image.data).toString('base64')}`;
+}
+
+function describeComic(info: ComicOutputInfo): string {
+  return info.subject ? `Comic strip about ${info.subject}` : 'Comic strip';
+}
+
+/**
+ * Wraps a raster image in an SVG document; SVG images are returned unchanged
+ */
+export function wrapInSvg(image: GeneratedImage): GeneratedImage {
+  if (image.mediaType === 'image/svg+xml') {
+    return image;
+  }
+  const { width, height } = readPngSize(image.data) ?? { width: 1024, height: 1024 };
+  const svg = `<?xml version="1.0" encoding="UTF-8"?>
+<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">
+  <image width="${width}" height="${height}" href="${dataUri(image)}"/>
+</svg>
+`;
+  return { data: new TextEncoder().encode(svg), mediaType: 'image/svg+xml' };
+}
+
+/**
+ * Renders a self-contained HTML page showing the comic
+ */
+export function renderHtmlPage(image: GeneratedImage, info: ComicOutputInfo): string {
+  const title = info.script?.title ?? (info.subject ? `GitHub comic: ${info.subject}` : 'GitHub comic');
+  const details = [
+    info.repos && info.repos.length > 0 ? `Featuring ${info.repos.join(', ')}` : undefined,
+    `Generated ${info.startedAt.toISOString().slice(0, 10)} with ${info.provider.name}${info.provider.model ? ` (${info.provider.model})` : ''}`,
+  ].filter(Boolean).join(' · ');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeXml(title)}</title>
+<style>
+  body { margin: 0; padding: 2rem; font-family: system-ui, sans-serif; background: #f6f8fa; color: #24292f; text-align: center; }
+  img { max-width: 100%; height: auto; border: 4px solid #000; background: #fff; }
+  p { color: #57606a; }
+</style>
+</head>
+<body>
+<h1>${escapeXml(title)}</h1>
+<img src="${dataUri(image)}" alt="${escapeXml(describeComic(info))}">
+<p>${escapeXml(details)}</p>
+</body>
+</html>
+`;
+}
+
+/**
+ * Renders a Markdown snippet for a profile README that shows an image file
+ */
+export function renderMarkdownSnippet(imageFileName: string, info: ComicOutputInfo): string {
+  const alt = describeComic(info).replace(/[[\]]/g, '');
+  return `![${alt}](./${encodeURI(imageFileName)})\n`;
+}
+
+/**
+ * Writes a comic in the requested formats, plus an optional JSON sidecar
+ *
+ * @param image - Final comic image
+ * @param outputDir - Directory to write to (created if missing)
+ * @param info - Comic details for filenames and metadata
+ * @param options - Formats, filename template and sidecar options
+ * @returns Every file written (primary file first) and the recorded metadata
+ * @throws Error if a format conversion or filename template is invalid
+ */
+export async function writeComicOutputs(
+  image: GeneratedImage,
+  outputDir: string,
+  info: ComicOutputInfo,
+  options: OutputOptions = {}
+): Promise<{ artifacts: OutputArtifact[]; metadata: ComicMetadata }> {
+  if (!image.mediaType.startsWith('image/')) {
+    throw new Error(`Invalid file type: ${image.mediaType}`);
+  }
+
+  const stem = renderFilename(options.filenameTemplate ?? DEFAULT_FILENAME_TEMPLATE, info);
+  const formats = options.formats ?? [];
+
+  // Render everything before touching the disk so a failed conversion writes nothing
+  const files: Array<{ format: OutputArtifact['format']; mediaType: string; extension: string; data: Uint8Array | string }> = [];
+  const addImage = (format: OutputArtifact['format'], file: GeneratedImage) => {
+    files.push({ format, mediaType: file.mediaType, extension: extensionForMediaType(file.mediaType), data: file.data });
+  };
+
+  for (const format of formats) {
+    switch (format) {
+      case 'png':
+      case 'webp':
+      case 'jpeg':
+        addImage(format, convertImage(image, format, options));
+        break;
+      case 'svg':
+        addImage(format, wrapInSvg(image));
+        break;
+      case 'html':
+        files.push({ format, mediaType: 'text/html', extension: 'html', data: renderHtmlPage(image, info) });
+        break;
+      case 'markdown':
+        break;
+      default:
+        throw new Error(`Unknown output format: ${format}. Expected one of: ${OUTPUT_FORMATS.join(', ')}`);
+    }
+  }
+
+  // Markdown needs an image file to point at; keep the provider's own format if none was requested
+  if (formats.length === 0 || (formats.includes('markdown') && !files.some((file) => file.mediaType.startsWith('image/')))) {
+    addImage('original', image);
+  }
+  if (formats.includes('markdown')) {
+    const target = files.find((file) => file.mediaType.startsWith('image/'))!;
+    const snippet = { format: 'markdown' as const, mediaType: 'text/markdown', extension: 'md', data: renderMarkdownSnippet(`${stem}.${target.extension}`, info) };
+    files.splice(formats.indexOf('markdown'), 0, snippet);
+  }
+  const primary = files.findIndex((file) => file.mediaType.startsWith('image/'));
+  if (primary > 0) {
+    // The primary file is what callers show and serve as the comic, so it must be an image
+    files.unshift(...files.splice(primary, 1));
+  }
+
+  await fs.mkdir(outputDir, { recursive: true });
+
+  const artifacts: OutputArtifact[] = [];
+  for (const file of files) {
+    const fileName = `${stem}.${file.extension}`;
+    const filePath = path.join(outputDir, fileName);
+    await fs.writeFile(filePath, file.data);
+    artifacts.push({ format: file.format, mediaType: file.mediaType, filePath, fileName });
+  }
+
+  const metadata: ComicMetadata = {
+    prompt: info.prompt,
+    provider: info.provider.name,
+    model: info.provider.model,
+    seed: info.seed,
+    subject: info.subject,
+    theme: info.theme,
+    panels: info.panels,
+    repos: info.repos,
+    redactions: info.redactions,
+    script: info.script,
+    variants: info.variants,
+    startedAt: info.startedAt.toISOString(),
+    finishedAt: new Date().toISOString(),
+    files: artifacts.map((artifact) => artifact.fileName),
+  };
+
+  if (options.sidecar) {
+    const fileName = `${stem}.json`;
+    const filePath = path.join(outputDir, fileName);
+    await fs.writeFile(filePath, `${JSON.stringify(metadata, null, 2)}\n`);
+    artifacts.push({ format: 'sidecar', mediaType: 'application/json', filePath, fileName });
+  }
+
+  return { artifacts, metadata };
+}
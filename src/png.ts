@@ -0,0 +1,281 @@
+import { deflateSync, inflateSync } from 'zlib';
+
+/**
+ * Raw RGBA pixel buffer
+ */
+export interface Bitmap {
+  width: number;
+  height: number;
+  /** RGBA bytes, row-major, 4 bytes per pixel */
+  data: Uint8Array;
+}
+
+const PNG_SIGNATURE = Uint8Array.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+function crc32(bytes: Uint8Array): number {
+  let crc = 0xffffffff;
+  for (let i = 0; i < bytes.length; i++) {
+    crc = CRC_TABLE[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function chunk(type: string, body: Uint8Array): Buffer {
+  const typeAndBody = Buffer.concat([Buffer.from(type, 'ascii'), Buffer.from(body)]);
+  const out = Buffer.alloc(typeAndBody.length + 8);
+  out.writeUInt32BE(body.length, 0);
+  typeAndBody.copy(out, 4);
+  out.writeUInt32BE(crc32(typeAndBody), typeAndBody.length + 4);
+  return out;
+}
+
+/**
+ * Creates a blank bitmap filled with a single color
+ *
+ * @param width - Width in pixels
+ * @param height - Height in pixels
+ * @param rgba - Fill color as [r, g, b, a] (default: opaque white)
+ * @returns New bitmap
+ */
+export function createBitmap(
+  width: number,
+  height: number,
+  rgba: [number, number, number, number] = [255, 255, 255, 255]
+): Bitmap {
+  const data = new Uint8Array(width * height * 4);
+  for (let i = 0; i < data.length; i += 4) {
+    data[i] = rgba[0];
+    data[i + 1] = rgba[1];
+    data[i + 2] = rgba[2];
+    data[i + 3] = rgba[3];
+  }
+  return { width, height, data };
+}
+
+/**
+ * Encodes an RGBA bitmap as a PNG file (8-bit, truecolor with alpha)
+ *
+ * @param bitmap - Pixels to encode
+ * @returns PNG file bytes
+ */
+export function encodePng(bitmap: Bitmap): Buffer {
+  const { width, height, data } = bitmap;
+  if (data.length !== width * height * 4) {
+    throw new Error(`Bitmap data length ${data.length} does not match ${width}x${height} RGBA`);
+  }
+
+  const header = Buffer.alloc(13);
+  header.writeUInt32BE(width, 0);
+  header.writeUInt32BE(height, 4);
+  header[8] = 8; // bit depth
+  header[9] = 6; // color type: RGBA
+  header[10] = 0; // compression
+  header[11] = 0; // filter
+  header[12] = 0; // interlace
+
+  // Each scanline is prefixed with filter type 0 (none)
+  const stride = width * 4;
+  const raw = Buffer.alloc((stride + 1) * height);
+  for (let y = 0; y < height; y++) {
+    raw[y * (stride + 1)] = 0;
+    Buffer.from(data.buffer, data.byteOffset + y * stride, stride).copy(raw, y * (stride + 1) + 1);
+  }
+
+  return Buffer.concat([
+    Buffer.from(PNG_SIGNATURE),
+    chunk('IHDR', header),
+    chunk('IDAT', deflateSync(raw)),
+    chunk('IEND', new Uint8Array(0)),
+  ]);
+}
+
+/**
+ * Checks whether bytes start with the PNG signature
+ */
+export function isPng(bytes: Uint8Array): boolean {
+  return bytes.length >= 8 && PNG_SIGNATURE.every((byte, idx) => bytes[idx] === byte);
+}
+
+/**
+ * Reads image dimensions from a PNG header without decoding pixels
+ *
+ * @param bytes - PNG file bytes
+ * @returns Width and height, or null if the bytes are not a PNG
+ */
+export function readPngSize(bytes: Uint8Array): { width: number; height: number } | null {
+  if (!isPng(bytes) || bytes.length < 24) {
+    return null;
+  }
+  const view = Buffer.from(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  return { width: view.readUInt32BE(16), height: view.readUInt32BE(20) };
+}
+
+function paeth(a: number, b: number, c: number): number {
+  const p = a + b - c;
+  const pa = Math.abs(p - a);
+  const pb = Math.abs(p - b);
+  const pc = Math.abs(p - c);
+  if (pa <= pb && pa <= pc) {
+    return a;
+  }
+  return pb <= pc ? b : c;
+}
+
+/**
+ * Decodes a non-interlaced PNG into an RGBA bitmap. Supports grayscale,
+ * truecolor, palette and alpha variants at 1–16 bits per sample.
+ *
+ * @param bytes - PNG file bytes
+ * @returns Decoded bitmap
+ * @throws Error if the file is not a PNG or uses an unsupported feature
+ */
+export function decodePng(bytes: Uint8Array): Bitmap {
+  if (!isPng(bytes)) {
+    throw new Error('Not a PNG file');
+  }
+
+  const buf = Buffer.from(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let offset = 8;
+  let width = 0;
+  let height = 0;
+  let bitDepth = 0;
+  let colorType = 0;
+  let palette: Uint8Array | null = null;
+  let transparency: Uint8Array | null = null;
+  const idat: Buffer[] = [];
+
+  while (offset + 8 <= buf.length) {
+    const length = buf.readUInt32BE(offset);
+    const type = buf.toString('ascii', offset + 4, offset + 8);
+    const body = buf.subarray(offset + 8, offset + 8 + length);
+    offset += length + 12;
+
+    if (type === 'IHDR') {
+      width = body.readUInt32BE(0);
+      height = body.readUInt32BE(4);
+      bitDepth = body[8];
+      colorType = body[9];
+      if (body[12] !== 0) {
+        throw new Error('Interlaced PNGs are not supported');
+      }
+    } else if (type === 'PLTE') {
+      palette = body;
+    } else if (type === 'tRNS') {
+      transparency = body;
+    } else if (type === 'IDAT') {
+      idat.push(body);
+    } else if (type === 'IEND') {
+      break;
+    }
+  }
+
+  const channels = ({ 0: 1, 2: 3, 3: 1, 4: 2, 6: 4 } as Record<number, number>)[colorType];
+  if (!width || !height || !channels || ![1, 2, 4, 8, 16].includes(bitDepth)) {
+    throw new Error(`Unsupported PNG format (color type ${colorType}, bit depth ${bitDepth})`);
+  }
+  if (colorType === 3 && !palette) {
+    throw new Error('Palette PNG is missing its PLTE chunk');
+  }
+
+  const raw = inflateSync(Buffer.concat(idat));
+  const bitsPerPixel = channels * bitDepth;
+  const bytesPerPixel = Math.max(1, bitsPerPixel >> 3);
+  const stride = Math.ceil((width * bitsPerPixel) / 8);
+
+  if (raw.length < (stride + 1) * height) {
+    throw new Error('PNG image data is truncated');
+  }
+
+  // Undo scanline filters
+  const lines = new Uint8Array(stride * height);
+  for (let y = 0; y < height; y++) {
+    const filter = raw[y * (stride + 1)];
+    const src = y * (stride + 1) + 1;
+    const dst = y * stride;
+    for (let x = 0; x < stride; x++) {
+      const value = raw[src + x];
+      const left = x >= bytesPerPixel ? lines[dst + x - bytesPerPixel] : 0;
+      const up = y > 0 ? lines[dst - stride + x] : 0;
+      const upLeft = y > 0 && x >= bytesPerPixel ? lines[dst - stride + x - bytesPerPixel] : 0;
+      let out: number;
+      switch (filter) {
+        case 0: out = value; break;
+        case 1: out = value + left; break;
+        case 2: out = value + up; break;
+        case 3: out = value + ((left + up) >> 1); break;
+        case 4: out = value + paeth(left, up, upLeft); break;
+        default: throw new Error(`Invalid PNG filter type: ${filter}`);
+      }
+      lines[dst + x] = out & 0xff;
+    }
+  }
+
+  const maxSample = (1 << bitDepth) - 1;
+  const sample = (row: number, index: number): number => {
+    if (bitDepth === 8) {
+      return lines[row * stride + index];
+    }
+    if (bitDepth === 16) {
+      return lines[row * stride + index * 2];
+    }
+    const bit = index * bitDepth;
+    const byte = lines[row * stride + (bit >> 3)];
+    return (byte >> (8 - bitDepth - (bit & 7))) & maxSample;
+  };
+  // Scale sub-byte samples to 0–255 (palette indices stay as-is)
+  const scale = (value: number): number => (bitDepth < 8 ? Math.round((value * 255) / maxSample) : value);
+
+  const bitmap = createBitmap(width, height);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const out = (y * width + x) * 4;
+      const base = x * channels;
+      let r: number, g: number, b: number, a = 255;
+      switch (colorType) {
+        case 0:
+          r = g = b = scale(sample(y, base));
+          break;
+        case 2:
+          r = sample(y, base);
+          g = sample(y, base + 1);
+          b = sample(y, base + 2);
+          break;
+        case 3: {
+          const index = sample(y, base);
+          r = palette[index * 3] ?? 0;
+          g = palette[index * 3 + 1] ?? 0;
+          b = palette[index * 3 + 2] ?? 0;
+          a = transparency && index < transparency.length ? transparency[index] : 255;
+          break;
+        }
+        case 4:
+          r = g = b = sample(y, base);
+          a = sample(y, base + 1);
+          break;
+        default:
+          r = sample(y, base);
+          g = sample(y, base + 1);
+          b = sample(y, base + 2);
+          a = sample(y, base + 3);
+      }
+      bitmap.data[out] = r;
+      bitmap.data[out + 1] = g;
+      bitmap.data[out + 2] = b;
+      bitmap.data[out + 3] = a;
+    }
+  }
+
+  return bitmap;
+}
@@ -0,0 +1,306 @@
+import { ConfigError } from './errors.js';
+import type { RepoInfo, ReleaseInfo } from './index.js';
+import { fetchGithubResource, resolveGithubClient, type GithubClient } from './github.js';
+
+/**
+ * Optional groups of profile data. Each group is opt-in so callers control
+ * how many GitHub API calls are made:
+ *
+ * - `stats`: topics, forks, open issues, license, created/pushed dates (no extra calls)
+ * - `commits`: recent commit messages (one call per featured repository)
+ * - `releases`: recent release tags (one call per featured repository)
+ * - `profile`: bio, location and follower count (one call)
+ */
+export const PROFILE_FIELD_GROUPS = ['stats', 'commits', 'releases', 'profile'] as const;
+
+export type ProfileFieldGroup = (typeof PROFILE_FIELD_GROUPS)[number];
+
+/**
+ * Public profile of a GitHub user or organization
+ */
+export interface UserProfile {
+  login: string;
+  name: string | null;
+  bio: string | null;
+  location: string | null;
+  followers: number;
+  public_repos: number;
+  created_at: string | null;
+}
+
+/**
+ * Repository information with optional extra detail
+ */
+export interface EnrichedRepoInfo extends RepoInfo {
+  recentCommits?: string[];
+  releases?: ReleaseInfo[];
+}
+
+/**
+ * Result of the enrichment pipeline, passed to the prompt builders
+ */
+export interface EnrichedProfile {
+  /** Field groups that were requested */
+  groups: ProfileFieldGroup[];
+  /** Featured repositories, in prompt order */
+  repos: EnrichedRepoInfo[];
+  user?: UserProfile;
+}
+
+/**
+ * Options for enrichProfile
+ */
+export interface EnrichProfileOptions {
+  /** Field groups to include */
+  include: ProfileFieldGroup[];
+  /** Number of featured repositories to enrich (default: 3) */
+  repoCount?: number;
+  /** Number of commits/releases to fetch per repository (default: 3) */
+  perRepo?: number;
+  /** GitHub personal access token, or a GitHub client shared with other calls */
+  token?: string | GithubClient;
+}
+
+/**
+ * Parses a comma-separated list of field groups, accepting `all`
+ *
+ * @param value - e.g. "stats,commits" or "all"
+ * @returns Field groups
+ * @throws ConfigError if a group is unknown
+ */
+export function parseFieldGroups(value: string): ProfileFieldGroup[] {
+  const names = value.split(',').map((name) => name.trim().toLowerCase()).filter(Boolean);
+  if (names.includes('all')) {
+    return [...PROFILE_FIELD_GROUPS];
+  }
+
+  for (const name of names) {
+    if (!PROFILE_FIELD_GROUPS.includes(name as ProfileFieldGroup)) {
+      throw new ConfigError(`Unknown profile field group: ${name}. Expected one of: ${PROFILE_FIELD_GROUPS.join(', ')}, all`);
+    }
+  }
+  return [...new Set(names)] as ProfileFieldGroup[];
+}
+
+/**
+ * Fetches the public profile of a user or organization
+ *
+ * @param login - GitHub login
+ * @param tokenOrClient - Optional GitHub personal access token, or a GitHub client
+ * @returns Profile, or null if the account does not exist
+ */
+export async function fetchUserProfile(login: string, tokenOrClient?: string | GithubClient): Promise<UserProfile | null> {
+  const data = await fetchGithubResource<any>(
+    resolveGithubClient(tokenOrClient),
+    `/users/${encodeURIComponent(login)}`,
+    `profile for ${login}`,
+    null
+  );
+
+  if (!data) {
+    return null;
+  }
+
+  return {
+    login: data.login ?? login,
+    name: data.name ?? null,
+    bio: data.bio ?? null,
+    location: data.location ?? null,
+    followers: data.followers ?? 0,
+    public_repos: data.public_repos ?? 0,
+    created_at: data.created_at ?? null,
+  };
+}
+
+/**
+ * Fetches the first line of the most recent commit messages of a repository
+ *
+ * @param owner - Repository owner
+ * @param repo - Repository name
+ * @param tokenOrClient - Optional GitHub personal access token, or a GitHub client
+ * @param count - Number of commits (default: 3)
+ * @returns Commit message summaries, newest first
+ */
+export async function fetchRecentCommits(
+  owner: string,
+  repo: string,
+  tokenOrClient?: string | GithubClient,
+  count: number = 3
+): Promise<string[]> {
+  const data = await fetchGithubResource<any[]>(
+    resolveGithubClient(tokenOrClient),
+    `/repos/${encodeURIComponent(owner)}/${encodeURIComponent(repo)}/commits?per_page=${count}`,
+    `commits for ${owner}/${repo}`,
+    []
+  );
+
+  return (Array.isArray(data) ? data : [])
+    .map((commit) => String(commit?.commit?.message ?? '').split('\n')[0].trim())
+    .filter(Boolean)
+    .map((message) => (message.length > 80 ? `${message.slice(0, 79)}…` : message));
+}
+
+/**
+ * Fetches the most recent releases of a repository
+ *
+ * @param owner - Repository owner
+ * @param repo - Repository name
+ * @param tokenOrClient - Optional GitHub personal access token, or a GitHub client
+ * @param count - Number of releases (default: 3)
+ * @returns Releases, newest first
+ */
+export async function fetchReleases(
+  owner: string,
+  repo: string,
+  tokenOrClient?: string | GithubClient,
+  count: number = 3
+): Promise<ReleaseInfo[]> {
+  const data = await fetchGithubResource<any[]>(
+    resolveGithubClient(tokenOrClient),
+    `/repos/${encodeURIComponent(owner)}/${encodeURIComponent(repo)}/releases?per_page=${count}`,
+    `releases for ${owner}/${repo}`,
+    []
+  );
+
+  return (Array.isArray(data) ? data : []).map((release) => ({
+    tag: release.tag_name,
+    name: release.name ?? null,
+    publishedAt: release.published_at ?? null,
+  }));
+}
+
+/**
+ * Enriches the featured repositories (and optionally the owner's profile)
+ * with the requested field groups
+ *
+ * @param login - Owner of the repositories (user or organization)
+ * @param repos - Repositories in prompt order; only the first `repoCount` are enriched
+ * @param options - Field groups and limits
+ * @returns Enriched profile for the prompt builders
+ */
+export async function enrichProfile(
+  login: string,
+  repos: RepoInfo[],
+  options: EnrichProfileOptions
+): Promise<EnrichedProfile> {
+  const { include, repoCount = 3, perRepo = 3 } = options;
+  const client = resolveGithubClient(options.token);
+  const featured = repos.slice(0, repoCount);
+
+  const [user, enrichedRepos] = await Promise.all([
+    include.includes('profile') ? fetchUserProfile(login, client) : Promise.resolve(null),
+    Promise.all(featured.map(async (repo): Promise<EnrichedRepoInfo> => {
+      const [recentCommits, releases] = await Promise.all([
+        include.includes('commits') ? fetchRecentCommits(login, repo.name, client, perRepo) : undefined,
+        include.includes('releases') ? fetchReleases(login, repo.name, client, perRepo) : undefined,
+      ]);
+      return { ...repo, recentCommits, releases };
+    })),
+  ]);
+
+  return {
+    groups: include,
+    repos: enrichedRepos,
+    user: user ?? undefined,
+  };
+}
+
+/**
+ * Describes how long ago a date was, e.g. "yesterday", "last week", "3 months ago"
+ *
+ * @param iso - ISO 8601 date
+ * @param now - Reference time (default: current time)
+ * @returns Human-readable relative date, or null if the date is invalid
+ */
+export function formatRelativeDate(iso: string | null | undefined, now: Date = new Date()): string | null {
+  const time = iso ? Date.parse(iso) : NaN;
+  if (isNaN(time)) {
+    return null;
+  }
+
+  const days = Math.floor((now.getTime() - time) / 86_400_000);
+  if (days <= 0) {
+    return 'today';
+  }
+  if (days === 1) {
+    return 'yesterday';
+  }
+  if (days < 7) {
+    return `${days} days ago`;
+  }
+  if (days < 14) {
+    return 'last week';
+  }
+  if (days < 30) {
+    return `${Math.floor(days / 7)} weeks ago`;
+  }
+  if (days < 60) {
+    return 'last month';
+  }
+  if (days < 365) {
+    return `${Math.floor(days / 30)} months ago`;
+  }
+  if (days < 730) {
+    return 'last year';
+  }
+  return `${Math.floor(days / 365)} years ago`;
+}
+
+/**
+ * Formats the extra detail lines for one enriched repository
+ *
+ * @param repo - Enriched repository
+ * @param groups - Field groups to render
+ * @param now - Reference time for relative dates
+ * @returns Indented detail lines (possibly empty)
+ */
+export function describeEnrichedRepo(repo: EnrichedRepoInfo, groups: ProfileFieldGroup[], now: Date = new Date()): string[] {
+  const lines: string[] = [];
+
+  if (groups.includes('stats')) {
+    const created = formatRelativeDate(repo.created_at, now);
+    const pushed = formatRelativeDate(repo.pushed_at, now);
+    const stats = [
+      repo.topics && repo.topics.length > 0 ? `Topics: ${repo.topics.join(', ')}` : null,
+      repo.forks_count ? `Forks: ${repo.forks_count}` : null,
+      repo.open_issues_count ? `Open issues: ${repo.open_issues_count}` : null,
+      repo.license ? `License: ${repo.license}` : null,
+      created ? `Created ${created}` : null,
+      pushed ? `Last push ${pushed}` : null,
+    ].filter(Boolean);
+    if (stats.length > 0) {
+      lines.push(`   ${stats.join(' | ')}`);
+    }
+  }
+
+  if (groups.includes('commits') && repo.recentCommits && repo.recentCommits.length > 0) {
+    lines.push(`   Recent commits: ${repo.recentCommits.map((m) => `"${m}"`).join('; ')}`);
+  }
+
+  if (groups.includes('releases') && repo.releases && repo.releases.length > 0) {
+    const releases = repo.releases.map((r) => {
+      const when = formatRelativeDate(r.publishedAt, now);
+      return when ? `${r.tag} (${when})` : r.tag;
+    });
+    lines.push(`   Releases: ${releases.join(', ')}`);
+  }
+
+  return lines;
+}
+
+/**
+ * Formats a one-line description of the user's profile for prompts
+ *
+ * @param user - Profile data
+ * @returns Description
+ */
+export function describeUserProfile(user: UserProfile): string {
+  const parts = [
+    user.name ? `Name: ${user.name}` : null,
+    user.bio ? `Bio: ${user.bio}` : null,
+    user.location ? `Location: ${user.location}` : null,
+    `Followers: ${user.followers}`,
+  ].filter(Boolean);
+
+  return parts.join(' | ');
+}
@@ -0,0 +1,226 @@
+import { generateText } from 'ai';
+import { google } from '@ai-sdk/google';
+import { createHash } from 'crypto';
+import { createBitmap, encodePng } from './png.js';
+import { escapeXml, wrapText } from './text.js';
+import { ConfigError, GenerationRefusedError } from './errors.js';
+
+/**
+ * Options passed to an image provider for a single generation
+ */
+export interface ImageGenerationOptions {
+  /** Seed for providers that support deterministic output */
+  seed?: number;
+  /** Requested width in pixels (advisory for remote models) */
+  width?: number;
+  /** Requested height in pixels (advisory for remote models) */
+  height?: number;
+  /** Which of several candidates for the same prompt this is, 1-based (best-of-N only) */
+  variant?: number;
+  /** Cancels the request; remote providers should pass it on to their HTTP client */
+  signal?: AbortSignal;
+}
+
+/**
+ * Image bytes returned by a provider
+ */
+export interface GeneratedImage {
+  data: Uint8Array;
+  mediaType: string;
+}
+
+/**
+ * A backend capable of turning a text prompt into an image
+ */
+export interface ImageProvider {
+  /** Short identifier, e.g. "gemini" or "placeholder" */
+  name: string;
+  /** Model identifier used by the provider, if any */
+  model?: string;
+  generate(prompt: string, options?: ImageGenerationOptions): Promise<GeneratedImage>;
+}
+
+/**
+ * Names of the built-in providers selectable from the CLI
+ */
+export const PROVIDER_NAMES = ['gemini', 'placeholder'] as const;
+
+export type ProviderName = (typeof PROVIDER_NAMES)[number];
+
+export const DEFAULT_GEMINI_MODEL = 'gemini-2.5-flash-image-preview';
+
+/**
+ * Creates a provider that generates images with Gemini through Vercel AI Gateway
+ *
+ * @param options - API key and optional model override
+ * @returns Image provider backed by Gemini
+ */
+export function createGeminiProvider(options: { apiKey: string; model?: string }): ImageProvider {
+  const model = options.model ?? DEFAULT_GEMINI_MODEL;
+
+  return {
+    name: 'gemini',
+    model,
+    async generate(prompt: string, generationOptions: ImageGenerationOptions = {}): Promise<GeneratedImage> {
+      // Use Gemini model through AI Gateway, passing API key directly
+      const result = await generateText({
+        model: google(model, { apiKey: options.apiKey }),
+        prompt: prompt,
+        // Best-of-N candidates need different seeds, or they would all be the same image
+        seed: generationOptions.seed === undefined ? undefined : generationOptions.seed + (generationOptions.variant ?? 1) - 1,
+        abortSignal: generationOptions.signal,
+      });
+
+      // Check if any files were generated
+      if (!result.files || result.files.length === 0) {
+        throw new GenerationRefusedError(
+          `No images were generated. Finish reason: ${result.finishReason}. ` +
+          'Make sure you have credits and the model supports image generation.',
+          result.finishReason
+        );
+      }
+
+      const file = result.files[0];
+
+      if (!file.mediaType.startsWith('image/')) {
+        throw new Error(`Invalid file type: ${file.mediaType}`);
+      }
+
+      return {
+        data: file.uint8Array,
+        mediaType: file.mediaType,
+      };
+    },
+  };
+}
+
+/**
+ * Derives four panel colors from the prompt so output is stable per prompt
+ */
+function panelColors(prompt: string, seed: number): Array<[number, number, number]> {
+  const digest = createHash('sha256').update(`${seed}:${prompt}`).digest();
+  return [0, 1, 2, 3].map((i) => [
+    // Keep colors light so text stays readable
+    128 + (digest[i * 3] >> 1),
+    128 + (digest[i * 3 + 1] >> 1),
+    128 + (digest[i * 3 + 2] >> 1),
+  ]);
+}
+
+function renderPlaceholderSvg(prompt: string, width: number, height: number, seed: number): string {
+  const colors = panelColors(prompt, seed);
+  const halfW = width / 2;
+  const halfH = height / 2;
+  const lines = wrapText(prompt, 48).slice(0, 12);
+
+  const panels = colors.map(([r, g, b], idx) => {
+    const x = (idx % 2) * halfW;
+    const y = Math.floor(idx / 2) * halfH;
+    return `<rect x="${x + 8}" y="${y + 8}" width="${halfW - 16}" height="${halfH - 16}" fill="rgb(${r},${g},${b})" stroke="#000" stroke-width="4"/>`;
+  }).join('');
+
+  const text = lines.map((line, idx) =>
+    `<tspan x="24" dy="${idx === 0 ? 0 : 18}">${escapeXml(line)}</tspan>`
+  ).join('');
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">` +
+    `<rect width="100%" height="100%" fill="#fff"/>${panels}` +
+    `<text x="24" y="40" font-family="monospace" font-size="14" fill="#000">${text}</text></svg>\n`;
+}
+
+function renderPlaceholderPng(prompt: string, width: number, height: number, seed: number): Buffer {
+  const colors = panelColors(prompt, seed);
+  const bitmap = createBitmap(width, height);
+  const halfW = Math.floor(width / 2);
+  const halfH = Math.floor(height / 2);
+  const border = 4;
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const panelX = x < halfW ? 0 : 1;
+      const panelY = y < halfH ? 0 : 1;
+      const localX = x - panelX * halfW;
+      const localY = y - panelY * halfH;
+      const onBorder =
+        localX < border || localY < border ||
+        localX >= halfW - border || localY >= halfH - border;
+      const [r, g, b] = onBorder ? [0, 0, 0] : colors[panelY * 2 + panelX];
+      const offset = (y * width + x) * 4;
+      bitmap.data[offset] = r;
+      bitmap.data[offset + 1] = g;
+      bitmap.data[offset + 2] = b;
+    }
+  }
+
+  return encodePng(bitmap);
+}
+
+/**
+ * Creates a deterministic local provider that renders a simple 4-panel
+ * placeholder without calling any remote model. Useful for tests and offline runs.
+ *
+ * @param options - Output format (default: 'png')
+ * @returns Image provider that never touches the network
+ */
+export function createPlaceholderProvider(options: { format?: 'png' | 'svg' } = {}): ImageProvider {
+  const format = options.format ?? 'png';
+
+  return {
+    name: 'placeholder',
+    model: `placeholder-${format}`,
+    async generate(prompt: string, generationOptions: ImageGenerationOptions = {}): Promise<GeneratedImage> {
+      const { width = 512, height = 512, variant = 1 } = generationOptions;
+      // Each candidate of a best-of-N run gets its own colors
+      const seed = (generationOptions.seed ?? 0) + variant - 1;
+
+      if (format === 'svg') {
+        return {
+          data: new TextEncoder().encode(renderPlaceholderSvg(prompt, width, height, seed)),
+          mediaType: 'image/svg+xml',
+        };
+      }
+
+      return {
+        data: renderPlaceholderPng(prompt, width, height, seed),
+        mediaType: 'image/png',
+      };
+    },
+  };
+}
+
+/**
+ * Creates one of the built-in providers by name
+ *
+ * @param name - Provider name (see PROVIDER_NAMES)
+ * @param options - Credentials needed by remote providers
+ * @returns Image provider
+ * @throws Error if the name is unknown or required credentials are missing
+ */
+export function createImageProvider(
+  name: string,
+  options: { apiKey?: string; model?: string } = {}
+): ImageProvider {
+  switch (name) {
+    case 'gemini':
+      if (!options.apiKey) {
+        throw new ConfigError('AI_GATEWAY_API_KEY is required for the gemini provider');
+      }
+      return createGeminiProvider({ apiKey: options.apiKey, model: options.model });
+    case 'placeholder':
+      return createPlaceholderProvider();
+    default:
+      throw new ConfigError(`Unknown image provider: ${name}. Expected one of: ${PROVIDER_NAMES.join(', ')}`);
+  }
+}
+
+/**
+ * Maps an image media type to a file extension
+ */
+export function extensionForMediaType(mediaType: string): string {
+  const subtype = mediaType.split('/')[1] || 'png';
+  if (subtype === 'svg+xml') {
+    return 'svg';
+  }
+  return subtype;
+}
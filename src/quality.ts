@@ -0,0 +1,282 @@
+import { AbortedError, ConfigError, GenerationError, isNodeFileSystemError, throwIfAborted } from './errors.js';
+import { delay } from './events.js';
+import { decodePng, isPng, readPngSize } from './png.js';
+import type { GeneratedImage, ImageGenerationOptions, ImageProvider } from './providers.js';
+
+/**
+ * Requirements a generated image must meet to be used
+ */
+export interface ImageValidationOptions {
+  /** Narrowest acceptable image in pixels (default: 256) */
+  minWidth?: number;
+  /** Shortest acceptable image in pixels (default: 256) */
+  minHeight?: number;
+}
+
+/**
+ * Result of checking a generated image
+ */
+export interface ImageCheck {
+  /** Whether the image can be used as a comic */
+  valid: boolean;
+  /**
+   * How promising the image is, from 0 (unusable) to 1. PNGs score by their
+   * contrast; formats whose pixels cannot be read here score 0.5 when valid.
+   */
+  score: number;
+  width?: number;
+  height?: number;
+  /** Why the image is not valid, empty when it is */
+  problems: string[];
+}
+
+/**
+ * Options for retryImageProvider
+ */
+export interface RetryImageOptions {
+  /** Retries after a refusal, a failed request or an unusable image (default: 2) */
+  retries?: number;
+  /** Delay in ms before the first retry, doubled for each further retry (default: 1000) */
+  retryDelay?: number;
+  /** What counts as a usable image, or `false` to accept any image (default: {}) */
+  validation?: ImageValidationOptions | false;
+  /** Called before the provider sleeps for a retry */
+  onRetry?: (attempt: number, error: unknown, ms: number) => void;
+  /** Sleep implementation, replaceable in tests (default: a wait cut short by the generation's signal) */
+  sleep?: (ms: number) => Promise<void>;
+}
+
+/** Most candidates a best-of-N generation may ask for */
+export const MAX_VARIANTS = 8;
+
+/** Standard deviation of brightness below which an image counts as one solid color */
+const MIN_CONTRAST = 2;
+
+/** Pixels sampled along each axis when measuring contrast */
+const SAMPLE_GRID = 64;
+
+/**
+ * Reads a JPEG's dimensions from its start-of-frame marker
+ */
+function readJpegSize(bytes: Uint8Array): { width: number; height: number } | null {
+  if (bytes.length < 4 || bytes[0] !== 0xff || bytes[1] !== 0xd8) {
+    return null;
+  }
+  let offset = 2;
+  while (offset + 9 < bytes.length) {
+    if (bytes[offset] !== 0xff) {
+      return null;
+    }
+    const marker = bytes[offset + 1];
+    const length = (bytes[offset + 2] << 8) | bytes[offset + 3];
+    // SOF0-SOF15, except DHT (C4), JPG (C8) and DAC (CC)
+    if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+      return {
+        height: (bytes[offset + 5] << 8) | bytes[offset + 6],
+        width: (bytes[offset + 7] << 8) | bytes[offset + 8],
+      };
+    }
+    offset += 2 + length;
+  }
+  return null;
+}
+
+/**
+ * Reads a WebP's dimensions from its VP8, VP8L or VP8X header
+ */
+function readWebpSize(bytes: Uint8Array): { width: number; height: number } | null {
+  const text = (start: number, end: number) => String.fromCharCode(...bytes.subarray(start, end));
+  if (bytes.length < 30 || text(0, 4) !== 'RIFF' || text(8, 12) !== 'WEBP') {
+    return null;
+  }
+  const view = Buffer.from(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  switch (text(12, 16)) {
+    case 'VP8 ':
+      return { width: view.readUInt16LE(26) & 0x3fff, height: view.readUInt16LE(28) & 0x3fff };
+    case 'VP8L': {
+      const bits = view.readUInt32LE(21);
+      return { width: (bits & 0x3fff) + 1, height: ((bits >>> 14) & 0x3fff) + 1 };
+    }
+    case 'VP8X':
+      return { width: view.readUIntLE(24, 3) + 1, height: view.readUIntLE(27, 3) + 1 };
+    default:
+      return null;
+  }
+}
+
+/**
+ * Reads an SVG's dimensions from its width and height, or its viewBox
+ */
+function readSvgSize(bytes: Uint8Array): { width: number; height: number } | null {
+  const tag = new TextDecoder().decode(bytes.subarray(0, 4096)).match(/<svg\b[^>]*>/i)?.[0];
+  if (!tag) {
+    return null;
+  }
+  const attribute = (name: string) => tag.match(new RegExp(`\\s${name}="([^"]*)"`, 'i'))?.[1];
+  const width = parseFloat(attribute('width') ?? '');
+  const height = parseFloat(attribute('height') ?? '');
+  if (width > 0 && height > 0) {
+    return { width, height };
+  }
+  const [, , viewWidth, viewHeight] = (attribute('viewBox') ?? '').trim().split(/[\s,]+/).map(Number);
+  return viewWidth > 0 && viewHeight > 0 ? { width: viewWidth, height: viewHeight } : null;
+}
+
+/**
+ * Reads the dimensions of a PNG, JPEG, WebP or SVG image without decoding it
+ *
+ * @param image - Image bytes and media type
+ * @returns Width and height, or null if the header cannot be read
+ */
+export function readImageSize(image: GeneratedImage): { width: number; height: number } | null {
+  switch (image.mediaType) {
+    case 'image/png':
+      return readPngSize(image.data);
+    case 'image/jpeg':
+      return readJpegSize(image.data);
+    case 'image/webp':
+      return readWebpSize(image.data);
+    case 'image/svg+xml':
+      return readSvgSize(image.data);
+    default:
+      return isPng(image.data) ? readPngSize(image.data) : null;
+  }
+}
+
+/**
+ * Measures how much brightness varies across a grid of sampled pixels
+ */
+function measureContrast(data: Uint8Array, width: number, height: number): number {
+  const stepX = Math.max(1, Math.floor(width / SAMPLE_GRID));
+  const stepY = Math.max(1, Math.floor(height / SAMPLE_GRID));
+  let count = 0;
+  let sum = 0;
+  let sumOfSquares = 0;
+  for (let y = 0; y < height; y += stepY) {
+    for (let x = 0; x < width; x += stepX) {
+      const i = (y * width + x) * 4;
+      // Transparent pixels show the page behind them, so count them as white
+      const alpha = data[i + 3] / 255;
+      const luma = (0.2126 * data[i] + 0.7152 * data[i + 1] + 0.0722 * data[i + 2]) * alpha + 255 * (1 - alpha);
+      sum += luma;
+      sumOfSquares += luma * luma;
+      count++;
+    }
+  }
+  const mean = sum / count;
+  return Math.sqrt(Math.max(0, sumOfSquares / count - mean * mean));
+}
+
+/**
+ * Checks that a generated image is an image, can be read, is large enough
+ * and is not blank or a single solid color, and scores it for best-of-N
+ * selection
+ *
+ * @param image - Image from a provider
+ * @param options - Minimum dimensions
+ * @returns Whether the image is usable, why not, and its score
+ */
+export function checkImage(image: GeneratedImage, options: ImageValidationOptions = {}): ImageCheck {
+  const { minWidth = 256, minHeight = 256 } = options;
+  if (!image.mediaType.startsWith('image/')) {
+    return { valid: false, score: 0, problems: [`not an image (${image.mediaType})`] };
+  }
+  if (image.data.length === 0) {
+    return { valid: false, score: 0, problems: ['empty file'] };
+  }
+
+  const problems: string[] = [];
+  let size: { width: number; height: number } | null;
+  let contrast: number | undefined;
+  if (isPng(image.data)) {
+    try {
+      const bitmap = decodePng(image.data);
+      size = { width: bitmap.width, height: bitmap.height };
+      contrast = measureContrast(bitmap.data, bitmap.width, bitmap.height);
+    } catch (error) {
+      // Interlaced and other PNGs the decoder does not support are only checked by size, like JPEG
+      size = readPngSize(image.data);
+    }
+  } else {
+    size = readImageSize(image);
+  }
+  if (!size) {
+    return { valid: false, score: 0, problems: [`cannot be decoded as ${image.mediaType}`] };
+  }
+
+  if (size.width < minWidth || size.height < minHeight) {
+    problems.push(`too small (${size.width}x${size.height}, need at least ${minWidth}x${minHeight})`);
+  }
+  if (contrast !== undefined && contrast < MIN_CONTRAST) {
+    problems.push('blank or a single solid color');
+  }
+
+  const valid = problems.length === 0;
+  return {
+    valid,
+    score: !valid ? 0 : contrast === undefined ? 0.5 : Math.min(1, contrast / 128),
+    width: size.width,
+    height: size.height,
+    problems,
+  };
+}
+
+/**
+ * Whether trying again could help: configuration and file system errors
+ * fail the same way every time, and cancelled runs should stop
+ */
+function isRetryable(error: unknown): boolean {
+  return !(error instanceof ConfigError) && !(error instanceof AbortedError) && !isNodeFileSystemError(error);
+}
+
+/**
+ * Wraps an image provider so refusals, failed requests and unusable images
+ * (see checkImage) are retried with exponential backoff. Each retry moves the
+ * seed on by MAX_VARIANTS, so a deterministic provider draws a new image that
+ * no best-of-N candidate uses.
+ *
+ * @param provider - Provider to wrap
+ * @param options - Retry policy and image requirements
+ * @returns Provider with the same name and model
+ * @throws ConfigError if `retries` is not a whole number of zero or more
+ */
+export function retryImageProvider(provider: ImageProvider, options: RetryImageOptions = {}): ImageProvider {
+  const {
+    retries = 2,
+    retryDelay = 1000,
+    validation = {},
+    onRetry,
+    sleep,
+  } = options;
+  if (!Number.isInteger(retries) || retries < 0) {
+    throw new ConfigError(`Retries must be a whole number of zero or more, got ${retries}`);
+  }
+
+  return {
+    name: provider.name,
+    model: provider.model,
+    async generate(prompt: string, generationOptions: ImageGenerationOptions = {}): Promise<GeneratedImage> {
+      for (let attempt = 0; ; attempt++) {
+        try {
+          const image = await provider.generate(prompt, attempt === 0
+            ? generationOptions
+            : { ...generationOptions, seed: (generationOptions.seed ?? 0) + attempt * MAX_VARIANTS });
+          const check = validation === false ? undefined : checkImage(image, validation);
+          if (check && !check.valid) {
+            throw new GenerationError(`Generated image is unusable: ${check.problems.join('; ')}`);
+          }
+          return image;
+        } catch (error) {
+          // Providers fail with their own abort errors when the signal fires
+          throwIfAborted(generationOptions.signal);
+          if (attempt >= retries || !isRetryable(error)) {
+            throw error;
+          }
+          const ms = retryDelay * 2 ** attempt;
+          onRetry?.(attempt + 1, error, ms);
+          await (sleep ? sleep(ms) : delay(ms, generationOptions.signal));
+        }
+      }
+    },
+  };
+}
@@ -0,0 +1,240 @@
+import { ConfigError } from './errors.js';
+import type { RepoInfo, RepositoryStory } from './index.js';
+import type { EnrichedProfile, EnrichedRepoInfo, UserProfile } from './profile.js';
+
+/** Longest repository description, topic, commit message or bio kept in prompts by default */
+export const DEFAULT_MAX_FIELD_LENGTH = 200;
+
+/**
+ * Text that reads like instructions to the model rather than a description
+ * of a project. Sentences matching any of these are dropped.
+ */
+const INSTRUCTION_PATTERNS: RegExp[] = [
+  /\b(?:ignore|disregard|forget|override)\b[^.!?]{0,60}\b(?:instructions?|prompts?|rules|directions|guidelines)\b/i,
+  /\b(?:system|developer)\s+(?:prompt|message|instructions?)\b/i,
+  /\bnew\s+instructions?\s*:/i,
+  /\byou\s+(?:are|must|will|should)\s+now\b/i,
+  /\binstead\s+(?:draw|depict|render|paint|show|write)\b/i,
+  /^\s*(?:system|assistant|user)\s*:/i,
+  /<\|[^|]*\|>|\[\/?INST\]/i,
+];
+
+/**
+ * Why part of the repository data was left out of a prompt
+ *
+ * - `private`: a private repository was excluded
+ * - `denylist`: a denylisted term was masked, or a repository named with one was excluded
+ * - `instruction`: instruction-like text was removed
+ * - `truncated`: an overlong field was shortened
+ */
+export type RedactionReason = 'private' | 'denylist' | 'instruction' | 'truncated';
+
+/**
+ * One change the safety filter made, recorded in the comic's metadata.
+ * Names of excluded repositories are never recorded.
+ */
+export interface Redaction {
+  reason: RedactionReason;
+  /** Field that changed, e.g. "description", "topics", "commit" or "repository" */
+  field: string;
+  /** Repository the field belongs to, when it is still featured */
+  repo?: string;
+  /** Number of repositories excluded, for `repository` redactions */
+  count?: number;
+}
+
+/**
+ * Options for createSafetyFilter
+ */
+export interface SafetyOptions {
+  /** Feature private repositories, e.g. with a token that has the `repo` scope (default: false) */
+  includePrivate?: boolean;
+  /** Words or phrases masked wherever they appear, case-insensitive (default: none) */
+  denylist?: string[];
+  /** Longest description, topic, commit message or bio kept, in characters (default: 200) */
+  maxFieldLength?: number;
+  /** Drop sentences that read like instructions to the model (default: true) */
+  neutralizeInstructions?: boolean;
+}
+
+/**
+ * Cleans GitHub data before it is put into a prompt and records what it changed
+ */
+export interface SafetyFilter {
+  /** Everything redacted so far, in the order it happened */
+  readonly redactions: Redaction[];
+  /** Drops private repositories and those named with a denylisted term, before selection */
+  exclude(repos: RepoInfo[]): RepoInfo[];
+  /** Cleans the text fields of the repositories that are featured */
+  clean(repos: RepoInfo[]): RepoInfo[];
+  /**
+   * Cleans a repository story
+   *
+   * @throws ConfigError if the repository is private and private repositories are not allowed
+   */
+  story(story: RepositoryStory): RepositoryStory;
+  /** Cleans the commit messages and releases fetched for featured repositories, and the owner's profile */
+  profile(profile: EnrichedProfile): EnrichedProfile;
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Creates a filter that excludes private repositories, masks denylisted
+ * terms, drops instruction-like text and truncates overlong fields
+ *
+ * @param options - What to filter
+ * @returns Filter whose `redactions` grow as data passes through it
+ * @throws ConfigError if maxFieldLength is not a positive number
+ */
+export function createSafetyFilter(options: SafetyOptions = {}): SafetyFilter {
+  const {
+    includePrivate = false,
+    denylist = [],
+    maxFieldLength = DEFAULT_MAX_FIELD_LENGTH,
+    neutralizeInstructions = true,
+  } = options;
+  if (!(maxFieldLength > 0)) {
+    throw new ConfigError('Maximum field length must be a positive number of characters');
+  }
+
+  const terms = denylist.map((term) => term.trim()).filter(Boolean);
+  const denied = terms.length > 0
+    ? new RegExp(`(?<![\\p{L}\\p{N}_])(?:${terms.map(escapeRegExp).join('|')})(?![\\p{L}\\p{N}_])`, 'giu')
+    : undefined;
+  const redactions: Redaction[] = [];
+  const record = (reason: RedactionReason, field: string, repo?: string) => {
+    redactions.push(repo === undefined ? { reason, field } : { reason, field, repo });
+  };
+
+  const isDenied = (value: string) => {
+    if (!denied) {
+      return false;
+    }
+    denied.lastIndex = 0;
+    return denied.test(value);
+  };
+
+  /**
+   * Cleans one free-text field. Line breaks, which could start a new section
+   * of the prompt, and other control characters are collapsed into spaces.
+   */
+  function clean(value: string, field: string, repo?: string, truncate = true): string | null {
+    // Lines and sentences are judged separately so one bad line does not take the rest with it
+    let sentences = value.split(/[\r\n]+|(?<=[.!?])\s+/);
+    if (neutralizeInstructions) {
+      const kept = sentences.filter((sentence) => !INSTRUCTION_PATTERNS.some((pattern) => pattern.test(sentence)));
+      if (kept.length < sentences.length) {
+        record('instruction', field, repo);
+        sentences = kept;
+      }
+    }
+    let text = sentences.join(' ').replace(/[\u0000-\u001f\u007f]+/g, ' ').replace(/\s+/g, ' ').trim();
+
+    if (denied && isDenied(text)) {
+      record('denylist', field, repo);
+      text = text.replace(denied, '***');
+    }
+    if (truncate && text.length > maxFieldLength) {
+      record('truncated', field, repo);
+      text = `${text.slice(0, maxFieldLength - 1).trimEnd()}…`;
+    }
+    return text || null;
+  }
+
+  function cleanRepo<T extends RepoInfo>(repo: T): T {
+    const cleaned: T = { ...repo };
+    if (repo.description) {
+      cleaned.description = clean(repo.description, 'description', repo.name);
+    }
+    if (repo.topics) {
+      cleaned.topics = repo.topics
+        .map((topic) => clean(topic, 'topics', repo.name))
+        .filter((topic): topic is string => topic !== null);
+    }
+    return cleaned;
+  }
+
+  function cleanUser(user: UserProfile): UserProfile {
+    return {
+      ...user,
+      name: user.name ? clean(user.name, 'name') : null,
+      bio: user.bio ? clean(user.bio, 'bio') : null,
+      location: user.location ? clean(user.location, 'location') : null,
+    };
+  }
+
+  return {
+    redactions,
+
+    exclude(repos) {
+      const kept = repos.filter((repo) => (includePrivate || !repo.private) && !isDenied(repo.name));
+      // Excluded repositories are counted, never named
+      const privateCount = includePrivate ? 0 : repos.filter((repo) => repo.private).length;
+      const deniedCount = repos.length - kept.length - privateCount;
+      if (privateCount > 0) {
+        redactions.push({ reason: 'private', field: 'repository', count: privateCount });
+      }
+      if (deniedCount > 0) {
+        redactions.push({ reason: 'denylist', field: 'repository', count: deniedCount });
+      }
+      return kept;
+    },
+
+    clean(repos) {
+      return repos.map(cleanRepo);
+    },
+
+    story(story) {
+      if (story.repo.private && !includePrivate) {
+        throw new ConfigError(`${story.owner}/${story.repo.name} is private; allow private repositories to feature it`);
+      }
+      return {
+        ...story,
+        repo: cleanRepo(story.repo),
+        // README summaries are already shortened by summarizeReadme
+        readmeSummary: story.readmeSummary ? clean(story.readmeSummary, 'readme', story.repo.name, false) : null,
+        releases: story.releases.map((release) => ({
+          ...release,
+          name: release.name ? clean(release.name, 'release', story.repo.name) : null,
+        })),
+        recentCommits: story.recentCommits
+          ?.map((message) => clean(message, 'commit', story.repo.name))
+          .filter((message): message is string => message !== null),
+      };
+    },
+
+    profile(profile) {
+      return {
+        ...profile,
+        repos: profile.repos.map((repo): EnrichedRepoInfo => ({
+          ...repo,
+          recentCommits: repo.recentCommits
+            ?.map((message) => clean(message, 'commit', repo.name))
+            .filter((message): message is string => message !== null),
+          releases: repo.releases?.map((release) => ({
+            ...release,
+            name: release.name ? clean(release.name, 'release', repo.name) : null,
+          })),
+        })),
+        user: profile.user ? cleanUser(profile.user) : undefined,
+      };
+    },
+  };
+}
+
+/**
+ * Counts redactions by reason, e.g. for a one-line summary
+ *
+ * @param redactions - Redactions from a safety filter or comic metadata
+ * @returns Number of redactions per reason, omitting reasons that did not occur
+ */
+export function summarizeRedactions(redactions: Redaction[]): Partial<Record<RedactionReason, number>> {
+  const counts: Partial<Record<RedactionReason, number>> = {};
+  for (const { reason, count = 1 } of redactions) {
+    counts[reason] = (counts[reason] ?? 0) + count;
+  }
+  return counts;
+}
@@ -0,0 +1,247 @@
+import { z } from 'zod';
+import { generateObject } from 'ai';
+import { createGoogleGenerativeAI } from '@ai-sdk/google';
+import * as fs from 'fs/promises';
+import { MAX_PANELS } from './templates.js';
+
+/**
+ * Schema for a structured comic script written by a text model
+ */
+export const comicScriptSchema = z.object({
+  title: z.string().min(1),
+  /** Art style shared by every panel */
+  style: z.string().optional(),
+  panels: z.array(z.object({
+    /** What the panel shows: setting, characters, action */
+    scene: z.string().min(1),
+    /** Narration box text */
+    caption: z.string().optional(),
+    dialogue: z.array(z.object({
+      speaker: z.string().min(1),
+      line: z.string().min(1),
+    })).default([]),
+  })).min(1).max(MAX_PANELS),
+});
+
+export type ComicScript = z.infer<typeof comicScriptSchema>;
+
+export type ComicPanel = ComicScript['panels'][number];
+
+/**
+ * A backend that turns a comic brief into a structured script
+ */
+export interface ScriptWriter {
+  /** Short identifier, e.g. "gemini" or "placeholder" */
+  name: string;
+  /** Model identifier used by the writer, if any */
+  model?: string;
+  /** Writes a script with the given number of panels; `signal` cancels the request */
+  write(brief: string, options: { panels: number; signal?: AbortSignal }): Promise<ComicScript>;
+}
+
+export const SCRIPT_WRITER_NAMES = ['gemini', 'placeholder'] as const;
+
+export const DEFAULT_SCRIPT_MODEL = 'gemini-2.5-flash';
+
+/**
+ * Creates the instructions sent to a text model to write a comic script
+ *
+ * @param brief - Comic prompt as produced by createComicPrompt and friends
+ * @param panels - Number of panels to write
+ * @returns Prompt for the script writer
+ */
+export function createScriptPrompt(brief: string, panels: number): string {
+  return `You are writing the script for a comic strip. Turn the brief below into exactly ${panels} panel${panels === 1 ? '' : 's'}.
+
+For each panel, describe the scene (setting, characters, action) so an illustrator can draw it, and add an optional caption and short lines of dialogue with the speaker's name. Keep dialogue brief enough to fit in a speech bubble. Give the strip a short title and describe the art style once.
+
+Brief:
+${brief}`;
+}
+
+/**
+ * Validates a parsed JSON value as a comic script
+ *
+ * @param value - Parsed JSON
+ * @returns Validated script
+ * @throws Error describing the first validation problems
+ */
+export function parseComicScript(value: unknown): ComicScript {
+  const result = comicScriptSchema.safeParse(value);
+  if (!result.success) {
+    const issues = result.error.issues
+      .slice(0, 3)
+      .map((issue) => `${issue.path.join('.') || '(root)'}: ${issue.message}`)
+      .join('; ');
+    throw new Error(`Invalid comic script: ${issues}`);
+  }
+  return result.data;
+}
+
+/**
+ * Reads and validates a comic script JSON file
+ *
+ * @param filePath - Path to the script file
+ * @returns Validated script
+ * @throws Error if the file cannot be read, is not JSON or is not a valid script
+ */
+export async function loadComicScript(filePath: string): Promise<ComicScript> {
+  const text = await fs.readFile(filePath, 'utf8');
+
+  let value: unknown;
+  try {
+    value = JSON.parse(text);
+  } catch (error) {
+    throw new Error(`Script file is not valid JSON: ${filePath}`);
+  }
+
+  return parseComicScript(value);
+}
+
+/**
+ * Creates a script writer backed by Gemini through Vercel AI Gateway
+ *
+ * @param options - API key and optional text model override
+ * @returns Script writer
+ */
+export function createGeminiScriptWriter(options: { apiKey: string; model?: string }): ScriptWriter {
+  const model = options.model ?? DEFAULT_SCRIPT_MODEL;
+  const google = createGoogleGenerativeAI({ apiKey: options.apiKey });
+
+  return {
+    name: 'gemini',
+    model,
+    async write(brief: string, { panels, signal }: { panels: number; signal?: AbortSignal }): Promise<ComicScript> {
+      const { object } = await generateObject({
+        model: google(model),
+        schema: comicScriptSchema,
+        prompt: createScriptPrompt(brief, panels),
+        abortSignal: signal,
+      });
+
+      return parseComicScript(object);
+    },
+  };
+}
+
+/**
+ * Creates a deterministic local script writer that builds panels from the
+ * brief's repository list. Useful for tests and offline runs.
+ *
+ * @returns Script writer that never touches the network
+ */
+export function createPlaceholderScriptWriter(): ScriptWriter {
+  return {
+    name: 'placeholder',
+    model: 'placeholder',
+    async write(brief: string, { panels }: { panels: number }): Promise<ComicScript> {
+      const subject = brief.match(/"([^"]+)"/)?.[1] ?? 'the developer';
+      const items = brief
+        .split('\n')
+        .map((line) => line.match(/^\d+\.\s+([^\s:[(]+)/)?.[1])
+        .filter((name): name is string => Boolean(name));
+
+      return {
+        title: `The Adventures of ${subject}`,
+        style: 'Comic book style, colorful, fun and playful.',
+        panels: Array.from({ length: panels }, (_, idx) => {
+          const item = items.length > 0 ? items[idx % items.length] : 'a new project';
+          return {
+            scene: `${subject} at their desk working on ${item}.`,
+            caption: `Panel ${idx + 1}: ${item}`,
+            dialogue: [{ speaker: subject, line: `Time to ship ${item}!` }],
+          };
+        }),
+      };
+    },
+  };
+}
+
+/**
+ * Creates one of the built-in script writers by name
+ *
+ * @param name - Writer name (see SCRIPT_WRITER_NAMES)
+ * @param options - Credentials needed by remote writers
+ * @returns Script writer
+ * @throws Error if the name is unknown or required credentials are missing
+ */
+export function createScriptWriter(name: string, options: { apiKey?: string; model?: string } = {}): ScriptWriter {
+  switch (name) {
+    case 'gemini':
+      if (!options.apiKey) {
+        throw new Error('AI_GATEWAY_API_KEY is required for the gemini script writer');
+      }
+      return createGeminiScriptWriter({ apiKey: options.apiKey, model: options.model });
+    case 'placeholder':
+      return createPlaceholderScriptWriter();
+    default:
+      throw new Error(`Unknown script writer: ${name}. Expected one of: ${SCRIPT_WRITER_NAMES.join(', ')}`);
+  }
+}
+
+/**
+ * Formats a panel's caption and dialogue as indented lines
+ */
+function describePanelText(panel: ComicPanel): string[] {
+  const lines: string[] = [];
+  if (panel.caption) {
+    lines.push(`  Caption: "${panel.caption}"`);
+  }
+  for (const { speaker, line } of panel.dialogue) {
+    lines.push(`  ${speaker}: "${line}"`);
+  }
+  return lines;
+}
+
+/**
+ * Builds an image prompt for the whole strip from a script
+ *
+ * @param script - Comic script
+ * @returns Prompt for the image provider
+ */
+export function scriptToImagePrompt(script: ComicScript): string {
+  const panels = script.panels.map((panel, idx) =>
+    [`Panel ${idx + 1}: ${panel.scene}`, ...describePanelText(panel)].join('\n')
+  ).join('\n');
+
+  const count = script.panels.length;
+  const strip = count === 1 ? 'single-panel comic' : `${count}-panel comic strip`;
+
+  return `Create a ${strip} titled "${script.title}". Draw the panels in order, left to right, top to bottom.
+
+${panels}
+
+Style: ${script.style ?? 'Comic book style, colorful, fun and playful.'} Render all captions and dialogue exactly as written, in legible lettering.`;
+}
+
+/**
+ * Builds an image prompt for a single panel of a script
+ *
+ * @param script - Comic script
+ * @param index - Zero-based panel index
+ * @param options - Set `includeText: false` when captions are lettered locally afterwards
+ * @returns Prompt for the image provider
+ * @throws Error if the index is out of range
+ */
+export function panelToImagePrompt(
+  script: ComicScript,
+  index: number,
+  options: { includeText?: boolean } = {}
+): string {
+  const panel = script.panels[index];
+  if (!panel) {
+    throw new Error(`Panel ${index + 1} does not exist in a ${script.panels.length}-panel script`);
+  }
+
+  const { includeText = true } = options;
+  const text = describePanelText(panel);
+  const dialogue = !includeText
+    ? '\n\nDo not draw any text, captions or speech bubbles; leave room at the top and bottom for lettering.'
+    : text.length > 0 ? `\n\nText in this panel:\n${text.join('\n')}` : '';
+
+  return `Draw panel ${index + 1} of ${script.panels.length} of the comic "${script.title}" as a single standalone comic panel.
+
+Scene: ${panel.scene}${dialogue}
+
+Style: ${script.style ?? 'Comic book style, colorful, fun and playful.'} Keep characters consistent with the other panels.`;
+}
@@ -0,0 +1,79 @@
+import type { RepoInfo } from './index.js';
+
+/**
+ * Ranking strategies for choosing which repositories to feature
+ *
+ * - `stars`: most starred first
+ * - `forks`: most forked first
+ * - `activity`: most recently pushed first
+ * - `updated`: most recently updated first (GitHub's default listing order)
+ */
+export const SORT_STRATEGIES = ['stars', 'forks', 'activity', 'updated'] as const;
+
+export type SortStrategy = (typeof SORT_STRATEGIES)[number];
+
+/**
+ * Filters and ranking applied to fetched repositories
+ */
+export interface RepoSelectionOptions {
+  sort?: SortStrategy;
+  /** Drop repositories that are forks of another project */
+  excludeForks?: boolean;
+  /** Drop archived repositories */
+  excludeArchived?: boolean;
+  /** Only keep repositories whose primary language matches (case-insensitive) */
+  language?: string;
+  /** Only keep repositories tagged with this topic (case-insensitive) */
+  topic?: string;
+}
+
+function timestamp(value: string | null | undefined): number {
+  const time = value ? Date.parse(value) : NaN;
+  return isNaN(time) ? 0 : time;
+}
+
+const COMPARATORS: Record<SortStrategy, (a: RepoInfo, b: RepoInfo) => number> = {
+  stars: (a, b) => (b.stargazers_count ?? 0) - (a.stargazers_count ?? 0),
+  forks: (a, b) => (b.forks_count ?? 0) - (a.forks_count ?? 0),
+  activity: (a, b) => timestamp(b.pushed_at) - timestamp(a.pushed_at),
+  updated: (a, b) => timestamp(b.updated_at) - timestamp(a.updated_at),
+};
+
+/**
+ * Filters and ranks repositories according to the selection options
+ *
+ * @param repos - Repositories as returned by fetchRepositories
+ * @param options - Filters and sort strategy (default sort: 'stars')
+ * @returns New array of matching repositories, best first
+ * @throws Error if the sort strategy is unknown
+ */
+export function selectRepositories(repos: RepoInfo[], options: RepoSelectionOptions = {}): RepoInfo[] {
+  const { sort = 'stars', excludeForks = false, excludeArchived = false } = options;
+
+  const compare = COMPARATORS[sort];
+  if (!compare) {
+    throw new Error(`Unknown sort strategy: ${sort}. Expected one of: ${SORT_STRATEGIES.join(', ')}`);
+  }
+
+  const language = options.language?.toLowerCase();
+  const topic = options.topic?.toLowerCase();
+
+  const filtered = repos.filter((repo) => {
+    if (excludeForks && repo.fork) {
+      return false;
+    }
+    if (excludeArchived && repo.archived) {
+      return false;
+    }
+    if (language && repo.language?.toLowerCase() !== language) {
+      return false;
+    }
+    if (topic && !repo.topics?.some((t) => t.toLowerCase() === topic)) {
+      return false;
+    }
+    return true;
+  });
+
+  // Break ties by name so the selection is stable across runs
+  return filtered.sort((a, b) => compare(a, b) || a.name.localeCompare(b.name));
+}
@@ -0,0 +1,489 @@
+import * as http from 'http';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { randomUUID, timingSafeEqual } from 'crypto';
+import { z } from 'zod';
+import {
+  generateGithubComic,
+  parseSubject,
+  formatSubject,
+  type ComicSubject,
+  type Config,
+  type GenerateComicOptions,
+  type ImageResult,
+} from './index.js';
+import { createImageProvider, PROVIDER_NAMES, type GeneratedImage, type ImageProvider } from './providers.js';
+import { THEME_NAMES, MIN_PANELS, MAX_PANELS, type ThemeName } from './templates.js';
+import { createProfileComics, renderComicBadge, type ProfileComic } from './badge.js';
+import { wrapInSvg } from './output.js';
+
+/**
+ * Body accepted by `POST /comics`
+ */
+export const comicRequestSchema = z.object({
+  subject: z.string().min(1, 'subject is required'),
+  theme: z.enum(THEME_NAMES as [ThemeName, ...ThemeName[]]).optional(),
+  repoCount: z.number().int().min(1).max(10).optional(),
+  panels: z.number().int().min(MIN_PANELS).max(MAX_PANELS).optional(),
+  tone: z.string().max(200).optional(),
+  artStyle: z.string().max(200).optional(),
+  language: z.string().max(50).optional(),
+  provider: z.enum(PROVIDER_NAMES).optional(),
+  seed: z.number().int().optional(),
+});
+
+export type ComicRequest = z.infer<typeof comicRequestSchema>;
+
+export type ComicJobStatus = 'queued' | 'running' | 'succeeded' | 'failed';
+
+/**
+ * A comic generation request and its progress
+ */
+export interface ComicJob {
+  id: string;
+  status: ComicJobStatus;
+  subject: string;
+  request: ComicRequest;
+  createdAt: string;
+  startedAt?: string;
+  finishedAt?: string;
+  error?: string;
+  result?: ImageResult;
+}
+
+/**
+ * Options for createComicServer
+ */
+export interface ComicServerOptions {
+  /** Server-side API keys; requests may override them when passthrough is allowed */
+  config?: Partial<Config>;
+  /** Directory for generated comics; each job gets a subdirectory (default: ./output/server) */
+  outputDir?: string;
+  /** Jobs generated at the same time (default: 1) */
+  concurrency?: number;
+  /** Provider used for every job, ignoring the request's `provider` */
+  provider?: ImageProvider;
+  /** Provider used when a request names none (default: gemini) */
+  defaultProvider?: (typeof PROVIDER_NAMES)[number];
+  /** Accept `X-AI-Gateway-Api-Key` and `X-GitHub-Token` request headers (default: true) */
+  allowKeyPassthrough?: boolean;
+  /** When set, every route except `/health` requires `Authorization: Bearer <token>` */
+  authToken?: string;
+  /** Options applied to every job, e.g. a cache or output formats */
+  generateOptions?: GenerateComicOptions;
+  /** Finished jobs kept in memory before the oldest are forgotten (default: 1000) */
+  maxJobs?: number;
+  /** Jobs waiting for a free generation slot before new ones are refused with 503 (default: 100) */
+  maxQueuedJobs?: number;
+  /**
+   * Serve `/u/:login/comic.png` and friends for profile READMEs. These routes
+   * are public and use only the server's own keys.
+   */
+  profileComics?: {
+    /** Minimum time between generations for the same user, in milliseconds (default: 24 hours) */
+    interval?: number;
+    /** Logins that may be served, or `'*'` to generate comics for any user who is requested */
+    allow: string[] | '*';
+    /** Called when a background refresh fails; the previous comic keeps being served */
+    onError?: (login: string, error: unknown) => void;
+  };
+}
+
+/** Request bodies are small JSON documents */
+const MAX_BODY_BYTES = 64 * 1024;
+
+/** Error carrying the HTTP status to respond with */
+type HttpError = Error & { status: number; details?: string[] };
+
+function httpError(status: number, message: string, details?: string[]): HttpError {
+  return Object.assign(new Error(message), { status, details });
+}
+
+function isHttpError(error: unknown): error is HttpError {
+  return error instanceof Error && typeof (error as HttpError).status === 'number';
+}
+
+function sendJson(res: http.ServerResponse, status: number, body: unknown): void {
+  const json = JSON.stringify(body);
+  res.writeHead(status, { 'Content-Type': 'application/json; charset=utf-8', 'Content-Length': Buffer.byteLength(json) });
+  res.end(json);
+}
+
+async function readJsonBody(req: http.IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) {
+      throw httpError(413, `Request body exceeds ${MAX_BODY_BYTES} bytes`);
+    }
+    chunks.push(chunk);
+  }
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString('utf8'));
+  } catch (error) {
+    throw httpError(400, 'Request body is not valid JSON');
+  }
+}
+
+function tokensMatch(expected: string, header: string | undefined): boolean {
+  const actual = Buffer.from(header?.replace(/^Bearer\s+/i, '') ?? '');
+  const wanted = Buffer.from(expected);
+  return actual.length === wanted.length && timingSafeEqual(actual, wanted);
+}
+
+/** Files served for a profile comic */
+const PROFILE_VARIANTS = ['comic.png', 'comic.svg', 'thumbnail.png', 'badge.svg'] as const;
+
+/**
+ * Sends a generated file with caching headers derived from when it was made,
+ * answering matching conditional requests with 304
+ */
+function sendCachedImage(
+  req: http.IncomingMessage,
+  res: http.ServerResponse,
+  image: GeneratedImage,
+  etag: string,
+  lastModified: Date,
+  maxAge: number
+): void {
+  const headers = {
+    'Cache-Control': `public, max-age=${maxAge}`,
+    ETag: etag,
+    'Last-Modified': lastModified.toUTCString(),
+  };
+  if (req.headers['if-none-match'] === etag) {
+    res.writeHead(304, headers);
+    res.end();
+    return;
+  }
+  res.writeHead(200, { ...headers, 'Content-Type': image.mediaType, 'Content-Length': image.data.length });
+  res.end(image.data);
+}
+
+/**
+ * Public view of a job, as returned by the API
+ */
+function describeJob(job: ComicJob) {
+  return {
+    id: job.id,
+    status: job.status,
+    subject: job.subject,
+    createdAt: job.createdAt,
+    startedAt: job.startedAt,
+    finishedAt: job.finishedAt,
+    error: job.error,
+    fileName: job.result?.fileName,
+    imageUrl: job.status === 'succeeded' ? `/comics/${job.id}/image` : undefined,
+  };
+}
+
+/**
+ * Creates an HTTP server that generates comics in an in-process job queue:
+ *
+ * - `GET /health`: liveness and queue size
+ * - `POST /comics`: queue a comic; returns 202 with the job, or 503 when the queue is full
+ * - `GET /comics/:id`: job status
+ * - `GET /comics/:id/image`: the finished comic
+ * - `GET /u/:login/{comic.png,comic.svg,thumbnail.png,badge.svg}`: a user's
+ *   latest comic for profile READMEs, when `profileComics` is set
+ *
+ * @param options - Keys, provider, output directory and queue settings
+ * @returns Server, not yet listening
+ */
+export function createComicServer(options: ComicServerOptions = {}): http.Server {
+  const {
+    config = {},
+    outputDir = './output/server',
+    concurrency = 1,
+    defaultProvider = 'gemini',
+    allowKeyPassthrough = true,
+    authToken,
+    generateOptions = {},
+    maxJobs = 1000,
+    maxQueuedJobs = 100,
+  } = options;
+  if (!Number.isInteger(concurrency) || concurrency < 1) {
+    throw new Error('concurrency must be a positive integer');
+  }
+  if (!Number.isInteger(maxQueuedJobs) || maxQueuedJobs < 0) {
+    throw new Error('maxQueuedJobs must be a whole number of zero or more');
+  }
+  if (options.profileComics && !(options.profileComics.allow === '*' || Array.isArray(options.profileComics.allow))) {
+    throw new Error("profileComics.allow must list the logins to serve, or be '*' for any user");
+  }
+
+  const jobs = new Map<string, ComicJob>();
+  const queue: Array<() => Promise<void>> = [];
+  let running = 0;
+
+  const forgetOldJobs = () => {
+    for (const job of jobs.values()) {
+      if (jobs.size <= maxJobs) {
+        break;
+      }
+      if (job.status === 'succeeded' || job.status === 'failed') {
+        jobs.delete(job.id);
+      }
+    }
+  };
+
+  const pump = () => {
+    while (running < concurrency && queue.length > 0) {
+      const task = queue.shift()!;
+      running++;
+      task().finally(() => {
+        running--;
+        pump();
+      });
+    }
+  };
+
+  /** Runs `task` once a generation slot is free */
+  const enqueue = <T>(task: () => Promise<T>): Promise<T> => new Promise<T>((resolve, reject) => {
+    queue.push(() => task().then(resolve, reject));
+    pump();
+  });
+
+  /** Whether a new task would have to wait behind `maxQueuedJobs` others */
+  const queueIsFull = () => running >= concurrency && queue.length >= maxQueuedJobs;
+
+  const runJob = (job: ComicJob, jobConfig: Partial<Config>, provider: ImageProvider) => {
+    job.status = 'running';
+    job.startedAt = new Date().toISOString();
+    const { request } = job;
+    return generateGithubComic(job.subject, jobConfig, {
+      ...generateOptions,
+      repoCount: request.repoCount ?? generateOptions.repoCount,
+      style: {
+        ...generateOptions.style,
+        theme: request.theme ?? generateOptions.style?.theme,
+        panels: request.panels ?? generateOptions.style?.panels,
+        tone: request.tone ?? generateOptions.style?.tone,
+        artStyle: request.artStyle ?? generateOptions.style?.artStyle,
+        language: request.language ?? generateOptions.style?.language,
+      },
+      seed: request.seed ?? generateOptions.seed,
+      provider,
+      outputDir: path.join(outputDir, job.id),
+    });
+  };
+
+  const profileComics = options.profileComics
+    ? createProfileComics({
+      dir: path.join(outputDir, 'profiles'),
+      interval: options.profileComics.interval,
+      onError: options.profileComics.onError,
+      generate: async (login, userDir) => {
+        // Anyone may request a profile comic, so they share the queue limit with POST /comics
+        if (queueIsFull()) {
+          throw httpError(503, 'The job queue is full; try again later');
+        }
+        return enqueue(() => generateGithubComic(login, config, {
+          ...generateOptions,
+          provider: options.provider ?? createImageProvider(defaultProvider, { apiKey: config.AI_GATEWAY_API_KEY }),
+          // comic.png must be a PNG whatever the server's default formats are
+          output: { ...generateOptions.output, formats: ['png'], sidecar: false },
+          outputDir: userDir,
+        }));
+      },
+    })
+    : undefined;
+  const profileAllow = options.profileComics?.allow;
+  const allowedLogins = Array.isArray(profileAllow) ? profileAllow.map((login) => login.toLowerCase()) : undefined;
+
+  const createJob = async (req: http.IncomingMessage) => {
+    const parsed = comicRequestSchema.safeParse(await readJsonBody(req));
+    if (!parsed.success) {
+      const issues = parsed.error.issues.map((issue) => `${issue.path.join('.') || '(root)'}: ${issue.message}`);
+      throw httpError(400, 'Invalid request', issues);
+    }
+    const request = parsed.data;
+    if (queueIsFull()) {
+      throw httpError(503, 'The job queue is full; try again later');
+    }
+
+    let subject: string;
+    try {
+      subject = formatSubject(parseSubject(request.subject));
+    } catch (error) {
+      throw httpError(400, error instanceof Error ? error.message : String(error));
+    }
+
+    const gatewayKey = req.headers['x-ai-gateway-api-key'];
+    const githubToken = req.headers['x-github-token'];
+    if ((gatewayKey || githubToken) && !allowKeyPassthrough) {
+      throw httpError(400, 'API key passthrough is disabled on this server');
+    }
+    // Cached GitHub data is scoped by token, so a client's token never serves its data to another client
+    const jobConfig: Partial<Config> = {
+      ...config,
+      ...(typeof gatewayKey === 'string' && gatewayKey ? { AI_GATEWAY_API_KEY: gatewayKey } : {}),
+      ...(typeof githubToken === 'string' && githubToken ? { GITHUB_TOKEN: githubToken } : {}),
+    };
+
+    let provider: ImageProvider;
+    try {
+      provider = options.provider
+        ?? createImageProvider(request.provider ?? defaultProvider, { apiKey: jobConfig.AI_GATEWAY_API_KEY });
+    } catch (error) {
+      throw httpError(400, error instanceof Error ? error.message : String(error));
+    }
+
+    const job: ComicJob = {
+      id: randomUUID(),
+      status: 'queued',
+      subject,
+      request,
+      createdAt: new Date().toISOString(),
+    };
+    jobs.set(job.id, job);
+    enqueue(() => runJob(job, jobConfig, provider))
+      .then((result) => {
+        job.status = 'succeeded';
+        job.result = result;
+      })
+      .catch((error) => {
+        job.status = 'failed';
+        job.error = error instanceof Error ? error.message : String(error);
+      })
+      .finally(() => {
+        job.finishedAt = new Date().toISOString();
+      });
+    forgetOldJobs();
+    return job;
+  };
+
+  const sendImage = async (res: http.ServerResponse, job: ComicJob) => {
+    if (job.status !== 'succeeded' || !job.result) {
+      throw httpError(409, `Comic ${job.id} is ${job.status}`);
+    }
+    const { filePath } = job.result;
+    const mediaType = job.result.artifacts?.[0]?.mediaType ?? 'application/octet-stream';
+    const data = await fs.readFile(filePath);
+    res.writeHead(200, {
+      'Content-Type': mediaType,
+      'Content-Length': data.length,
+      'Content-Disposition': `inline; filename="${path.basename(filePath)}"`,
+      'Cache-Control': 'public, max-age=31536000, immutable',
+    });
+    res.end(data);
+  };
+
+  const sendProfileComic = async (
+    req: http.IncomingMessage,
+    res: http.ServerResponse,
+    login: string,
+    variant: (typeof PROFILE_VARIANTS)[number]
+  ) => {
+    let subject: ComicSubject;
+    try {
+      subject = parseSubject(login);
+    } catch (error) {
+      throw httpError(400, error instanceof Error ? error.message : String(error));
+    }
+    if (subject.type !== 'user') {
+      throw httpError(400, `Profile comics are only available for users, not ${formatSubject(subject)}`);
+    }
+    if (allowedLogins && !allowedLogins.includes(subject.login.toLowerCase())) {
+      throw httpError(403, `Profile comics are not enabled for ${subject.login}`);
+    }
+
+    const comic: ProfileComic = await profileComics!.latest(subject.login);
+    const generatedAt = new Date(comic.generatedAt);
+    // Caches may keep the file until the next refresh, but recheck at least hourly
+    const untilRefresh = Math.ceil((profileComics!.nextRefresh(comic).getTime() - Date.now()) / 1000);
+    const maxAge = Math.min(3600, Math.max(60, untilRefresh));
+    const etag = `"${generatedAt.getTime().toString(36)}-${variant}"`;
+
+    let image: GeneratedImage;
+    if (variant === 'badge.svg') {
+      image = renderComicBadge(comic.login, generatedAt);
+    } else if (variant === 'thumbnail.png') {
+      if (!comic.thumbnailPath) {
+        throw httpError(404, `No thumbnail for ${comic.login}'s comic`);
+      }
+      image = { data: new Uint8Array(await fs.readFile(comic.thumbnailPath)), mediaType: 'image/png' };
+    } else {
+      const data = new Uint8Array(await fs.readFile(comic.filePath));
+      image = { data, mediaType: comic.mediaType };
+      if (variant === 'comic.svg') {
+        image = wrapInSvg(image);
+      }
+    }
+    sendCachedImage(req, res, image, etag, generatedAt, maxAge);
+  };
+
+  const handle = async (req: http.IncomingMessage, res: http.ServerResponse) => {
+    const { pathname } = new URL(req.url ?? '/', 'http://localhost');
+
+    if (pathname === '/health') {
+      if (req.method !== 'GET') {
+        throw httpError(405, 'Method not allowed');
+      }
+      sendJson(res, 200, { status: 'ok', queued: queue.length, running });
+      return;
+    }
+
+    const profileMatch = profileComics && pathname.match(/^\/u\/([^/]+)\/([\w.]+)$/);
+    if (profileMatch && (PROFILE_VARIANTS as readonly string[]).includes(profileMatch[2])) {
+      if (req.method !== 'GET' && req.method !== 'HEAD') {
+        throw httpError(405, 'Method not allowed');
+      }
+      let login: string;
+      try {
+        login = decodeURIComponent(profileMatch[1]);
+      } catch (error) {
+        throw httpError(400, `Malformed login in URL: ${profileMatch[1]}`);
+      }
+      // README images are fetched anonymously, so these routes skip the bearer token
+      await sendProfileComic(req, res, login, profileMatch[2] as (typeof PROFILE_VARIANTS)[number]);
+      return;
+    }
+
+    if (authToken && !tokensMatch(authToken, req.headers.authorization)) {
+      throw httpError(401, 'Missing or invalid bearer token');
+    }
+
+    if (pathname === '/comics') {
+      if (req.method !== 'POST') {
+        throw httpError(405, 'Method not allowed');
+      }
+      const job = await createJob(req);
+      res.setHeader('Location', `/comics/${job.id}`);
+      sendJson(res, 202, describeJob(job));
+      return;
+    }
+
+    const match = pathname.match(/^\/comics\/([\w-]+)(\/image)?$/);
+    if (match) {
+      if (req.method !== 'GET') {
+        throw httpError(405, 'Method not allowed');
+      }
+      const job = jobs.get(match[1]);
+      if (!job) {
+        throw httpError(404, `Comic ${match[1]} not found`);
+      }
+      if (match[2]) {
+        await sendImage(res, job);
+      } else {
+        sendJson(res, 200, describeJob(job));
+      }
+      return;
+    }
+
+    throw httpError(404, 'Not found');
+  };
+
+  return http.createServer((req, res) => {
+    handle(req, res).catch((error) => {
+      const status = isHttpError(error) ? error.status : 500;
+      const message = error instanceof Error ? error.message : String(error);
+      if (!res.headersSent) {
+        sendJson(res, status, { error: { message, details: isHttpError(error) ? error.details : undefined } });
+      } else {
+        res.destroy();
+      }
+    });
+  });
+}
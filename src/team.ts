@@ -0,0 +1,111 @@
+import type { RepoInfo } from './index.js';
+
+/**
+ * How a comic features several users:
+ *
+ * - `team`: an ensemble story with every member's projects
+ * - `versus`: a friendly head-to-head comparing languages, stars and projects
+ */
+export const TEAM_MODES = ['team', 'versus'] as const;
+
+export type TeamMode = (typeof TEAM_MODES)[number];
+
+/** Fewest and most users a team or versus comic can feature */
+export const MIN_TEAM_SIZE = 2;
+export const MAX_TEAM_SIZE = 6;
+
+/**
+ * One user's repositories, ranked, as input to aggregateTeam
+ */
+export interface TeamMemberRepos {
+  login: string;
+  /** Repositories, best first, e.g. from selectRepositories */
+  repos: RepoInfo[];
+}
+
+/**
+ * What one member brings to the strip
+ */
+export interface TeamMember {
+  login: string;
+  /** Repositories counted */
+  repoCount: number;
+  /** Stars across all counted repositories */
+  stars: number;
+  /** Languages by number of repositories, most first */
+  languages: { language: string; repos: number }[];
+  /** Repositories featured in the strip, best first */
+  topRepos: RepoInfo[];
+}
+
+/**
+ * Several users side by side, for createTeamPrompt
+ */
+export interface TeamSummary {
+  mode: TeamMode;
+  members: TeamMember[];
+  /** Languages every member has at least one repository in */
+  sharedLanguages: string[];
+  /** Member ahead in each category, or null when the top spot is tied */
+  leaders: {
+    stars: string | null;
+    repos: string | null;
+    languages: string | null;
+  };
+}
+
+function countLanguages(repos: RepoInfo[]): TeamMember['languages'] {
+  const counts = new Map<string, number>();
+  for (const { language } of repos) {
+    if (language) {
+      counts.set(language, (counts.get(language) ?? 0) + 1);
+    }
+  }
+  return [...counts.entries()]
+    .map(([language, repos]) => ({ language, repos }))
+    .sort((a, b) => b.repos - a.repos || a.language.localeCompare(b.language));
+}
+
+function leader(members: TeamMember[], score: (member: TeamMember) => number): string | null {
+  const [first, second] = [...members].sort((a, b) => score(b) - score(a));
+  return first && (!second || score(first) > score(second)) ? first.login : null;
+}
+
+/**
+ * Sums up each member's repositories and finds who leads each category
+ *
+ * @param mode - Team or versus comic
+ * @param members - Each member's ranked repositories, in the order they should appear
+ * @param count - Repositories to feature per member (default: 3)
+ * @returns Team summary for createTeamPrompt
+ */
+export function aggregateTeam(mode: TeamMode, members: TeamMemberRepos[], count: number = 3): TeamSummary {
+  const summarized = members.map(({ login, repos }): TeamMember => ({
+    login,
+    repoCount: repos.length,
+    stars: repos.reduce((sum, repo) => sum + (repo.stargazers_count ?? 0), 0),
+    languages: countLanguages(repos),
+    topRepos: repos.slice(0, count),
+  }));
+
+  const [first, ...others] = summarized.map((member) => member.languages.map(({ language }) => language));
+  const sharedLanguages = (first ?? []).filter((language) => others.every((languages) => languages.includes(language)));
+
+  return {
+    mode,
+    members: summarized,
+    sharedLanguages,
+    leaders: {
+      stars: leader(summarized, (member) => member.stars),
+      repos: leader(summarized, (member) => member.repoCount),
+      languages: leader(summarized, (member) => member.languages.length),
+    },
+  };
+}
+
+/**
+ * Joins names for prompts, e.g. "alice, bob and carol"
+ */
+export function formatTeamNames(logins: string[]): string {
+  return logins.length > 1 ? `${logins.slice(0, -1).join(', ')} and ${logins.at(-1)}` : logins.join('');
+}
@@ -0,0 +1,232 @@
+import * as fs from 'fs/promises';
+import { ConfigError } from './errors.js';
+import type { RepoInfo } from './index.js';
+
+/**
+ * A built-in look and feel for comic prompts
+ */
+export interface ComicTheme {
+  /** Adjective describing the strip, e.g. "humorous" */
+  adjective: string;
+  /** Default art style sentence */
+  artStyle: string;
+  /** Default tone sentence */
+  tone: string;
+  /** Extra direction specific to the theme */
+  twist?: string;
+}
+
+export const THEMES = {
+  classic: {
+    adjective: 'humorous',
+    artStyle: 'Comic book style, colorful, fun and playful.',
+    tone: 'Make it lighthearted and encouraging.',
+  },
+  roast: {
+    adjective: 'savage but good-natured',
+    artStyle: 'Comic book style, bold colors, exaggerated caricatures.',
+    tone: 'Roast them mercilessly but affectionately, never cruel.',
+    twist: 'Poke fun at abandoned side projects, commit habits and star counts.',
+  },
+  superhero: {
+    adjective: 'epic superhero',
+    artStyle: 'Classic superhero comic style, dramatic angles, bright primary colors, action lines.',
+    tone: 'Make it heroic, bombastic and triumphant.',
+    twist: 'Cast the developer as a hero whose repositories are their superpowers.',
+  },
+  noir: {
+    adjective: 'moody film-noir',
+    artStyle: 'Black-and-white noir style, heavy shadows, rain-slicked streets, venetian blind lighting.',
+    tone: 'Use hard-boiled detective narration with dry wit.',
+    twist: 'Frame the coding journey as a case the detective is trying to crack.',
+  },
+  manga: {
+    adjective: 'dynamic manga-style',
+    artStyle: 'Japanese manga style, expressive characters, speed lines, screentone shading.',
+    tone: 'Make it energetic and earnest with over-the-top reactions.',
+  },
+  'retro-newspaper': {
+    adjective: 'classic Sunday-funnies',
+    artStyle: 'Vintage newspaper comic strip style, halftone dots, muted colors, hand-lettered captions.',
+    tone: 'Use gentle, wholesome humor with a punchline in the last panel.',
+  },
+  onboarding: {
+    adjective: 'friendly, welcoming',
+    artStyle: 'Clean, approachable illustration style with soft colors.',
+    tone: 'Make it encouraging and easy to follow for newcomers to the project.',
+    twist: 'Explain what the projects do so a new teammate understands them.',
+  },
+} satisfies Record<string, ComicTheme>;
+
+export type ThemeName = keyof typeof THEMES;
+
+export const THEME_NAMES = Object.keys(THEMES) as ThemeName[];
+
+export const MIN_PANELS = 1;
+export const MAX_PANELS = 8;
+
+/**
+ * Look-and-feel options shared by all prompt builders
+ */
+export interface ComicStyleOptions {
+  /** Built-in theme (default: 'classic') */
+  theme?: ThemeName;
+  /** Number of panels, 1–8 (default: 4) */
+  panels?: number;
+  /** Overrides the theme's tone sentence */
+  tone?: string;
+  /** Overrides the theme's art style sentence */
+  artStyle?: string;
+  /** Language for captions and dialogue, e.g. "Spanish" */
+  language?: string;
+  /** User-supplied template text with {{placeholders}}; replaces the built-in layout */
+  template?: string;
+}
+
+/**
+ * Style options with theme defaults applied
+ */
+export interface ResolvedComicStyle {
+  theme: ThemeName;
+  panels: number;
+  adjective: string;
+  artStyle: string;
+  tone: string;
+  twist?: string;
+  language?: string;
+  template?: string;
+}
+
+/**
+ * Subject-specific pieces a prompt builder hands to composePrompt
+ */
+export interface PromptParts {
+  /** Completes "Create a … comic strip <subject>", including the final period */
+  subject: string;
+  /** Body sections (repository list, facts, …) */
+  body: string;
+  /** How the panels should tell the story */
+  direction: string;
+  /** Values available to user templates as {{name}} */
+  values: Record<string, string>;
+  /** Repositories available to user templates as {{repos.N.field}} (1-based) */
+  repos?: RepoInfo[];
+}
+
+/**
+ * Resolves and validates style options, applying theme defaults
+ *
+ * @param options - Style options
+ * @returns Fully resolved style
+ * @throws ConfigError if the theme or panel count is invalid
+ */
+export function resolveComicStyle(options: ComicStyleOptions = {}): ResolvedComicStyle {
+  const themeName = options.theme ?? 'classic';
+  const theme: ComicTheme | undefined = THEMES[themeName];
+  if (!theme) {
+    throw new ConfigError(`Unknown theme: ${themeName}. Expected one of: ${THEME_NAMES.join(', ')}`);
+  }
+
+  const panels = options.panels ?? 4;
+  if (!Number.isInteger(panels) || panels < MIN_PANELS || panels > MAX_PANELS) {
+    throw new ConfigError(`panels must be an integer between ${MIN_PANELS} and ${MAX_PANELS}`);
+  }
+
+  return {
+    theme: themeName,
+    panels,
+    adjective: theme.adjective,
+    artStyle: options.artStyle ?? theme.artStyle,
+    tone: options.tone ?? theme.tone,
+    twist: theme.twist,
+    language: options.language,
+    template: options.template,
+  };
+}
+
+/**
+ * Replaces {{placeholders}} in a template. Supports plain names from `values`
+ * and 1-based repository fields such as {{repos.1.name}}.
+ *
+ * @param template - Template text
+ * @param values - Named values
+ * @param repos - Repositories for indexed placeholders
+ * @returns Rendered text
+ * @throws ConfigError if the template references an unknown placeholder
+ */
+export function renderTemplate(template: string, values: Record<string, string>, repos: RepoInfo[] = []): string {
+  return template.replace(/\{\{\s*([\w.-]+)\s*\}\}/g, (placeholder, key: string) => {
+    const repoField = key.match(/^repos\.(\d+)\.(name|description|stars|language|forks|topics)$/);
+    if (repoField) {
+      const repo = repos[Number(repoField[1]) - 1];
+      if (!repo) {
+        return '';
+      }
+      switch (repoField[2]) {
+        case 'name':
+          return repo.name;
+        case 'description':
+          return repo.description ?? '';
+        case 'stars':
+          return String(repo.stargazers_count ?? 0);
+        case 'language':
+          return repo.language ?? '';
+        case 'forks':
+          return String(repo.forks_count ?? 0);
+        case 'topics':
+          return (repo.topics ?? []).join(', ');
+      }
+    }
+
+    if (!Object.prototype.hasOwnProperty.call(values, key)) {
+      throw new ConfigError(`Unknown template placeholder: ${placeholder}`);
+    }
+    return values[key];
+  });
+}
+
+/**
+ * Reads a user-supplied prompt template from disk
+ *
+ * @param filePath - Path to the template file
+ * @returns Template text
+ * @throws ConfigError if the file is empty, or the file system error if it cannot be read
+ */
+export async function loadTemplateFile(filePath: string): Promise<string> {
+  const template = await fs.readFile(filePath, 'utf8');
+  if (template.trim().length === 0) {
+    throw new ConfigError(`Template file is empty: ${filePath}`);
+  }
+  return template;
+}
+
+/**
+ * Assembles the final prompt from subject-specific parts and style options
+ *
+ * @param parts - Pieces produced by a prompt builder
+ * @param options - Style options
+ * @returns Prompt text
+ */
+export function composePrompt(parts: PromptParts, options: ComicStyleOptions = {}): string {
+  const style = resolveComicStyle(options);
+  const strip = style.panels === 1 ? 'single-panel comic' : `${style.panels}-panel comic strip`;
+  const languageLine = style.language ? ` Write all captions and dialogue in ${style.language}.` : '';
+
+  if (style.template) {
+    return renderTemplate(style.template, {
+      ...parts.values,
+      panels: String(style.panels),
+      theme: style.theme,
+      style: style.artStyle,
+      tone: style.tone,
+      language: style.language ?? 'English',
+    }, parts.repos);
+  }
+
+  const direction = [parts.direction, style.twist].filter(Boolean).join(' ');
+
+  return `Create a ${style.adjective} ${strip} ${parts.subject}
+${parts.body}
+
+Style: ${style.artStyle} ${direction} ${style.tone}${languageLine}`;
+}
@@ -0,0 +1,60 @@
+/**
+ * Escapes text for use inside SVG/XML/HTML content
+ *
+ * @param text - Raw text
+ * @returns Escaped text
+ */
+export function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+/**
+ * Wraps text into lines of at most `width` characters. Words longer than
+ * `width` are split across lines.
+ *
+ * @param text - Text to wrap
+ * @param width - Maximum characters per line
+ * @returns Wrapped lines
+ */
+export function wrapText(text: string, width: number): string[] {
+  const lines: string[] = [];
+  let current = '';
+  for (let word of text.split(/\s+/).filter(Boolean)) {
+    while (word.length > width) {
+      if (current) {
+        lines.push(current);
+        current = '';
+      }
+      lines.push(word.slice(0, width));
+      word = word.slice(width);
+    }
+    if (current && current.length + word.length + 1 > width) {
+      lines.push(current);
+      current = word;
+    } else {
+      current = current ? `${current} ${word}` : word;
+    }
+  }
+  if (current) {
+    lines.push(current);
+  }
+  return lines;
+}
+
+/**
+ * Encodes text as a single file or directory name. Letters, digits, `.` and
+ * `-` are kept; any other character becomes `_` followed by the hex of each
+ * of its UTF-8 bytes, so different texts never share a name.
+ *
+ * @param text - Raw text, e.g. a formatted subject
+ * @returns Name that is safe on every file system
+ */
+export function encodeFileName(text: string): string {
+  return text.replace(/[^A-Za-z0-9.-]/gu, (char) =>
+    [...Buffer.from(char, 'utf8')].map((byte) => `_${byte.toString(16).padStart(2, '0')}`).join(''));
+}
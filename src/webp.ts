@@ -0,0 +1,287 @@
+import type { Bitmap } from './png.js';
+import { canonicalCodes, huffmanCodeLengths } from './huffman.js';
+
+/** Order in which code length code lengths are stored (VP8L specification) */
+const CODE_LENGTH_ORDER = [17, 18, 0, 1, 2, 3, 4, 5, 16, 6, 7, 8, 9, 10, 11, 12, 13, 14, 15];
+
+/** Alphabet sizes for the green/length, red, blue, alpha and distance codes without a color cache */
+const ALPHABET_SIZES = [256 + 24, 256, 256, 256, 40];
+
+/**
+ * Little-endian bit writer as used by the VP8L bitstream
+ */
+function createBitWriter() {
+  const bytes: number[] = [];
+  let accumulator = 0;
+  let bitCount = 0;
+
+  return {
+    write(value: number, bits: number): void {
+      accumulator |= value << bitCount;
+      bitCount += bits;
+      while (bitCount >= 8) {
+        bytes.push(accumulator & 0xff);
+        accumulator >>>= 8;
+        bitCount -= 8;
+      }
+    },
+    finish(): Uint8Array {
+      if (bitCount > 0) {
+        bytes.push(accumulator & 0xff);
+      }
+      return Uint8Array.from(bytes);
+    },
+  };
+}
+
+type BitWriter = ReturnType<typeof createBitWriter>;
+
+/** Prefix codes are read most significant bit first, so store them bit-reversed */
+function reverseBits(code: number, length: number): number {
+  let reversed = 0;
+  for (let i = 0; i < length; i++) {
+    reversed = (reversed << 1) | ((code >> i) & 1);
+  }
+  return reversed;
+}
+
+interface PrefixCode {
+  lengths: number[];
+  /** Bit-reversed codes, ready to write */
+  codes: number[];
+}
+
+/**
+ * Builds a prefix code for a histogram. A code with a single symbol takes zero
+ * bits per use, matching how decoders treat one-symbol codes.
+ */
+function buildPrefixCode(counts: number[], maxLength: number): PrefixCode {
+  const lengths = huffmanCodeLengths(counts, maxLength);
+  const used = lengths.filter((length) => length > 0).length;
+  if (used <= 1) {
+    return { lengths, codes: new Array<number>(lengths.length).fill(0) };
+  }
+  const codes = canonicalCodes(lengths).map((code, symbol) => reverseBits(code, lengths[symbol]));
+  return { lengths, codes };
+}
+
+function writeSymbol(writer: BitWriter, code: PrefixCode, symbol: number, zeroBits: boolean): void {
+  if (!zeroBits) {
+    writer.write(code.codes[symbol], code.lengths[symbol]);
+  }
+}
+
+/**
+ * Writes a prefix code definition and returns the code to use for the data
+ */
+function writePrefixCode(writer: BitWriter, counts: number[]): { code: PrefixCode; zeroBits: boolean } {
+  const used: number[] = [];
+  counts.forEach((count, symbol) => {
+    if (count > 0) {
+      used.push(symbol);
+    }
+  });
+  if (used.length === 0) {
+    used.push(0);
+  }
+
+  // Simple code: one or two 8-bit symbols
+  if (used.length <= 2 && used.every((symbol) => symbol < 256)) {
+    writer.write(1, 1);
+    writer.write(used.length - 1, 1);
+    if (used[0] <= 1) {
+      writer.write(0, 1);
+      writer.write(used[0], 1);
+    } else {
+      writer.write(1, 1);
+      writer.write(used[0], 8);
+    }
+    if (used.length === 2) {
+      writer.write(used[1], 8);
+    }
+
+    const lengths = new Array<number>(counts.length).fill(0);
+    const codes = new Array<number>(counts.length).fill(0);
+    for (const symbol of used) {
+      lengths[symbol] = 1;
+    }
+    // With two symbols the smaller one is code 0
+    if (used.length === 2) {
+      codes[used[1]] = 1;
+    }
+    return { code: { lengths, codes }, zeroBits: used.length === 1 };
+  }
+
+  // Normal code: code lengths are themselves prefix-coded
+  writer.write(0, 1);
+  const code = buildPrefixCode(counts, 15);
+
+  const lengthCounts = new Array<number>(19).fill(0);
+  for (const length of code.lengths) {
+    lengthCounts[length]++;
+  }
+  const lengthCode = buildPrefixCode(lengthCounts, 7);
+  const lengthCodeZeroBits = lengthCode.lengths.filter((length) => length > 0).length === 1;
+
+  let stored = CODE_LENGTH_ORDER.length;
+  while (stored > 4 && lengthCode.lengths[CODE_LENGTH_ORDER[stored - 1]] === 0) {
+    stored--;
+  }
+  writer.write(stored - 4, 4);
+  for (let i = 0; i < stored; i++) {
+    writer.write(lengthCode.lengths[CODE_LENGTH_ORDER[i]], 3);
+  }
+
+  // Lengths are given for the whole alphabet
+  writer.write(0, 1);
+  for (const length of code.lengths) {
+    writeSymbol(writer, lengthCode, length, lengthCodeZeroBits);
+  }
+
+  return { code, zeroBits: false };
+}
+
+/** Longest backward reference allowed by the format */
+const MAX_COPY_LENGTH = 4096;
+
+/** Shorter matches are cheaper as literals */
+const MIN_COPY_LENGTH = 3;
+
+/**
+ * Splits a length or distance into a prefix symbol and extra bits
+ */
+function prefixEncode(value: number): { symbol: number; extraBits: number; extraValue: number } {
+  const zeroBased = value - 1;
+  if (zeroBased < 2) {
+    return { symbol: zeroBased, extraBits: 0, extraValue: 0 };
+  }
+  const highestBit = 31 - Math.clz32(zeroBased);
+  const secondHighestBit = (zeroBased >> (highestBit - 1)) & 1;
+  const extraBits = highestBit - 1;
+  return {
+    symbol: 2 * highestBit + secondHighestBit,
+    extraBits,
+    extraValue: zeroBased & ((1 << extraBits) - 1),
+  };
+}
+
+/**
+ * A literal pixel, or a copy of `length` pixels from `distanceCode` back
+ * (code 1 is the pixel above, code 2 the pixel to the left)
+ */
+type Token = { pixel: number } | { length: number; distanceCode: number };
+
+/**
+ * Greedily replaces runs that repeat the previous pixel or the row above with
+ * backward references, which keeps flat comic artwork small
+ */
+function tokenize(pixels: Uint32Array, width: number): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < pixels.length) {
+    const limit = Math.min(MAX_COPY_LENGTH, pixels.length - i);
+    let leftRun = 0;
+    if (i >= 1) {
+      while (leftRun < limit && pixels[i + leftRun] === pixels[i + leftRun - 1]) {
+        leftRun++;
+      }
+    }
+    let aboveRun = 0;
+    if (i >= width) {
+      while (aboveRun < limit && pixels[i + aboveRun] === pixels[i + aboveRun - width]) {
+        aboveRun++;
+      }
+    }
+
+    const length = Math.max(leftRun, aboveRun);
+    if (length >= MIN_COPY_LENGTH) {
+      tokens.push({ length, distanceCode: leftRun >= aboveRun ? 2 : 1 });
+      i += length;
+    } else {
+      tokens.push({ pixel: pixels[i] });
+      i++;
+    }
+  }
+  return tokens;
+}
+
+/**
+ * Encodes an RGBA bitmap as a lossless WebP (VP8L) image. Uses per-image
+ * prefix codes and backward references to the previous pixel or row; no
+ * transforms or color cache.
+ *
+ * @param bitmap - Pixels to encode
+ * @returns WebP file bytes
+ */
+export function encodeWebp(bitmap: Bitmap): Buffer {
+  const { width, height, data } = bitmap;
+  if (data.length !== width * height * 4) {
+    throw new Error(`Bitmap data length ${data.length} does not match ${width}x${height} RGBA`);
+  }
+  if (width < 1 || height < 1 || width > 16384 || height > 16384) {
+    throw new Error(`WebP dimensions must be between 1 and 16384 pixels, got ${width}x${height}`);
+  }
+
+  // Pack each RGBA pixel into one number so runs can be compared cheaply
+  const pixels = new Uint32Array(width * height);
+  let hasAlpha = false;
+  for (let p = 0; p < pixels.length; p++) {
+    const offset = p * 4;
+    pixels[p] = ((data[offset + 3] << 24) | (data[offset] << 16) | (data[offset + 1] << 8) | data[offset + 2]) >>> 0;
+    hasAlpha ||= data[offset + 3] !== 255;
+  }
+  const tokens = tokenize(pixels, width);
+
+  // Histograms in VP8L order: green/length, red, blue, alpha, distance
+  const histograms = ALPHABET_SIZES.map((size) => new Array<number>(size).fill(0));
+  for (const token of tokens) {
+    if ('pixel' in token) {
+      histograms[0][(token.pixel >>> 8) & 0xff]++;
+      histograms[1][(token.pixel >>> 16) & 0xff]++;
+      histograms[2][token.pixel & 0xff]++;
+      histograms[3][token.pixel >>> 24]++;
+    } else {
+      histograms[0][256 + prefixEncode(token.length).symbol]++;
+      histograms[4][prefixEncode(token.distanceCode).symbol]++;
+    }
+  }
+
+  const writer = createBitWriter();
+  writer.write(0x2f, 8);
+  writer.write(width - 1, 14);
+  writer.write(height - 1, 14);
+  writer.write(hasAlpha ? 1 : 0, 1);
+  writer.write(0, 3); // version
+  writer.write(0, 1); // no transforms
+  writer.write(0, 1); // no color cache
+  writer.write(0, 1); // no meta prefix codes
+
+  const codes = histograms.map((counts) => writePrefixCode(writer, counts));
+
+  for (const token of tokens) {
+    if ('pixel' in token) {
+      writeSymbol(writer, codes[0].code, (token.pixel >>> 8) & 0xff, codes[0].zeroBits);
+      writeSymbol(writer, codes[1].code, (token.pixel >>> 16) & 0xff, codes[1].zeroBits);
+      writeSymbol(writer, codes[2].code, token.pixel & 0xff, codes[2].zeroBits);
+      writeSymbol(writer, codes[3].code, token.pixel >>> 24, codes[3].zeroBits);
+    } else {
+      const length = prefixEncode(token.length);
+      writeSymbol(writer, codes[0].code, 256 + length.symbol, codes[0].zeroBits);
+      writer.write(length.extraValue, length.extraBits);
+      const distance = prefixEncode(token.distanceCode);
+      writeSymbol(writer, codes[4].code, distance.symbol, codes[4].zeroBits);
+      writer.write(distance.extraValue, distance.extraBits);
+    }
+  }
+
+  const bitstream = writer.finish();
+  const padding = bitstream.length % 2;
+  const header = Buffer.alloc(20);
+  header.write('RIFF', 0, 'ascii');
+  header.writeUInt32LE(12 + bitstream.length + padding, 4);
+  header.write('WEBP', 8, 'ascii');
+  header.write('VP8L', 12, 'ascii');
+  header.writeUInt32LE(bitstream.length, 16);
+
+  return Buffer.concat([header, Buffer.from(bitstream), Buffer.alloc(padding)]);
+}
@@ -1,7 +1,7 @@
 import { defineConfig } from 'tsup';
 
 export default defineConfig({
-  entry: ['src/index.ts', 'src/cli.ts'],
+  entry: ['src/index.ts', 'src/cli.ts', 'src/action-main.ts'],
   outDir: 'dist',
   tsconfig: './tsconfig.build.json',
   sourcemap: true,
@@ -14,10 +14,12 @@ export default defineConfig({
     'path',
     'https',
     'http',
+    'child_process',
     'node-fetch',
     'zod',
     '@ai-sdk/google',
     'ai',
     'commander',
+    'yaml',
   ],
 });